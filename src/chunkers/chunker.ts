@@ -0,0 +1,76 @@
+import { FixedChunker } from "./fixedChunker.js";
+import { RecursiveChunker } from "./recursiveChunker.js";
+import { MarkdownChunker } from "./markdownChunker.js";
+import { Tokenizer } from "../tokenizers/tokenizer.js";
+
+/**
+ * Interface defining the options for configuring a chunker.
+ */
+export interface ChunkerOptions {
+  chunkSize: number; // The target number of tokens per chunk.
+  chunkOverlap: number; // The number of tokens to overlap between consecutive chunks.
+  tokenizer?: Tokenizer; // Measures chunkSize and chunkOverlap. Defaults to whitespace-separated words.
+}
+
+/**
+ * Interface defining the structure of a single chunk produced by the chunker.
+ */
+export interface ChunkResult {
+  content: string; // The textual content of the chunk.
+  index: number; // The sequential index of the chunk (0-based).
+  startOffset: number; // Character offset in the original text where the chunk starts (inclusive).
+  endOffset: number; // Character offset in the original text where the chunk ends (exclusive).
+  startLine: number; // 1-based line number of the chunk's first character in the original text.
+  endLine: number; // 1-based line number of the chunk's last character in the original text.
+  metadata: Record<string, any>; // Metadata associated with the chunk.
+}
+
+/**
+ * Defines the contract for a chunker.
+ * A chunker splits a document's text into an ordered list of chunks.
+ */
+export interface Chunker {
+  /**
+   * Splits the input text into chunks.
+   * @param text - The input string to be chunked.
+   * @param metadata - Optional metadata to be merged into each chunk's metadata.
+   * @returns An array of ChunkResult objects.
+   */
+  chunk(text: string, metadata?: Record<string, any>): ChunkResult[];
+}
+
+/**
+ * The available chunking strategies. The selected name is stored in each chunk's `chunkStrategy` column.
+ * - `fixed-size`: Fixed windows of tokens with overlap (see `FixedChunker`).
+ * - `recursive`: Paragraph, line, sentence and word aware splitting that preserves whitespace (see `RecursiveChunker`).
+ * - `markdown`: Heading-aware splitting that records each chunk's section path (see `MarkdownChunker`).
+ */
+export const CHUNK_STRATEGIES = [
+  "fixed-size",
+  "recursive",
+  "markdown",
+] as const;
+
+export type ChunkStrategy = (typeof CHUNK_STRATEGIES)[number];
+
+/**
+ * Creates the chunker implementing the given strategy.
+ *
+ * @param strategy - The chunking strategy to use.
+ * @param options - Size and overlap options passed to the chunker.
+ * @returns A `Chunker` for the strategy.
+ * @throws Error if the options are invalid for the chunker.
+ */
+export function createChunker(
+  strategy: ChunkStrategy,
+  options: ChunkerOptions
+): Chunker {
+  switch (strategy) {
+    case "fixed-size":
+      return new FixedChunker(options);
+    case "recursive":
+      return new RecursiveChunker(options);
+    case "markdown":
+      return new MarkdownChunker(options);
+  }
+}
@@ -1,40 +1,31 @@
-/**
- * Interface defining the options for configuring a chunker.
- */
-export interface ChunkerOptions {
-  chunkSize: number; // The target number of words/tokens per chunk.
-  chunkOverlap: number; // The number of words/tokens to overlap between consecutive chunks.
-}
+import { Chunker, ChunkerOptions, ChunkResult } from "./chunker.js";
+import { countWords, createLineLocator, trimSpan } from "./spans.js";
+import { Tokenizer, TokenSegment } from "../tokenizers/tokenizer.js";
+import { WordTokenizer } from "../tokenizers/wordTokenizer.js";
 
 /**
- * Interface defining the structure of a single chunk produced by the chunker.
- */
-export interface ChunkResult {
-  content: string; // The textual content of the chunk.
-  index: number; // The sequential index of the chunk (0-based).
-  metadata: Record<string, any>; // Metadata associated with the chunk.
-}
-
-/**
- * Implements a fixed-size chunking strategy based on word/token count.
- * It splits text into chunks of a specified number of words, with a defined overlap between them.
+ * Implements a fixed-size chunking strategy based on token count.
+ * It splits text into chunks of a specified number of tokens, with a defined overlap between them.
  *
- * NOTE: This implementation uses a simple whitespace-based split for words/tokens.
- * For production scenarios, a more sophisticated tokenizer that aligns with the
- * embedding model's tokenization (e.g., SentencePiece, WordPiece) is recommended.
+ * Tokens are counted with the configured tokenizer: whitespace-separated words by default, or a
+ * BPE encoding matching the embedding model. Chunks are cut only between the tokenizer's segments,
+ * and each chunk's whitespace is normalized to single spaces; its offsets still point at the
+ * original, unnormalized span.
  */
-export class FixedChunker {
+export class FixedChunker implements Chunker {
   private chunkSize: number;
   private chunkOverlap: number;
+  private tokenizer: Tokenizer;
 
   /**
    * Creates an instance of FixedChunker.
-   * @param options - Configuration options for the chunker, including chunkSize and chunkOverlap.
+   * @param options - Configuration options for the chunker, including chunkSize, chunkOverlap and the tokenizer.
    * @throws Error if chunkOverlap is not less than chunkSize.
    */
   constructor(options: ChunkerOptions) {
     this.chunkSize = options.chunkSize;
     this.chunkOverlap = options.chunkOverlap;
+    this.tokenizer = options.tokenizer ?? new WordTokenizer();
 
     // Validate that overlap is less than chunk size to ensure forward progress during chunking.
     if (this.chunkOverlap >= this.chunkSize) {
@@ -48,62 +39,90 @@ export class FixedChunker {
   }
 
   /**
-   * Splits the input text into fixed-size chunks based on word count.
+   * Splits the input text into fixed-size chunks based on token count.
    *
    * @param text - The input string to be chunked.
    * @param metadata - Optional metadata to be merged into each chunk's metadata.
    * @returns An array of ChunkResult objects.
    */
   chunk(text: string, metadata: Record<string, any> = {}): ChunkResult[] {
-    // Simple tokenization by splitting on whitespace. This treats each sequence of non-whitespace characters as a token.
-    // For more advanced use cases, consider a proper tokenizer library.
-    const tokens = text.split(/\s+/).filter((token) => token.length > 0); // Filter out empty strings from multiple spaces
-    const chunks: ChunkResult[] = [];
-
-    // If there are no tokens (e.g., empty or whitespace-only string), return no chunks.
-    if (tokens.length === 0) {
-      return chunks;
+    // Segment the text into the smallest units a chunk may be cut between. Oversized segments are
+    // cut down to the overlap size (or the chunk size) so that the overlap can be honored.
+    // Chunks never start or end with whitespace, but BPE encodings spend tokens on it between
+    // words, so blank segments are counted towards the segment that follows them.
+    const segments: TokenSegment[] = [];
+    let blankTokens = 0;
+    for (const segment of this.tokenizer.segment(
+      text,
+      0,
+      text.length,
+      this.chunkOverlap || this.chunkSize
+    )) {
+      if (!text.slice(segment.start, segment.end).trim()) {
+        blankTokens += segment.tokens;
+        continue;
+      }
+      segments.push({ ...segment, tokens: segment.tokens + blankTokens });
+      blankTokens = 0;
     }
+    const chunks: ChunkResult[] = [];
+    const lineAt = createLineLocator(text);
 
-    let currentChunkIndex = 0; // The 0-based index for the chunks array.
-    let currentTokenStartIndex = 0; // The starting index in the `tokens` array for the current chunk.
+    let start = 0; // The index in `segments` of the current chunk's first segment.
 
-    // Iterate through the tokens to create chunks.
-    while (currentTokenStartIndex < tokens.length) {
-      // Determine the end index for the current chunk's tokens.
-      const currentTokenEndIndex = Math.min(
-        currentTokenStartIndex + this.chunkSize,
-        tokens.length
-      );
+    // Iterate through the segments to create chunks.
+    while (start < segments.length) {
+      // Extend the chunk with segments until the next one would exceed the chunk size.
+      let end = start;
+      let tokenCount = 0;
+      while (
+        end < segments.length &&
+        (end === start || tokenCount + segments[end].tokens <= this.chunkSize)
+      ) {
+        tokenCount += segments[end].tokens;
+        end++;
+      }
 
-      // Slice the tokens array to get the tokens for the current chunk.
-      const chunkTokens = tokens.slice(
-        currentTokenStartIndex,
-        currentTokenEndIndex
-      );
-      const chunkContent = chunkTokens.join(" "); // Reconstruct the chunk content by joining tokens with spaces.
+      // Locate the chunk in the original text, then normalize whitespace to reconstruct its content.
+      const span = trimSpan(text, {
+        start: segments[start].start,
+        end: segments[end - 1].end,
+      })!; // Segments are non-blank, so the span is too.
+      const chunkContent = text
+        .slice(span.start, span.end)
+        .replace(/\s+/g, " ");
 
       // Add the newly created chunk to the list.
       chunks.push({
         content: chunkContent,
-        index: currentChunkIndex,
+        index: chunks.length,
+        startOffset: span.start,
+        endOffset: span.end,
+        startLine: lineAt(span.start),
+        endLine: lineAt(span.end - 1),
         metadata: {
           ...metadata, // Include any base metadata provided.
-          chunk_index: currentChunkIndex, // Add the specific index of this chunk.
-          word_count: chunkTokens.length, // Add the number of words/tokens in this chunk.
+          chunk_index: chunks.length, // Add the specific index of this chunk.
+          word_count: countWords(chunkContent), // Add the number of words in this chunk.
         },
       });
 
-      // Advance the starting token index for the next chunk.
-      // The advance is by chunkSize less the overlap, to create the overlapping effect.
-      currentTokenStartIndex += this.chunkSize - this.chunkOverlap;
-      currentChunkIndex++;
-
-      // If chunkSize equals chunkOverlap (which constructor should prevent, but as safeguard),
-      // or if no progress can be made, break to prevent infinite loops.
-      if (this.chunkSize - this.chunkOverlap <= 0) {
+      if (end >= segments.length) {
         break;
       }
+
+      // Start the next chunk with trailing segments totalling at most chunkOverlap tokens,
+      // always advancing past the current start to guarantee progress.
+      let next = end;
+      let overlapTokens = 0;
+      while (
+        next - 1 > start &&
+        overlapTokens + segments[next - 1].tokens <= this.chunkOverlap
+      ) {
+        next--;
+        overlapTokens += segments[next].tokens;
+      }
+      start = next;
     }
     return chunks;
   }
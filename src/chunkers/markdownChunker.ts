@@ -0,0 +1,246 @@
+import { Chunker, ChunkerOptions, ChunkResult } from "./chunker.js";
+import {
+  countWords,
+  createLineLocator,
+  mergeSpans,
+  Span,
+  splitRecursively,
+  trimSpan,
+} from "./spans.js";
+import { Tokenizer } from "../tokenizers/tokenizer.js";
+import { WordTokenizer } from "../tokenizers/wordTokenizer.js";
+
+/**
+ * A structural block of a Markdown document.
+ * Code and table blocks are atomic and never split across chunks.
+ */
+interface Block {
+  kind: "heading" | "code" | "table" | "text";
+  span: Span;
+  level?: number; // Heading level (1-6), for heading blocks.
+  title?: string; // Heading text, for heading blocks.
+}
+
+/**
+ * A heading and the blocks that follow it up to the next heading.
+ */
+interface Section {
+  path: string[]; // Titles of the enclosing headings, outermost first, ending with this section's own title.
+  level: number; // Level of this section's heading (0 for content before the first heading).
+  blocks: Block[];
+}
+
+const HEADING = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/;
+const FENCE_OPEN = /^ {0,3}(`{3,}|~{3,})/;
+const TABLE_ROW = /^\s*\|/;
+
+/**
+ * Splits a Markdown document into blocks, tracking the character span of each.
+ * Recognizes ATX headings (`#` to `######`), fenced code blocks (``` or ~~~), pipe tables
+ * and runs of other non-blank lines. Blank lines separate blocks and belong to none.
+ *
+ * @param text - The Markdown source.
+ * @returns The blocks in document order.
+ */
+function parseBlocks(text: string): Block[] {
+  // Record each line with its start and end offsets (end excludes the newline).
+  const lines: { text: string; start: number; end: number }[] = [];
+  let offset = 0;
+  for (const line of text.split("\n")) {
+    lines.push({ text: line, start: offset, end: offset + line.length });
+    offset += line.length + 1;
+  }
+
+  const blocks: Block[] = [];
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (line.text.trim() === "") {
+      i++;
+      continue;
+    }
+
+    const fence = FENCE_OPEN.exec(line.text);
+    if (fence) {
+      // Consume up to and including the closing fence (or the end of the document).
+      const marker = fence[1];
+      const closing = new RegExp(
+        `^ {0,3}${marker[0] === "`" ? "`" : "~"}{${marker.length},}[ \\t]*$`
+      );
+      let j = i + 1;
+      while (j < lines.length && !closing.test(lines[j].text)) {
+        j++;
+      }
+      const last = Math.min(j, lines.length - 1);
+      blocks.push({
+        kind: "code",
+        span: { start: line.start, end: lines[last].end },
+      });
+      i = last + 1;
+      continue;
+    }
+
+    const heading = HEADING.exec(line.text);
+    if (heading) {
+      blocks.push({
+        kind: "heading",
+        span: { start: line.start, end: line.end },
+        level: heading[1].length,
+        title: (heading[2] ?? "").trim(),
+      });
+      i++;
+      continue;
+    }
+
+    // Tables and plain text both run until a blank line or a line that starts another kind of block.
+    const kind = TABLE_ROW.test(line.text) ? "table" : "text";
+    let j = i + 1;
+    while (
+      j < lines.length &&
+      lines[j].text.trim() !== "" &&
+      !FENCE_OPEN.test(lines[j].text) &&
+      !HEADING.test(lines[j].text) &&
+      TABLE_ROW.test(lines[j].text) === (kind === "table")
+    ) {
+      j++;
+    }
+    blocks.push({
+      kind,
+      span: { start: line.start, end: lines[j - 1].end },
+    });
+    i = j;
+  }
+  return blocks;
+}
+
+/**
+ * Groups blocks into sections, one per heading, tracking the heading hierarchy.
+ *
+ * @param blocks - The blocks in document order.
+ * @returns The sections in document order. Content before the first heading forms a section with an empty path.
+ */
+function groupSections(blocks: Block[]): Section[] {
+  const sections: Section[] = [];
+  const stack: { level: number; title: string }[] = [];
+  let current: Section = { path: [], level: 0, blocks: [] };
+
+  for (const block of blocks) {
+    if (block.kind === "heading") {
+      if (current.blocks.length > 0) {
+        sections.push(current);
+      }
+      // Leave any headings at the same or a deeper level before descending.
+      while (
+        stack.length > 0 &&
+        stack[stack.length - 1].level >= block.level!
+      ) {
+        stack.pop();
+      }
+      stack.push({ level: block.level!, title: block.title! });
+      current = {
+        path: stack.map((entry) => entry.title),
+        level: block.level!,
+        blocks: [],
+      };
+    }
+    current.blocks.push(block);
+  }
+
+  if (current.blocks.length > 0) {
+    sections.push(current);
+  }
+  return sections;
+}
+
+/**
+ * Implements a heading-aware chunking strategy for Markdown documents.
+ * The document is split into sections at every heading and chunks never span two sections.
+ * Within a section, blocks are merged into chunks of up to `chunkSize` tokens; fenced code blocks
+ * and tables are kept whole (even if they exceed the chunk size), while oversized prose is split
+ * on line, sentence and word boundaries.
+ *
+ * Each chunk's metadata records its `section_path` (the titles of the enclosing headings, e.g.
+ * `["Setup", "Backend", "Indexes"]`) and `heading_level` (0 for content before the first heading).
+ */
+export class MarkdownChunker implements Chunker {
+  private chunkSize: number;
+  private chunkOverlap: number;
+  private tokenizer: Tokenizer;
+
+  /**
+   * Creates an instance of MarkdownChunker.
+   * @param options - Configuration options for the chunker, including chunkSize, chunkOverlap and the tokenizer measuring them.
+   * @throws Error if chunkOverlap is not less than chunkSize, or chunkSize is not positive.
+   */
+  constructor(options: ChunkerOptions) {
+    this.chunkSize = options.chunkSize;
+    this.chunkOverlap = options.chunkOverlap;
+    this.tokenizer = options.tokenizer ?? new WordTokenizer();
+
+    if (this.chunkOverlap >= this.chunkSize) {
+      throw new Error(
+        "Chunk overlap must be less than chunk size to ensure progression."
+      );
+    }
+    if (this.chunkSize <= 0) {
+      throw new Error("Chunk size must be a positive number.");
+    }
+  }
+
+  /**
+   * Splits Markdown text into section-aligned chunks.
+   *
+   * @param text - The Markdown source to be chunked.
+   * @param metadata - Optional metadata to be merged into each chunk's metadata.
+   * @returns An array of ChunkResult objects.
+   */
+  chunk(text: string, metadata: Record<string, any> = {}): ChunkResult[] {
+    const chunks: ChunkResult[] = [];
+    const lineAt = createLineLocator(text);
+
+    for (const section of groupSections(parseBlocks(text))) {
+      // Code blocks and tables are atomic; other blocks may be split further if too large.
+      const pieces = section.blocks.flatMap((block) =>
+        block.kind === "text"
+          ? splitRecursively(text, block.span, this.chunkSize, this.tokenizer)
+          : [block.span]
+      );
+
+      // Keep a heading together with the start of its content rather than as a chunk of its own.
+      if (section.blocks[0].kind === "heading" && pieces.length > 1) {
+        pieces.splice(0, 2, { start: pieces[0].start, end: pieces[1].end });
+      }
+
+      for (const span of mergeSpans(
+        text,
+        pieces,
+        this.chunkSize,
+        this.chunkOverlap,
+        this.tokenizer
+      )) {
+        const trimmed = trimSpan(text, span);
+        if (!trimmed) {
+          continue;
+        }
+        const content = text.slice(trimmed.start, trimmed.end);
+        chunks.push({
+          content,
+          index: chunks.length,
+          startOffset: trimmed.start,
+          endOffset: trimmed.end,
+          startLine: lineAt(trimmed.start),
+          endLine: lineAt(trimmed.end - 1),
+          metadata: {
+            ...metadata, // Include any base metadata provided.
+            chunk_index: chunks.length, // Add the specific index of this chunk.
+            word_count: countWords(content), // Add the number of words in this chunk.
+            section_path: section.path, // Titles of the enclosing headings, outermost first.
+            heading_level: section.level, // Level of the section's heading (0 before the first heading).
+          },
+        });
+      }
+    }
+    return chunks;
+  }
+}
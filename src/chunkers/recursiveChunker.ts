@@ -0,0 +1,96 @@
+import { Chunker, ChunkerOptions, ChunkResult } from "./chunker.js";
+import {
+  countWords,
+  createLineLocator,
+  mergeSpans,
+  Span,
+  splitRecursively,
+  trimSpan,
+} from "./spans.js";
+import { Tokenizer } from "../tokenizers/tokenizer.js";
+import { WordTokenizer } from "../tokenizers/wordTokenizer.js";
+
+/**
+ * Implements a recursive, structure-aware chunking strategy.
+ * Text is split on the coarsest boundary that keeps pieces within the chunk size, trying
+ * paragraph → line → sentence → word boundaries in turn, and the resulting pieces are then
+ * greedily merged back into chunks of up to `chunkSize` tokens. Consecutive chunks share up to
+ * `chunkOverlap` tokens of trailing pieces.
+ *
+ * Unlike `FixedChunker`, each chunk is an exact slice of the original text (trimmed at its
+ * edges), so newlines, indentation, code blocks and Markdown formatting are preserved.
+ */
+export class RecursiveChunker implements Chunker {
+  private chunkSize: number;
+  private chunkOverlap: number;
+  private tokenizer: Tokenizer;
+
+  /**
+   * Creates an instance of RecursiveChunker.
+   * @param options - Configuration options for the chunker, including chunkSize, chunkOverlap and the tokenizer measuring them.
+   * @throws Error if chunkOverlap is not less than chunkSize, or chunkSize is not positive.
+   */
+  constructor(options: ChunkerOptions) {
+    this.chunkSize = options.chunkSize;
+    this.chunkOverlap = options.chunkOverlap;
+    this.tokenizer = options.tokenizer ?? new WordTokenizer();
+
+    if (this.chunkOverlap >= this.chunkSize) {
+      throw new Error(
+        "Chunk overlap must be less than chunk size to ensure progression."
+      );
+    }
+    if (this.chunkSize <= 0) {
+      throw new Error("Chunk size must be a positive number.");
+    }
+  }
+
+  /**
+   * Splits the input text into chunks along paragraph, line, sentence and word boundaries.
+   *
+   * @param text - The input string to be chunked.
+   * @param metadata - Optional metadata to be merged into each chunk's metadata.
+   * @returns An array of ChunkResult objects.
+   */
+  chunk(text: string, metadata: Record<string, any> = {}): ChunkResult[] {
+    const lineAt = createLineLocator(text);
+    return this.chunkSpans(text, { start: 0, end: text.length }).map(
+      (span, index) => {
+        const content = text.slice(span.start, span.end);
+        return {
+          content,
+          index,
+          startOffset: span.start,
+          endOffset: span.end,
+          startLine: lineAt(span.start),
+          endLine: lineAt(span.end - 1),
+          metadata: {
+            ...metadata, // Include any base metadata provided.
+            chunk_index: index, // Add the specific index of this chunk.
+            word_count: countWords(content), // Add the number of words in this chunk.
+          },
+        };
+      }
+    );
+  }
+
+  /**
+   * Splits a span of the text into trimmed chunk spans.
+   *
+   * @param text - The full original text.
+   * @param span - The span of the text to chunk.
+   * @returns The non-empty chunk spans, trimmed of surrounding whitespace.
+   */
+  private chunkSpans(text: string, span: Span): Span[] {
+    const pieces = splitRecursively(text, span, this.chunkSize, this.tokenizer);
+    return mergeSpans(
+      text,
+      pieces,
+      this.chunkSize,
+      this.chunkOverlap,
+      this.tokenizer
+    )
+      .map((chunk) => trimSpan(text, chunk))
+      .filter((chunk): chunk is Span => chunk !== undefined);
+  }
+}
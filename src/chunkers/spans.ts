@@ -0,0 +1,229 @@
+import { Tokenizer } from "../tokenizers/tokenizer.js";
+
+/**
+ * A contiguous range `[start, end)` of character offsets into an original text.
+ * Span-based chunkers build chunks as slices of the source, so its formatting is preserved.
+ */
+export interface Span {
+  start: number;
+  end: number;
+}
+
+// Boundaries tried in order, from the coarsest to the finest. Each match is kept attached to
+// the text before it, so the pieces of a span always concatenate back to the original text.
+const SEPARATORS: RegExp[] = [
+  /\n[^\S\n]*\n\s*/g, // Paragraphs: one or more blank lines.
+  /\n/g, // Lines.
+  /(?<=[.!?…。！？])\s+/g, // Sentences: whitespace following terminal punctuation.
+  /\s+/g, // Words.
+];
+
+/**
+ * Builds a lookup from character offsets to 1-based line numbers in a text.
+ *
+ * @param text - The full original text.
+ * @returns A function returning the line number containing the given offset.
+ */
+export function createLineLocator(text: string): (offset: number) => number {
+  const lineStarts = [0];
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === "\n") {
+      lineStarts.push(i + 1);
+    }
+  }
+
+  return (offset: number) => {
+    // Binary search for the last line starting at or before the offset.
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (lineStarts[mid] <= offset) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+    return low + 1;
+  };
+}
+
+/**
+ * Counts the whitespace-separated words in a string.
+ * @param text - The text to count.
+ * @returns The number of words.
+ */
+export function countWords(text: string): number {
+  return text.match(/\S+/g)?.length ?? 0;
+}
+
+/**
+ * Recursively splits a span into pieces that each fit within `maxTokens`, trying paragraph →
+ * line → sentence → word boundaries and only descending to a finer boundary for pieces that
+ * are still too large. A single word that is still too large (e.g. a long URL, or CJK text
+ * without spaces) is finally cut between the tokenizer's own segments.
+ *
+ * @param text - The full original text.
+ * @param span - The span of the text to split.
+ * @param maxTokens - The maximum number of tokens per piece.
+ * @param tokenizer - The tokenizer measuring piece sizes.
+ * @param level - The index of the boundary to start with (0 = paragraphs).
+ * @returns Ordered pieces covering the span.
+ */
+export function splitRecursively(
+  text: string,
+  span: Span,
+  maxTokens: number,
+  tokenizer: Tokenizer,
+  level = 0
+): Span[] {
+  if (tokenizer.count(text.slice(span.start, span.end)) <= maxTokens) {
+    return [span];
+  }
+  if (level >= SEPARATORS.length) {
+    return splitByTokens(text, span, maxTokens, tokenizer);
+  }
+
+  // Cut the span after each separator match.
+  const separator = new RegExp(SEPARATORS[level].source, "g");
+  separator.lastIndex = span.start;
+  const pieces: Span[] = [];
+  let pieceStart = span.start;
+  let match: RegExpExecArray | null;
+  while ((match = separator.exec(text)) !== null) {
+    const matchEnd = match.index + match[0].length;
+    if (matchEnd > span.end) {
+      break;
+    }
+    if (match.index > pieceStart) {
+      pieces.push({ start: pieceStart, end: matchEnd });
+      pieceStart = matchEnd;
+    }
+  }
+  if (pieceStart < span.end) {
+    pieces.push({ start: pieceStart, end: span.end });
+  }
+
+  // No boundary of this kind inside the span: try the next, finer one.
+  if (pieces.length <= 1) {
+    return splitRecursively(text, span, maxTokens, tokenizer, level + 1);
+  }
+
+  return pieces.flatMap((piece) =>
+    splitRecursively(text, piece, maxTokens, tokenizer, level + 1)
+  );
+}
+
+/**
+ * Cuts a span between tokenizer segments into pieces of at most `maxTokens` tokens.
+ *
+ * @param text - The full original text.
+ * @param span - The span of the text to cut.
+ * @param maxTokens - The maximum number of tokens per piece.
+ * @param tokenizer - The tokenizer providing the segments.
+ * @returns The pieces in order.
+ */
+function splitByTokens(
+  text: string,
+  span: Span,
+  maxTokens: number,
+  tokenizer: Tokenizer
+): Span[] {
+  const pieces: Span[] = [];
+  let current: Span | undefined;
+  let currentTokens = 0;
+
+  for (const segment of tokenizer.segment(
+    text,
+    span.start,
+    span.end,
+    maxTokens
+  )) {
+    if (current && currentTokens + segment.tokens > maxTokens) {
+      pieces.push(current);
+      current = undefined;
+    }
+    if (!current) {
+      current = { start: segment.start, end: segment.end };
+      currentTokens = 0;
+    }
+    current.end = segment.end;
+    currentTokens += segment.tokens;
+  }
+  if (current) {
+    pieces.push(current);
+  }
+  return pieces;
+}
+
+/**
+ * Greedily merges consecutive pieces into chunks of at most `chunkSize` tokens, starting each
+ * new chunk with trailing pieces of the previous one totalling at most `chunkOverlap` tokens.
+ * Pieces are never split, so a piece larger than `chunkSize` becomes a chunk of its own.
+ *
+ * @param text - The full original text.
+ * @param pieces - Ordered pieces of the text.
+ * @param chunkSize - The maximum number of tokens per chunk.
+ * @param chunkOverlap - The maximum number of tokens carried over between chunks.
+ * @param tokenizer - The tokenizer measuring piece sizes.
+ * @returns The spans of the merged chunks.
+ */
+export function mergeSpans(
+  text: string,
+  pieces: Span[],
+  chunkSize: number,
+  chunkOverlap: number,
+  tokenizer: Tokenizer
+): Span[] {
+  const chunks: Span[] = [];
+  let current: { span: Span; tokens: number }[] = [];
+  let currentTokens = 0;
+
+  for (const span of pieces) {
+    const tokens = tokenizer.count(text.slice(span.start, span.end));
+
+    if (current.length > 0 && currentTokens + tokens > chunkSize) {
+      chunks.push({
+        start: current[0].span.start,
+        end: current[current.length - 1].span.end,
+      });
+
+      // Drop pieces from the front until the remainder fits the overlap and leaves room for the new piece.
+      while (
+        current.length > 0 &&
+        (currentTokens > chunkOverlap || currentTokens + tokens > chunkSize)
+      ) {
+        currentTokens -= current.shift()!.tokens;
+      }
+    }
+
+    current.push({ span, tokens });
+    currentTokens += tokens;
+  }
+
+  if (current.length > 0) {
+    chunks.push({
+      start: current[0].span.start,
+      end: current[current.length - 1].span.end,
+    });
+  }
+  return chunks;
+}
+
+/**
+ * Narrows a span to exclude leading and trailing whitespace.
+ *
+ * @param text - The full original text.
+ * @param span - The span to trim.
+ * @returns The trimmed span, or undefined if the span contains only whitespace.
+ */
+export function trimSpan(text: string, span: Span): Span | undefined {
+  let { start, end } = span;
+  while (start < end && /\s/.test(text[start])) {
+    start++;
+  }
+  while (end > start && /\s/.test(text[end - 1])) {
+    end--;
+  }
+  return start < end ? { start, end } : undefined;
+}
@@ -1,63 +1,512 @@
 // src/config.ts
 import dotenv from "dotenv";
+import path from "node:path";
+import { TOKENIZER_NAMES, TokenizerName } from "./tokenizers/tokenizer.js";
 
 // Load environment variables from a .env file into process.env
 dotenv.config();
 
+/**
+ * The embedding backends RagLit knows how to talk to.
+ * - `openai`: The hosted OpenAI embeddings API.
+ * - `openai-compatible`: Any server exposing an OpenAI-style `/embeddings` endpoint (Ollama, vLLM, LM Studio, ...).
+ * - `local`: A deterministic, dependency-free hashing embedder that runs fully offline (useful for tests and air-gapped setups).
+ */
+export type EmbeddingProviderType = "openai" | "openai-compatible" | "local";
+
+const EMBEDDING_PROVIDER_TYPES: EmbeddingProviderType[] = [
+  "openai",
+  "openai-compatible",
+  "local",
+];
+
+/**
+ * The stores RagLit can keep chunks in.
+ * - `postgrest`: PostgreSQL with pgvector behind PostgREST (or Supabase).
+ * - `memory`: Process memory; nothing survives a restart (useful for tests and demos).
+ * - `sqlite`: A local SQLite database file, searched in process.
+ * - `qdrant`: A Qdrant collection, through its REST API.
+ * - `chroma`: A Chroma collection, through its v2 REST API.
+ */
+export type StorageBackend =
+  "postgrest" | "memory" | "sqlite" | "qdrant" | "chroma";
+
+const STORAGE_BACKENDS: StorageBackend[] = [
+  "postgrest",
+  "memory",
+  "sqlite",
+  "qdrant",
+  "chroma",
+];
+
+/**
+ * How RagLit talks to MCP clients.
+ * - `stdio`: Standard input and output of a process spawned by the client (the default).
+ * - `http`: An HTTP server shared by many clients, speaking Streamable HTTP with a legacy SSE fallback.
+ */
+export type TransportType = "stdio" | "http";
+
+const TRANSPORT_TYPES: TransportType[] = ["stdio", "http"];
+
+/**
+ * The rerankers RagLit can apply to search results.
+ * - `lexical`: A built-in BM25 keyword-overlap reranker that runs fully offline.
+ * - `http`: A cross-encoder served over HTTP with a Cohere-style `/rerank` endpoint (a local rerank server, Cohere, Jina, ...).
+ */
+export type RerankProviderType = "lexical" | "http";
+
+const RERANK_PROVIDER_TYPES: RerankProviderType[] = ["lexical", "http"];
+
 /**
  * Defines the structure for the application's configuration.
  * This interface ensures that all necessary configuration values are present and correctly typed.
  */
 export interface AppConfig {
+  /** Configuration for the connection to MCP clients. */
+  transport: {
+    /** How clients connect (MCP_TRANSPORT). Defaults to 'stdio'. */
+    type: TransportType;
+    /** The interface the HTTP server listens on (MCP_HTTP_HOST). Defaults to '127.0.0.1'. */
+    host: string;
+    /** The port the HTTP server listens on (MCP_HTTP_PORT). Defaults to 8080. */
+    port: number;
+    /** Bearer token clients must send (MCP_AUTH_TOKEN). Required unless the host is a loopback address. */
+    authToken?: string;
+    /** Browser origins allowed to call the HTTP server (MCP_CORS_ORIGINS, comma-separated, '*' for any). Defaults to none. */
+    corsOrigins: string[];
+    /** Milliseconds after which an idle HTTP session is closed (MCP_SESSION_IDLE_TIMEOUT_MS). Defaults to 1800000. */
+    sessionIdleTimeoutMs: number;
+  };
+  /** Configuration for the chunk store. */
+  storage: {
+    /** Which store holds the chunks (STORAGE_BACKEND). Defaults to 'postgrest'. */
+    backend: StorageBackend;
+    /** The database file of the 'sqlite' backend (SQLITE_PATH). Defaults to './raglit.db'. */
+    sqlitePath: string;
+    /** Connection to the 'qdrant' backend. */
+    qdrant: {
+      /** The Qdrant URL (QDRANT_URL). Defaults to 'http://localhost:6333'. */
+      url: string;
+      /** Optional API key (QDRANT_API_KEY). */
+      apiKey?: string;
+      /** The collection holding the chunks (QDRANT_COLLECTION). Defaults to 'raglit'. */
+      collection: string;
+    };
+    /** Connection to the 'chroma' backend. */
+    chroma: {
+      /** The Chroma URL (CHROMA_URL). Defaults to 'http://localhost:8000'. */
+      url: string;
+      /** Optional token, sent as a bearer token (CHROMA_API_KEY). */
+      apiKey?: string;
+      /** The tenant (CHROMA_TENANT). Defaults to 'default_tenant'. */
+      tenant: string;
+      /** The database (CHROMA_DATABASE). Defaults to 'default_database'. */
+      database: string;
+      /** The collection holding the chunks (CHROMA_COLLECTION). Defaults to 'raglit'. */
+      collection: string;
+    };
+  };
   /** Configuration for the external PostgREST API used by the RestApiChunkRepository. */
   postgrest: {
-    /** The base URL of the PostgREST API. This is a required environment variable (EXTERNAL_API_URL). */
+    /** The base URL of the PostgREST API (EXTERNAL_API_URL). Required for the 'postgrest' backend. */
     baseUrl: string;
     /** Optional API key for authenticating with the PostgREST API (EXTERNAL_API_KEY). */
     apiKey?: string;
   };
-  /** Configuration for the embedding service (e.g., OpenAI). */
+  /** Configuration for the embedding service. */
   embedding: {
-    /** API key for the embedding service. This is a required environment variable (OPENAI_API_KEY). */
-    apiKey: string;
+    /** Which embedding backend to use (EMBEDDING_PROVIDER). Defaults to 'openai'. */
+    provider: EmbeddingProviderType;
+    /** API key for the embedding service (OPENAI_API_KEY, or EMBEDDING_API_KEY for compatible servers). Required for 'openai'. */
+    apiKey?: string;
+    /** Base URL of the embeddings API (EMBEDDING_BASE_URL). Defaults to 'https://api.openai.com/v1'. */
+    baseUrl: string;
     /** The model to be used for generating embeddings (EMBEDDING_MODEL). Defaults to 'text-embedding-3-small'. */
     model: string;
+    /** Optional output dimension of the embeddings (EMBEDDING_DIMENSIONS). The local provider defaults to 1536. */
+    dimensions?: number;
+    /** The tokenizer matching the embedding model (EMBEDDING_TOKENIZER). Defaults to 'cl100k_base'. */
+    tokenizer: TokenizerName;
+    /** The maximum number of tokens the model accepts per input (EMBEDDING_MAX_INPUT_TOKENS). Defaults to 8191. */
+    maxInputTokens: number;
+    /** Directory of the persistent embedding cache (EMBEDDING_CACHE_DIR). Caching is off when unset. */
+    cacheDir?: string;
+    /** The most embeddings kept in the cache (EMBEDDING_CACHE_MAX_ENTRIES). Defaults to 10000. */
+    cacheMaxEntries: number;
+  };
+  /** Configuration for chunking documents. */
+  chunking: {
+    /** The default tokenizer measuring chunkSize and chunkOverlap (CHUNK_TOKENIZER). Defaults to 'word'. */
+    tokenizer: TokenizerName;
+  };
+  /** Where the ingest_file and sync_directory tools may read documents from. */
+  sources: {
+    /** The directory files are read from (INGEST_ROOT). Relative paths resolve against it, and paths outside it are refused. Defaults to the working directory. */
+    root: string;
+    /** Hosts documents may be downloaded from (INGEST_URL_ALLOWED_HOSTS, comma-separated, '*.example.com' for subdomains, '*' for any). Downloading is off when empty, the default. */
+    allowedHosts: string[];
+    /** The largest document downloaded from a URL, in bytes (INGEST_URL_MAX_BYTES). Defaults to 52428800 (50 MiB). */
+    maxDownloadBytes: number;
+  };
+  /** Configuration for the chunk ingestion pipeline. */
+  ingestion: {
+    /** The maximum number of chunks embedded per API request (EMBEDDING_BATCH_SIZE). Defaults to 64. */
+    batchSize: number;
+    /** The number of batches embedded and stored concurrently (EMBEDDING_CONCURRENCY). Defaults to 2. */
+    concurrency: number;
+    /** The maximum estimated tokens sent per embedding request (EMBEDDING_MAX_TOKENS_PER_REQUEST). Defaults to 100000. */
+    maxTokensPerRequest: number;
+  };
+  /** Configuration for reranking search results. */
+  rerank: {
+    /** Which reranker to use when a search requests reranking (RERANK_PROVIDER). Defaults to 'lexical'. */
+    provider: RerankProviderType;
+    /** Base URL of the rerank API (RERANK_BASE_URL). Required for 'http'. */
+    baseUrl: string;
+    /** Optional API key for the rerank API (RERANK_API_KEY). */
+    apiKey?: string;
+    /** The reranking model to request (RERANK_MODEL). Required for 'http'. */
+    model: string;
+    /** The default number of candidates fetched for reranking (RERANK_CANDIDATES). Defaults to 50. */
+    candidates: number;
+  };
+  /** Retry and circuit breaker settings shared by the embedding, rerank and repository HTTP clients. */
+  retry: {
+    /** Retries after the first attempt for transient failures (HTTP_MAX_RETRIES). Defaults to 3. */
+    maxRetries: number;
+    /** Base delay for exponential backoff in milliseconds (HTTP_RETRY_BASE_DELAY_MS). Defaults to 500. */
+    baseDelayMs: number;
+    /** Upper bound for a single backoff delay in milliseconds (HTTP_RETRY_MAX_DELAY_MS). Defaults to 30000. */
+    maxDelayMs: number;
+    /** Consecutive failures that open the circuit breaker (CIRCUIT_BREAKER_THRESHOLD). Defaults to 5. */
+    circuitBreakerThreshold: number;
+    /** Milliseconds the circuit stays open before a trial request (CIRCUIT_BREAKER_RESET_MS). Defaults to 30000. */
+    circuitBreakerResetMs: number;
+  };
+}
+
+/**
+ * Parses an optional positive integer environment variable.
+ *
+ * @param name - The name of the environment variable.
+ * @returns The parsed integer, or undefined if the variable is not set.
+ * @throws Error if the variable is set but is not a positive integer.
+ */
+function readPositiveInt(name: string): number | undefined {
+  const raw = process.env[name];
+  if (raw === undefined || raw === "") {
+    return undefined;
+  }
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value <= 0) {
+    throw new Error(`${name} must be a positive integer, got "${raw}".`);
+  }
+  return value;
+}
+
+/**
+ * Parses an optional non-negative integer environment variable.
+ *
+ * @param name - The name of the environment variable.
+ * @returns The parsed integer, or undefined if the variable is not set.
+ * @throws Error if the variable is set but is not a non-negative integer.
+ */
+function readNonNegativeInt(name: string): number | undefined {
+  const raw = process.env[name];
+  if (raw === undefined || raw === "") {
+    return undefined;
+  }
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 0) {
+    throw new Error(`${name} must be a non-negative integer, got "${raw}".`);
+  }
+  return value;
+}
+
+/**
+ * Parses an optional tokenizer name environment variable.
+ *
+ * @param name - The name of the environment variable.
+ * @returns The tokenizer name, or undefined if the variable is not set.
+ * @throws Error if the variable is set to an unknown tokenizer.
+ */
+function readTokenizerName(name: string): TokenizerName | undefined {
+  const raw = process.env[name];
+  if (raw === undefined || raw === "") {
+    return undefined;
+  }
+  if (!(TOKENIZER_NAMES as readonly string[]).includes(raw)) {
+    throw new Error(
+      `${name} must be one of ${TOKENIZER_NAMES.join(", ")}, got "${raw}".`
+    );
+  }
+  return raw as TokenizerName;
+}
+
+/**
+ * Loads and validates the embedding section of the configuration.
+ * Only the settings required by the selected provider are enforced.
+ *
+ * @returns The embedding configuration.
+ * @throws Error if the provider is unknown or its required settings are missing.
+ */
+function loadEmbeddingConfig(): AppConfig["embedding"] {
+  const provider = (process.env.EMBEDDING_PROVIDER ||
+    "openai") as EmbeddingProviderType;
+  if (!EMBEDDING_PROVIDER_TYPES.includes(provider)) {
+    throw new Error(
+      `EMBEDDING_PROVIDER must be one of ${EMBEDDING_PROVIDER_TYPES.join(
+        ", "
+      )}, got "${provider}".`
+    );
+  }
+
+  const dimensions = readPositiveInt("EMBEDDING_DIMENSIONS");
+  const tokenizer = readTokenizerName("EMBEDDING_TOKENIZER") ?? "cl100k_base";
+  const maxInputTokens = readPositiveInt("EMBEDDING_MAX_INPUT_TOKENS") ?? 8191;
+  const cacheDir = process.env.EMBEDDING_CACHE_DIR || undefined;
+  const cacheMaxEntries =
+    readPositiveInt("EMBEDDING_CACHE_MAX_ENTRIES") ?? 10000;
+
+  switch (provider) {
+    case "openai": {
+      // Validate and retrieve OPENAI_API_KEY
+      const openAiApiKey = process.env.OPENAI_API_KEY;
+      if (!openAiApiKey) {
+        throw new Error(
+          "OPENAI_API_KEY environment variable is required for generating embeddings."
+        );
+      }
+      return {
+        provider,
+        apiKey: openAiApiKey, // Required: API key for OpenAI
+        baseUrl: process.env.EMBEDDING_BASE_URL || "https://api.openai.com/v1",
+        model: process.env.EMBEDDING_MODEL || "text-embedding-3-small", // Default embedding model
+        dimensions,
+        tokenizer,
+        maxInputTokens,
+        cacheDir,
+        cacheMaxEntries,
+      };
+    }
+    case "openai-compatible": {
+      const baseUrl = process.env.EMBEDDING_BASE_URL;
+      if (!baseUrl) {
+        throw new Error(
+          "EMBEDDING_BASE_URL environment variable is required when EMBEDDING_PROVIDER is 'openai-compatible' (e.g. http://localhost:11434/v1 for Ollama)."
+        );
+      }
+      const model = process.env.EMBEDDING_MODEL;
+      if (!model) {
+        throw new Error(
+          "EMBEDDING_MODEL environment variable is required when EMBEDDING_PROVIDER is 'openai-compatible'."
+        );
+      }
+      return {
+        provider,
+        // Most self-hosted servers do not require a key, so it is optional here.
+        apiKey: process.env.EMBEDDING_API_KEY || process.env.OPENAI_API_KEY,
+        baseUrl,
+        model,
+        dimensions,
+        tokenizer,
+        maxInputTokens,
+        cacheDir,
+        cacheMaxEntries,
+      };
+    }
+    case "local":
+      return {
+        provider,
+        baseUrl: "",
+        model: process.env.EMBEDDING_MODEL || "local-hash",
+        dimensions: dimensions ?? 1536, // Matches the default VECTOR(1536) column
+        tokenizer,
+        maxInputTokens,
+        cacheDir,
+        cacheMaxEntries,
+      };
+  }
+}
+
+/**
+ * Loads and validates the transport section of the configuration.
+ *
+ * @returns The transport configuration.
+ * @throws Error if the transport or port is invalid, or if the HTTP server would listen beyond
+ * the loopback interface without an auth token.
+ */
+function loadTransportConfig(): AppConfig["transport"] {
+  const type = (process.env.MCP_TRANSPORT || "stdio") as TransportType;
+  if (!TRANSPORT_TYPES.includes(type)) {
+    throw new Error(
+      `MCP_TRANSPORT must be one of ${TRANSPORT_TYPES.join(
+        ", "
+      )}, got "${type}".`
+    );
+  }
+
+  const host = process.env.MCP_HTTP_HOST || "127.0.0.1";
+  const port = readPositiveInt("MCP_HTTP_PORT") ?? 8080;
+  if (port > 65535) {
+    throw new Error(`MCP_HTTP_PORT must be at most 65535, got "${port}".`);
+  }
+
+  const authToken = process.env.MCP_AUTH_TOKEN || undefined;
+  const loopback = ["127.0.0.1", "::1", "localhost"].includes(host);
+  if (type === "http" && !authToken && !loopback) {
+    throw new Error(
+      `MCP_AUTH_TOKEN is required when the HTTP server listens on "${host}". Set a token, or MCP_HTTP_HOST=127.0.0.1 to only accept local connections.`
+    );
+  }
+
+  return {
+    type,
+    host,
+    port,
+    authToken,
+    corsOrigins: (process.env.MCP_CORS_ORIGINS || "")
+      .split(",")
+      .map((origin) => origin.trim())
+      .filter(Boolean),
+    sessionIdleTimeoutMs:
+      readPositiveInt("MCP_SESSION_IDLE_TIMEOUT_MS") ?? 30 * 60 * 1000,
   };
 }
 
+/**
+ * Loads and validates the storage section of the configuration.
+ *
+ * @returns The storage configuration.
+ * @throws Error if the backend is unknown.
+ */
+function loadStorageConfig(): AppConfig["storage"] {
+  const backend = (process.env.STORAGE_BACKEND ||
+    "postgrest") as StorageBackend;
+  if (!STORAGE_BACKENDS.includes(backend)) {
+    throw new Error(
+      `STORAGE_BACKEND must be one of ${STORAGE_BACKENDS.join(
+        ", "
+      )}, got "${backend}".`
+    );
+  }
+  return {
+    backend,
+    sqlitePath: process.env.SQLITE_PATH || "./raglit.db",
+    qdrant: {
+      url: process.env.QDRANT_URL || "http://localhost:6333",
+      apiKey: process.env.QDRANT_API_KEY,
+      collection: process.env.QDRANT_COLLECTION || "raglit",
+    },
+    chroma: {
+      url: process.env.CHROMA_URL || "http://localhost:8000",
+      apiKey: process.env.CHROMA_API_KEY,
+      tenant: process.env.CHROMA_TENANT || "default_tenant",
+      database: process.env.CHROMA_DATABASE || "default_database",
+      collection: process.env.CHROMA_COLLECTION || "raglit",
+    },
+  };
+}
+
+/**
+ * Loads and validates the rerank section of the configuration.
+ *
+ * @returns The rerank configuration.
+ * @throws Error if the provider is unknown or its required settings are missing.
+ */
+function loadRerankConfig(): AppConfig["rerank"] {
+  const provider = (process.env.RERANK_PROVIDER ||
+    "lexical") as RerankProviderType;
+  if (!RERANK_PROVIDER_TYPES.includes(provider)) {
+    throw new Error(
+      `RERANK_PROVIDER must be one of ${RERANK_PROVIDER_TYPES.join(
+        ", "
+      )}, got "${provider}".`
+    );
+  }
+
+  const candidates = readPositiveInt("RERANK_CANDIDATES") ?? 50;
+
+  switch (provider) {
+    case "http": {
+      const baseUrl = process.env.RERANK_BASE_URL;
+      if (!baseUrl) {
+        throw new Error(
+          "RERANK_BASE_URL environment variable is required when RERANK_PROVIDER is 'http' (e.g. http://localhost:7997 for Infinity)."
+        );
+      }
+      const model = process.env.RERANK_MODEL;
+      if (!model) {
+        throw new Error(
+          "RERANK_MODEL environment variable is required when RERANK_PROVIDER is 'http'."
+        );
+      }
+      return {
+        provider,
+        baseUrl,
+        apiKey: process.env.RERANK_API_KEY,
+        model,
+        candidates,
+      };
+    }
+    case "lexical":
+      return { provider, baseUrl: "", model: "lexical", candidates };
+  }
+}
+
 /**
  * Loads and validates the application configuration from environment variables.
  * It checks for the presence of required variables and provides default values for optional ones.
  *
  * @returns An `AppConfig` object containing the loaded and validated configuration.
- * @throws Error if required environment variables (EXTERNAL_API_URL, OPENAI_API_KEY) are not set.
+ * @throws Error if required environment variables (EXTERNAL_API_URL for the 'postgrest' backend, and the selected embedding provider's settings) are not set.
  */
 export function loadConfig(): AppConfig {
-  // Validate and retrieve EXTERNAL_API_URL
+  const storage = loadStorageConfig();
+
+  // Validate and retrieve EXTERNAL_API_URL, which only the PostgREST backend needs
   const externalApiUrl = process.env.EXTERNAL_API_URL;
-  if (!externalApiUrl) {
+  if (!externalApiUrl && storage.backend === "postgrest") {
     throw new Error(
       "EXTERNAL_API_URL environment variable is required. This is the base URL for your PostgREST service."
     );
   }
 
-  // Validate and retrieve OPENAI_API_KEY
-  const openAiApiKey = process.env.OPENAI_API_KEY;
-  if (!openAiApiKey) {
-    throw new Error(
-      "OPENAI_API_KEY environment variable is required for generating embeddings."
-    );
-  }
-
   // Construct and return the configuration object
   return {
+    transport: loadTransportConfig(),
+    storage,
     postgrest: {
-      baseUrl: externalApiUrl,
+      baseUrl: externalApiUrl ?? "",
       apiKey: process.env.EXTERNAL_API_KEY, // Optional: API key for the PostgREST API
     },
-    embedding: {
-      apiKey: openAiApiKey, // Required: API key for OpenAI
-      model: process.env.EMBEDDING_MODEL || "text-embedding-3-small", // Default embedding model
+    embedding: loadEmbeddingConfig(),
+    chunking: {
+      tokenizer: readTokenizerName("CHUNK_TOKENIZER") ?? "word",
+    },
+    sources: {
+      root: path.resolve(process.env.INGEST_ROOT || "."),
+      allowedHosts: (process.env.INGEST_URL_ALLOWED_HOSTS || "")
+        .split(",")
+        .map((host) => host.trim())
+        .filter(Boolean),
+      maxDownloadBytes: readPositiveInt("INGEST_URL_MAX_BYTES") ?? 52428800,
+    },
+    ingestion: {
+      batchSize: readPositiveInt("EMBEDDING_BATCH_SIZE") ?? 64,
+      concurrency: readPositiveInt("EMBEDDING_CONCURRENCY") ?? 2,
+      maxTokensPerRequest:
+        readPositiveInt("EMBEDDING_MAX_TOKENS_PER_REQUEST") ?? 100000,
+    },
+    rerank: loadRerankConfig(),
+    retry: {
+      maxRetries: readNonNegativeInt("HTTP_MAX_RETRIES") ?? 3,
+      baseDelayMs: readPositiveInt("HTTP_RETRY_BASE_DELAY_MS") ?? 500,
+      maxDelayMs: readPositiveInt("HTTP_RETRY_MAX_DELAY_MS") ?? 30000,
+      circuitBreakerThreshold:
+        readPositiveInt("CIRCUIT_BREAKER_THRESHOLD") ?? 5,
+      circuitBreakerResetMs:
+        readPositiveInt("CIRCUIT_BREAKER_RESET_MS") ?? 30000,
     },
   };
 }
@@ -0,0 +1,20 @@
+import mammoth from "mammoth";
+import { ExtractedText, TextExtractor } from "./extractor.js";
+
+/**
+ * Extracts the text of Word (.docx) documents using mammoth.
+ * Paragraphs are separated by blank lines; formatting, images and comments are dropped.
+ */
+export class DocxExtractor implements TextExtractor {
+  /**
+   * Extracts the raw text of a .docx document.
+   *
+   * @param data - The raw contents of the document.
+   * @returns A Promise that resolves to the document's text.
+   * @throws Error if the data is not a valid .docx file.
+   */
+  async extract(data: Buffer): Promise<ExtractedText> {
+    const result = await mammoth.extractRawText({ buffer: data });
+    return { text: result.value.replace(/\n{3,}/g, "\n\n").trim() };
+  }
+}
@@ -0,0 +1,84 @@
+import { DocxExtractor } from "./docxExtractor.js";
+import { HtmlExtractor } from "./htmlExtractor.js";
+import { PdfExtractor } from "./pdfExtractor.js";
+import { PlainTextExtractor } from "./plainTextExtractor.js";
+
+/**
+ * The character span of one page within extracted text.
+ */
+export interface PageSpan {
+  page: number; // 1-based page number.
+  start: number; // Offset of the page's first character in the extracted text.
+  end: number; // Offset just past the page's last character.
+}
+
+/**
+ * Text extracted from a document, ready for chunking.
+ */
+export interface ExtractedText {
+  text: string; // The document's plain text (Markdown-style headings are kept where the format has them).
+  pages?: PageSpan[]; // Page boundaries within `text`, for paginated formats such as PDF.
+  title?: string; // The document's title, if the format declares one.
+}
+
+/**
+ * Defines the contract for a text extractor.
+ * A text extractor turns the raw bytes of a file in one format into plain text.
+ */
+export interface TextExtractor {
+  /**
+   * Extracts the text of a document.
+   * @param data - The raw contents of the document.
+   * @returns A Promise that resolves to the extracted text.
+   */
+  extract(data: Buffer): Promise<ExtractedText>;
+}
+
+/**
+ * The MIME types of the supported formats, keyed by file extension.
+ */
+export const MIME_TYPES_BY_EXTENSION: Record<string, string> = {
+  ".txt": "text/plain",
+  ".text": "text/plain",
+  ".md": "text/markdown",
+  ".markdown": "text/markdown",
+  ".mdx": "text/markdown",
+  ".html": "text/html",
+  ".htm": "text/html",
+  ".pdf": "application/pdf",
+  ".docx":
+    "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+};
+
+/**
+ * Checks whether documents of a MIME type can be extracted.
+ *
+ * @param mimeType - The MIME type, without parameters (e.g., "text/html").
+ * @returns True if a text extractor exists for the type.
+ */
+export function isSupportedMimeType(mimeType: string): boolean {
+  return Object.values(MIME_TYPES_BY_EXTENSION).includes(mimeType);
+}
+
+/**
+ * Creates the text extractor for a document format.
+ *
+ * @param mimeType - The MIME type of the document, without parameters.
+ * @returns A `TextExtractor` for the format.
+ * @throws Error if the format is not supported.
+ */
+export function createTextExtractor(mimeType: string): TextExtractor {
+  switch (mimeType) {
+    case "text/plain":
+    case "text/markdown":
+      return new PlainTextExtractor();
+    case "text/html":
+      return new HtmlExtractor();
+    case "application/pdf":
+      return new PdfExtractor();
+    case MIME_TYPES_BY_EXTENSION[".docx"]:
+      return new DocxExtractor();
+    default:
+      throw new Error(`Unsupported document type: ${mimeType}`);
+  }
+}
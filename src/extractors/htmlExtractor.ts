@@ -0,0 +1,126 @@
+import { ExtractedText, TextExtractor } from "./extractor.js";
+
+// Elements whose content is never part of the readable text.
+const HIDDEN_ELEMENTS =
+  /<(script|style|noscript|template|svg|iframe|object)\b[\s\S]*?<\/\1\s*>/gi;
+
+// Elements that start a new paragraph.
+const BLOCK_ELEMENTS =
+  /<\/?(p|div|section|article|main|header|footer|nav|aside|blockquote|figure|figcaption|table|thead|tbody|tfoot|ul|ol|dl|dt|dd|form|fieldset|details|summary|address|hr)\b[^>]*>/gi;
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+  ndash: "–",
+  mdash: "—",
+  hellip: "…",
+  lsquo: "‘",
+  rsquo: "’",
+  ldquo: "“",
+  rdquo: "”",
+  laquo: "«",
+  raquo: "»",
+  bull: "•",
+  middot: "·",
+  copy: "©",
+  reg: "®",
+  trade: "™",
+  deg: "°",
+  times: "×",
+};
+
+/**
+ * Decodes HTML character references (named ones in common use, and all numeric ones).
+ * Unknown named references are left as they are.
+ */
+function decodeEntities(text: string): string {
+  return text.replace(
+    /&(#x[0-9a-f]+|#\d+|[a-z]+);/gi,
+    (reference, name: string) => {
+      if (name[0] === "#") {
+        const codePoint =
+          name[1] === "x" || name[1] === "X"
+            ? parseInt(name.slice(2), 16)
+            : parseInt(name.slice(1), 10);
+        return codePoint > 0 && codePoint <= 0x10ffff
+          ? String.fromCodePoint(codePoint)
+          : reference;
+      }
+      return NAMED_ENTITIES[name.toLowerCase()] ?? reference;
+    }
+  );
+}
+
+/**
+ * Removes all tags from an HTML fragment and decodes its character references.
+ */
+function stripTags(html: string): string {
+  return decodeEntities(html.replace(/<[^>]*>/g, ""));
+}
+
+/**
+ * Extracts the readable text of HTML documents without a DOM.
+ * Scripts, styles and other hidden elements are removed, headings become Markdown `#` headings
+ * and `<pre>` blocks become fenced code blocks (so the markdown chunking strategy can use them),
+ * list items become `-` bullets, table rows become `| cell | cell |` rows, and block elements
+ * are separated by blank lines.
+ */
+export class HtmlExtractor implements TextExtractor {
+  /**
+   * Converts an HTML document to text.
+   *
+   * @param data - The raw contents of the document (UTF-8).
+   * @returns A Promise that resolves to the document's text and `<title>`.
+   */
+  async extract(data: Buffer): Promise<ExtractedText> {
+    let html = data.toString("utf8").replace(/\r\n?/g, "\n");
+
+    const titleMatch = /<title\b[^>]*>([\s\S]*?)<\/title\s*>/i.exec(html);
+    const title = titleMatch
+      ? stripTags(titleMatch[1]).replace(/\s+/g, " ").trim()
+      : "";
+
+    html = html
+      .replace(/<!--[\s\S]*?-->/g, "")
+      .replace(/<head\b[\s\S]*?<\/head\s*>/gi, "")
+      .replace(HIDDEN_ELEMENTS, "");
+
+    // Set preformatted blocks aside so that whitespace collapsing leaves them intact.
+    const preformatted: string[] = [];
+    html = html.replace(/<pre\b[^>]*>([\s\S]*?)<\/pre\s*>/gi, (_, inner) => {
+      preformatted.push(stripTags(inner).replace(/^\n/, "").trimEnd());
+      return `\n\n\u0000${preformatted.length - 1}\u0000\n\n`;
+    });
+
+    html = html
+      .replace(
+        /<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1\s*>/gi,
+        (_, level, inner) =>
+          `\n\n${"#".repeat(Number(level))} ${stripTags(inner)
+            .replace(/\s+/g, " ")
+            .trim()}\n\n`
+      )
+      .replace(/<li\b[^>]*>/gi, "\n- ")
+      .replace(/<br\s*\/?>/gi, "\n")
+      .replace(/<tr\b[^>]*>/gi, "\n| ")
+      .replace(/<\/tr\s*>/gi, "\n")
+      .replace(/<\/t[dh]\s*>/gi, " | ")
+      .replace(BLOCK_ELEMENTS, "\n\n");
+
+    const text = stripTags(html)
+      .split("\n")
+      .map((line) => line.replace(/[ \t\f\v\u00a0]+/g, " ").trim())
+      .join("\n")
+      .replace(/\n{3,}/g, "\n\n")
+      .replace(/\u0000(\d+)\u0000/g, (_, index) => {
+        return "```\n" + preformatted[Number(index)] + "\n```";
+      })
+      .trim();
+
+    return { text, ...(title ? { title } : {}) };
+  }
+}
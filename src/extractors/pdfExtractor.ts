@@ -0,0 +1,39 @@
+import { extractText, getDocumentProxy } from "unpdf";
+import { ExtractedText, PageSpan, TextExtractor } from "./extractor.js";
+
+/**
+ * Extracts the text of PDF documents page by page using unpdf (a packaging of PDF.js).
+ * Pages are joined with blank lines, and the span of each page is recorded so that chunks can
+ * be mapped back to the pages they came from. Scanned PDFs without a text layer yield no text.
+ */
+export class PdfExtractor implements TextExtractor {
+  /**
+   * Extracts the text of a PDF document.
+   *
+   * @param data - The raw contents of the document.
+   * @returns A Promise that resolves to the document's text and page spans.
+   * @throws Error if the data is not a valid PDF.
+   */
+  async extract(data: Buffer): Promise<ExtractedText> {
+    // PDF.js rejects Node Buffers, so pass a plain Uint8Array copy.
+    const pdf = await getDocumentProxy(new Uint8Array(data));
+    const { text: pageTexts } = await extractText(pdf, { mergePages: false });
+    const { info } = (await pdf.getMetadata().catch(() => ({ info: {} }))) as {
+      info: Record<string, any>;
+    };
+
+    let text = "";
+    const pages: PageSpan[] = [];
+    pageTexts.forEach((pageText, index) => {
+      if (text) {
+        text += "\n\n";
+      }
+      const start = text.length;
+      text += pageText.trim();
+      pages.push({ page: index + 1, start, end: text.length });
+    });
+
+    const title = typeof info?.Title === "string" ? info.Title.trim() : "";
+    return { text, pages, ...(title ? { title } : {}) };
+  }
+}
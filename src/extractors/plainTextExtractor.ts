@@ -0,0 +1,22 @@
+import { ExtractedText, TextExtractor } from "./extractor.js";
+
+/**
+ * Extracts plain text and Markdown files, which need only decoding.
+ * A UTF-8 byte order mark is dropped and Windows line endings are normalized to `\n`.
+ */
+export class PlainTextExtractor implements TextExtractor {
+  /**
+   * Decodes a UTF-8 text document.
+   *
+   * @param data - The raw contents of the document.
+   * @returns A Promise that resolves to the document's text.
+   */
+  async extract(data: Buffer): Promise<ExtractedText> {
+    return {
+      text: data
+        .toString("utf8")
+        .replace(/^\uFEFF/, "") // Byte order mark
+        .replace(/\r\n?/g, "\n"),
+    };
+  }
+}
@@ -0,0 +1,133 @@
+import {
+  FilterCondition,
+  FilterField,
+  FilterNode,
+  MetadataFilter,
+  parseFilter,
+} from "./filter.js";
+
+/**
+ * The prefix of the flattened chunk metadata keys in a Chroma record's metadata.
+ */
+export const CHROMA_METADATA_PREFIX = "meta.";
+
+/**
+ * A Chroma `where` clause.
+ */
+type ChromaWhere = Record<string, any>;
+
+/**
+ * Builds the Chroma metadata key of a field. Chunk columns are stored under their own names and
+ * chunk metadata is flattened into dotted keys under `meta.`.
+ */
+function metadataKey(field: FilterField): string {
+  return field.kind === "column"
+    ? field.column
+    : CHROMA_METADATA_PREFIX + field.path.join(".");
+}
+
+/**
+ * Flattens chunk metadata into the scalar key-value pairs Chroma can store and filter on.
+ * Nested objects become dotted keys; arrays and nulls cannot be stored and are left out.
+ *
+ * @param metadata - The chunk metadata.
+ * @returns The flattened entries, with keys under `meta.`.
+ */
+export function flattenChromaMetadata(
+  metadata: Record<string, any>
+): Record<string, string | number | boolean> {
+  const flat: Record<string, string | number | boolean> = {};
+  const visit = (value: any, key: string) => {
+    if (
+      typeof value === "string" ||
+      typeof value === "number" ||
+      typeof value === "boolean"
+    ) {
+      flat[key] = value;
+    } else if (
+      value !== null &&
+      typeof value === "object" &&
+      !Array.isArray(value)
+    ) {
+      for (const [child, entry] of Object.entries(value)) {
+        visit(entry, `${key}.${child}`);
+      }
+    }
+  };
+  for (const [key, value] of Object.entries(metadata)) {
+    visit(value, CHROMA_METADATA_PREFIX + key);
+  }
+  return flat;
+}
+
+/**
+ * Translates a single comparison into a Chroma `where` clause.
+ *
+ * @throws Error if the comparison cannot be expressed in Chroma.
+ */
+function conditionToChroma(node: FilterCondition): ChromaWhere {
+  const { field, operator, value } = node;
+  const key = metadataKey(field);
+  const unsupported = (reason: string) =>
+    new Error(`Chroma cannot filter on ${reason} (field "${key}").`);
+
+  switch (operator) {
+    case "$eq":
+    case "$ne":
+      if (value === null) {
+        throw unsupported("null values or missing keys");
+      }
+      return { [key]: { [operator]: value } };
+    case "$gt":
+    case "$gte":
+    case "$lt":
+    case "$lte":
+      if (typeof value !== "number") {
+        throw unsupported(`non-numeric ranges ("${operator}")`);
+      }
+      return { [key]: { [operator]: value } };
+    case "$in":
+    case "$nin":
+      if ((value as any[]).includes(null)) {
+        throw unsupported("null values or missing keys");
+      }
+      return { [key]: { [operator]: value } };
+    case "$exists":
+      throw unsupported('key existence ("$exists")');
+    case "$contains":
+      throw unsupported('array contents ("$contains")');
+  }
+}
+
+/**
+ * Translates a filter node into a Chroma `where` clause.
+ */
+function nodeToChroma(node: FilterNode): ChromaWhere {
+  if (node.type === "condition") {
+    return conditionToChroma(node);
+  }
+  const children = node.children.map(nodeToChroma);
+  // Chroma requires at least two operands for `$and` and `$or`.
+  return children.length === 1
+    ? children[0]
+    : { [node.type === "and" ? "$and" : "$or"]: children };
+}
+
+/**
+ * Translates a metadata filter into a Chroma `where` clause. Values are compared by type, and
+ * `$ne` and `$nin` only match records that have the key.
+ *
+ * @param filter - The filter to translate.
+ * @returns A Chroma `where` object, or undefined if the filter is empty.
+ * @throws ZodError if the filter is malformed, or Error if it uses `$exists`, `$contains`,
+ * null values or non-numeric ranges, which Chroma does not support.
+ */
+export function toChromaWhere(
+  filter: MetadataFilter = {}
+): ChromaWhere | undefined {
+  const root = parseFilter(filter);
+  if (root.children.length === 0) {
+    return undefined;
+  }
+  return nodeToChroma(root);
+}
@@ -0,0 +1,219 @@
+import { z } from "zod";
+
+/**
+ * The comparison operators a field condition may use.
+ * - `$eq` / `$ne`: Equal / not equal (a missing field counts as not equal).
+ * - `$gt`, `$gte`, `$lt`, `$lte`: Range comparisons of numbers, or of strings such as ISO 8601 dates.
+ * - `$in` / `$nin`: Equal to one / none of the listed values.
+ * - `$exists`: Whether the field is present (and not null).
+ * - `$contains`: Whether an array field contains the value.
+ */
+export const COMPARISON_OPERATORS = [
+  "$eq",
+  "$ne",
+  "$gt",
+  "$gte",
+  "$lt",
+  "$lte",
+  "$in",
+  "$nin",
+  "$exists",
+  "$contains",
+] as const;
+
+export type ComparisonOperator = (typeof COMPARISON_OPERATORS)[number];
+
+/**
+ * Chunk columns that filters address directly; every other field names a metadata key.
+ */
+export const FILTER_COLUMNS = [
+  "documentId",
+  "chunkIndex",
+  "chunkStrategy",
+  "embeddingModel",
+  "embeddingDimensions",
+] as const;
+
+export type FilterColumn = (typeof FILTER_COLUMNS)[number];
+
+const scalarSchema = z.union([z.string(), z.number(), z.boolean(), z.null()]);
+const rangeSchema = z.union([z.string(), z.number()]);
+
+export type FilterScalar = z.infer<typeof scalarSchema>;
+
+const fieldConditionSchema = z
+  .object({
+    $eq: scalarSchema,
+    $ne: scalarSchema,
+    $gt: rangeSchema,
+    $gte: rangeSchema,
+    $lt: rangeSchema,
+    $lte: rangeSchema,
+    $in: z.array(scalarSchema),
+    $nin: z.array(scalarSchema),
+    $exists: z.boolean(),
+    $contains: scalarSchema,
+  })
+  .partial()
+  .strict()
+  .refine((condition) => Object.keys(condition).length > 0, {
+    message: "A field condition needs at least one operator.",
+  });
+
+/**
+ * Operators applied to a single field; several operators on the same field must all hold.
+ */
+export type FieldCondition = z.infer<typeof fieldConditionSchema>;
+
+/**
+ * A metadata filter. Each key is either a field (a chunk column such as `documentId`, or a
+ * metadata key, with dots addressing nested keys such as `author.name`) mapped to a value
+ * (shorthand for `$eq`) or a `FieldCondition`, or `$and` / `$or` mapped to a list of filters.
+ * All keys of a filter must hold.
+ *
+ * @example
+ * { "language": "en", "year": { "$gte": 2020 }, "$or": [{ "tags": { "$contains": "api" } }, { "draft": { "$exists": false } }] }
+ */
+export type MetadataFilter = {
+  [key: string]: FilterScalar | FieldCondition | MetadataFilter[];
+};
+
+/**
+ * Zod schema validating a `MetadataFilter`.
+ */
+export const metadataFilterSchema: z.ZodType<MetadataFilter> = z.lazy(() =>
+  z
+    .record(
+      z.string(),
+      z.union([
+        scalarSchema,
+        fieldConditionSchema,
+        z.array(metadataFilterSchema),
+      ])
+    )
+    .superRefine((filter, ctx) => {
+      for (const [key, value] of Object.entries(filter)) {
+        const isGroup = key === "$and" || key === "$or";
+        if (key.startsWith("$") && !isGroup) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: [key],
+            message: `Unknown filter operator "${key}"; only $and and $or may appear alongside fields.`,
+          });
+        } else if (isGroup !== Array.isArray(value)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: [key],
+            message: isGroup
+              ? `"${key}" must be a list of filters.`
+              : `Field "${key}" cannot be compared to a list; use { "$in": [...] }.`,
+          });
+        } else if (isGroup && (value as MetadataFilter[]).length === 0) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: [key],
+            message: `"${key}" needs at least one filter.`,
+          });
+        }
+      }
+    })
+);
+
+/**
+ * The field a condition applies to: a chunk column, or a path of keys into the metadata.
+ */
+export type FilterField =
+  | { kind: "column"; column: FilterColumn }
+  | { kind: "metadata"; path: string[] };
+
+/**
+ * A single comparison of a field against a value.
+ */
+export interface FilterCondition {
+  type: "condition";
+  field: FilterField;
+  operator: ComparisonOperator;
+  value: any; // The operand; a list for $in and $nin, a boolean for $exists.
+}
+
+/**
+ * A logical group of filter nodes: all of them (`and`) or at least one (`or`) must hold.
+ */
+export interface FilterGroup {
+  type: "and" | "or";
+  children: FilterNode[];
+}
+
+/**
+ * A node of a parsed filter.
+ */
+export type FilterNode = FilterGroup | FilterCondition;
+
+/**
+ * Resolves a filter key to the column or metadata path it addresses.
+ */
+function resolveField(key: string): FilterField {
+  if ((FILTER_COLUMNS as readonly string[]).includes(key)) {
+    return { kind: "column", column: key as FilterColumn };
+  }
+  return { kind: "metadata", path: key.split(".") };
+}
+
+/**
+ * Validates a metadata filter and parses it into a tree of logical groups and comparisons,
+ * which the repositories translate into their backend's query language.
+ *
+ * @param filter - The filter to parse.
+ * @returns An `and` node of the filter's conditions (with no children for an empty filter).
+ * @throws ZodError if the filter is malformed.
+ */
+export function parseFilter(filter: MetadataFilter): FilterGroup {
+  const valid = metadataFilterSchema.parse(filter);
+  const children: FilterNode[] = [];
+
+  for (const [key, value] of Object.entries(valid)) {
+    if (key === "$and" || key === "$or") {
+      children.push({
+        type: key === "$and" ? "and" : "or",
+        children: (value as MetadataFilter[]).map(parseFilter),
+      });
+      continue;
+    }
+
+    const field = resolveField(key);
+    if (value !== null && typeof value === "object") {
+      for (const [operator, operand] of Object.entries(value)) {
+        children.push({
+          type: "condition",
+          field,
+          operator: operator as ComparisonOperator,
+          value: operand,
+        });
+      }
+    } else {
+      children.push({ type: "condition", field, operator: "$eq", value });
+    }
+  }
+
+  return { type: "and", children };
+}
+
+/**
+ * Narrows a filter to the chunks embedded by one model at one dimension, the only chunks whose
+ * embeddings can be compared with a query embedded by that model.
+ *
+ * @param filter - The filter to narrow.
+ * @param embeddingModel - The embedding model of the query.
+ * @param embeddingDimensions - The dimension of the query embedding.
+ * @returns A filter matching the chunks that match `filter` and were embedded by the model.
+ */
+export function withEmbeddingModel(
+  filter: MetadataFilter,
+  embeddingModel: string,
+  embeddingDimensions: number
+): MetadataFilter {
+  const modelFilter = { embeddingModel, embeddingDimensions };
+  return Object.keys(filter).length > 0
+    ? { $and: [filter, modelFilter] }
+    : modelFilter;
+}
@@ -0,0 +1,161 @@
+import {
+  FilterCondition,
+  FilterField,
+  FilterNode,
+  MetadataFilter,
+  parseFilter,
+} from "./filter.js";
+
+// Metadata keys that can be addressed in a PostgREST JSON path without quoting.
+const METADATA_KEY = /^[\p{L}\p{N}_-]+$/u;
+
+const RANGE_OPERATORS: Record<string, string> = {
+  $gt: "gt",
+  $gte: "gte",
+  $lt: "lt",
+  $lte: "lte",
+};
+
+/**
+ * Formats a value for a PostgREST filter. Strings are always double-quoted (escaping quotes
+ * and backslashes) so that reserved characters such as `,`, `.`, `:` and parentheses are safe.
+ */
+function formatValue(value: unknown): string {
+  return typeof value === "string"
+    ? `"${value.replace(/[\\"]/g, "\\$&")}"`
+    : String(value);
+}
+
+/**
+ * Builds the PostgREST reference to a field. Metadata values are read as text (`->>`), except
+ * when compared to a number, where they are read as JSON (`->`) so that they compare numerically.
+ *
+ * @throws Error if a metadata key contains characters PostgREST JSON paths do not support.
+ */
+function fieldRef(field: FilterField, asJson = false): string {
+  if (field.kind === "column") {
+    return field.column;
+  }
+  for (const key of field.path) {
+    if (!METADATA_KEY.test(key)) {
+      throw new Error(
+        `Metadata key "${key}" cannot be filtered on; keys may only contain letters, digits, "_" and "-".`
+      );
+    }
+  }
+  const parents = field.path.slice(0, -1).map((key) => `->${key}`);
+  const last = field.path[field.path.length - 1];
+  return `metadata${parents.join("")}${asJson ? "->" : "->>"}${last}`;
+}
+
+/**
+ * Translates a single comparison into a PostgREST filter expression.
+ */
+function conditionToTree(node: FilterCondition): string {
+  const { field, operator, value } = node;
+  const isMetadata = field.kind === "metadata";
+  const text = fieldRef(field);
+  const ref = (operand: unknown) =>
+    fieldRef(field, typeof operand === "number");
+
+  // Lists of values are split into numbers (compared as JSON) and everything else (as text).
+  const listParts = (values: any[], negate: boolean) => {
+    const op = negate ? "not.in" : "in";
+    const numbers = values.filter((entry) => typeof entry === "number");
+    const others = values.filter(
+      (entry) => typeof entry !== "number" && entry !== null
+    );
+    const parts: string[] = [];
+    if (numbers.length > 0) {
+      parts.push(`${fieldRef(field, true)}.${op}.(${numbers.join(",")})`);
+    }
+    if (others.length > 0 || numbers.length === 0) {
+      parts.push(`${text}.${op}.(${others.map(formatValue).join(",")})`);
+    }
+    return parts;
+  };
+
+  switch (operator) {
+    case "$eq":
+      return value === null
+        ? `${text}.is.null`
+        : `${ref(value)}.eq.${formatValue(value)}`;
+    case "$ne":
+      if (value === null) {
+        return `${text}.not.is.null`;
+      }
+      // A missing metadata key is not equal to the value, but SQL comparisons with NULL are never true.
+      return isMetadata
+        ? `or(${ref(value)}.neq.${formatValue(value)},${text}.is.null)`
+        : `${ref(value)}.neq.${formatValue(value)}`;
+    case "$gt":
+    case "$gte":
+    case "$lt":
+    case "$lte":
+      return `${ref(value)}.${RANGE_OPERATORS[operator]}.${formatValue(value)}`;
+    case "$in": {
+      const parts = listParts(value, false);
+      if (value.includes(null)) {
+        parts.push(`${text}.is.null`);
+      }
+      return parts.length === 1 ? parts[0] : `or(${parts.join(",")})`;
+    }
+    case "$nin": {
+      const parts = listParts(value, true);
+      if (value.includes(null)) {
+        parts.push(`${text}.not.is.null`);
+      }
+      const all = parts.length === 1 ? parts[0] : `and(${parts.join(",")})`;
+      return isMetadata && !value.includes(null)
+        ? `or(${text}.is.null,${all})`
+        : all;
+    }
+    case "$exists":
+      return value ? `${text}.not.is.null` : `${text}.is.null`;
+    case "$contains":
+      if (!isMetadata) {
+        throw new Error(
+          `"$contains" applies to array metadata fields, not the "${field.column}" column.`
+        );
+      }
+      return `${fieldRef(field, true)}.cs.${formatValue(JSON.stringify([value]))}`;
+  }
+}
+
+/**
+ * Translates a filter node into a PostgREST logic tree expression.
+ *
+ * @returns The expression, or undefined if the node always holds (an empty group).
+ */
+function nodeToTree(node: FilterNode): string | undefined {
+  if (node.type === "condition") {
+    return conditionToTree(node);
+  }
+  const children = node.children.map(nodeToTree);
+  if (node.type === "or" && children.includes(undefined)) {
+    return undefined; // One alternative always holds.
+  }
+  const terms = children.filter((child): child is string => !!child);
+  if (terms.length === 0) {
+    return undefined;
+  }
+  return terms.length === 1 ? terms[0] : `${node.type}(${terms.join(",")})`;
+}
+
+/**
+ * Translates a metadata filter into a PostgREST query string parameter, applicable to table
+ * reads and to the results of set-returning RPC functions alike.
+ *
+ * @param filter - The filter to translate.
+ * @returns An `and=(...)` parameter (URL-encoded), or an empty string if the filter is empty.
+ * @throws ZodError if the filter is malformed, or Error if it cannot be expressed in PostgREST.
+ */
+export function toPostgrestQuery(filter: MetadataFilter = {}): string {
+  const root = parseFilter(filter);
+  const terms = root.children
+    .map(nodeToTree)
+    .filter((term): term is string => !!term);
+  return terms.length > 0
+    ? `and=${encodeURIComponent(`(${terms.join(",")})`)}`
+    : "";
+}
@@ -0,0 +1,149 @@
+import {
+  FilterCondition,
+  FilterField,
+  FilterNode,
+  MetadataFilter,
+  parseFilter,
+} from "./filter.js";
+
+/**
+ * A chunk as seen by a filter: its columns and metadata.
+ */
+export interface FilterableChunk {
+  documentId: string;
+  chunkIndex: number;
+  chunkStrategy: string;
+  embeddingModel?: string | null;
+  embeddingDimensions?: number | null;
+  metadata?: Record<string, any>;
+}
+
+/**
+ * Reads the value of a field, or undefined if a metadata key along the path is missing.
+ */
+function fieldValue(chunk: FilterableChunk, field: FilterField): any {
+  if (field.kind === "column") {
+    return chunk[field.column];
+  }
+  let value: any = chunk.metadata;
+  for (const key of field.path) {
+    if (value === null || typeof value !== "object" || Array.isArray(value)) {
+      return undefined;
+    }
+    value = value[key];
+  }
+  return value;
+}
+
+/**
+ * Renders a value the way PostgreSQL's `->>` does: strings as is, everything else as JSON.
+ */
+function asText(value: any): string {
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+/**
+ * Compares a stored value with an operand. Numeric operands only match numbers; other operands
+ * are compared with the value's text form, as the PostgREST translation does.
+ *
+ * @returns The sign of `value - operand`, or undefined if they cannot be compared.
+ */
+function compare(value: any, operand: any): number | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof operand === "number") {
+    return typeof value === "number" ? Math.sign(value - operand) : undefined;
+  }
+  const text = asText(value);
+  const other = asText(operand);
+  return text < other ? -1 : text > other ? 1 : 0;
+}
+
+/**
+ * Tests deep equality of two JSON values.
+ */
+function jsonEqual(a: any, b: any): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Evaluates a single comparison against a chunk.
+ */
+function testCondition(chunk: FilterableChunk, node: FilterCondition): boolean {
+  const value = fieldValue(chunk, node.field);
+  const missing = value === undefined || value === null;
+  const isMetadata = node.field.kind === "metadata";
+
+  switch (node.operator) {
+    case "$eq":
+      return node.value === null ? missing : compare(value, node.value) === 0;
+    case "$ne":
+      if (node.value === null) {
+        return !missing;
+      }
+      // A missing metadata key is not equal to the value.
+      return (isMetadata && missing) || compare(value, node.value) !== 0;
+    case "$gt":
+      return (compare(value, node.value) ?? 0) > 0;
+    case "$gte":
+      return (compare(value, node.value) ?? -1) >= 0;
+    case "$lt":
+      return (compare(value, node.value) ?? 0) < 0;
+    case "$lte":
+      return (compare(value, node.value) ?? 1) <= 0;
+    case "$in":
+      return (node.value as any[]).some((entry) =>
+        entry === null ? missing : compare(value, entry) === 0
+      );
+    case "$nin":
+      if (missing) {
+        return isMetadata && !(node.value as any[]).includes(null);
+      }
+      return (node.value as any[]).every(
+        (entry) => entry === null || compare(value, entry) !== 0
+      );
+    case "$exists":
+      return node.value ? !missing : missing;
+    case "$contains":
+      if (!isMetadata) {
+        throw new Error(
+          `"$contains" applies to array metadata fields, not the "${
+            (node.field as { column: string }).column
+          }" column.`
+        );
+      }
+      return (
+        Array.isArray(value) &&
+        value.some((entry) => jsonEqual(entry, node.value))
+      );
+  }
+}
+
+/**
+ * Evaluates a filter node against a chunk.
+ */
+function testNode(chunk: FilterableChunk, node: FilterNode): boolean {
+  if (node.type === "condition") {
+    return testCondition(chunk, node);
+  }
+  return node.type === "and"
+    ? node.children.every((child) => testNode(chunk, child))
+    : node.children.some((child) => testNode(chunk, child));
+}
+
+/**
+ * Compiles a metadata filter into a predicate over chunks, for repositories that filter in
+ * process. Its semantics follow the PostgREST translation: numbers compare numerically, other
+ * values by their text, and `$ne`/`$nin` also match chunks whose metadata lacks the key.
+ *
+ * @param filter - The filter to compile.
+ * @returns A function telling whether a chunk matches the filter.
+ * @throws ZodError if the filter is malformed.
+ */
+export function createFilterPredicate(
+  filter: MetadataFilter = {}
+): (chunk: FilterableChunk) => boolean {
+  const root = parseFilter(filter);
+  return (chunk) => testNode(chunk, root);
+}
@@ -0,0 +1,136 @@
+import {
+  FilterCondition,
+  FilterField,
+  FilterNode,
+  MetadataFilter,
+  parseFilter,
+} from "./filter.js";
+
+/**
+ * A Qdrant filter clause: a field condition or a nested filter.
+ */
+type QdrantCondition = Record<string, any>;
+
+const RANGE_OPERATORS: Record<string, string> = {
+  $gt: "gt",
+  $gte: "gte",
+  $lt: "lt",
+  $lte: "lte",
+};
+
+/**
+ * Builds the payload key of a field. Chunk columns are top-level payload keys and metadata is
+ * nested under `metadata`.
+ */
+function payloadKey(field: FilterField): string {
+  return field.kind === "column"
+    ? field.column
+    : ["metadata", ...field.path].join(".");
+}
+
+/**
+ * Builds a condition matching a single value. Qdrant matches keywords, integers and booleans
+ * exactly; other numbers are matched with a closed range.
+ */
+function matchValue(key: string, value: any): QdrantCondition {
+  if (typeof value === "number" && !Number.isInteger(value)) {
+    return { key, range: { gte: value, lte: value } };
+  }
+  return { key, match: { value } };
+}
+
+/**
+ * Builds a condition matching any of several values, including null (a missing key).
+ */
+function matchAny(key: string, values: any[]): QdrantCondition {
+  const should: QdrantCondition[] = [];
+  const exact = values.filter(
+    (value) =>
+      value !== null && !(typeof value === "number" && !Number.isInteger(value))
+  );
+  if (exact.length > 0) {
+    should.push({ key, match: { any: exact } });
+  }
+  for (const value of values) {
+    if (value === null) {
+      should.push({ is_empty: { key } });
+    } else if (!exact.includes(value)) {
+      should.push(matchValue(key, value));
+    }
+  }
+  return should.length === 1 ? should[0] : { should };
+}
+
+/**
+ * Translates a single comparison into a Qdrant condition.
+ *
+ * @throws Error if the comparison cannot be expressed in Qdrant.
+ */
+function conditionToQdrant(node: FilterCondition): QdrantCondition {
+  const { field, operator, value } = node;
+  const key = payloadKey(field);
+
+  switch (operator) {
+    case "$eq":
+      return value === null ? { is_empty: { key } } : matchValue(key, value);
+    case "$ne":
+      // must_not also holds for points without the key, as `$ne` does for metadata.
+      return value === null
+        ? { must_not: [{ is_empty: { key } }] }
+        : { must_not: [matchValue(key, value)] };
+    case "$gt":
+    case "$gte":
+    case "$lt":
+    case "$lte":
+      if (typeof value === "boolean") {
+        throw new Error(`"${operator}" cannot compare booleans in Qdrant.`);
+      }
+      // Strings are compared as RFC 3339 datetimes, Qdrant's only non-numeric range.
+      return { key, range: { [RANGE_OPERATORS[operator]]: value } };
+    case "$in":
+      return matchAny(key, value);
+    case "$nin":
+      return { must_not: [matchAny(key, value)] };
+    case "$exists":
+      return value
+        ? { must_not: [{ is_empty: { key } }] }
+        : { is_empty: { key } };
+    case "$contains":
+      if (field.kind === "column") {
+        throw new Error(
+          `"$contains" applies to array metadata fields, not the "${field.column}" column.`
+        );
+      }
+      // A match on an array payload holds if any element matches.
+      return matchValue(key, value);
+  }
+}
+
+/**
+ * Translates a filter node into a Qdrant condition.
+ */
+function nodeToQdrant(node: FilterNode): QdrantCondition {
+  if (node.type === "condition") {
+    return conditionToQdrant(node);
+  }
+  const children = node.children.map(nodeToQdrant);
+  return node.type === "and" ? { must: children } : { should: children };
+}
+
+/**
+ * Translates a metadata filter into a Qdrant payload filter. Values are compared by type:
+ * a string never matches a number.
+ *
+ * @param filter - The filter to translate.
+ * @returns A Qdrant `filter` object, or undefined if the filter is empty.
+ * @throws ZodError if the filter is malformed, or Error if it cannot be expressed in Qdrant.
+ */
+export function toQdrantFilter(
+  filter: MetadataFilter = {}
+): QdrantCondition | undefined {
+  const root = parseFilter(filter);
+  if (root.children.length === 0) {
+    return undefined;
+  }
+  return { must: root.children.map(nodeToQdrant) };
+}
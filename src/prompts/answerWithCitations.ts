@@ -0,0 +1,146 @@
+import { z } from "zod";
+import { DEFAULT_NAMESPACE } from "../repositories/namespaces.js";
+import { namespaceNameSchema } from "../services/namespaces.js";
+import { SEARCH_MODES } from "../services/search.js";
+import { createSearchChunksTool } from "../tools/searchChunks.js";
+import { ToolDependencies } from "../tools/dependencies.js";
+import { chunkUri } from "../resources/chunks.js";
+
+// Define the Zod schema for the 'answer_with_citations' prompt arguments.
+// Prompt arguments are always strings, so numbers and modes are parsed from text.
+const answerWithCitationsSchema = z.object({
+  question: z
+    .string()
+    .min(1, "A question is required")
+    .describe("The question to answer from the indexed documents."),
+  limit: z
+    .string()
+    .regex(/^[1-9]\d*$/, "limit must be a positive integer")
+    .optional()
+    .describe("The maximum number of sources to retrieve (default 5)."),
+  mode: z
+    .enum(SEARCH_MODES)
+    .optional()
+    .describe(
+      "Retrieval mode: 'vector', 'keyword' or 'hybrid' (default 'hybrid')."
+    ),
+  namespace: namespaceNameSchema
+    .optional()
+    .describe(
+      `The namespace to retrieve the sources from (default '${DEFAULT_NAMESPACE}').`
+    ),
+});
+
+/**
+ * Describes where a retrieved chunk comes from, for its citation.
+ * @param chunk - The retrieved chunk.
+ * @returns The document ID and chunk index, followed by its source, pages and lines if known.
+ */
+function describeSource(chunk: {
+  documentId: string;
+  chunkIndex: number;
+  startLine?: number | null;
+  endLine?: number | null;
+  metadata?: Record<string, any>;
+}): string {
+  const parts = [`${chunk.documentId}, chunk ${chunk.chunkIndex}`];
+  if (chunk.metadata?.source && chunk.metadata.source !== chunk.documentId) {
+    parts.push(String(chunk.metadata.source));
+  }
+  if (Array.isArray(chunk.metadata?.pages) && chunk.metadata.pages.length > 0) {
+    parts.push(
+      chunk.metadata.pages.length === 1
+        ? `page ${chunk.metadata.pages[0]}`
+        : `pages ${chunk.metadata.pages[0]}-${chunk.metadata.pages[chunk.metadata.pages.length - 1]}`
+    );
+  }
+  if (chunk.startLine != null && chunk.endLine != null) {
+    parts.push(
+      chunk.startLine === chunk.endLine
+        ? `line ${chunk.startLine}`
+        : `lines ${chunk.startLine}-${chunk.endLine}`
+    );
+  }
+  return parts.join(", ");
+}
+
+/**
+ * Creates the 'answer_with_citations' prompt.
+ * This prompt runs 'search_chunks' for a question in a namespace and returns a message holding
+ * the retrieved chunks as numbered sources, each with its document, location and resource URI,
+ * and asks the model to answer from those sources only, citing them as [n].
+ *
+ * @param dependencies - The services the prompt uses.
+ * @returns The prompt's description, schema and handler.
+ */
+export function createAnswerWithCitationsPrompt(
+  dependencies: ToolDependencies
+) {
+  // Retrieves the sources exactly as the 'search_chunks' tool would.
+  const searchChunksTool = createSearchChunksTool(dependencies);
+
+  return {
+    /**
+     * Describes the prompt to clients.
+     */
+    description:
+      "Answer a question from the indexed documents: retrieves the most relevant chunks and asks for an answer that cites them as numbered sources.",
+
+    /**
+     * Zod schema for validating the prompt arguments.
+     */
+    schema: answerWithCitationsSchema,
+
+    /**
+     * Retrieves the sources and builds the prompt message.
+     * @param args - The validated prompt arguments.
+     * @returns The prompt's messages.
+     * @throws Error if the search fails.
+     */
+    handler: async ({
+      question,
+      limit,
+      mode,
+      namespace = DEFAULT_NAMESPACE,
+    }: z.infer<typeof answerWithCitationsSchema>) => {
+      const result = await searchChunksTool.handler(
+        searchChunksTool.schema.parse({
+          query: question,
+          limit: limit ? Number(limit) : 5,
+          mode: mode ?? "hybrid",
+          namespace,
+        })
+      );
+      const body = JSON.parse(result.content[0].text);
+      if (!body.success) {
+        throw new Error(`Search for sources failed: ${body.error}`);
+      }
+
+      const sources: string[] = body.results.map(
+        (chunk: any, index: number) =>
+          `[${index + 1}] ${describeSource(chunk)} (${chunkUri(namespace, chunk.id)})\n${chunk.content}`
+      );
+
+      const text =
+        sources.length > 0
+          ? [
+              "Answer the question using only the numbered sources below. Cite the sources that support each statement as [n]. If the sources do not contain the answer, say so instead of guessing.",
+              `Question: ${question}`,
+              `Sources:\n\n${sources.join("\n\n")}`,
+            ].join("\n\n")
+          : [
+              "No indexed documents matched the question below. Say that the knowledge base holds no relevant sources, and do not answer from memory.",
+              `Question: ${question}`,
+            ].join("\n\n");
+
+      return {
+        messages: [
+          {
+            role: "user" as const,
+            content: { type: "text" as const, text },
+          },
+        ],
+      };
+    },
+  };
+}
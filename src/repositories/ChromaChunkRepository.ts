@@ -0,0 +1,629 @@
+import {
+  ChunkRepository,
+  DocumentSummary,
+  NamespaceSettings,
+  StoreChunkParams,
+  StoredChunk,
+} from "./ChunkRepository.js";
+import { chunkPointId } from "./chunkIds.js";
+import {
+  compareChunks,
+  LocalChunk,
+  rankByKeywords,
+  summarizeDocuments,
+  withoutEmbedding,
+} from "./localChunks.js";
+import { DEFAULT_NAMESPACE, namespaceCollection } from "./namespaces.js";
+import { MetadataFilter, withEmbeddingModel } from "../filters/filter.js";
+import { flattenChromaMetadata, toChromaWhere } from "../filters/chroma.js";
+import { HttpError } from "../utils/errors.js";
+import { parseRetryAfter, RetryPolicy } from "../utils/retry.js";
+
+// Records fetched per request when paging through the collection.
+const PAGE_SIZE = 1000;
+
+// The most keyword matches ranked in process by a keyword search.
+const KEYWORD_CANDIDATES = 1000;
+
+// The chunk columns stored alongside the flattened metadata of each record.
+const CHUNK_COLUMNS = [
+  "documentId",
+  "chunkIndex",
+  "chunkSize",
+  "chunkOverlap",
+  "chunkStrategy",
+  "startOffset",
+  "endOffset",
+  "startLine",
+  "endLine",
+  "embeddingModel",
+] as const;
+
+// The prefix of the collection metadata keys that register a namespace and hold its settings.
+const NAMESPACE_METADATA_PREFIX = "raglit:";
+
+/**
+ * Interface defining the options for connecting to Chroma.
+ */
+export interface ChromaChunkRepositoryOptions {
+  url: string; // Base URL of the Chroma server (e.g., "http://localhost:8000").
+  apiKey?: string; // Optional token, sent as a bearer token.
+  tenant: string; // The Chroma tenant (e.g., "default_tenant").
+  database: string; // The Chroma database (e.g., "default_database").
+  collection: string; // The collection holding the default namespace's chunks; created on first use.
+  retryPolicy?: RetryPolicy; // Optional policy used to retry transient failures.
+}
+
+/**
+ * Escapes a string for use as a literal in a regular expression.
+ */
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Implements the `ChunkRepository` interface on a Chroma collection through its v2 REST API.
+ * Each chunk is a record whose ID is derived from `(documentId, chunkIndex)`, so re-storing a
+ * chunk overwrites it. Chroma metadata only holds scalars, so each record stores the chunk's
+ * columns, its full metadata as JSON (`metadata`), and its scalar metadata flattened into
+ * `meta.`-prefixed keys that filters translate to.
+ *
+ * The collection is created on first use with cosine distance; Chroma fixes its dimension when
+ * the first embedding is added. Keyword search narrows the collection with a case-insensitive
+ * match on the document text and ranks the matches by BM25 in process.
+ *
+ * Each namespace has a collection of its own (see `namespaceCollection`). A registered
+ * namespace's collection carries its settings in `raglit:`-prefixed collection metadata.
+ */
+export class ChromaChunkRepository implements ChunkRepository {
+  private url: string;
+  private apiKey?: string;
+  private collection: string;
+  private retryPolicy?: RetryPolicy;
+  private collectionIds = new Map<string, Promise<string>>(); // Collection IDs by name, once created or found.
+
+  /**
+   * Creates an instance of ChromaChunkRepository.
+   * @param options - The Chroma URL, token, tenant, database, collection name and retry policy.
+   */
+  constructor(options: ChromaChunkRepositoryOptions) {
+    this.url = `${options.url.replace(/\/+$/, "")}/api/v2/tenants/${encodeURIComponent(
+      options.tenant
+    )}/databases/${encodeURIComponent(options.database)}`;
+    this.apiKey = options.apiKey;
+    this.collection = options.collection;
+    this.retryPolicy = options.retryPolicy;
+  }
+
+  /**
+   * Sends a request to the Chroma REST API. Transient failures are retried according to the
+   * retry policy.
+   *
+   * @param endpoint - The path below the database (e.g., "/collections").
+   * @param method - The HTTP method to use.
+   * @param data - Optional JSON body.
+   * @returns A Promise that resolves to the JSON parsed response.
+   * @throws HttpError if the API returns a non-ok status.
+   */
+  private async makeRequest(
+    endpoint: string,
+    method: string,
+    data?: any
+  ): Promise<any> {
+    const url = `${this.url}${endpoint}`;
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+    };
+    if (this.apiKey) {
+      headers.Authorization = `Bearer ${this.apiKey}`;
+    }
+
+    const send = async () => {
+      const response = await fetch(url, {
+        method,
+        headers,
+        body: data ? JSON.stringify(data) : undefined,
+      });
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new HttpError(
+          `Chroma API error (${response.status}) targeting ${method} ${url}: ${errorText}`,
+          response.status,
+          parseRetryAfter(response.headers.get("retry-after"))
+        );
+      }
+      const text = await response.text();
+      return text ? JSON.parse(text) : undefined;
+    };
+
+    return this.retryPolicy ? this.retryPolicy.execute(send) : send();
+  }
+
+  /**
+   * Sends a request to an endpoint of a namespace's collection, creating the collection on first use.
+   */
+  private async collectionRequest(
+    namespace: string,
+    endpoint: string,
+    data: any
+  ): Promise<any> {
+    const name = namespaceCollection(this.collection, namespace);
+    let collectionId = this.collectionIds.get(name);
+    if (!collectionId) {
+      collectionId = this.makeRequest("/collections", "POST", {
+        name,
+        get_or_create: true,
+        metadata: { "hnsw:space": "cosine" },
+      })
+        .then((collection) => collection.id as string)
+        .catch((error) => {
+          this.collectionIds.delete(name); // Try again on the next request.
+          throw error;
+        });
+      this.collectionIds.set(name, collectionId);
+    }
+    const id = await collectionId;
+    return this.makeRequest(`/collections/${id}${endpoint}`, "POST", data);
+  }
+
+  /**
+   * Pages through the collections of the database.
+   */
+  private async listCollections(): Promise<any[]> {
+    const collections: any[] = [];
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const page: any[] =
+        (await this.makeRequest(
+          `/collections?limit=${PAGE_SIZE}&offset=${offset}`,
+          "GET"
+        )) ?? [];
+      collections.push(...page);
+      if (page.length < PAGE_SIZE) {
+        return collections;
+      }
+    }
+  }
+
+  /**
+   * Reads the settings of a namespace from its collection's metadata.
+   * @returns The settings, or undefined if the collection does not register a namespace.
+   */
+  private toNamespaceSettings(collection: any): NamespaceSettings | undefined {
+    const metadata = collection.metadata ?? {};
+    const name = metadata[`${NAMESPACE_METADATA_PREFIX}namespace`];
+    if (typeof name !== "string") {
+      return undefined;
+    }
+    const setting = (key: keyof NamespaceSettings) =>
+      metadata[`${NAMESPACE_METADATA_PREFIX}${key}`];
+    const description = setting("description");
+    const embeddingModel = setting("embeddingModel");
+    const embeddingDimensions = setting("embeddingDimensions");
+    const createdAt = setting("createdAt");
+    // Leave out the settings the namespace does not override.
+    return {
+      name,
+      ...(typeof description === "string" ? { description } : {}),
+      ...(typeof embeddingModel === "string" ? { embeddingModel } : {}),
+      ...(typeof embeddingDimensions === "number"
+        ? { embeddingDimensions }
+        : {}),
+      ...(typeof createdAt === "string" ? { createdAt } : {}),
+    };
+  }
+
+  /**
+   * Converts the parallel arrays of a Chroma response from a namespace's collection into chunks.
+   */
+  private toChunks(response: any, namespace: string): LocalChunk[] {
+    // Query responses nest one list per query embedding; get responses do not.
+    const nested = Array.isArray(response.ids?.[0]);
+    const column = (values: any) => (nested ? values?.[0] : values) ?? [];
+    const ids: string[] = column(response.ids);
+    const documents = column(response.documents);
+    const metadatas = column(response.metadatas);
+    const embeddings = column(response.embeddings);
+    return ids.map((id, index) => {
+      const record = metadatas[index] ?? {};
+      return {
+        id,
+        namespace,
+        documentId: record.documentId,
+        content: documents[index] ?? "",
+        chunkIndex: record.chunkIndex,
+        chunkSize: record.chunkSize,
+        chunkOverlap: record.chunkOverlap,
+        chunkStrategy: record.chunkStrategy,
+        startOffset: record.startOffset ?? null,
+        endOffset: record.endOffset ?? null,
+        startLine: record.startLine ?? null,
+        endLine: record.endLine ?? null,
+        metadata: record.metadata ? JSON.parse(record.metadata) : {},
+        embeddingModel: record.embeddingModel ?? null,
+        embeddingDimensions: record.embeddingDimensions ?? null,
+        embedding: embeddings[index] ?? [],
+      };
+    });
+  }
+
+  /**
+   * Pages through the records of a namespace's collection matching a filter.
+   *
+   * @param namespace - The namespace whose collection to read.
+   * @param where - The Chroma metadata filter, or undefined for every record.
+   * @param options - Which fields to return, an optional document text filter, and a cap on the records read.
+   * @returns A Promise that resolves to the records as chunks, in Chroma's order.
+   */
+  private async getAll(
+    namespace: string,
+    where: any,
+    options: {
+      include?: string[];
+      whereDocument?: any;
+      maxRecords?: number;
+    } = {}
+  ): Promise<LocalChunk[]> {
+    const {
+      include = ["documents", "metadatas"],
+      whereDocument,
+      maxRecords = Infinity,
+    } = options;
+    const chunks: LocalChunk[] = [];
+    for (let offset = 0; chunks.length < maxRecords; offset += PAGE_SIZE) {
+      const limit = Math.min(PAGE_SIZE, maxRecords - chunks.length);
+      const page = this.toChunks(
+        await this.collectionRequest(namespace, "/get", {
+          where,
+          where_document: whereDocument,
+          limit,
+          offset,
+          include,
+        }),
+        namespace
+      );
+      chunks.push(...page);
+      if (page.length < limit) {
+        break;
+      }
+    }
+    return chunks;
+  }
+
+  /**
+   * Stores a chunk as a record, replacing any chunk at the same position.
+   * @param params - The chunk details to be stored.
+   * @returns A Promise that resolves to the ID of the stored record.
+   */
+  async storeChunk(params: StoreChunkParams): Promise<string | undefined> {
+    const [id] = await this.storeChunks([params]);
+    return id;
+  }
+
+  /**
+   * Upserts many chunks as records, with one request per namespace's collection.
+   * @param params - The chunks to be stored.
+   * @returns A Promise that resolves to the IDs of the stored records, in input order.
+   */
+  async storeChunks(
+    params: StoreChunkParams[]
+  ): Promise<(string | undefined)[]> {
+    const byNamespace = new Map<string, StoreChunkParams[]>();
+    for (const chunk of params) {
+      const namespace = chunk.namespace ?? DEFAULT_NAMESPACE;
+      byNamespace.set(namespace, [
+        ...(byNamespace.get(namespace) ?? []),
+        chunk,
+      ]);
+    }
+    for (const [namespace, chunks] of byNamespace) {
+      await this.upsert(namespace, chunks);
+    }
+    return params.map((chunk) =>
+      chunkPointId(chunk.documentId, chunk.chunkIndex)
+    );
+  }
+
+  /**
+   * Upserts chunks as records of a namespace's collection in one request.
+   */
+  private async upsert(
+    namespace: string,
+    params: StoreChunkParams[]
+  ): Promise<void> {
+    await this.collectionRequest(namespace, "/upsert", {
+      ids: params.map((chunk) =>
+        chunkPointId(chunk.documentId, chunk.chunkIndex)
+      ),
+      embeddings: params.map((chunk) => chunk.embedding),
+      documents: params.map((chunk) => chunk.content),
+      metadatas: params.map((chunk) => {
+        const record: Record<string, string | number | boolean> = {
+          ...flattenChromaMetadata(chunk.metadata ?? {}),
+          metadata: JSON.stringify(chunk.metadata ?? {}),
+        };
+        for (const column of CHUNK_COLUMNS) {
+          // Chroma cannot store nulls; absent source spans and models are left out.
+          if (chunk[column] !== undefined && chunk[column] !== null) {
+            record[column] = chunk[column]!;
+          }
+        }
+        record.embeddingDimensions = chunk.embedding.length;
+        return record;
+      }),
+    });
+  }
+
+  /**
+   * Retrieves all chunks of a document.
+   * @param documentId - The ID of the document.
+   * @param namespace - The namespace of the document.
+   * @returns A Promise that resolves to the document's chunks ordered by `chunkIndex`.
+   */
+  async getDocumentChunks(
+    documentId: string,
+    namespace = DEFAULT_NAMESPACE
+  ): Promise<StoredChunk[]> {
+    return this.getChunks(namespace, { documentId: { $eq: documentId } });
+  }
+
+  /**
+   * Retrieves a chunk by its record ID.
+   * @param id - The ID of the record.
+   * @param namespace - The namespace of the chunk.
+   * @returns A Promise that resolves to the chunk, or undefined if it does not exist.
+   */
+  async getChunk(
+    id: string,
+    namespace = DEFAULT_NAMESPACE
+  ): Promise<StoredChunk | undefined> {
+    const [chunk] = this.toChunks(
+      await this.collectionRequest(namespace, "/get", {
+        ids: [id],
+        include: ["documents", "metadatas"],
+      }),
+      namespace
+    );
+    return chunk && withoutEmbedding(chunk);
+  }
+
+  /**
+   * Retrieves a range of a document's chunks.
+   * @param documentId - The ID of the document.
+   * @param fromChunkIndex - The first `chunkIndex` of the range (inclusive).
+   * @param toChunkIndex - The last `chunkIndex` of the range (inclusive).
+   * @param namespace - The namespace of the document.
+   * @returns A Promise that resolves to the chunks in the range ordered by `chunkIndex`.
+   */
+  async getChunkRange(
+    documentId: string,
+    fromChunkIndex: number,
+    toChunkIndex: number,
+    namespace = DEFAULT_NAMESPACE
+  ): Promise<StoredChunk[]> {
+    return this.getChunks(namespace, {
+      $and: [
+        { documentId: { $eq: documentId } },
+        { chunkIndex: { $gte: fromChunkIndex } },
+        { chunkIndex: { $lte: toChunkIndex } },
+      ],
+    });
+  }
+
+  /**
+   * Lists documents by paging through the metadata of the namespace's collection.
+   * @param namespace - The namespace to list.
+   * @returns A Promise that resolves to one summary per document, ordered by `documentId`.
+   */
+  async listDocuments(
+    namespace = DEFAULT_NAMESPACE
+  ): Promise<DocumentSummary[]> {
+    const chunks = await this.getAll(namespace, undefined, {
+      include: ["metadatas"],
+    });
+    return summarizeDocuments(chunks.sort(compareChunks));
+  }
+
+  /**
+   * Deletes chunks of a document by ID, after looking the IDs up.
+   * @param documentId - The ID of the document.
+   * @param fromChunkIndex - Optional. Only delete chunks with `chunkIndex >= fromChunkIndex`.
+   * @param namespace - The namespace of the document.
+   * @returns A Promise that resolves to the number of deleted chunks.
+   */
+  async deleteDocumentChunks(
+    documentId: string,
+    fromChunkIndex?: number,
+    namespace = DEFAULT_NAMESPACE
+  ): Promise<number> {
+    const where =
+      fromChunkIndex === undefined
+        ? { documentId: { $eq: documentId } }
+        : {
+            $and: [
+              { documentId: { $eq: documentId } },
+              { chunkIndex: { $gte: fromChunkIndex } },
+            ],
+          };
+    const ids = (await this.getAll(namespace, where, { include: [] })).map(
+      (chunk) => chunk.id
+    );
+    for (let start = 0; start < ids.length; start += PAGE_SIZE) {
+      await this.collectionRequest(namespace, "/delete", {
+        ids: ids.slice(start, start + PAGE_SIZE),
+      });
+    }
+    return ids.length;
+  }
+
+  /**
+   * Searches for similar chunks with Chroma's vector query, filtered on the metadata.
+   * Chroma reports cosine distances, which are converted to similarities.
+   * @param embedding - The embedding vector to search for.
+   * @param limit - The maximum number of results to return.
+   * @param metadataFilter - Optional filter on chunk columns and metadata.
+   * @param threshold - The minimum cosine similarity.
+   * @param namespace - The namespace to search.
+   * @param embeddingModel - Optional. Only match chunks embedded by this model at the query embedding's dimension.
+   * @returns A Promise that resolves to the matching chunks with their `similarity`, most similar first.
+   */
+  async searchSimilarChunks(
+    embedding: number[],
+    limit = 5,
+    metadataFilter: MetadataFilter = {},
+    threshold = 0.7,
+    namespace = DEFAULT_NAMESPACE,
+    embeddingModel?: string
+  ): Promise<any[]> {
+    const filter =
+      embeddingModel !== undefined
+        ? withEmbeddingModel(metadataFilter, embeddingModel, embedding.length)
+        : metadataFilter;
+    const response = await this.collectionRequest(namespace, "/query", {
+      query_embeddings: [embedding],
+      n_results: limit,
+      where: toChromaWhere(filter),
+      include: ["documents", "metadatas", "embeddings", "distances"],
+    });
+    const distances: number[] = response.distances?.[0] ?? [];
+    return this.toChunks(response, namespace)
+      .map((chunk, index) => ({ ...chunk, similarity: 1 - distances[index] }))
+      .filter((chunk) => chunk.similarity >= threshold);
+  }
+
+  /**
+   * Searches for chunks containing any of the query's words (a case-insensitive match on the
+   * document text), ranked by BM25 in process.
+   * @param query - The keyword query.
+   * @param limit - The maximum number of results to return.
+   * @param metadataFilter - Optional filter on chunk columns and metadata.
+   * @param namespace - The namespace to search.
+   * @returns A Promise that resolves to the matching chunks with their `rank`, best first.
+   */
+  async searchKeywordChunks(
+    query: string,
+    limit = 5,
+    metadataFilter: MetadataFilter = {},
+    namespace = DEFAULT_NAMESPACE
+  ): Promise<any[]> {
+    const terms = [
+      ...new Set(query.toLowerCase().match(/[\p{L}\p{N}_]+/gu) ?? []),
+    ];
+    if (terms.length === 0) {
+      return [];
+    }
+    const candidates = await this.getAll(
+      namespace,
+      toChromaWhere(metadataFilter),
+      {
+        include: ["documents", "metadatas", "embeddings"],
+        whereDocument: { $regex: `(?i)${terms.map(escapeRegExp).join("|")}` },
+        maxRecords: KEYWORD_CANDIDATES,
+      }
+    );
+    return rankByKeywords(candidates, query, limit);
+  }
+
+  /**
+   * Filters chunks by their columns and metadata with a Chroma `where` filter.
+   * All matching records are read and sorted, since Chroma returns them in insertion order.
+   * @param metadataFilter - The filter on chunk columns and metadata.
+   * @param limit - The maximum number of results to return.
+   * @param namespace - The namespace to filter.
+   * @returns A Promise that resolves to the matching chunks, ordered by document and `chunkIndex`.
+   */
+  async filterChunksByMetadata(
+    metadataFilter: MetadataFilter,
+    limit = 10,
+    namespace = DEFAULT_NAMESPACE
+  ): Promise<any[]> {
+    return (
+      await this.getChunks(namespace, toChromaWhere(metadataFilter))
+    ).slice(0, limit);
+  }
+
+  /**
+   * Registers a namespace by creating its collection with the settings as collection metadata.
+   * A collection that already holds the namespace's chunks but is not registered gets the
+   * settings added to its metadata.
+   * @param settings - The namespace's name and settings.
+   * @throws Error if the namespace is already registered.
+   */
+  async createNamespace(settings: NamespaceSettings): Promise<void> {
+    const name = namespaceCollection(this.collection, settings.name);
+    const metadata: Record<string, string | number> = {};
+    for (const [key, value] of Object.entries(settings)) {
+      if (value !== undefined) {
+        metadata[
+          `${NAMESPACE_METADATA_PREFIX}${key === "name" ? "namespace" : key}`
+        ] = value;
+      }
+    }
+
+    const existing = (await this.listCollections()).find(
+      (collection) => collection.name === name
+    );
+    if (existing && this.toNamespaceSettings(existing)) {
+      throw new Error(`Namespace "${settings.name}" already exists.`);
+    }
+    if (existing) {
+      await this.makeRequest(`/collections/${existing.id}`, "PUT", {
+        new_metadata: { ...existing.metadata, ...metadata },
+      });
+      return;
+    }
+    const collection = await this.makeRequest("/collections", "POST", {
+      name,
+      metadata: { "hnsw:space": "cosine", ...metadata },
+    });
+    this.collectionIds.set(name, Promise.resolve(collection.id as string));
+  }
+
+  /**
+   * Lists the registered namespaces by paging through the database's collections.
+   * @returns A Promise that resolves to the namespaces' settings, ordered by name.
+   */
+  async listNamespaces(): Promise<NamespaceSettings[]> {
+    return (await this.listCollections())
+      .map((collection) => this.toNamespaceSettings(collection))
+      .filter((settings): settings is NamespaceSettings => !!settings)
+      .sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+  }
+
+  /**
+   * Deletes a namespace's collection, counting its records first.
+   * @param name - The name of the namespace.
+   * @returns A Promise that resolves to the number of records the collection held.
+   */
+  async dropNamespace(name: string): Promise<number> {
+    const collectionName = namespaceCollection(this.collection, name);
+    const existing = (await this.listCollections()).find(
+      (collection) => collection.name === collectionName
+    );
+    this.collectionIds.delete(collectionName);
+    if (!existing) {
+      return 0;
+    }
+    const count: number = await this.makeRequest(
+      `/collections/${existing.id}/count`,
+      "GET"
+    );
+    // Collections are deleted by name.
+    await this.makeRequest(
+      `/collections/${encodeURIComponent(collectionName)}`,
+      "DELETE"
+    );
+    return count ?? 0;
+  }
+
+  /**
+   * Reads the chunks of a namespace matching a filter, ordered by document and `chunkIndex`.
+   */
+  private async getChunks(
+    namespace: string,
+    where: any
+  ): Promise<StoredChunk[]> {
+    return (await this.getAll(namespace, where))
+      .sort(compareChunks)
+      .map(withoutEmbedding);
+  }
+}
@@ -1,3 +1,13 @@
+import path from "node:path";
+import { AppConfig } from "../config.js";
+import { MetadataFilter } from "../filters/filter.js";
+import { RestApiChunkRepository } from "./RestApiChunkRepository.js";
+import { InMemoryChunkRepository } from "./InMemoryChunkRepository.js";
+import { SqliteChunkRepository } from "./SqliteChunkRepository.js";
+import { QdrantChunkRepository } from "./QdrantChunkRepository.js";
+import { ChromaChunkRepository } from "./ChromaChunkRepository.js";
+import { RetryPolicy } from "../utils/retry.js";
+
 /**
  * Interface defining the parameters for storing a single document chunk.
  * This structure is used when adding a new chunk to the repository.
@@ -10,44 +20,248 @@ export interface StoreChunkParams {
   chunkSize: number; // The size of the chunk (e.g., in characters or tokens).
   chunkOverlap: number; // The overlap with the previous/next chunk.
   chunkStrategy: string; // The strategy used to create this chunk (e.g., "fixed-size").
+  startOffset?: number; // Character offset in the source document where the chunk starts (inclusive).
+  endOffset?: number; // Character offset in the source document where the chunk ends (exclusive).
+  startLine?: number; // 1-based line number in the source document where the chunk starts.
+  endLine?: number; // 1-based line number in the source document where the chunk ends.
   metadata?: Record<string, any>; // Optional metadata associated with the chunk.
+  namespace?: string; // The namespace the chunk belongs to (defaults to DEFAULT_NAMESPACE).
+  embeddingModel?: string; // The embedding model that produced `embedding`; its dimension is the embedding's length.
+}
+
+/**
+ * Interface describing a chunk as read back from the repository (without its embedding).
+ */
+export interface StoredChunk {
+  id: string; // The unique ID assigned by the repository.
+  namespace: string; // The namespace the chunk belongs to.
+  documentId: string; // The ID of the original document this chunk belongs to.
+  content: string; // The textual content of the chunk.
+  chunkIndex: number; // The sequential index of this chunk within the document.
+  chunkSize: number; // The size of the chunk (e.g., in characters or tokens).
+  chunkOverlap: number; // The overlap with the previous/next chunk.
+  chunkStrategy: string; // The strategy used to create this chunk.
+  startOffset: number | null; // Source span start offset (null for chunks stored without offsets).
+  endOffset: number | null; // Source span end offset (exclusive).
+  startLine: number | null; // 1-based source line where the chunk starts.
+  endLine: number | null; // 1-based source line where the chunk ends.
+  metadata: Record<string, any>; // Metadata associated with the chunk.
+  embeddingModel: string | null; // The embedding model that produced the chunk's embedding (null if not recorded).
+  embeddingDimensions: number | null; // The dimension of the chunk's embedding (null if not recorded).
+}
+
+/**
+ * Interface summarizing a document stored in the repository.
+ */
+export interface DocumentSummary {
+  documentId: string; // The ID of the document.
+  chunkCount: number; // The number of chunks stored for the document.
+  chunkStrategies: string[]; // The distinct strategies used to create the document's chunks.
+}
+
+/**
+ * Interface describing a namespace registered in the repository.
+ * The embedding settings override the server's for the namespace's chunks and queries.
+ */
+export interface NamespaceSettings {
+  name: string; // The name of the namespace (lowercase letters, digits, '-' and '_').
+  description?: string; // What the namespace holds.
+  embeddingModel?: string; // The embedding model of the namespace, if not the server's.
+  embeddingDimensions?: number; // The embedding dimension of the namespace, if not the server's.
+  createdAt?: string; // When the namespace was created (ISO 8601).
 }
 
 /**
  * Defines the contract for a chunk repository.
  * A chunk repository is responsible for storing, retrieving, and searching document chunks.
+ *
+ * Chunks are partitioned into namespaces: a document ID identifies a document within its
+ * namespace, and every read, search and deletion only sees the namespace it names. Methods that
+ * take an optional `namespace` use `DEFAULT_NAMESPACE` when it is omitted.
  */
 export interface ChunkRepository {
   /**
-   * Stores a single document chunk in the repository.
+   * Stores a single document chunk in the repository, in the namespace named by `params.namespace`.
+   * A chunk with the same namespace, `documentId` and `chunkIndex` is replaced rather than duplicated.
    * @param params - An object containing the details of the chunk to be stored.
    * @returns A Promise that resolves to the unique ID of the stored chunk, or undefined if storage fails.
    */
   storeChunk(params: StoreChunkParams): Promise<string | undefined>;
 
+  /**
+   * Stores many document chunks in a single operation.
+   * Like `storeChunk`, this upserts on `(namespace, documentId, chunkIndex)`, so re-storing a chunk is idempotent.
+   * @param params - The chunks to be stored.
+   * @returns A Promise that resolves to the IDs of the stored chunks, in input order (undefined where no ID was returned).
+   */
+  storeChunks(params: StoreChunkParams[]): Promise<(string | undefined)[]>;
+
+  /**
+   * Retrieves all stored chunks of a document.
+   * @param documentId - The ID of the document.
+   * @param namespace - Optional. The namespace of the document.
+   * @returns A Promise that resolves to the document's chunks ordered by `chunkIndex` (empty if none are stored).
+   */
+  getDocumentChunks(
+    documentId: string,
+    namespace?: string
+  ): Promise<StoredChunk[]>;
+
+  /**
+   * Retrieves a single chunk by its ID.
+   * @param id - The ID the repository assigned to the chunk.
+   * @param namespace - Optional. The namespace of the chunk.
+   * @returns A Promise that resolves to the chunk, or undefined if no chunk of the namespace has the ID.
+   */
+  getChunk(id: string, namespace?: string): Promise<StoredChunk | undefined>;
+
+  /**
+   * Retrieves a contiguous range of a document's chunks.
+   * @param documentId - The ID of the document.
+   * @param fromChunkIndex - The first `chunkIndex` of the range (inclusive).
+   * @param toChunkIndex - The last `chunkIndex` of the range (inclusive).
+   * @param namespace - Optional. The namespace of the document.
+   * @returns A Promise that resolves to the stored chunks in the range, ordered by `chunkIndex`.
+   */
+  getChunkRange(
+    documentId: string,
+    fromChunkIndex: number,
+    toChunkIndex: number,
+    namespace?: string
+  ): Promise<StoredChunk[]>;
+
+  /**
+   * Lists the documents that have chunks stored in a namespace.
+   * @param namespace - Optional. The namespace to list.
+   * @returns A Promise that resolves to one summary per document, ordered by `documentId`.
+   */
+  listDocuments(namespace?: string): Promise<DocumentSummary[]>;
+
+  /**
+   * Deletes the stored chunks of a document.
+   * @param documentId - The ID of the document.
+   * @param fromChunkIndex - Optional. Only delete chunks with a `chunkIndex` greater than or equal to this value.
+   * @param namespace - Optional. The namespace of the document.
+   * @returns A Promise that resolves to the number of deleted chunks.
+   */
+  deleteDocumentChunks(
+    documentId: string,
+    fromChunkIndex?: number,
+    namespace?: string
+  ): Promise<number>;
+
   /**
    * Searches for chunks that are semantically similar to a given embedding vector.
    * @param embedding - The embedding vector to search against.
    * @param limit - Optional. The maximum number of similar chunks to return. Defaults to a repository-specific value.
-   * @param metadataFilter - Optional. A record of metadata key-value pairs to filter the search results.
+   * @param metadataFilter - Optional. A filter on chunk columns and metadata that results must match.
    * @param threshold - Optional. A similarity threshold (e.g., 0 to 1) for matching chunks. Defaults to a repository-specific value.
+   * @param namespace - Optional. The namespace to search.
+   * @param embeddingModel - Optional. Only match chunks embedded by this model with the query embedding's dimension, since vectors of other models are not comparable with it.
    * @returns A Promise that resolves to an array of chunk objects that match the search criteria.
    */
   searchSimilarChunks(
     embedding: number[],
     limit?: number,
-    metadataFilter?: Record<string, any>,
-    threshold?: number
+    metadataFilter?: MetadataFilter,
+    threshold?: number,
+    namespace?: string,
+    embeddingModel?: string
   ): Promise<any[]>;
 
   /**
-   * Filters chunks based on exact matches of provided metadata key-value pairs.
-   * @param metadataFilter - A record of metadata key-value pairs to filter by. At least one pair must be provided.
+   * Searches for chunks whose content matches the words of a query (full-text keyword search).
+   * @param query - The keyword query.
+   * @param limit - Optional. The maximum number of chunks to return. Defaults to a repository-specific value.
+   * @param metadataFilter - Optional. A filter on chunk columns and metadata that results must match.
+   * @param namespace - Optional. The namespace to search.
+   * @returns A Promise that resolves to matching chunk objects ordered by descending `rank`.
+   */
+  searchKeywordChunks(
+    query: string,
+    limit?: number,
+    metadataFilter?: MetadataFilter,
+    namespace?: string
+  ): Promise<any[]>;
+
+  /**
+   * Filters chunks by their columns and metadata.
+   * @param metadataFilter - The filter chunks must match (see `MetadataFilter` for the operators).
    * @param limit - Optional. The maximum number of filtered chunks to return. Defaults to a repository-specific value.
+   * @param namespace - Optional. The namespace to filter.
    * @returns A Promise that resolves to an array of chunk objects that match the metadata filter.
    */
   filterChunksByMetadata(
-    metadataFilter: Record<string, any>,
-    limit?: number
+    metadataFilter: MetadataFilter,
+    limit?: number,
+    namespace?: string
   ): Promise<any[]>; // Corrected return type
+
+  /**
+   * Registers a namespace with its settings.
+   * @param settings - The namespace's name and settings.
+   * @returns A Promise that resolves once the namespace is registered.
+   * @throws Error if a namespace with the name is already registered.
+   */
+  createNamespace(settings: NamespaceSettings): Promise<void>;
+
+  /**
+   * Lists the registered namespaces. The default namespace is not registered and not listed.
+   * @returns A Promise that resolves to the namespaces' settings, ordered by name.
+   */
+  listNamespaces(): Promise<NamespaceSettings[]>;
+
+  /**
+   * Deletes a namespace's chunks and its registration.
+   * @param name - The name of the namespace.
+   * @returns A Promise that resolves to the number of deleted chunks.
+   */
+  dropNamespace(name: string): Promise<number>;
+}
+
+// Local stores are shared by every tool of the server, so that they all see the same chunks.
+const localRepositories = new Map<string, ChunkRepository>();
+
+/**
+ * Creates the chunk repository selected by the application configuration (STORAGE_BACKEND).
+ * The `memory` and `sqlite` backends return one shared instance per store.
+ *
+ * @param config - The application configuration.
+ * @returns A `ChunkRepository` for the configured backend.
+ */
+export function createChunkRepository(config: AppConfig): ChunkRepository {
+  switch (config.storage.backend) {
+    case "postgrest":
+      return new RestApiChunkRepository(
+        config.postgrest.baseUrl,
+        config.postgrest.apiKey,
+        new RetryPolicy(config.retry)
+      );
+    case "qdrant":
+      return new QdrantChunkRepository({
+        ...config.storage.qdrant,
+        retryPolicy: new RetryPolicy(config.retry),
+      });
+    case "chroma":
+      return new ChromaChunkRepository({
+        ...config.storage.chroma,
+        retryPolicy: new RetryPolicy(config.retry),
+      });
+    case "memory":
+    case "sqlite": {
+      const key =
+        config.storage.backend === "sqlite"
+          ? `sqlite:${path.resolve(config.storage.sqlitePath)}`
+          : "memory";
+      let repository = localRepositories.get(key);
+      if (!repository) {
+        repository =
+          config.storage.backend === "sqlite"
+            ? new SqliteChunkRepository(config.storage.sqlitePath)
+            : new InMemoryChunkRepository();
+        localRepositories.set(key, repository);
+      }
+      return repository;
+    }
+  }
 }
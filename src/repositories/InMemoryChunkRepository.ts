@@ -0,0 +1,306 @@
+import { randomUUID } from "node:crypto";
+import {
+  ChunkRepository,
+  DocumentSummary,
+  NamespaceSettings,
+  StoreChunkParams,
+  StoredChunk,
+} from "./ChunkRepository.js";
+import { DEFAULT_NAMESPACE } from "./namespaces.js";
+import {
+  compareChunks,
+  LocalChunk,
+  rankByKeywords,
+  rankBySimilarity,
+  summarizeDocuments,
+  withoutEmbedding,
+} from "./localChunks.js";
+import { MetadataFilter, withEmbeddingModel } from "../filters/filter.js";
+import { createFilterPredicate } from "../filters/predicate.js";
+
+/**
+ * Implements the `ChunkRepository` interface entirely in process memory.
+ * Vector search compares the query with every stored embedding (brute force), keyword search
+ * ranks chunks sharing words with the query by BM25, and metadata filters are evaluated in
+ * process. Nothing is persisted: the chunks are lost when the server stops.
+ *
+ * Intended for tests, demos and small local collections.
+ */
+export class InMemoryChunkRepository implements ChunkRepository {
+  // Chunks keyed by namespace, `documentId` and `chunkIndex`, the repository's unique key.
+  private chunks = new Map<string, LocalChunk>();
+
+  // Registered namespaces by name.
+  private namespaces = new Map<string, NamespaceSettings>();
+
+  /**
+   * Builds the key of a chunk position.
+   */
+  private key(
+    namespace: string,
+    documentId: string,
+    chunkIndex: number
+  ): string {
+    return `${namespace}\0${documentId}\0${chunkIndex}`;
+  }
+
+  /**
+   * Stores a chunk, replacing any chunk at the same position.
+   * @param params - The chunk details to be stored.
+   * @returns A Promise that resolves to the ID of the stored chunk.
+   */
+  async storeChunk(params: StoreChunkParams): Promise<string | undefined> {
+    const [id] = await this.storeChunks([params]);
+    return id;
+  }
+
+  /**
+   * Stores many chunks, replacing chunks at the same positions (keeping their IDs).
+   * @param params - The chunks to be stored.
+   * @returns A Promise that resolves to the IDs of the stored chunks, in input order.
+   */
+  async storeChunks(
+    params: StoreChunkParams[]
+  ): Promise<(string | undefined)[]> {
+    return params.map((chunk) => {
+      const namespace = chunk.namespace ?? DEFAULT_NAMESPACE;
+      const key = this.key(namespace, chunk.documentId, chunk.chunkIndex);
+      const id = this.chunks.get(key)?.id ?? randomUUID();
+      this.chunks.set(key, {
+        id,
+        namespace,
+        documentId: chunk.documentId,
+        content: chunk.content,
+        chunkIndex: chunk.chunkIndex,
+        chunkSize: chunk.chunkSize,
+        chunkOverlap: chunk.chunkOverlap,
+        chunkStrategy: chunk.chunkStrategy,
+        startOffset: chunk.startOffset ?? null,
+        endOffset: chunk.endOffset ?? null,
+        startLine: chunk.startLine ?? null,
+        endLine: chunk.endLine ?? null,
+        metadata: structuredClone(chunk.metadata ?? {}),
+        embeddingModel: chunk.embeddingModel ?? null,
+        embeddingDimensions: chunk.embedding.length,
+        embedding: [...chunk.embedding],
+      });
+      return id;
+    });
+  }
+
+  /**
+   * Retrieves all chunks of a document.
+   * @param documentId - The ID of the document.
+   * @param namespace - The namespace of the document.
+   * @returns A Promise that resolves to the document's chunks ordered by `chunkIndex`.
+   */
+  async getDocumentChunks(
+    documentId: string,
+    namespace = DEFAULT_NAMESPACE
+  ): Promise<StoredChunk[]> {
+    return this.sorted(namespace)
+      .filter((chunk) => chunk.documentId === documentId)
+      .map(withoutEmbedding);
+  }
+
+  /**
+   * Retrieves a chunk by ID.
+   * @param id - The ID of the chunk.
+   * @param namespace - The namespace of the chunk.
+   * @returns A Promise that resolves to the chunk, or undefined if it does not exist.
+   */
+  async getChunk(
+    id: string,
+    namespace = DEFAULT_NAMESPACE
+  ): Promise<StoredChunk | undefined> {
+    for (const chunk of this.chunks.values()) {
+      if (chunk.id === id && chunk.namespace === namespace) {
+        return withoutEmbedding(chunk);
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Retrieves a range of a document's chunks.
+   * @param documentId - The ID of the document.
+   * @param fromChunkIndex - The first `chunkIndex` of the range (inclusive).
+   * @param toChunkIndex - The last `chunkIndex` of the range (inclusive).
+   * @param namespace - The namespace of the document.
+   * @returns A Promise that resolves to the chunks in the range ordered by `chunkIndex`.
+   */
+  async getChunkRange(
+    documentId: string,
+    fromChunkIndex: number,
+    toChunkIndex: number,
+    namespace = DEFAULT_NAMESPACE
+  ): Promise<StoredChunk[]> {
+    return (await this.getDocumentChunks(documentId, namespace)).filter(
+      (chunk) =>
+        chunk.chunkIndex >= fromChunkIndex && chunk.chunkIndex <= toChunkIndex
+    );
+  }
+
+  /**
+   * Lists the documents that have chunks stored in a namespace.
+   * @param namespace - The namespace to list.
+   * @returns A Promise that resolves to one summary per document, ordered by `documentId`.
+   */
+  async listDocuments(
+    namespace = DEFAULT_NAMESPACE
+  ): Promise<DocumentSummary[]> {
+    return summarizeDocuments(this.sorted(namespace));
+  }
+
+  /**
+   * Deletes chunks of a document.
+   * @param documentId - The ID of the document.
+   * @param fromChunkIndex - Optional. Only delete chunks with `chunkIndex >= fromChunkIndex`.
+   * @param namespace - The namespace of the document.
+   * @returns A Promise that resolves to the number of deleted chunks.
+   */
+  async deleteDocumentChunks(
+    documentId: string,
+    fromChunkIndex?: number,
+    namespace = DEFAULT_NAMESPACE
+  ): Promise<number> {
+    let deleted = 0;
+    for (const [key, chunk] of this.chunks) {
+      if (
+        chunk.namespace === namespace &&
+        chunk.documentId === documentId &&
+        chunk.chunkIndex >= (fromChunkIndex ?? 0)
+      ) {
+        this.chunks.delete(key);
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+
+  /**
+   * Searches for the chunks most similar to an embedding by comparing it with every chunk.
+   * @param embedding - The embedding vector to search for.
+   * @param limit - The maximum number of results to return.
+   * @param metadataFilter - Optional filter on chunk columns and metadata.
+   * @param threshold - The minimum cosine similarity.
+   * @param namespace - The namespace to search.
+   * @param embeddingModel - Optional. Only match chunks embedded by this model at the query embedding's dimension.
+   * @returns A Promise that resolves to the matching chunks with their `similarity`, most similar first.
+   */
+  async searchSimilarChunks(
+    embedding: number[],
+    limit = 5,
+    metadataFilter: MetadataFilter = {},
+    threshold = 0.7,
+    namespace = DEFAULT_NAMESPACE,
+    embeddingModel?: string
+  ): Promise<any[]> {
+    const filter =
+      embeddingModel !== undefined
+        ? withEmbeddingModel(metadataFilter, embeddingModel, embedding.length)
+        : metadataFilter;
+    return rankBySimilarity(
+      this.filtered(filter, namespace),
+      embedding,
+      limit,
+      threshold
+    );
+  }
+
+  /**
+   * Searches for chunks sharing words with the query, ranked by BM25.
+   * @param query - The keyword query.
+   * @param limit - The maximum number of results to return.
+   * @param metadataFilter - Optional filter on chunk columns and metadata.
+   * @param namespace - The namespace to search.
+   * @returns A Promise that resolves to the matching chunks with their `rank`, best first.
+   */
+  async searchKeywordChunks(
+    query: string,
+    limit = 5,
+    metadataFilter: MetadataFilter = {},
+    namespace = DEFAULT_NAMESPACE
+  ): Promise<any[]> {
+    return rankByKeywords(
+      this.filtered(metadataFilter, namespace),
+      query,
+      limit
+    );
+  }
+
+  /**
+   * Filters chunks by their columns and metadata.
+   * @param metadataFilter - The filter on chunk columns and metadata.
+   * @param limit - The maximum number of results to return.
+   * @param namespace - The namespace to filter.
+   * @returns A Promise that resolves to the matching chunks, ordered by document and `chunkIndex`.
+   */
+  async filterChunksByMetadata(
+    metadataFilter: MetadataFilter,
+    limit = 10,
+    namespace = DEFAULT_NAMESPACE
+  ): Promise<any[]> {
+    return this.filtered(metadataFilter, namespace)
+      .slice(0, limit)
+      .map(withoutEmbedding);
+  }
+
+  /**
+   * Registers a namespace.
+   * @param settings - The namespace's name and settings.
+   * @throws Error if the namespace is already registered.
+   */
+  async createNamespace(settings: NamespaceSettings): Promise<void> {
+    if (this.namespaces.has(settings.name)) {
+      throw new Error(`Namespace "${settings.name}" already exists.`);
+    }
+    this.namespaces.set(settings.name, { ...settings });
+  }
+
+  /**
+   * Lists the registered namespaces.
+   * @returns A Promise that resolves to the namespaces' settings, ordered by name.
+   */
+  async listNamespaces(): Promise<NamespaceSettings[]> {
+    return [...this.namespaces.values()]
+      .map((settings) => ({ ...settings }))
+      .sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+  }
+
+  /**
+   * Deletes a namespace's chunks and its registration.
+   * @param name - The name of the namespace.
+   * @returns A Promise that resolves to the number of deleted chunks.
+   */
+  async dropNamespace(name: string): Promise<number> {
+    let deleted = 0;
+    for (const [key, chunk] of this.chunks) {
+      if (chunk.namespace === name) {
+        this.chunks.delete(key);
+        deleted++;
+      }
+    }
+    this.namespaces.delete(name);
+    return deleted;
+  }
+
+  /**
+   * Returns the stored chunks of a namespace ordered by document and `chunkIndex`.
+   */
+  private sorted(namespace: string): LocalChunk[] {
+    return [...this.chunks.values()]
+      .filter((chunk) => chunk.namespace === namespace)
+      .sort(compareChunks);
+  }
+
+  /**
+   * Returns the stored chunks of a namespace matching a filter, ordered by document and `chunkIndex`.
+   */
+  private filtered(
+    metadataFilter: MetadataFilter,
+    namespace: string
+  ): LocalChunk[] {
+    return this.sorted(namespace).filter(createFilterPredicate(metadataFilter));
+  }
+}
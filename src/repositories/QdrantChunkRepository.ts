@@ -0,0 +1,621 @@
+import {
+  ChunkRepository,
+  DocumentSummary,
+  NamespaceSettings,
+  StoreChunkParams,
+  StoredChunk,
+} from "./ChunkRepository.js";
+import { chunkPointId, isUuid, namespacePointId } from "./chunkIds.js";
+import {
+  compareChunks,
+  LocalChunk,
+  rankByKeywords,
+  summarizeDocuments,
+  withoutEmbedding,
+} from "./localChunks.js";
+import { DEFAULT_NAMESPACE, namespaceCollection } from "./namespaces.js";
+import { MetadataFilter, withEmbeddingModel } from "../filters/filter.js";
+import { toQdrantFilter } from "../filters/qdrant.js";
+import { HttpError } from "../utils/errors.js";
+import { parseRetryAfter, RetryPolicy } from "../utils/retry.js";
+
+// Points fetched per request when scrolling through the collection.
+const PAGE_SIZE = 1000;
+
+// The most keyword matches ranked in process by a keyword search.
+const KEYWORD_CANDIDATES = 1000;
+
+/**
+ * Interface defining the options for connecting to Qdrant.
+ */
+export interface QdrantChunkRepositoryOptions {
+  url: string; // Base URL of the Qdrant REST API (e.g., "http://localhost:6333").
+  apiKey?: string; // Optional API key, sent in the `api-key` header.
+  collection: string; // The collection holding the default namespace's chunks; created on first write.
+  retryPolicy?: RetryPolicy; // Optional policy used to retry transient failures.
+}
+
+/**
+ * Implements the `ChunkRepository` interface on a Qdrant collection through its REST API.
+ * Each chunk is a point whose ID is derived from `(documentId, chunkIndex)`, so re-storing a
+ * chunk overwrites it. The point's payload holds the chunk's columns and, under `metadata`, its
+ * metadata, so metadata filters translate into Qdrant payload filters.
+ *
+ * The collection is created on the first write, with the dimension of the stored embeddings,
+ * cosine distance, and payload indexes on `documentId`, `chunkIndex`, `embeddingModel` and
+ * `content` (full text).
+ * Keyword search narrows the collection with a full-text match on `content` and ranks the
+ * matches by BM25 in process.
+ *
+ * Each namespace has a collection of its own (see `namespaceCollection`), so namespaces can hold
+ * embeddings of different dimensions. Registered namespaces are points of the
+ * `<collection>_namespaces` collection, whose payload holds their settings.
+ */
+export class QdrantChunkRepository implements ChunkRepository {
+  private url: string;
+  private apiKey?: string;
+  private collection: string;
+  private retryPolicy?: RetryPolicy;
+  private collectionsReady = new Map<string, Promise<void>>(); // Collections known to exist.
+
+  /**
+   * Creates an instance of QdrantChunkRepository.
+   * @param options - The Qdrant URL, API key, collection name and retry policy.
+   */
+  constructor(options: QdrantChunkRepositoryOptions) {
+    this.url = options.url.replace(/\/+$/, ""); // Strip trailing slashes
+    this.apiKey = options.apiKey;
+    this.collection = options.collection;
+    this.retryPolicy = options.retryPolicy;
+  }
+
+  /**
+   * Sends a request to the Qdrant REST API. Transient failures are retried according to the
+   * retry policy.
+   *
+   * @param collection - The name of the collection.
+   * @param endpoint - The path below the collection (e.g., "/points/search"), or "" for the collection itself.
+   * @param method - The HTTP method to use.
+   * @param data - Optional JSON body.
+   * @returns A Promise that resolves to the `result` of the response.
+   * @throws HttpError if the API returns a non-ok status.
+   */
+  private async makeRequest(
+    collection: string,
+    endpoint: string,
+    method: string,
+    data?: any
+  ): Promise<any> {
+    const url = `${this.url}/collections/${encodeURIComponent(
+      collection
+    )}${endpoint}`;
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+    };
+    if (this.apiKey) {
+      headers["api-key"] = this.apiKey;
+    }
+
+    const send = async () => {
+      const response = await fetch(url, {
+        method,
+        headers,
+        body: data ? JSON.stringify(data) : undefined,
+      });
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new HttpError(
+          `Qdrant API error (${response.status}) targeting ${method} ${url}: ${errorText}`,
+          response.status,
+          parseRetryAfter(response.headers.get("retry-after"))
+        );
+      }
+      return response.json();
+    };
+
+    const response = this.retryPolicy
+      ? await this.retryPolicy.execute(send)
+      : await send();
+    return response?.result;
+  }
+
+  /**
+   * Runs a read, treating a missing collection as an empty one.
+   */
+  private async read<T>(request: () => Promise<T>, empty: T): Promise<T> {
+    try {
+      return await request();
+    } catch (error) {
+      if (error instanceof HttpError && error.status === 404) {
+        return empty;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Names the collection holding a namespace's chunks.
+   */
+  private chunkCollection(namespace: string): string {
+    return namespaceCollection(this.collection, namespace);
+  }
+
+  /**
+   * Names the collection registering the namespaces.
+   */
+  private get registryCollection(): string {
+    return `${this.collection}_namespaces`;
+  }
+
+  /**
+   * Creates a collection and its payload indexes unless it already exists.
+   * @param collection - The name of the collection.
+   * @param dimension - The length of the embeddings it will hold.
+   * @param indexes - The payload indexes to create with it.
+   */
+  private ensureCollection(
+    collection: string,
+    dimension: number,
+    indexes: [string, any][]
+  ): Promise<void> {
+    let ready = this.collectionsReady.get(collection);
+    if (!ready) {
+      ready = (async () => {
+        const exists = await this.read(
+          async () => (await this.makeRequest(collection, "", "GET"), true),
+          false
+        );
+        if (exists) {
+          return;
+        }
+        await this.makeRequest(collection, "", "PUT", {
+          vectors: { size: dimension, distance: "Cosine" },
+        });
+        for (const [field_name, field_schema] of indexes) {
+          await this.makeRequest(collection, "/index?wait=true", "PUT", {
+            field_name,
+            field_schema,
+          });
+        }
+      })().catch((error) => {
+        this.collectionsReady.delete(collection); // Try again on the next write.
+        throw error;
+      });
+      this.collectionsReady.set(collection, ready);
+    }
+    return ready;
+  }
+
+  /**
+   * Converts a Qdrant point of a namespace's collection into a chunk.
+   */
+  private toChunk(point: any, namespace: string): LocalChunk {
+    const payload = point.payload ?? {};
+    return {
+      id: point.id,
+      namespace,
+      documentId: payload.documentId,
+      content: payload.content,
+      chunkIndex: payload.chunkIndex,
+      chunkSize: payload.chunkSize,
+      chunkOverlap: payload.chunkOverlap,
+      chunkStrategy: payload.chunkStrategy,
+      startOffset: payload.startOffset ?? null,
+      endOffset: payload.endOffset ?? null,
+      startLine: payload.startLine ?? null,
+      endLine: payload.endLine ?? null,
+      metadata: payload.metadata ?? {},
+      embeddingModel: payload.embeddingModel ?? null,
+      embeddingDimensions: payload.embeddingDimensions ?? null,
+      embedding: point.vector ?? [],
+    };
+  }
+
+  /**
+   * Scrolls through the points of a collection matching a filter.
+   *
+   * @param collection - The name of the collection.
+   * @param filter - The Qdrant filter, or undefined for every point.
+   * @param options - Whether to return vectors, which payload keys to return, and a cap on the points read.
+   * @returns A Promise that resolves to the points, in Qdrant's order.
+   */
+  private async scroll(
+    collection: string,
+    filter: any,
+    options: {
+      withVector?: boolean;
+      payload?: string[];
+      maxPoints?: number;
+    } = {}
+  ): Promise<any[]> {
+    const { withVector = false, payload, maxPoints = Infinity } = options;
+    return this.read(async () => {
+      const points: any[] = [];
+      let offset: any = undefined;
+      do {
+        const page = await this.makeRequest(
+          collection,
+          "/points/scroll",
+          "POST",
+          {
+            filter,
+            limit: Math.min(PAGE_SIZE, maxPoints - points.length),
+            offset,
+            with_payload: payload ?? true,
+            with_vector: withVector,
+          }
+        );
+        points.push(...page.points);
+        offset = page.next_page_offset;
+      } while (
+        offset !== null &&
+        offset !== undefined &&
+        points.length < maxPoints
+      );
+      return points;
+    }, []);
+  }
+
+  /**
+   * Stores a chunk as a point, replacing any chunk at the same position.
+   * @param params - The chunk details to be stored.
+   * @returns A Promise that resolves to the ID of the stored point.
+   */
+  async storeChunk(params: StoreChunkParams): Promise<string | undefined> {
+    const [id] = await this.storeChunks([params]);
+    return id;
+  }
+
+  /**
+   * Upserts many chunks as points, with one request per namespace's collection, creating the
+   * collections on first use.
+   * @param params - The chunks to be stored.
+   * @returns A Promise that resolves to the IDs of the stored points, in input order.
+   */
+  async storeChunks(
+    params: StoreChunkParams[]
+  ): Promise<(string | undefined)[]> {
+    const byNamespace = new Map<string, StoreChunkParams[]>();
+    for (const chunk of params) {
+      const namespace = chunk.namespace ?? DEFAULT_NAMESPACE;
+      byNamespace.set(namespace, [
+        ...(byNamespace.get(namespace) ?? []),
+        chunk,
+      ]);
+    }
+
+    for (const [namespace, chunks] of byNamespace) {
+      const collection = this.chunkCollection(namespace);
+      await this.ensureCollection(collection, chunks[0].embedding.length, [
+        ["documentId", "keyword"],
+        ["chunkIndex", "integer"],
+        ["embeddingModel", "keyword"],
+        ["content", { type: "text", tokenizer: "word", lowercase: true }],
+      ]);
+      const points = chunks.map(({ embedding, namespace, ...chunk }) => ({
+        id: chunkPointId(chunk.documentId, chunk.chunkIndex),
+        vector: embedding,
+        payload: {
+          ...chunk,
+          metadata: chunk.metadata ?? {},
+          embeddingDimensions: embedding.length,
+        },
+      }));
+      await this.makeRequest(collection, "/points?wait=true", "PUT", {
+        points,
+      });
+    }
+    return params.map((chunk) =>
+      chunkPointId(chunk.documentId, chunk.chunkIndex)
+    );
+  }
+
+  /**
+   * Retrieves all chunks of a document.
+   * @param documentId - The ID of the document.
+   * @param namespace - The namespace of the document.
+   * @returns A Promise that resolves to the document's chunks ordered by `chunkIndex`.
+   */
+  async getDocumentChunks(
+    documentId: string,
+    namespace = DEFAULT_NAMESPACE
+  ): Promise<StoredChunk[]> {
+    return this.scrollChunks(namespace, {
+      must: [{ key: "documentId", match: { value: documentId } }],
+    });
+  }
+
+  /**
+   * Retrieves a chunk by its point ID.
+   * @param id - The UUID of the point.
+   * @param namespace - The namespace of the chunk.
+   * @returns A Promise that resolves to the chunk, or undefined if it does not exist.
+   */
+  async getChunk(
+    id: string,
+    namespace = DEFAULT_NAMESPACE
+  ): Promise<StoredChunk | undefined> {
+    if (!isUuid(id)) {
+      return undefined; // Qdrant would reject the ID as malformed.
+    }
+    const [point] = await this.read(
+      () =>
+        this.makeRequest(this.chunkCollection(namespace), "/points", "POST", {
+          ids: [id],
+          with_payload: true,
+          with_vector: false,
+        }),
+      []
+    );
+    return point && withoutEmbedding(this.toChunk(point, namespace));
+  }
+
+  /**
+   * Retrieves a range of a document's chunks.
+   * @param documentId - The ID of the document.
+   * @param fromChunkIndex - The first `chunkIndex` of the range (inclusive).
+   * @param toChunkIndex - The last `chunkIndex` of the range (inclusive).
+   * @param namespace - The namespace of the document.
+   * @returns A Promise that resolves to the chunks in the range ordered by `chunkIndex`.
+   */
+  async getChunkRange(
+    documentId: string,
+    fromChunkIndex: number,
+    toChunkIndex: number,
+    namespace = DEFAULT_NAMESPACE
+  ): Promise<StoredChunk[]> {
+    return this.scrollChunks(namespace, {
+      must: [
+        { key: "documentId", match: { value: documentId } },
+        {
+          key: "chunkIndex",
+          range: { gte: fromChunkIndex, lte: toChunkIndex },
+        },
+      ],
+    });
+  }
+
+  /**
+   * Lists documents by scrolling through the namespace's collection, reading only `documentId`,
+   * `chunkIndex` and `chunkStrategy`.
+   * @param namespace - The namespace to list.
+   * @returns A Promise that resolves to one summary per document, ordered by `documentId`.
+   */
+  async listDocuments(
+    namespace = DEFAULT_NAMESPACE
+  ): Promise<DocumentSummary[]> {
+    const rows = (
+      await this.scroll(this.chunkCollection(namespace), undefined, {
+        payload: ["documentId", "chunkIndex", "chunkStrategy"],
+      })
+    ).map((point) => point.payload);
+    return summarizeDocuments(rows.sort(compareChunks));
+  }
+
+  /**
+   * Deletes chunks of a document, counting them first since Qdrant does not report deletions.
+   * @param documentId - The ID of the document.
+   * @param fromChunkIndex - Optional. Only delete chunks with `chunkIndex >= fromChunkIndex`.
+   * @param namespace - The namespace of the document.
+   * @returns A Promise that resolves to the number of deleted chunks.
+   */
+  async deleteDocumentChunks(
+    documentId: string,
+    fromChunkIndex?: number,
+    namespace = DEFAULT_NAMESPACE
+  ): Promise<number> {
+    const collection = this.chunkCollection(namespace);
+    const filter = {
+      must: [
+        { key: "documentId", match: { value: documentId } },
+        ...(fromChunkIndex !== undefined
+          ? [{ key: "chunkIndex", range: { gte: fromChunkIndex } }]
+          : []),
+      ],
+    };
+    return this.read(async () => {
+      const { count } = await this.makeRequest(
+        collection,
+        "/points/count",
+        "POST",
+        { filter, exact: true }
+      );
+      if (count > 0) {
+        await this.makeRequest(collection, "/points/delete?wait=true", "POST", {
+          filter,
+        });
+      }
+      return count;
+    }, 0);
+  }
+
+  /**
+   * Searches for similar chunks with Qdrant's vector search, filtered on the payload.
+   * @param embedding - The embedding vector to search for.
+   * @param limit - The maximum number of results to return.
+   * @param metadataFilter - Optional filter on chunk columns and metadata.
+   * @param threshold - The minimum cosine similarity, passed as `score_threshold`.
+   * @param namespace - The namespace to search.
+   * @param embeddingModel - Optional. Only match chunks embedded by this model at the query embedding's dimension.
+   * @returns A Promise that resolves to the matching chunks with their `similarity`, most similar first.
+   */
+  async searchSimilarChunks(
+    embedding: number[],
+    limit = 5,
+    metadataFilter: MetadataFilter = {},
+    threshold = 0.7,
+    namespace = DEFAULT_NAMESPACE,
+    embeddingModel?: string
+  ): Promise<any[]> {
+    const filter = toQdrantFilter(
+      embeddingModel !== undefined
+        ? withEmbeddingModel(metadataFilter, embeddingModel, embedding.length)
+        : metadataFilter
+    );
+    const points: any[] = await this.read(
+      () =>
+        this.makeRequest(
+          this.chunkCollection(namespace),
+          "/points/search",
+          "POST",
+          {
+            vector: embedding,
+            limit,
+            filter,
+            score_threshold: threshold,
+            with_payload: true,
+            with_vector: true,
+          }
+        ),
+      []
+    );
+    return points.map((point) => ({
+      ...this.toChunk(point, namespace),
+      similarity: point.score,
+    }));
+  }
+
+  /**
+   * Searches for chunks containing any of the query's words (a full-text match on `content`),
+   * ranked by BM25 in process.
+   * @param query - The keyword query.
+   * @param limit - The maximum number of results to return.
+   * @param metadataFilter - Optional filter on chunk columns and metadata.
+   * @param namespace - The namespace to search.
+   * @returns A Promise that resolves to the matching chunks with their `rank`, best first.
+   */
+  async searchKeywordChunks(
+    query: string,
+    limit = 5,
+    metadataFilter: MetadataFilter = {},
+    namespace = DEFAULT_NAMESPACE
+  ): Promise<any[]> {
+    const terms = [
+      ...new Set(query.toLowerCase().match(/[\p{L}\p{N}_]+/gu) ?? []),
+    ];
+    if (terms.length === 0) {
+      return [];
+    }
+    const filter = toQdrantFilter(metadataFilter);
+    const points = await this.scroll(
+      this.chunkCollection(namespace),
+      {
+        must: [
+          ...(filter ? [filter] : []),
+          {
+            should: terms.map((term) => ({
+              key: "content",
+              match: { text: term },
+            })),
+          },
+        ],
+      },
+      { withVector: true, maxPoints: KEYWORD_CANDIDATES }
+    );
+    return rankByKeywords(
+      points.map((point) => this.toChunk(point, namespace)),
+      query,
+      limit
+    );
+  }
+
+  /**
+   * Filters chunks by their columns and metadata with a Qdrant payload filter.
+   * All matching points are read and sorted, since Qdrant scrolls in point ID order.
+   * @param metadataFilter - The filter on chunk columns and metadata.
+   * @param limit - The maximum number of results to return.
+   * @param namespace - The namespace to filter.
+   * @returns A Promise that resolves to the matching chunks, ordered by document and `chunkIndex`.
+   */
+  async filterChunksByMetadata(
+    metadataFilter: MetadataFilter,
+    limit = 10,
+    namespace = DEFAULT_NAMESPACE
+  ): Promise<any[]> {
+    return (
+      await this.scrollChunks(namespace, toQdrantFilter(metadataFilter))
+    ).slice(0, limit);
+  }
+
+  /**
+   * Registers a namespace as a point of the registry collection, creating it on first use.
+   * The point's single-element vector is a placeholder; its payload holds the settings.
+   * @param settings - The namespace's name and settings.
+   * @throws Error if the namespace is already registered.
+   */
+  async createNamespace(settings: NamespaceSettings): Promise<void> {
+    await this.ensureCollection(this.registryCollection, 1, []);
+    const id = namespacePointId(settings.name);
+    const [existing] = await this.makeRequest(
+      this.registryCollection,
+      "/points",
+      "POST",
+      { ids: [id], with_payload: false, with_vector: false }
+    );
+    if (existing) {
+      throw new Error(`Namespace "${settings.name}" already exists.`);
+    }
+    await this.makeRequest(
+      this.registryCollection,
+      "/points?wait=true",
+      "PUT",
+      {
+        points: [{ id, vector: [1], payload: settings }],
+      }
+    );
+  }
+
+  /**
+   * Lists the registered namespaces by scrolling through the registry collection.
+   * @returns A Promise that resolves to the namespaces' settings, ordered by name.
+   */
+  async listNamespaces(): Promise<NamespaceSettings[]> {
+    return (await this.scroll(this.registryCollection, undefined))
+      .map((point): NamespaceSettings => point.payload)
+      .sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+  }
+
+  /**
+   * Deletes a namespace's collection and its registry point.
+   * @param name - The name of the namespace.
+   * @returns A Promise that resolves to the number of points the collection held.
+   */
+  async dropNamespace(name: string): Promise<number> {
+    const collection = this.chunkCollection(name);
+    const deleted = await this.read(async () => {
+      const { count } = await this.makeRequest(
+        collection,
+        "/points/count",
+        "POST",
+        { exact: true }
+      );
+      await this.makeRequest(collection, "", "DELETE");
+      return count;
+    }, 0);
+    this.collectionsReady.delete(collection);
+    await this.read(
+      () =>
+        this.makeRequest(
+          this.registryCollection,
+          "/points/delete?wait=true",
+          "POST",
+          { points: [namespacePointId(name)] }
+        ),
+      undefined
+    );
+    return deleted;
+  }
+
+  /**
+   * Reads the chunks of a namespace matching a filter, ordered by document and `chunkIndex`.
+   */
+  private async scrollChunks(
+    namespace: string,
+    filter: any
+  ): Promise<StoredChunk[]> {
+    return (await this.scroll(this.chunkCollection(namespace), filter))
+      .map((point) => this.toChunk(point, namespace))
+      .sort(compareChunks)
+      .map(withoutEmbedding);
+  }
+}
@@ -1,66 +1,112 @@
-import { ChunkRepository, StoreChunkParams } from "./ChunkRepository.js";
+import {
+  ChunkRepository,
+  DocumentSummary,
+  NamespaceSettings,
+  StoreChunkParams,
+  StoredChunk,
+} from "./ChunkRepository.js";
+import { DEFAULT_NAMESPACE } from "./namespaces.js";
+import { isUuid } from "./chunkIds.js";
+import { MetadataFilter } from "../filters/filter.js";
+import { toPostgrestQuery } from "../filters/postgrest.js";
+import { HttpError } from "../utils/errors.js";
+import { parseRetryAfter, RetryPolicy } from "../utils/retry.js";
+
+// Rows fetched per request when paging through the chunks table.
+const PAGE_SIZE = 1000;
+
+// Columns returned when reading chunks back; the embedding is omitted to keep responses small.
+const STORED_CHUNK_COLUMNS =
+  "id,namespace,documentId,content,chunkIndex,chunkSize,chunkOverlap,chunkStrategy,startOffset,endOffset,startLine,endLine,metadata,embeddingModel,embeddingDimensions";
+
+// Columns of the namespaces table.
+const NAMESPACE_COLUMNS =
+  "name,description,embeddingModel,embeddingDimensions,createdAt";
+
+/**
+ * Builds the PostgREST condition restricting a request to a namespace.
+ */
+function namespaceCondition(namespace: string): string {
+  return `namespace=eq.${encodeURIComponent(namespace)}`;
+}
 
 /**
  * Implements the `ChunkRepository` interface using a REST API as the backend.
  * This class handles communication with a remote server to store, search, and filter document chunks.
+ * Namespaces are a column of the chunks table that every request filters on, and registered
+ * namespaces are rows of the namespaces table.
  */
 export class RestApiChunkRepository implements ChunkRepository {
   private baseUrl: string; // Base URL for the REST API.
   private apiKey?: string; // Optional API key for authentication with the REST API.
+  private retryPolicy?: RetryPolicy; // Optional policy used to retry transient failures.
 
   /**
    * Creates an instance of `RestApiChunkRepository`.
    * @param baseUrl - The base URL of the REST API (e.g., "http://localhost:3000/api").
    * @param apiKey - Optional API key for authenticating requests to the API.
+   * @param retryPolicy - Optional retry policy applied to every request.
    */
-  constructor(baseUrl: string, apiKey?: string) {
+  constructor(baseUrl: string, apiKey?: string, retryPolicy?: RetryPolicy) {
     this.baseUrl = baseUrl;
     this.apiKey = apiKey;
+    this.retryPolicy = retryPolicy;
   }
 
   /**
    * A private helper method to make HTTP requests to the configured REST API.
    * It handles setting headers, including an Authorization header if an API key is provided,
    * and processes the response, throwing an error for non-successful status codes.
+   * Transient failures (429, 5xx, network errors) are retried according to the retry policy.
    *
    * @param endpoint - The specific API endpoint to target (e.g., "/chunks", "/chunks/search").
    * @param method - The HTTP method to use (e.g., "GET", "POST", "PUT").
    * @param data - Optional data to be sent in the request body, typically for POST or PUT requests.
+   * @param extraHeaders - Optional additional headers (e.g., PostgREST's "Prefer" header).
    * @returns A Promise that resolves to the JSON parsed response from the API.
-   * @throws Error if the API request fails or returns a non-ok status.
+   * @throws HttpError if the API returns a non-ok status, or Error if the request otherwise fails.
    */
   private async makeRequest(
     endpoint: string,
     method: string,
-    data?: any
+    data?: any,
+    extraHeaders: Record<string, string> = {}
   ): Promise<any> {
     const url = `${this.baseUrl}${
       endpoint.startsWith("/") ? endpoint : "/" + endpoint
     }`; // Ensure endpoint starts with a slash
 
-    const headers: HeadersInit = {
+    const headers: Record<string, string> = {
       "Content-Type": "application/json",
+      ...extraHeaders,
     };
 
     if (this.apiKey) {
       headers["apikey"] = this.apiKey;
     }
 
-    const response = await fetch(url, {
-      method,
-      headers,
-      body: data ? JSON.stringify(data) : undefined,
-    });
+    const send = async () => {
+      const response = await fetch(url, {
+        method,
+        headers,
+        body: data ? JSON.stringify(data) : undefined,
+      });
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(
-        `API error (${response.status}) targeting ${method} ${url}: ${errorText}`
-      );
-    }
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new HttpError(
+          `API error (${response.status}) targeting ${method} ${url}: ${errorText}`,
+          response.status,
+          parseRetryAfter(response.headers.get("retry-after"))
+        );
+      }
+      return response.text();
+    };
 
     // Check if response body is empty before trying to parse JSON
-    const responseText = await response.text();
+    const responseText = this.retryPolicy
+      ? await this.retryPolicy.execute(send)
+      : await send();
     if (!responseText) {
       return undefined; // Or handle as an empty object {} or null, depending on expected API behavior
     }
@@ -77,35 +123,233 @@ export class RestApiChunkRepository implements ChunkRepository {
    * @returns A Promise that resolves to the ID of the stored chunk, or undefined if the API response doesn't include an ID.
    */
   async storeChunk(params: StoreChunkParams): Promise<string | undefined> {
-    const response = await this.makeRequest("/rest/v1/chunks", "POST", params);
-    return response?.[0]?.id;
+    const [id] = await this.storeChunks([params]);
+    return id;
+  }
+
+  /**
+   * Stores many chunks with a single bulk-upsert POST request to the "/chunks" endpoint.
+   * PostgREST writes all rows in one statement, resolving conflicts on the unique
+   * `(namespace, "documentId", "chunkIndex")` constraint by updating the existing row. With
+   * "return=representation" it returns the rows in input order; only their IDs are selected
+   * to keep the response small.
+   * @param params - The chunks to be stored.
+   * @returns A Promise that resolves to the IDs of the stored chunks, in input order.
+   */
+  async storeChunks(
+    params: StoreChunkParams[]
+  ): Promise<(string | undefined)[]> {
+    if (params.length === 0) {
+      return [];
+    }
+    const response = await this.makeRequest(
+      "/rest/v1/chunks?on_conflict=namespace,documentId,chunkIndex&select=id",
+      "POST",
+      // Every row has the same columns, as PostgREST takes the columns of a bulk insert from the first row.
+      params.map((chunk) => ({
+        ...chunk,
+        namespace: chunk.namespace ?? DEFAULT_NAMESPACE,
+        embeddingModel: chunk.embeddingModel ?? null,
+        embeddingDimensions: chunk.embedding.length,
+      })),
+      { Prefer: "return=representation,resolution=merge-duplicates" }
+    );
+    return params.map((_, i) => response?.[i]?.id);
+  }
+
+  /**
+   * Retrieves the rows of a GET query by paging through it with `limit` and `offset`, so that
+   * PostgREST's `max-rows` setting does not truncate the result.
+   * @param endpoint - The query, including a total `order` so that pages do not overlap.
+   * @param maxRows - Optional. The most rows to retrieve; all rows when omitted.
+   * @returns A Promise that resolves to the rows of every page, in order.
+   */
+  private async getAllPages(
+    endpoint: string,
+    maxRows = Infinity
+  ): Promise<any[]> {
+    const rows: any[] = [];
+    for (let offset = 0; offset < maxRows; offset += PAGE_SIZE) {
+      const pageSize = Math.min(PAGE_SIZE, maxRows - offset);
+      const page: any[] =
+        (await this.makeRequest(
+          `${endpoint}&limit=${pageSize}&offset=${offset}`,
+          "GET"
+        )) || [];
+      rows.push(...page);
+      if (page.length < pageSize) {
+        break;
+      }
+    }
+    return rows;
+  }
+
+  /**
+   * Retrieves all chunks of a document by paging through a filtered GET request to the
+   * "/chunks" endpoint. The embedding column is not selected.
+   * @param documentId - The ID of the document.
+   * @param namespace - The namespace of the document.
+   * @returns A Promise that resolves to the document's chunks ordered by `chunkIndex`.
+   */
+  async getDocumentChunks(
+    documentId: string,
+    namespace = DEFAULT_NAMESPACE
+  ): Promise<StoredChunk[]> {
+    return this.getAllPages(
+      `/rest/v1/chunks?select=${STORED_CHUNK_COLUMNS}&${namespaceCondition(
+        namespace
+      )}&documentId=eq.${encodeURIComponent(documentId)}&order=chunkIndex.asc`
+    );
+  }
+
+  /**
+   * Retrieves a chunk by ID via a GET request to the "/chunks" endpoint.
+   * The embedding column is not selected.
+   * @param id - The UUID of the chunk.
+   * @param namespace - The namespace of the chunk.
+   * @returns A Promise that resolves to the chunk, or undefined if it does not exist.
+   */
+  async getChunk(
+    id: string,
+    namespace = DEFAULT_NAMESPACE
+  ): Promise<StoredChunk | undefined> {
+    if (!isUuid(id)) {
+      return undefined; // PostgreSQL would reject the ID as malformed.
+    }
+    const response = await this.makeRequest(
+      `/rest/v1/chunks?select=${STORED_CHUNK_COLUMNS}&id=eq.${id}&${namespaceCondition(
+        namespace
+      )}`,
+      "GET"
+    );
+    return response?.[0];
+  }
+
+  /**
+   * Retrieves a range of a document's chunks by paging through a GET request to the "/chunks"
+   * endpoint, filtered on `documentId` and both ends of the `chunkIndex` range.
+   * The embedding column is not selected.
+   * @param documentId - The ID of the document.
+   * @param fromChunkIndex - The first `chunkIndex` of the range (inclusive).
+   * @param toChunkIndex - The last `chunkIndex` of the range (inclusive).
+   * @param namespace - The namespace of the document.
+   * @returns A Promise that resolves to the chunks in the range ordered by `chunkIndex`.
+   */
+  async getChunkRange(
+    documentId: string,
+    fromChunkIndex: number,
+    toChunkIndex: number,
+    namespace = DEFAULT_NAMESPACE
+  ): Promise<StoredChunk[]> {
+    return this.getAllPages(
+      `/rest/v1/chunks?select=${STORED_CHUNK_COLUMNS}&${namespaceCondition(
+        namespace
+      )}&documentId=eq.${encodeURIComponent(documentId)}&chunkIndex=gte.${fromChunkIndex}&chunkIndex=lte.${toChunkIndex}&order=chunkIndex.asc`
+    );
+  }
+
+  /**
+   * Lists documents by paging through the "/chunks" endpoint, selecting only the `documentId`
+   * and `chunkStrategy` columns of a namespace, and aggregating them per document.
+   * @param namespace - The namespace to list.
+   * @returns A Promise that resolves to one summary per document, ordered by `documentId`.
+   */
+  async listDocuments(
+    namespace = DEFAULT_NAMESPACE
+  ): Promise<DocumentSummary[]> {
+    const summaries = new Map<string, DocumentSummary>();
+
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const page: { documentId: string; chunkStrategy: string }[] =
+        (await this.makeRequest(
+          `/rest/v1/chunks?select=documentId,chunkStrategy&${namespaceCondition(
+            namespace
+          )}&order=documentId.asc,chunkIndex.asc&limit=${PAGE_SIZE}&offset=${offset}`,
+          "GET"
+        )) || [];
+
+      for (const row of page) {
+        let summary = summaries.get(row.documentId);
+        if (!summary) {
+          summary = {
+            documentId: row.documentId,
+            chunkCount: 0,
+            chunkStrategies: [],
+          };
+          summaries.set(row.documentId, summary);
+        }
+        summary.chunkCount++;
+        if (!summary.chunkStrategies.includes(row.chunkStrategy)) {
+          summary.chunkStrategies.push(row.chunkStrategy);
+        }
+      }
+
+      if (page.length < PAGE_SIZE) {
+        break;
+      }
+    }
+
+    return [...summaries.values()];
+  }
+
+  /**
+   * Deletes chunks of a document via a filtered DELETE request to the "/chunks" endpoint.
+   * @param documentId - The ID of the document.
+   * @param fromChunkIndex - Optional. Only delete chunks with `chunkIndex >= fromChunkIndex`.
+   * @param namespace - The namespace of the document.
+   * @returns A Promise that resolves to the number of deleted chunks.
+   */
+  async deleteDocumentChunks(
+    documentId: string,
+    fromChunkIndex?: number,
+    namespace = DEFAULT_NAMESPACE
+  ): Promise<number> {
+    let endpoint = `/rest/v1/chunks?select=id&${namespaceCondition(
+      namespace
+    )}&documentId=eq.${encodeURIComponent(documentId)}`;
+    if (fromChunkIndex !== undefined) {
+      endpoint += `&chunkIndex=gte.${fromChunkIndex}`;
+    }
+    const response = await this.makeRequest(endpoint, "DELETE", undefined, {
+      Prefer: "return=representation",
+    });
+    return response?.length ?? 0;
   }
 
   /**
    * Searches for similar chunks by calling the 'match_chunks' RPC function.
+   * The metadata filter is applied by PostgREST to the function's result set. When a filter is
+   * given, 'match_count' is left unbounded and the limit is applied after filtering instead, so
+   * that filtered-out chunks do not crowd matching ones out of the top results.
    * @param embedding - The embedding vector to search for.
-   * @param limit - The maximum number of results to return. This will be passed as 'match_count'.
-   * @param metadataFilter - Optional filter, specifically looking for 'documentId' to pass as 'p_document_id'.
+   * @param limit - The maximum number of results to return.
+   * @param metadataFilter - Optional filter on chunk columns and metadata.
    * @param threshold - The similarity threshold for matching, passed as 'match_threshold'.
-   * @returns A Promise that resolves to an array of search results (chunks).
+   * @param namespace - The namespace to search, passed as 'filter_namespace'.
+   * @param embeddingModel - Optional. Only match chunks embedded by this model, passed as 'filter_embedding_model'; the function also requires the query embedding's dimension.
+   * @returns A Promise that resolves to an array of search results (chunks) ordered by descending similarity.
    */
   async searchSimilarChunks(
     embedding: number[],
     limit = 5,
-    metadataFilter: Record<string, any> = {},
-    threshold = 0.7
+    metadataFilter: MetadataFilter = {},
+    threshold = 0.7,
+    namespace = DEFAULT_NAMESPACE,
+    embeddingModel?: string
   ): Promise<any[]> {
+    const filterQuery = toPostgrestQuery(metadataFilter);
     const rpcParams: Record<string, any> = {
       query_embedding: embedding,
       match_threshold: threshold,
-      match_count: limit,
+      match_count: filterQuery ? null : limit,
+      filter_namespace: namespace,
+      filter_embedding_model: embeddingModel ?? null,
     };
-    if (metadataFilter.documentId) {
-      rpcParams.p_document_id = metadataFilter.documentId;
-    }
 
     const response = await this.makeRequest(
-      "/rest/v1/rpc/match_chunks",
+      `/rest/v1/rpc/match_chunks?order=similarity.desc&limit=${limit}${
+        filterQuery ? `&${filterQuery}` : ""
+      }`,
       "POST",
       rpcParams
     );
@@ -113,28 +357,116 @@ export class RestApiChunkRepository implements ChunkRepository {
   }
 
   /**
-   * Filters chunks by metadata by calling the 'filter_chunks_by_meta' RPC function.
-   * @param metadataFilter - The metadata key-value pairs to filter by, passed as 'p_filter_metadata'.
-   * @param limit - The maximum number of results to return, passed as 'p_limit'.
-   * @returns A Promise that resolves to an array of filtered chunks.
+   * Searches chunks by keyword by calling the 'keyword_search_chunks' RPC function, which ranks
+   * matches of the query against the chunks' full-text (tsvector) index. The metadata filter is
+   * applied to the function's result set, as for `searchSimilarChunks`.
+   * @param query - The keyword query, passed as 'query_text'.
+   * @param limit - The maximum number of results to return.
+   * @param metadataFilter - Optional filter on chunk columns and metadata.
+   * @param namespace - The namespace to search, passed as 'filter_namespace'.
+   * @returns A Promise that resolves to an array of matching chunks with their 'rank'.
    */
-  async filterChunksByMetadata(
-    metadataFilter: Record<string, any>,
-    limit = 10
+  async searchKeywordChunks(
+    query: string,
+    limit = 5,
+    metadataFilter: MetadataFilter = {},
+    namespace = DEFAULT_NAMESPACE
   ): Promise<any[]> {
+    const filterQuery = toPostgrestQuery(metadataFilter);
     const rpcParams: Record<string, any> = {
-      p_filter_metadata: metadataFilter,
-      p_limit: limit,
+      query_text: query,
+      match_count: filterQuery ? null : limit,
+      filter_namespace: namespace,
     };
-    if (metadataFilter.documentId) {
-      rpcParams.p_document_id = metadataFilter.documentId;
-    }
 
     const response = await this.makeRequest(
-      "/rest/v1/rpc/filter_chunks_by_meta",
+      `/rest/v1/rpc/keyword_search_chunks?order=rank.desc&limit=${limit}${
+        filterQuery ? `&${filterQuery}` : ""
+      }`,
       "POST",
       rpcParams
     );
     return response || [];
   }
+
+  /**
+   * Filters chunks by metadata by paging through a filtered GET request to the "/chunks"
+   * endpoint, so that limits above PostgREST's `max-rows` are honoured. The embedding column is
+   * not selected.
+   * @param metadataFilter - The filter on chunk columns and metadata.
+   * @param limit - The maximum number of results to return.
+   * @param namespace - The namespace to filter.
+   * @returns A Promise that resolves to the matching chunks, ordered by document and `chunkIndex`.
+   */
+  async filterChunksByMetadata(
+    metadataFilter: MetadataFilter,
+    limit = 10,
+    namespace = DEFAULT_NAMESPACE
+  ): Promise<any[]> {
+    const filterQuery = toPostgrestQuery(metadataFilter);
+    return this.getAllPages(
+      `/rest/v1/chunks?select=${STORED_CHUNK_COLUMNS}&${namespaceCondition(
+        namespace
+      )}&order=documentId.asc,chunkIndex.asc${
+        filterQuery ? `&${filterQuery}` : ""
+      }`,
+      limit
+    );
+  }
+
+  /**
+   * Registers a namespace with a POST request to the "/namespaces" endpoint.
+   * @param settings - The namespace's name and settings.
+   * @throws Error if the namespace is already registered (the primary key rejects it with 409).
+   */
+  async createNamespace(settings: NamespaceSettings): Promise<void> {
+    try {
+      await this.makeRequest("/rest/v1/namespaces", "POST", settings, {
+        Prefer: "return=minimal",
+      });
+    } catch (error) {
+      if (error instanceof HttpError && error.status === 409) {
+        throw new Error(`Namespace "${settings.name}" already exists.`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Lists the registered namespaces with a GET request to the "/namespaces" endpoint.
+   * @returns A Promise that resolves to the namespaces' settings, ordered by name.
+   */
+  async listNamespaces(): Promise<NamespaceSettings[]> {
+    const rows: Record<string, any>[] =
+      (await this.makeRequest(
+        `/rest/v1/namespaces?select=${NAMESPACE_COLUMNS}&order=name.asc`,
+        "GET"
+      )) || [];
+    // Leave out the settings the namespace does not override.
+    return rows.map(
+      (row) =>
+        Object.fromEntries(
+          Object.entries(row).filter(([, value]) => value !== null)
+        ) as NamespaceSettings
+    );
+  }
+
+  /**
+   * Deletes a namespace's chunks, then its row of the namespaces table, with DELETE requests.
+   * @param name - The name of the namespace.
+   * @returns A Promise that resolves to the number of deleted chunks.
+   */
+  async dropNamespace(name: string): Promise<number> {
+    const deleted = await this.makeRequest(
+      `/rest/v1/chunks?select=id&${namespaceCondition(name)}`,
+      "DELETE",
+      undefined,
+      { Prefer: "return=representation" }
+    );
+    await this.makeRequest(
+      `/rest/v1/namespaces?name=eq.${encodeURIComponent(name)}`,
+      "DELETE"
+    );
+    return deleted?.length ?? 0;
+  }
 }
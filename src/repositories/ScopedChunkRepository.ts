@@ -0,0 +1,208 @@
+import {
+  ChunkRepository,
+  DocumentSummary,
+  NamespaceSettings,
+  StoreChunkParams,
+  StoredChunk,
+} from "./ChunkRepository.js";
+import { MetadataFilter } from "../filters/filter.js";
+
+/**
+ * A view of a `ChunkRepository` bound to one namespace. Chunks are stored in the namespace and
+ * every read, search and deletion is limited to it, whichever namespace the caller passes, so
+ * services written without namespaces (ingestion, search, context, sync) stay inside it.
+ * The namespace registry methods are passed through unchanged.
+ *
+ * The namespace is fixed when the view is created, normally by `NamespaceService.open`. No call
+ * can override it: the `namespace` field of stored chunks is replaced, and namespace arguments
+ * are not accepted, or ignored where the signature still has one (`searchSimilarChunks`).
+ */
+export class ScopedChunkRepository implements ChunkRepository {
+  private repository: ChunkRepository;
+  readonly namespace: string;
+
+  /**
+   * Creates an instance of ScopedChunkRepository.
+   * @param repository - The repository holding every namespace.
+   * @param namespace - The namespace the view is bound to.
+   */
+  constructor(repository: ChunkRepository, namespace: string) {
+    this.repository = repository;
+    this.namespace = namespace;
+  }
+
+  /**
+   * Stores a chunk in the view's namespace, replacing any namespace given in `params`.
+   * @param params - The chunk details to be stored.
+   * @returns A Promise that resolves to the ID of the stored chunk.
+   */
+  async storeChunk(params: StoreChunkParams): Promise<string | undefined> {
+    return this.repository.storeChunk({ ...params, namespace: this.namespace });
+  }
+
+  /**
+   * Stores many chunks in the view's namespace, replacing any namespace given in `params`.
+   * @param params - The chunks to be stored.
+   * @returns A Promise that resolves to the IDs of the stored chunks, in input order.
+   */
+  async storeChunks(
+    params: StoreChunkParams[]
+  ): Promise<(string | undefined)[]> {
+    return this.repository.storeChunks(
+      params.map((chunk) => ({ ...chunk, namespace: this.namespace }))
+    );
+  }
+
+  /**
+   * Retrieves all chunks of a document in the view's namespace.
+   * @param documentId - The ID of the document.
+   * @returns A Promise that resolves to the document's chunks ordered by `chunkIndex`.
+   */
+  async getDocumentChunks(documentId: string): Promise<StoredChunk[]> {
+    return this.repository.getDocumentChunks(documentId, this.namespace);
+  }
+
+  /**
+   * Retrieves a chunk by ID, if it belongs to the view's namespace.
+   * @param id - The ID of the chunk.
+   * @returns A Promise that resolves to the chunk, or undefined if it is not in the namespace.
+   */
+  async getChunk(id: string): Promise<StoredChunk | undefined> {
+    return this.repository.getChunk(id, this.namespace);
+  }
+
+  /**
+   * Retrieves a range of a document's chunks in the view's namespace.
+   * @param documentId - The ID of the document.
+   * @param fromChunkIndex - The first `chunkIndex` of the range (inclusive).
+   * @param toChunkIndex - The last `chunkIndex` of the range (inclusive).
+   * @returns A Promise that resolves to the chunks in the range ordered by `chunkIndex`.
+   */
+  async getChunkRange(
+    documentId: string,
+    fromChunkIndex: number,
+    toChunkIndex: number
+  ): Promise<StoredChunk[]> {
+    return this.repository.getChunkRange(
+      documentId,
+      fromChunkIndex,
+      toChunkIndex,
+      this.namespace
+    );
+  }
+
+  /**
+   * Lists the documents of the view's namespace.
+   * @returns A Promise that resolves to one summary per document.
+   */
+  async listDocuments(): Promise<DocumentSummary[]> {
+    return this.repository.listDocuments(this.namespace);
+  }
+
+  /**
+   * Deletes chunks of a document in the view's namespace.
+   * @param documentId - The ID of the document.
+   * @param fromChunkIndex - Optional. Only delete chunks with `chunkIndex >= fromChunkIndex`.
+   * @returns A Promise that resolves to the number of deleted chunks.
+   */
+  async deleteDocumentChunks(
+    documentId: string,
+    fromChunkIndex?: number
+  ): Promise<number> {
+    return this.repository.deleteDocumentChunks(
+      documentId,
+      fromChunkIndex,
+      this.namespace
+    );
+  }
+
+  /**
+   * Searches the view's namespace for the chunks most similar to an embedding.
+   * @param embedding - The embedding vector to search for.
+   * @param limit - Optional. The maximum number of results to return.
+   * @param metadataFilter - Optional filter on chunk columns and metadata.
+   * @param threshold - Optional. The minimum cosine similarity.
+   * @param _namespace - Ignored; the view's namespace is always searched.
+   * @param embeddingModel - Optional. Only match chunks embedded by this model at the query embedding's dimension.
+   * @returns A Promise that resolves to the matching chunks with their `similarity`, most similar first.
+   */
+  async searchSimilarChunks(
+    embedding: number[],
+    limit?: number,
+    metadataFilter?: MetadataFilter,
+    threshold?: number,
+    _namespace?: string,
+    embeddingModel?: string
+  ): Promise<any[]> {
+    return this.repository.searchSimilarChunks(
+      embedding,
+      limit,
+      metadataFilter,
+      threshold,
+      this.namespace,
+      embeddingModel
+    );
+  }
+
+  /**
+   * Searches the view's namespace for chunks sharing words with the query.
+   * @param query - The keyword query.
+   * @param limit - Optional. The maximum number of results to return.
+   * @param metadataFilter - Optional filter on chunk columns and metadata.
+   * @returns A Promise that resolves to the matching chunks with their `rank`, best first.
+   */
+  async searchKeywordChunks(
+    query: string,
+    limit?: number,
+    metadataFilter?: MetadataFilter
+  ): Promise<any[]> {
+    return this.repository.searchKeywordChunks(
+      query,
+      limit,
+      metadataFilter,
+      this.namespace
+    );
+  }
+
+  /**
+   * Filters the chunks of the view's namespace by their columns and metadata.
+   * @param metadataFilter - The filter on chunk columns and metadata.
+   * @param limit - Optional. The maximum number of results to return.
+   * @returns A Promise that resolves to the matching chunks.
+   */
+  async filterChunksByMetadata(
+    metadataFilter: MetadataFilter,
+    limit?: number
+  ): Promise<any[]> {
+    return this.repository.filterChunksByMetadata(
+      metadataFilter,
+      limit,
+      this.namespace
+    );
+  }
+
+  /**
+   * Registers a namespace in the underlying repository; not limited to the view's namespace.
+   * @param settings - The namespace's name and settings.
+   */
+  async createNamespace(settings: NamespaceSettings): Promise<void> {
+    return this.repository.createNamespace(settings);
+  }
+
+  /**
+   * Lists every namespace registered in the underlying repository.
+   * @returns A Promise that resolves to the registered namespaces.
+   */
+  async listNamespaces(): Promise<NamespaceSettings[]> {
+    return this.repository.listNamespaces();
+  }
+
+  /**
+   * Drops a namespace of the underlying repository, which may be another than the view's.
+   * @param name - The name of the namespace.
+   * @returns A Promise that resolves to the number of deleted chunks.
+   */
+  async dropNamespace(name: string): Promise<number> {
+    return this.repository.dropNamespace(name);
+  }
+}
@@ -0,0 +1,526 @@
+import { randomUUID } from "node:crypto";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+import initSqlJs from "sql.js";
+import {
+  ChunkRepository,
+  DocumentSummary,
+  NamespaceSettings,
+  StoreChunkParams,
+  StoredChunk,
+} from "./ChunkRepository.js";
+import { DEFAULT_NAMESPACE } from "./namespaces.js";
+import {
+  LocalChunk,
+  rankByKeywords,
+  rankBySimilarity,
+  summarizeDocuments,
+  withoutEmbedding,
+} from "./localChunks.js";
+import { MetadataFilter, withEmbeddingModel } from "../filters/filter.js";
+import { createFilterPredicate } from "../filters/predicate.js";
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS chunks (
+  id TEXT PRIMARY KEY,
+  namespace TEXT NOT NULL DEFAULT '${DEFAULT_NAMESPACE}',
+  documentId TEXT NOT NULL,
+  content TEXT NOT NULL,
+  chunkIndex INTEGER NOT NULL,
+  chunkSize INTEGER NOT NULL,
+  chunkOverlap INTEGER NOT NULL,
+  chunkStrategy TEXT NOT NULL,
+  startOffset INTEGER,
+  endOffset INTEGER,
+  startLine INTEGER,
+  endLine INTEGER,
+  metadata TEXT NOT NULL DEFAULT '{}',
+  embeddingModel TEXT,
+  embeddingDimensions INTEGER,
+  embedding BLOB NOT NULL,
+  UNIQUE (namespace, documentId, chunkIndex)
+);
+CREATE TABLE IF NOT EXISTS namespaces (
+  name TEXT PRIMARY KEY,
+  description TEXT,
+  embeddingModel TEXT,
+  embeddingDimensions INTEGER,
+  createdAt TEXT
+);`;
+
+// The columns of a chunks table created before namespaces, copied when it is migrated.
+const UNNAMESPACED_COLUMNS = `id, documentId, content, chunkIndex, chunkSize, chunkOverlap,
+  chunkStrategy, startOffset, endOffset, startLine, endLine, metadata, embedding`;
+
+// Rebuilds a chunks table created before namespaces, moving its chunks to the default namespace.
+const MIGRATE_CHUNKS = `
+BEGIN;
+ALTER TABLE chunks RENAME TO chunks_unnamespaced;
+${SCHEMA}
+INSERT INTO chunks (${UNNAMESPACED_COLUMNS}) SELECT ${UNNAMESPACED_COLUMNS} FROM chunks_unnamespaced;
+DROP TABLE chunks_unnamespaced;
+COMMIT;`;
+
+// Adds the embedding model columns to a chunks table created before they were recorded.
+const ADD_EMBEDDING_MODEL_COLUMNS = `
+ALTER TABLE chunks ADD COLUMN embeddingModel TEXT;
+ALTER TABLE chunks ADD COLUMN embeddingDimensions INTEGER;`;
+
+const UPSERT_CHUNK = `
+INSERT INTO chunks (id, namespace, documentId, content, chunkIndex, chunkSize, chunkOverlap,
+  chunkStrategy, startOffset, endOffset, startLine, endLine, metadata, embeddingModel,
+  embeddingDimensions, embedding)
+VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+ON CONFLICT (namespace, documentId, chunkIndex) DO UPDATE SET
+  content = excluded.content,
+  chunkSize = excluded.chunkSize,
+  chunkOverlap = excluded.chunkOverlap,
+  chunkStrategy = excluded.chunkStrategy,
+  startOffset = excluded.startOffset,
+  endOffset = excluded.endOffset,
+  startLine = excluded.startLine,
+  endLine = excluded.endLine,
+  metadata = excluded.metadata,
+  embeddingModel = excluded.embeddingModel,
+  embeddingDimensions = excluded.embeddingDimensions,
+  embedding = excluded.embedding
+RETURNING id;`;
+
+const CHUNK_ORDER = "ORDER BY documentId, chunkIndex";
+
+/**
+ * Encodes an embedding as a BLOB of 32-bit floats, the precision pgvector stores as well.
+ */
+function encodeEmbedding(embedding: number[]): Uint8Array {
+  return new Uint8Array(new Float32Array(embedding).buffer);
+}
+
+/**
+ * Decodes an embedding stored by `encodeEmbedding`.
+ */
+function decodeEmbedding(blob: Uint8Array): number[] {
+  return Array.from(
+    new Float32Array(blob.buffer, blob.byteOffset, blob.byteLength / 4)
+  );
+}
+
+/**
+ * Implements the `ChunkRepository` interface with a SQLite database file, using the
+ * WebAssembly build of SQLite (sql.js), so no native modules or database server are needed.
+ *
+ * The database is loaded into memory when first used and written back to the file after every
+ * change (to a temporary file that then replaces it, so a crash never leaves a torn file).
+ * Searches compare the query with every stored chunk and evaluate metadata filters in process,
+ * like `InMemoryChunkRepository`, which suits collections of up to tens of thousands of chunks.
+ * Namespaces are a column of the chunks table; databases created before namespaces are migrated
+ * when opened, their chunks moving to the default namespace. Chunks stored before embedding models
+ * were recorded keep a null `embeddingModel`.
+ */
+export class SqliteChunkRepository implements ChunkRepository {
+  private file: string; // The path of the database file.
+  private database?: Promise<initSqlJs.Database>; // The open database, once loaded.
+  private saving: Promise<void> = Promise.resolve(); // The latest write of the file.
+
+  /**
+   * Creates an instance of SqliteChunkRepository. The file is created on the first write if it
+   * does not exist.
+   * @param file - The path of the SQLite database file.
+   */
+  constructor(file: string) {
+    this.file = path.resolve(file);
+  }
+
+  /**
+   * Stores a chunk, replacing any chunk at the same position.
+   * @param params - The chunk details to be stored.
+   * @returns A Promise that resolves to the ID of the stored chunk.
+   */
+  async storeChunk(params: StoreChunkParams): Promise<string | undefined> {
+    const [id] = await this.storeChunks([params]);
+    return id;
+  }
+
+  /**
+   * Stores many chunks in one transaction, upserting on `(namespace, documentId, chunkIndex)` so that
+   * replaced chunks keep their IDs.
+   * @param params - The chunks to be stored.
+   * @returns A Promise that resolves to the IDs of the stored chunks, in input order.
+   */
+  async storeChunks(
+    params: StoreChunkParams[]
+  ): Promise<(string | undefined)[]> {
+    if (params.length === 0) {
+      return [];
+    }
+    const db = await this.open();
+    const statement = db.prepare(UPSERT_CHUNK);
+    const ids: string[] = [];
+    db.run("BEGIN");
+    try {
+      for (const chunk of params) {
+        statement.bind([
+          randomUUID(),
+          chunk.namespace ?? DEFAULT_NAMESPACE,
+          chunk.documentId,
+          chunk.content,
+          chunk.chunkIndex,
+          chunk.chunkSize,
+          chunk.chunkOverlap,
+          chunk.chunkStrategy,
+          chunk.startOffset ?? null,
+          chunk.endOffset ?? null,
+          chunk.startLine ?? null,
+          chunk.endLine ?? null,
+          JSON.stringify(chunk.metadata ?? {}),
+          chunk.embeddingModel ?? null,
+          chunk.embedding.length,
+          encodeEmbedding(chunk.embedding),
+        ]);
+        statement.step();
+        ids.push(statement.get()[0] as string);
+        statement.reset();
+      }
+      db.run("COMMIT");
+    } catch (error) {
+      db.run("ROLLBACK");
+      throw error;
+    } finally {
+      statement.free();
+    }
+    await this.save(db);
+    return ids;
+  }
+
+  /**
+   * Retrieves all chunks of a document.
+   * @param documentId - The ID of the document.
+   * @param namespace - The namespace of the document.
+   * @returns A Promise that resolves to the document's chunks ordered by `chunkIndex`.
+   */
+  async getDocumentChunks(
+    documentId: string,
+    namespace = DEFAULT_NAMESPACE
+  ): Promise<StoredChunk[]> {
+    return (
+      await this.select(
+        `WHERE namespace = ? AND documentId = ? ${CHUNK_ORDER}`,
+        [namespace, documentId]
+      )
+    ).map(withoutEmbedding);
+  }
+
+  /**
+   * Retrieves a chunk by ID.
+   * @param id - The ID of the chunk.
+   * @param namespace - The namespace of the chunk.
+   * @returns A Promise that resolves to the chunk, or undefined if it does not exist.
+   */
+  async getChunk(
+    id: string,
+    namespace = DEFAULT_NAMESPACE
+  ): Promise<StoredChunk | undefined> {
+    const [chunk] = await this.select("WHERE id = ? AND namespace = ?", [
+      id,
+      namespace,
+    ]);
+    return chunk && withoutEmbedding(chunk);
+  }
+
+  /**
+   * Retrieves a range of a document's chunks.
+   * @param documentId - The ID of the document.
+   * @param fromChunkIndex - The first `chunkIndex` of the range (inclusive).
+   * @param toChunkIndex - The last `chunkIndex` of the range (inclusive).
+   * @param namespace - The namespace of the document.
+   * @returns A Promise that resolves to the chunks in the range ordered by `chunkIndex`.
+   */
+  async getChunkRange(
+    documentId: string,
+    fromChunkIndex: number,
+    toChunkIndex: number,
+    namespace = DEFAULT_NAMESPACE
+  ): Promise<StoredChunk[]> {
+    return (
+      await this.select(
+        `WHERE namespace = ? AND documentId = ? AND chunkIndex BETWEEN ? AND ? ${CHUNK_ORDER}`,
+        [namespace, documentId, fromChunkIndex, toChunkIndex]
+      )
+    ).map(withoutEmbedding);
+  }
+
+  /**
+   * Lists the documents that have chunks stored in a namespace.
+   * @param namespace - The namespace to list.
+   * @returns A Promise that resolves to one summary per document, ordered by `documentId`.
+   */
+  async listDocuments(
+    namespace = DEFAULT_NAMESPACE
+  ): Promise<DocumentSummary[]> {
+    const db = await this.open();
+    const [result] = db.exec(
+      `SELECT documentId, chunkStrategy FROM chunks WHERE namespace = ? ${CHUNK_ORDER}`,
+      [namespace]
+    );
+    return summarizeDocuments(
+      (result?.values ?? []).map(([documentId, chunkStrategy]) => ({
+        documentId: documentId as string,
+        chunkStrategy: chunkStrategy as string,
+      }))
+    );
+  }
+
+  /**
+   * Deletes chunks of a document.
+   * @param documentId - The ID of the document.
+   * @param fromChunkIndex - Optional. Only delete chunks with `chunkIndex >= fromChunkIndex`.
+   * @param namespace - The namespace of the document.
+   * @returns A Promise that resolves to the number of deleted chunks.
+   */
+  async deleteDocumentChunks(
+    documentId: string,
+    fromChunkIndex?: number,
+    namespace = DEFAULT_NAMESPACE
+  ): Promise<number> {
+    const db = await this.open();
+    db.run(
+      "DELETE FROM chunks WHERE namespace = ? AND documentId = ? AND chunkIndex >= ?",
+      [namespace, documentId, fromChunkIndex ?? 0]
+    );
+    const deleted = db.getRowsModified();
+    if (deleted > 0) {
+      await this.save(db);
+    }
+    return deleted;
+  }
+
+  /**
+   * Searches for the chunks most similar to an embedding by comparing it with every chunk.
+   * @param embedding - The embedding vector to search for.
+   * @param limit - The maximum number of results to return.
+   * @param metadataFilter - Optional filter on chunk columns and metadata.
+   * @param threshold - The minimum cosine similarity.
+   * @param namespace - The namespace to search.
+   * @param embeddingModel - Optional. Only match chunks embedded by this model at the query embedding's dimension.
+   * @returns A Promise that resolves to the matching chunks with their `similarity`, most similar first.
+   */
+  async searchSimilarChunks(
+    embedding: number[],
+    limit = 5,
+    metadataFilter: MetadataFilter = {},
+    threshold = 0.7,
+    namespace = DEFAULT_NAMESPACE,
+    embeddingModel?: string
+  ): Promise<any[]> {
+    const filter =
+      embeddingModel !== undefined
+        ? withEmbeddingModel(metadataFilter, embeddingModel, embedding.length)
+        : metadataFilter;
+    return rankBySimilarity(
+      await this.filtered(filter, namespace),
+      embedding,
+      limit,
+      threshold
+    );
+  }
+
+  /**
+   * Searches for chunks sharing words with the query, ranked by BM25.
+   * @param query - The keyword query.
+   * @param limit - The maximum number of results to return.
+   * @param metadataFilter - Optional filter on chunk columns and metadata.
+   * @param namespace - The namespace to search.
+   * @returns A Promise that resolves to the matching chunks with their `rank`, best first.
+   */
+  async searchKeywordChunks(
+    query: string,
+    limit = 5,
+    metadataFilter: MetadataFilter = {},
+    namespace = DEFAULT_NAMESPACE
+  ): Promise<any[]> {
+    return rankByKeywords(
+      await this.filtered(metadataFilter, namespace),
+      query,
+      limit
+    );
+  }
+
+  /**
+   * Filters chunks by their columns and metadata.
+   * @param metadataFilter - The filter on chunk columns and metadata.
+   * @param limit - The maximum number of results to return.
+   * @param namespace - The namespace to filter.
+   * @returns A Promise that resolves to the matching chunks, ordered by document and `chunkIndex`.
+   */
+  async filterChunksByMetadata(
+    metadataFilter: MetadataFilter,
+    limit = 10,
+    namespace = DEFAULT_NAMESPACE
+  ): Promise<any[]> {
+    return (await this.filtered(metadataFilter, namespace))
+      .slice(0, limit)
+      .map(withoutEmbedding);
+  }
+
+  /**
+   * Registers a namespace in the namespaces table.
+   * @param settings - The namespace's name and settings.
+   * @throws Error if the namespace is already registered.
+   */
+  async createNamespace(settings: NamespaceSettings): Promise<void> {
+    const db = await this.open();
+    const [existing] = db.exec("SELECT 1 FROM namespaces WHERE name = ?", [
+      settings.name,
+    ]);
+    if (existing) {
+      throw new Error(`Namespace "${settings.name}" already exists.`);
+    }
+    db.run(
+      "INSERT INTO namespaces (name, description, embeddingModel, embeddingDimensions, createdAt) VALUES (?, ?, ?, ?, ?)",
+      [
+        settings.name,
+        settings.description ?? null,
+        settings.embeddingModel ?? null,
+        settings.embeddingDimensions ?? null,
+        settings.createdAt ?? null,
+      ]
+    );
+    await this.save(db);
+  }
+
+  /**
+   * Lists the registered namespaces.
+   * @returns A Promise that resolves to the namespaces' settings, ordered by name.
+   */
+  async listNamespaces(): Promise<NamespaceSettings[]> {
+    const db = await this.open();
+    const [result] = db.exec(
+      "SELECT name, description, embeddingModel, embeddingDimensions, createdAt FROM namespaces ORDER BY name"
+    );
+    return (result?.values ?? []).map(
+      ([
+        name,
+        description,
+        embeddingModel,
+        embeddingDimensions,
+        createdAt,
+      ]) => ({
+        name: name as string,
+        ...(description !== null ? { description: description as string } : {}),
+        ...(embeddingModel !== null
+          ? { embeddingModel: embeddingModel as string }
+          : {}),
+        ...(embeddingDimensions !== null
+          ? { embeddingDimensions: embeddingDimensions as number }
+          : {}),
+        ...(createdAt !== null ? { createdAt: createdAt as string } : {}),
+      })
+    );
+  }
+
+  /**
+   * Deletes a namespace's chunks and its registration in one transaction.
+   * @param name - The name of the namespace.
+   * @returns A Promise that resolves to the number of deleted chunks.
+   */
+  async dropNamespace(name: string): Promise<number> {
+    const db = await this.open();
+    db.run("BEGIN");
+    let deleted: number;
+    try {
+      db.run("DELETE FROM chunks WHERE namespace = ?", [name]);
+      deleted = db.getRowsModified();
+      db.run("DELETE FROM namespaces WHERE name = ?", [name]);
+      db.run("COMMIT");
+    } catch (error) {
+      db.run("ROLLBACK");
+      throw error;
+    }
+    await this.save(db);
+    return deleted;
+  }
+
+  /**
+   * Opens the database once, loading the file if it exists, and creates the schema.
+   */
+  private open(): Promise<initSqlJs.Database> {
+    this.database ??= (async () => {
+      const SQL = await initSqlJs();
+      let data: Buffer | undefined;
+      try {
+        data = await readFile(this.file);
+      } catch (error: any) {
+        if (error.code !== "ENOENT") {
+          throw error;
+        }
+      }
+      const db = new SQL.Database(data);
+      const [columns] = db.exec("PRAGMA table_info(chunks)");
+      const hasColumn = (column: string) =>
+        columns === undefined ||
+        columns.values.some(([, name]) => name === column);
+      if (!hasColumn("namespace")) {
+        db.run(MIGRATE_CHUNKS);
+      } else {
+        db.run(SCHEMA);
+        if (!hasColumn("embeddingModel")) {
+          db.run(ADD_EMBEDDING_MODEL_COLUMNS);
+        }
+      }
+      return db;
+    })();
+    return this.database;
+  }
+
+  /**
+   * Writes the database to its file, after any write still in progress.
+   */
+  private save(db: initSqlJs.Database): Promise<void> {
+    const data = db.export();
+    const write = async () => {
+      const temporary = `${this.file}.${process.pid}.tmp`;
+      await mkdir(path.dirname(this.file), { recursive: true });
+      await writeFile(temporary, data);
+      await rename(temporary, this.file);
+    };
+    this.saving = this.saving.then(write, write);
+    return this.saving;
+  }
+
+  /**
+   * Reads chunks with an optional SQL condition and ordering.
+   */
+  private async select(
+    clause: string,
+    params: initSqlJs.SqlValue[] = []
+  ): Promise<LocalChunk[]> {
+    const db = await this.open();
+    const statement = db.prepare(`SELECT * FROM chunks ${clause}`, params);
+    const chunks: LocalChunk[] = [];
+    try {
+      while (statement.step()) {
+        const row = statement.getAsObject();
+        chunks.push({
+          ...(row as any),
+          metadata: JSON.parse(row.metadata as string),
+          embedding: decodeEmbedding(row.embedding as Uint8Array),
+        });
+      }
+    } finally {
+      statement.free();
+    }
+    return chunks;
+  }
+
+  /**
+   * Reads the chunks of a namespace matching a filter, ordered by document and `chunkIndex`.
+   */
+  private async filtered(
+    metadataFilter: MetadataFilter,
+    namespace: string
+  ): Promise<LocalChunk[]> {
+    const matches = createFilterPredicate(metadataFilter);
+    return (
+      await this.select(`WHERE namespace = ? ${CHUNK_ORDER}`, [namespace])
+    ).filter(matches);
+  }
+}
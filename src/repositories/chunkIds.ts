@@ -0,0 +1,50 @@
+import { createHash } from "node:crypto";
+
+/**
+ * Derives a stable UUID for a chunk position, for vector stores that identify records by ID
+ * rather than by a unique `(documentId, chunkIndex)` constraint. Storing a chunk at the same
+ * position again therefore overwrites the previous record instead of duplicating it.
+ *
+ * @param documentId - The ID of the document.
+ * @param chunkIndex - The index of the chunk within the document.
+ * @returns A UUID (version 8, name-based on SHA-256) unique to the position.
+ */
+export function chunkPointId(documentId: string, chunkIndex: number): string {
+  return nameBasedUuid(`${documentId}\0${chunkIndex}`);
+}
+
+/**
+ * Derives a stable UUID for a namespace, identifying its record in a vector store's registry
+ * of namespaces.
+ *
+ * @param name - The name of the namespace.
+ * @returns A UUID (version 8, name-based on SHA-256) unique to the namespace.
+ */
+export function namespacePointId(name: string): string {
+  return nameBasedUuid(`namespace\0${name}`);
+}
+
+/**
+ * Derives a version 8 UUID from the SHA-256 hash of a name.
+ */
+function nameBasedUuid(name: string): string {
+  const hex = createHash("sha256").update(name).digest("hex");
+  const variant = ((parseInt(hex[16], 16) & 0x3) | 0x8).toString(16);
+  return [
+    hex.slice(0, 8),
+    hex.slice(8, 12),
+    `8${hex.slice(13, 16)}`,
+    `${variant}${hex.slice(17, 20)}`,
+    hex.slice(20, 32),
+  ].join("-");
+}
+
+/**
+ * Checks whether a string is a UUID, the ID format of the PostgREST, Qdrant and Chroma stores.
+ * IDs of any other form cannot name a stored chunk, so lookups can skip the request.
+ */
+export function isUuid(value: string): boolean {
+  return /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(
+    value
+  );
+}
@@ -0,0 +1,140 @@
+import { DocumentSummary, StoredChunk } from "./ChunkRepository.js";
+import { LexicalReranker } from "../search/lexicalReranker.js";
+import { cosineSimilarity } from "../search/mmr.js";
+
+/**
+ * A chunk with its embedding, as held by a local store or ranked in process.
+ */
+export interface LocalChunk {
+  id: string;
+  namespace: string;
+  documentId: string;
+  content: string;
+  chunkIndex: number;
+  chunkSize: number;
+  chunkOverlap: number;
+  chunkStrategy: string;
+  startOffset: number | null;
+  endOffset: number | null;
+  startLine: number | null;
+  endLine: number | null;
+  metadata: Record<string, any>;
+  embeddingModel: string | null;
+  embeddingDimensions: number | null;
+  embedding: number[];
+}
+
+// Scores keyword matches like the lexical reranker: BM25 over the matching chunks.
+const keywordScorer = new LexicalReranker();
+
+/**
+ * Ranks chunks by cosine similarity to an embedding, as the `match_chunks` function does.
+ *
+ * @param chunks - The chunks to search.
+ * @param embedding - The query embedding.
+ * @param limit - The maximum number of results.
+ * @param threshold - The minimum similarity.
+ * @returns The matching chunks with their `similarity`, most similar first.
+ */
+export function rankBySimilarity(
+  chunks: LocalChunk[],
+  embedding: number[],
+  limit: number,
+  threshold: number
+): any[] {
+  return chunks
+    .map((chunk) => ({
+      ...chunk,
+      metadata: structuredClone(chunk.metadata),
+      similarity: cosineSimilarity(embedding, chunk.embedding),
+    }))
+    .filter((chunk) => chunk.similarity >= threshold)
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, limit);
+}
+
+/**
+ * Ranks chunks containing any of the query's words by BM25, standing in for the
+ * `keyword_search_chunks` full-text function (without stemming or stop words).
+ *
+ * @param chunks - The chunks to search.
+ * @param query - The keyword query.
+ * @param limit - The maximum number of results.
+ * @returns The matching chunks with their `rank`, best first.
+ */
+export async function rankByKeywords(
+  chunks: LocalChunk[],
+  query: string,
+  limit: number
+): Promise<any[]> {
+  const queryTerms = new Set(query.toLowerCase().match(/[\p{L}\p{N}_]+/gu));
+  const matching = chunks.filter((chunk) =>
+    (chunk.content.toLowerCase().match(/[\p{L}\p{N}_]+/gu) ?? []).some((term) =>
+      queryTerms.has(term)
+    )
+  );
+  const ranks = await keywordScorer.rerank(
+    query,
+    matching.map((chunk) => chunk.content)
+  );
+  return matching
+    .map((chunk, index) => ({
+      ...chunk,
+      metadata: structuredClone(chunk.metadata),
+      rank: ranks[index],
+    }))
+    .sort((a, b) => b.rank - a.rank)
+    .slice(0, limit);
+}
+
+/**
+ * Orders chunks by document and `chunkIndex`, as reads of the chunks table do.
+ */
+export function compareChunks(
+  a: Pick<LocalChunk, "documentId" | "chunkIndex">,
+  b: Pick<LocalChunk, "documentId" | "chunkIndex">
+): number {
+  return a.documentId < b.documentId
+    ? -1
+    : a.documentId > b.documentId
+      ? 1
+      : a.chunkIndex - b.chunkIndex;
+}
+
+/**
+ * Returns a copy of a chunk without its embedding, as table reads return it.
+ */
+export function withoutEmbedding({
+  embedding,
+  ...chunk
+}: LocalChunk): StoredChunk {
+  return { ...chunk, metadata: structuredClone(chunk.metadata) };
+}
+
+/**
+ * Summarizes chunks per document.
+ *
+ * @param chunks - The chunks, ordered by document and `chunkIndex`.
+ * @returns One summary per document, in the order of the chunks.
+ */
+export function summarizeDocuments(
+  chunks: Pick<LocalChunk, "documentId" | "chunkStrategy">[]
+): DocumentSummary[] {
+  const summaries = new Map<string, DocumentSummary>();
+  for (const chunk of chunks) {
+    let summary = summaries.get(chunk.documentId);
+    if (!summary) {
+      summary = {
+        documentId: chunk.documentId,
+        chunkCount: 0,
+        chunkStrategies: [],
+      };
+      summaries.set(chunk.documentId, summary);
+    }
+    summary.chunkCount++;
+    if (!summary.chunkStrategies.includes(chunk.chunkStrategy)) {
+      summary.chunkStrategies.push(chunk.chunkStrategy);
+    }
+  }
+  return [...summaries.values()];
+}
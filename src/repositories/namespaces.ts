@@ -0,0 +1,23 @@
+// The namespace of chunks stored or read without naming one. It always exists and cannot be dropped.
+export const DEFAULT_NAMESPACE = "default";
+
+// Namespace names: lowercase letters, digits, '-' and '_', starting with a letter or digit.
+// They are safe in URLs, SQL literals and vector store collection names.
+export const NAMESPACE_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]{0,62}$/;
+
+/**
+ * Names the vector store collection holding a namespace's chunks. The default namespace keeps
+ * the configured collection, so collections created before namespaces remain readable.
+ *
+ * @param collection - The configured collection name.
+ * @param namespace - The name of the namespace.
+ * @returns The name of the namespace's collection.
+ */
+export function namespaceCollection(
+  collection: string,
+  namespace: string
+): string {
+  return namespace === DEFAULT_NAMESPACE
+    ? collection
+    : `${collection}_ns_${namespace}`;
+}
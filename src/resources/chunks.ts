@@ -0,0 +1,82 @@
+import {
+  ResourceTemplate,
+  ResourceMetadata,
+} from "@modelcontextprotocol/sdk/server/mcp.js";
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { ToolDependencies } from "../tools/dependencies.js";
+import { documentUri } from "./documents.js";
+import { completeNamespace, openResourceNamespace } from "./namespaces.js";
+
+// The resources of single chunks, addressed by their namespace and the ID the repository assigned.
+export const CHUNK_URI_TEMPLATE = "raglit://{namespace}/chunks/{id}";
+
+/**
+ * Builds the resource URI of a chunk.
+ * @param namespace - The namespace of the chunk.
+ * @param id - The ID of the chunk.
+ * @returns The URI of the chunk.
+ */
+export function chunkUri(namespace: string, id: string): string {
+  return `raglit://${namespace}/chunks/${encodeURIComponent(id)}`;
+}
+
+/**
+ * Creates the 'chunk' resource template: one resource per stored chunk, holding the chunk with
+ * its position, source span and metadata. Chunks are not listed (a corpus can hold millions);
+ * their URIs appear in document resources and in the citations of the 'answer_with_citations'
+ * prompt.
+ *
+ * @param dependencies - The services the resource uses.
+ * @returns The resource's template, metadata and read handler.
+ */
+export function createChunkResource(dependencies: ToolDependencies) {
+  return {
+    template: new ResourceTemplate(CHUNK_URI_TEMPLATE, {
+      list: undefined,
+      complete: {
+        namespace: (prefix) => completeNamespace(dependencies, prefix),
+      },
+    }),
+
+    metadata: {
+      description:
+        "A stored chunk: its content, position in the document, source span and metadata.",
+      mimeType: "application/json",
+    } satisfies ResourceMetadata,
+
+    /**
+     * Reads a chunk.
+     * @param uri - The requested URI.
+     * @param variables - The variables matched in the URI template.
+     * @returns The resource contents.
+     * @throws McpError if the namespace does not exist or no chunk of it has the ID.
+     */
+    read: async (uri: URL, variables: Record<string, string | string[]>) => {
+      const { settings, repository } = await openResourceNamespace(
+        dependencies,
+        uri,
+        variables
+      );
+      const id = decodeURIComponent(String(variables.id));
+      const chunk = await repository.getChunk(id);
+      if (!chunk) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Resource ${uri.href} not found: no chunk of namespace "${settings.name}" has the ID "${id}".`
+        );
+      }
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: "application/json",
+            text: JSON.stringify({
+              ...chunk,
+              document: documentUri(settings.name, chunk.documentId),
+            }),
+          },
+        ],
+      };
+    },
+  };
+}
@@ -0,0 +1,203 @@
+import {
+  ResourceTemplate,
+  ResourceMetadata,
+} from "@modelcontextprotocol/sdk/server/mcp.js";
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { mergeChunkContents } from "../services/context.js";
+import { ToolDependencies } from "../tools/dependencies.js";
+import { chunkUri } from "./chunks.js";
+import { completeNamespace, openResourceNamespace } from "./namespaces.js";
+
+// The resources listing the indexed documents of each namespace.
+export const DOCUMENTS_URI_TEMPLATE = "raglit://{namespace}/documents";
+
+// The resources of single documents; the document ID is percent-encoded.
+export const DOCUMENT_URI_TEMPLATE =
+  "raglit://{namespace}/documents/{documentId}";
+
+/**
+ * Builds the resource URI listing the documents of a namespace.
+ * @param namespace - The name of the namespace.
+ * @returns The URI of the namespace's document list.
+ */
+export function documentsUri(namespace: string): string {
+  return `raglit://${namespace}/documents`;
+}
+
+/**
+ * Builds the resource URI of a document.
+ * @param namespace - The namespace of the document.
+ * @param documentId - The ID of the document.
+ * @returns The URI, with the ID percent-encoded so that IDs containing slashes stay one segment.
+ */
+export function documentUri(namespace: string, documentId: string): string {
+  return `${documentsUri(namespace)}/${encodeURIComponent(documentId)}`;
+}
+
+/**
+ * Creates the 'documents' resource template: one resource per namespace, holding a JSON list of
+ * the namespace's indexed documents with their chunk counts, chunking strategies and resource
+ * URIs. Clients can list the namespaces' document lists and complete namespace names.
+ *
+ * @param dependencies - The services the resource uses.
+ * @returns The resource's template, metadata and read handler.
+ */
+export function createDocumentListResource(dependencies: ToolDependencies) {
+  return {
+    template: new ResourceTemplate(DOCUMENTS_URI_TEMPLATE, {
+      list: async () => ({
+        resources: (await dependencies.namespaces.list()).map(({ name }) => ({
+          uri: documentsUri(name),
+          name: `${name} documents`,
+          mimeType: "application/json",
+        })),
+      }),
+      complete: {
+        namespace: (prefix) => completeNamespace(dependencies, prefix),
+      },
+    }),
+
+    metadata: {
+      description:
+        "Every document indexed in a namespace, with its chunk count, chunking strategies and resource URI.",
+      mimeType: "application/json",
+    } satisfies ResourceMetadata,
+
+    /**
+     * Reads the list of documents.
+     * @param uri - The requested URI.
+     * @param variables - The variables matched in the URI template.
+     * @returns The resource contents.
+     * @throws McpError if the namespace does not exist.
+     */
+    read: async (uri: URL, variables: Record<string, string | string[]>) => {
+      const { settings, repository } = await openResourceNamespace(
+        dependencies,
+        uri,
+        variables
+      );
+      const documents = await repository.listDocuments();
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: "application/json",
+            text: JSON.stringify({
+              namespace: settings.name,
+              documents: documents.map((document) => ({
+                ...document,
+                uri: documentUri(settings.name, document.documentId),
+              })),
+            }),
+          },
+        ],
+      };
+    },
+  };
+}
+
+/**
+ * Creates the 'document' resource template: one resource per indexed document of each namespace,
+ * holding the document's text reassembled from its chunks (with the overlaps removed) and the
+ * URI of each chunk. Clients can list the documents and complete namespace names and document
+ * IDs.
+ *
+ * @param dependencies - The services the resource uses.
+ * @returns The resource's template, metadata and read handler.
+ */
+export function createDocumentResource(dependencies: ToolDependencies) {
+  const { namespaces } = dependencies;
+
+  // Lists the documents of every namespace.
+  const listDocuments = async () =>
+    (
+      await Promise.all(
+        (await namespaces.list()).map(async ({ name }) => {
+          const { repository } = await namespaces.open(name);
+          return (await repository.listDocuments()).map((document) => ({
+            namespace: name,
+            documentId: document.documentId,
+          }));
+        })
+      )
+    ).flat();
+
+  // Lists the IDs of the indexed documents that start with a prefix, for completion. The
+  // completion does not know the namespace typed, so it offers the IDs of every namespace.
+  const completeDocumentId = async (prefix: string) => [
+    ...new Set(
+      (await listDocuments())
+        .map((document) => document.documentId)
+        .filter((documentId) => documentId.startsWith(prefix))
+    ),
+  ];
+
+  return {
+    template: new ResourceTemplate(DOCUMENT_URI_TEMPLATE, {
+      list: async () => ({
+        resources: (await listDocuments()).map((document) => ({
+          uri: documentUri(document.namespace, document.documentId),
+          name: document.documentId,
+          mimeType: "application/json",
+        })),
+      }),
+      complete: {
+        namespace: (prefix) => completeNamespace(dependencies, prefix),
+        documentId: completeDocumentId,
+      },
+    }),
+
+    metadata: {
+      description:
+        "An indexed document: its text reassembled from the stored chunks, and the URI of each chunk.",
+      mimeType: "application/json",
+    } satisfies ResourceMetadata,
+
+    /**
+     * Reads a document.
+     * @param uri - The requested URI.
+     * @param variables - The variables matched in the URI template.
+     * @returns The resource contents.
+     * @throws McpError if the namespace does not exist or the document has no chunks stored.
+     */
+    read: async (uri: URL, variables: Record<string, string | string[]>) => {
+      const { settings, repository } = await openResourceNamespace(
+        dependencies,
+        uri,
+        variables
+      );
+      const documentId = decodeURIComponent(String(variables.documentId));
+      const chunks = await repository.getDocumentChunks(documentId);
+      if (chunks.length === 0) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Resource ${uri.href} not found: document "${documentId}" has no chunks stored.`
+        );
+      }
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: "application/json",
+            text: JSON.stringify({
+              namespace: settings.name,
+              documentId,
+              chunkCount: chunks.length,
+              content: mergeChunkContents(chunks),
+              chunks: chunks.map((chunk) => ({
+                uri: chunkUri(settings.name, chunk.id),
+                id: chunk.id,
+                chunkIndex: chunk.chunkIndex,
+                chunkStrategy: chunk.chunkStrategy,
+                startOffset: chunk.startOffset,
+                endOffset: chunk.endOffset,
+                startLine: chunk.startLine,
+                endLine: chunk.endLine,
+              })),
+            }),
+          },
+        ],
+      };
+    },
+  };
+}
@@ -0,0 +1,45 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { OpenNamespace } from "../services/namespaces.js";
+import { ToolDependencies } from "../tools/dependencies.js";
+
+/**
+ * Opens the namespace named by the `namespace` variable of a resource URI.
+ *
+ * @param dependencies - The services the resource uses.
+ * @param uri - The requested URI.
+ * @param variables - The variables matched in the URI template.
+ * @returns A Promise that resolves to the opened namespace.
+ * @throws McpError if the namespace does not exist.
+ */
+export async function openResourceNamespace(
+  { namespaces }: ToolDependencies,
+  uri: URL,
+  variables: Record<string, string | string[]>
+): Promise<OpenNamespace> {
+  const namespace = decodeURIComponent(String(variables.namespace));
+  try {
+    return await namespaces.open(namespace);
+  } catch (error: any) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Resource ${uri.href} not found: ${error.message}`
+    );
+  }
+}
+
+/**
+ * Lists the names of the namespaces that start with a prefix, for completing the `namespace`
+ * variable of a resource URI.
+ *
+ * @param dependencies - The services the resource uses.
+ * @param prefix - The text typed so far.
+ * @returns A Promise that resolves to the matching namespace names.
+ */
+export async function completeNamespace(
+  { namespaces }: ToolDependencies,
+  prefix: string
+): Promise<string[]> {
+  return (await namespaces.list())
+    .map((namespace) => namespace.name)
+    .filter((name) => name.startsWith(prefix));
+}
@@ -0,0 +1,49 @@
+/**
+ * A ranked result list contributed to fusion, with the weight of its retrieval mode.
+ */
+export interface RankedList {
+  name: string; // The retrieval mode that produced the list (e.g., "vector", "keyword").
+  results: any[]; // Chunk objects in rank order, identified by their `id`.
+  weight: number; // Multiplier applied to this list's contribution.
+}
+
+// The conventional RRF smoothing constant; dampens the advantage of the very top ranks.
+export const DEFAULT_RRF_K = 60;
+
+/**
+ * Fuses several ranked result lists with weighted reciprocal rank fusion (RRF).
+ * Each chunk scores `Σ weight / (k + rank)` over the lists it appears in (1-based ranks), so
+ * chunks ranked highly by several modes rise to the top without comparing raw scores that live
+ * on different scales.
+ *
+ * @param lists - The ranked lists to fuse.
+ * @param k - The RRF smoothing constant.
+ * @returns The fused chunks ordered by descending `fusedScore`, each with a `ranks` record of
+ * its 1-based rank in every list it appeared in.
+ */
+export function reciprocalRankFusion(
+  lists: RankedList[],
+  k = DEFAULT_RRF_K
+): any[] {
+  const fused = new Map<
+    string,
+    { chunk: any; fusedScore: number; ranks: Record<string, number> }
+  >();
+
+  for (const list of lists) {
+    list.results.forEach((chunk, position) => {
+      const rank = position + 1;
+      let entry = fused.get(chunk.id);
+      if (!entry) {
+        entry = { chunk, fusedScore: 0, ranks: {} };
+        fused.set(chunk.id, entry);
+      }
+      entry.fusedScore += list.weight / (k + rank);
+      entry.ranks[list.name] = rank;
+    });
+  }
+
+  return [...fused.values()]
+    .sort((a, b) => b.fusedScore - a.fusedScore)
+    .map(({ chunk, fusedScore, ranks }) => ({ ...chunk, fusedScore, ranks }));
+}
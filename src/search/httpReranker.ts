@@ -0,0 +1,168 @@
+import { Reranker } from "./reranker.js";
+import { HttpError, TimeoutError } from "../utils/errors.js";
+import { parseRetryAfter, RetryPolicy } from "../utils/retry.js";
+
+// Default timeout for rerank API requests in milliseconds
+const DEFAULT_RERANK_TIMEOUT = 30000;
+
+/**
+ * Interface defining the options for configuring an HTTP reranker.
+ */
+export interface HttpRerankerOptions {
+  baseUrl: string; // Base URL of the API, including any version prefix (e.g., "http://localhost:7997").
+  apiKey?: string; // Optional bearer token.
+  model: string; // The reranking model to request.
+  timeoutMs?: number; // Request timeout in milliseconds.
+  retryPolicy?: RetryPolicy; // Optional policy used to retry transient failures.
+  fallback?: Reranker; // Optional reranker that scores the candidates when the API request fails.
+}
+
+/**
+ * Scores candidates with a cross-encoder served over HTTP.
+ * Sends `POST {baseUrl}/rerank` with `{ model, query, documents }` and reads
+ * `{ results: [{ index, relevance_score }] }`, the API shape shared by Cohere, Jina, Infinity,
+ * vLLM and most local rerank servers.
+ *
+ * When a fallback reranker is configured, a request that still fails after its retries is logged
+ * and the candidates are scored by the fallback instead, so that searches keep working while the
+ * rerank server is unavailable.
+ */
+export class HttpReranker implements Reranker {
+  readonly model: string;
+  private baseUrl: string;
+  private apiKey?: string;
+  private timeoutMs: number;
+  private retryPolicy?: RetryPolicy;
+  private fallback?: Reranker;
+
+  /**
+   * Creates an instance of HttpReranker.
+   * @param options - Connection and model options for the rerank API.
+   */
+  constructor(options: HttpRerankerOptions) {
+    this.baseUrl = options.baseUrl.replace(/\/+$/, ""); // Strip trailing slashes
+    this.apiKey = options.apiKey;
+    this.model = options.model;
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_RERANK_TIMEOUT;
+    this.retryPolicy = options.retryPolicy;
+    this.fallback = options.fallback;
+  }
+
+  /**
+   * Scores each document's relevance to the query in a single API request.
+   * Transient failures are retried according to the configured retry policy; if the request
+   * still fails, the fallback reranker (if any) scores the documents instead.
+   *
+   * @param query - The search query.
+   * @param documents - The candidate passages.
+   * @returns A Promise that resolves to one score per document, in input order.
+   * @throws Error if the request fails, returns an unexpected payload, or times out, and no fallback is configured.
+   */
+  async rerank(query: string, documents: string[]): Promise<number[]> {
+    if (documents.length === 0) {
+      return [];
+    }
+    try {
+      return await (this.retryPolicy
+        ? this.retryPolicy.execute(() => this.requestScores(query, documents))
+        : this.requestScores(query, documents));
+    } catch (error: any) {
+      if (!this.fallback) {
+        throw error;
+      }
+      console.error(
+        `Rerank request failed, falling back to ${this.fallback.model} reranking:`,
+        error.message
+      );
+      return this.fallback.rerank(query, documents);
+    }
+  }
+
+  /**
+   * Performs a single rerank API request.
+   *
+   * @param query - The search query.
+   * @param documents - The candidate passages.
+   * @returns A Promise that resolves to one score per document, in input order.
+   * @throws HttpError for non-successful responses, TimeoutError on timeout, or Error for malformed payloads.
+   */
+  private async requestScores(
+    query: string,
+    documents: string[]
+  ): Promise<number[]> {
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+    };
+    if (this.apiKey) {
+      headers.Authorization = `Bearer ${this.apiKey}`;
+    }
+
+    try {
+      // Use AbortController for request timeout
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), this.timeoutMs);
+
+      const response = await fetch(`${this.baseUrl}/rerank`, {
+        method: "POST",
+        headers,
+        body: JSON.stringify({
+          model: this.model,
+          query,
+          documents,
+        }),
+        signal: controller.signal,
+      });
+
+      clearTimeout(timeoutId);
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        let errorDetails = errorText || "Unknown error";
+        try {
+          const errorResponse = JSON.parse(errorText);
+          errorDetails =
+            errorResponse.error?.message ||
+            errorResponse.detail ||
+            JSON.stringify(errorResponse);
+        } catch (parseError) {
+          // If parsing fails, keep the raw text response
+        }
+        throw new HttpError(
+          `Rerank API error (${response.status}): ${errorDetails}`,
+          response.status,
+          parseRetryAfter(response.headers.get("retry-after"))
+        );
+      }
+
+      const result = await response.json();
+      const entries = result.results;
+      if (!Array.isArray(entries) || entries.length !== documents.length) {
+        throw new Error("Invalid response structure from rerank API.");
+      }
+
+      // Entries are usually sorted by score; map them back to input order by their index.
+      const scores = new Array<number>(documents.length);
+      for (const entry of entries) {
+        const score = entry.relevance_score;
+        if (
+          !Number.isInteger(entry.index) ||
+          entry.index < 0 ||
+          entry.index >= documents.length ||
+          typeof score !== "number" ||
+          scores[entry.index] !== undefined
+        ) {
+          throw new Error("Invalid response structure from rerank API.");
+        }
+        scores[entry.index] = score;
+      }
+      return scores;
+    } catch (error: any) {
+      if (error.name === "AbortError") {
+        throw new TimeoutError(
+          `Rerank request timed out after ${this.timeoutMs}ms`
+        );
+      }
+      throw error;
+    }
+  }
+}
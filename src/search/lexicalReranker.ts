@@ -0,0 +1,83 @@
+import { Reranker } from "./reranker.js";
+
+// BM25 term frequency saturation and length normalization parameters.
+const K1 = 1.2;
+const B = 0.75;
+
+/**
+ * Splits text into lowercase word terms.
+ * @param text - The text to tokenize.
+ * @returns The terms in order of appearance.
+ */
+function terms(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}_]+/gu) ?? [];
+}
+
+/**
+ * Reranks candidates offline by lexical overlap with the query, using BM25 with inverse
+ * document frequencies computed over the candidate set itself.
+ * Scores are normalized to [0, 1] so that a passage of average length containing every query
+ * term scores about 1.
+ *
+ * NOTE: This reranker needs no model or network access, but it only rewards shared words; it is a
+ * fallback for offline use rather than a substitute for a cross-encoder.
+ */
+export class LexicalReranker implements Reranker {
+  readonly model = "lexical";
+
+  /**
+   * Scores each document by BM25 overlap with the query's terms.
+   *
+   * @param query - The search query.
+   * @param documents - The candidate passages.
+   * @returns A Promise that resolves to one score in [0, 1] per document, in input order.
+   */
+  async rerank(query: string, documents: string[]): Promise<number[]> {
+    const queryTerms = [...new Set(terms(query))];
+    if (queryTerms.length === 0 || documents.length === 0) {
+      return documents.map(() => 0);
+    }
+
+    // Term frequencies per document, and how many documents contain each query term.
+    const termCounts = documents.map((document) => {
+      const counts = new Map<string, number>();
+      for (const term of terms(document)) {
+        counts.set(term, (counts.get(term) ?? 0) + 1);
+      }
+      return counts;
+    });
+    const lengths = termCounts.map((counts) =>
+      [...counts.values()].reduce((sum, count) => sum + count, 0)
+    );
+    const averageLength =
+      lengths.reduce((sum, length) => sum + length, 0) / documents.length || 1;
+    const idf = new Map(
+      queryTerms.map((term) => {
+        const frequency = termCounts.filter((counts) =>
+          counts.has(term)
+        ).length;
+        return [
+          term,
+          Math.log(
+            1 + (documents.length - frequency + 0.5) / (frequency + 0.5)
+          ),
+        ];
+      })
+    );
+
+    // A passage of average length containing every query term once scores the sum of the IDFs.
+    const fullMatchScore = queryTerms.reduce(
+      (sum, term) => sum + idf.get(term)!,
+      0
+    );
+
+    return termCounts.map((counts, index) => {
+      const lengthNorm = K1 * (1 - B + (B * lengths[index]) / averageLength);
+      const score = queryTerms.reduce((sum, term) => {
+        const tf = counts.get(term) ?? 0;
+        return sum + (idf.get(term)! * tf * (K1 + 1)) / (tf + lengthNorm);
+      }, 0);
+      return Math.min(1, score / fullMatchScore);
+    });
+  }
+}
@@ -0,0 +1,141 @@
+/**
+ * Options controlling maximal marginal relevance selection.
+ */
+export interface MmrOptions {
+  limit: number; // The number of chunks to select.
+  lambda: number; // Trade-off between relevance (1) and novelty (0).
+  maxPerDocument?: number; // Optional cap on selected chunks sharing a `documentId`.
+}
+
+/**
+ * Reads a chunk's embedding, which PostgREST returns for pgvector columns as a string such as
+ * `"[0.1,0.2,...]"` rather than as a JSON array.
+ *
+ * @param value - The `embedding` field of a chunk.
+ * @returns The embedding as an array of numbers, or undefined if it is missing or malformed.
+ */
+export function parseEmbedding(value: unknown): number[] | undefined {
+  let parsed = value;
+  if (typeof value === "string") {
+    try {
+      parsed = JSON.parse(value);
+    } catch {
+      return undefined;
+    }
+  }
+  return Array.isArray(parsed) &&
+    parsed.every((entry) => typeof entry === "number")
+    ? parsed
+    : undefined;
+}
+
+/**
+ * Computes the cosine similarity of two vectors.
+ *
+ * @param a - The first vector.
+ * @param b - The second vector, of the same length.
+ * @returns The cosine similarity in [-1, 1], or 0 if either vector is zero.
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+/**
+ * Selects a relevant but non-redundant subset of candidates with maximal marginal relevance.
+ * Chunks are picked greedily by `lambda * relevance - (1 - lambda) * redundancy`, where
+ * redundancy is the highest cosine similarity to an already selected chunk, so near-duplicates
+ * of earlier picks (such as overlapping neighbours from the same document) are pushed down.
+ * Candidates without an embedding are treated as redundant with nothing, and candidates embedded
+ * by different models or at different dimensions are not compared with each other.
+ *
+ * @param candidates - Chunk objects with an optional `embedding` and `embeddingModel`, and a `documentId`.
+ * @param relevance - Each candidate's relevance to the query, in candidate order.
+ * @param options - The number to select, the relevance/novelty trade-off and an optional per-document cap.
+ * @returns The selected chunks in selection order, each with its `mmrScore` at the time it was picked.
+ */
+export function maximalMarginalRelevance(
+  candidates: any[],
+  relevance: number[],
+  options: MmrOptions
+): any[] {
+  const { limit, lambda, maxPerDocument } = options;
+  const embeddings = candidates.map((chunk) => parseEmbedding(chunk.embedding));
+  const remaining = new Set(candidates.map((_, index) => index));
+  // Highest similarity of each candidate to any selected chunk, updated after every pick.
+  const redundancy = candidates.map(() => 0);
+  const perDocument = new Map<string, number>();
+  const selected: any[] = [];
+
+  while (selected.length < limit && remaining.size > 0) {
+    let best = -1;
+    let bestScore = -Infinity;
+    for (const index of remaining) {
+      const documentId = candidates[index].documentId;
+      if (
+        maxPerDocument !== undefined &&
+        (perDocument.get(documentId) ?? 0) >= maxPerDocument
+      ) {
+        continue;
+      }
+      const score =
+        lambda * relevance[index] - (1 - lambda) * redundancy[index];
+      if (score > bestScore) {
+        best = index;
+        bestScore = score;
+      }
+    }
+    if (best === -1) {
+      break; // Every remaining candidate belongs to a document at its cap.
+    }
+
+    remaining.delete(best);
+    const chunk = candidates[best];
+    perDocument.set(
+      chunk.documentId,
+      (perDocument.get(chunk.documentId) ?? 0) + 1
+    );
+    selected.push({ ...chunk, mmrScore: bestScore });
+
+    const picked = embeddings[best];
+    if (picked) {
+      for (const index of remaining) {
+        const embedding = embeddings[index];
+        if (
+          embedding &&
+          embedding.length === picked.length &&
+          candidates[index].embeddingModel === chunk.embeddingModel
+        ) {
+          redundancy[index] = Math.max(
+            redundancy[index],
+            cosineSimilarity(picked, embedding)
+          );
+        }
+      }
+    }
+  }
+  return selected;
+}
+
+/**
+ * Keeps chunks in their current order, skipping any beyond `maxPerDocument` from the same document.
+ *
+ * @param chunks - Chunk objects with a `documentId`, in relevance order.
+ * @param maxPerDocument - The maximum number of chunks kept per document.
+ * @returns The chunks that fit under the cap, in their original order.
+ */
+export function capPerDocument(chunks: any[], maxPerDocument: number): any[] {
+  const perDocument = new Map<string, number>();
+  return chunks.filter((chunk) => {
+    const count = perDocument.get(chunk.documentId) ?? 0;
+    perDocument.set(chunk.documentId, count + 1);
+    return count < maxPerDocument;
+  });
+}
@@ -0,0 +1,48 @@
+import { AppConfig } from "../config.js";
+import { HttpReranker } from "./httpReranker.js";
+import { LexicalReranker } from "./lexicalReranker.js";
+import { RetryPolicy } from "../utils/retry.js";
+
+/**
+ * Defines the contract for a reranker.
+ * A reranker scores candidate passages against a query more precisely (and more expensively)
+ * than the first-stage retrieval, so that the best candidates can be moved to the top.
+ */
+export interface Reranker {
+  /** The name of the reranking model (e.g., "bge-reranker-v2-m3" or "lexical"). */
+  readonly model: string;
+
+  /**
+   * Scores each document's relevance to the query.
+   * @param query - The search query.
+   * @param documents - The candidate passages.
+   * @returns A Promise that resolves to one score per document, in input order. Higher is more relevant.
+   */
+  rerank(query: string, documents: string[]): Promise<number[]>;
+}
+
+/**
+ * Creates the reranker selected by the application configuration.
+ * The HTTP reranker falls back to lexical reranking when its API request fails.
+ *
+ * @param config - The rerank section of the application configuration.
+ * @param retryOptions - Retry and circuit breaker settings for remote rerankers.
+ * @returns A `Reranker` for the configured backend.
+ */
+export function createReranker(
+  config: AppConfig["rerank"],
+  retryOptions: AppConfig["retry"]
+): Reranker {
+  switch (config.provider) {
+    case "http":
+      return new HttpReranker({
+        baseUrl: config.baseUrl,
+        apiKey: config.apiKey,
+        model: config.model,
+        retryPolicy: new RetryPolicy(retryOptions),
+        fallback: new LexicalReranker(),
+      });
+    case "lexical":
+      return new LexicalReranker();
+  }
+}
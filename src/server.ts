@@ -1,42 +1,69 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
-import { chunkDocumentTool } from "./tools/chunkDocuments.js";
-import { searchChunksTool } from "./tools/searchChunks.js";
-import { filterMetadataTool } from "./tools/filterMetadata.js";
+import { createChunkDocumentTool } from "./tools/chunkDocuments.js";
+import { createIngestFileTool } from "./tools/ingestFile.js";
+import { createSyncDirectoryTool } from "./tools/syncDirectory.js";
+import { createSearchChunksTool } from "./tools/searchChunks.js";
+import { createFilterMetadataTool } from "./tools/filterMetadata.js";
+import { createListDocumentsTool } from "./tools/listDocuments.js";
+import { createGetDocumentChunksTool } from "./tools/getDocumentChunks.js";
+import { createDeleteDocumentTool } from "./tools/deleteDocument.js";
+import { createGetChunkContextTool } from "./tools/getChunkContext.js";
+import { createEmbeddingCacheTool } from "./tools/embeddingCache.js";
+import { createReembedTool } from "./tools/reembed.js";
+import { createCreateNamespaceTool } from "./tools/createNamespace.js";
+import { createListNamespacesTool } from "./tools/listNamespaces.js";
+import { createDropNamespaceTool } from "./tools/dropNamespace.js";
+import { ToolDependencies } from "./tools/dependencies.js";
+import {
+  createDocumentListResource,
+  createDocumentResource,
+} from "./resources/documents.js";
+import { createChunkResource } from "./resources/chunks.js";
+import { createAnswerWithCitationsPrompt } from "./prompts/answerWithCitations.js";
+import { createChunkRepository } from "./repositories/ChunkRepository.js";
+import { createEmbeddingProvider } from "./services/embedding.js";
+import { NamespaceService } from "./services/namespaces.js";
+import { loadConfig } from "./config.js";
+import { MCP_PATH, McpHttpServer, SSE_PATH } from "./transports/httpServer.js";
 
 /**
- * Initializes and starts the MCP (Model Context Protocol) server.
- * This server provides capabilities for document chunking and searching.
+ * Registers RagLit's tools with an MCP server.
+ * Each tool has a unique name, a schema defining its inputs/outputs, and a handler function.
+ *
+ * @param server - The server to register the tools with.
+ * @param dependencies - The repository, embedding provider and configuration shared by the tools.
  */
-export async function main() {
-  // Instantiate the MCP server with metadata and capabilities.
-  const server = new McpServer(
-    {
-      name: "raglit", // Updated name for the server
-      version: "1.0.0", // Version of the server
-      description:
-        "RagLit: An MCP server for document chunking, embedding, and retrieval for RAG pipelines via a REST API.", // Updated description
-    },
-    {
-      capabilities: {
-        tools: {}, // Enables the tools capability, allowing the server to offer specific functionalities.
-      },
-    }
-  );
-
-  console.error("Initializing RagLit MCP server..."); // Updated log message
-
-  // Register available tools with the server.
-  // Each tool has a unique name, a schema defining its inputs/outputs, and a handler function.
-
+export function registerTools(
+  server: McpServer,
+  dependencies: ToolDependencies
+) {
   // Tool for chunking documents into smaller pieces.
+  const chunkDocumentTool = createChunkDocumentTool(dependencies);
   server.tool(
     "chunk_document",
     chunkDocumentTool.schema.shape,
     chunkDocumentTool.handler
   );
 
+  // Tool for ingesting local files, directories, globs or URLs (text, Markdown, HTML, PDF, DOCX).
+  const ingestFileTool = createIngestFileTool(dependencies);
+  server.tool(
+    "ingest_file",
+    ingestFileTool.schema.shape,
+    ingestFileTool.handler
+  );
+
+  // Tool for incrementally re-indexing a directory: only new and changed files are re-ingested.
+  const syncDirectoryTool = createSyncDirectoryTool(dependencies);
+  server.tool(
+    "sync_directory",
+    syncDirectoryTool.schema.shape,
+    syncDirectoryTool.handler
+  );
+
   // Tool for searching relevant chunks based on a query.
+  const searchChunksTool = createSearchChunksTool(dependencies);
   server.tool(
     "search_chunks",
     searchChunksTool.schema.shape,
@@ -44,27 +71,239 @@ export async function main() {
   );
 
   // Tool for filtering chunks based on their metadata.
+  const filterMetadataTool = createFilterMetadataTool(dependencies);
   server.tool(
     "filter_metadata",
     filterMetadataTool.schema.shape,
     filterMetadataTool.handler
   );
 
-  // Create a standard input/output transport layer for communication.
-  // This allows the server to communicate over stdio, typical for CLI tools.
-  const transport = new StdioServerTransport();
+  // Tool for listing indexed documents with their chunk counts and strategies.
+  const listDocumentsTool = createListDocumentsTool(dependencies);
+  server.tool(
+    "list_documents",
+    listDocumentsTool.schema.shape,
+    listDocumentsTool.handler
+  );
+
+  // Tool for fetching all chunks of one document in chunkIndex order.
+  const getDocumentChunksTool = createGetDocumentChunksTool(dependencies);
+  server.tool(
+    "get_document_chunks",
+    getDocumentChunksTool.schema.shape,
+    getDocumentChunksTool.handler
+  );
+
+  // Tool for fetching a chunk together with its neighbouring chunks as one passage.
+  const getChunkContextTool = createGetChunkContextTool(dependencies);
+  server.tool(
+    "get_chunk_context",
+    getChunkContextTool.schema.shape,
+    getChunkContextTool.handler
+  );
+
+  // Tool for removing a document's chunks.
+  const deleteDocumentTool = createDeleteDocumentTool(dependencies);
+  server.tool(
+    "delete_document",
+    deleteDocumentTool.schema.shape,
+    deleteDocumentTool.handler
+  );
+
+  // Tool for inspecting or clearing the persistent embedding cache.
+  const embeddingCacheTool = createEmbeddingCacheTool(dependencies);
+  server.tool(
+    "embedding_cache",
+    embeddingCacheTool.schema.shape,
+    embeddingCacheTool.handler
+  );
+
+  // Tool for migrating stored chunks to the current embedding model.
+  const reembedTool = createReembedTool(dependencies);
+  server.tool("reembed", reembedTool.schema.shape, reembedTool.handler);
+
+  // Tool for creating an isolated namespace, optionally with an embedding model of its own.
+  const createNamespaceTool = createCreateNamespaceTool(dependencies);
+  server.tool(
+    "create_namespace",
+    createNamespaceTool.schema.shape,
+    createNamespaceTool.handler
+  );
+
+  // Tool for listing the namespaces with their embedding settings.
+  const listNamespacesTool = createListNamespacesTool(dependencies);
+  server.tool(
+    "list_namespaces",
+    listNamespacesTool.schema.shape,
+    listNamespacesTool.handler
+  );
+
+  // Tool for deleting a namespace and all of its chunks.
+  const dropNamespaceTool = createDropNamespaceTool(dependencies);
+  server.tool(
+    "drop_namespace",
+    dropNamespaceTool.schema.shape,
+    dropNamespaceTool.handler
+  );
+}
+
+/**
+ * Registers RagLit's resources with an MCP server: the list of documents of each namespace, each
+ * document, and each chunk, read from the repository as JSON.
+ *
+ * @param server - The server to register the resources with.
+ * @param dependencies - The repository, embedding provider and configuration shared by the resources.
+ */
+export function registerResources(
+  server: McpServer,
+  dependencies: ToolDependencies
+) {
+  // Resource template listing the indexed documents of a namespace.
+  const documentListResource = createDocumentListResource(dependencies);
+  server.resource(
+    "documents",
+    documentListResource.template,
+    documentListResource.metadata,
+    documentListResource.read
+  );
+
+  // Resource template for one document, reassembled from its chunks.
+  const documentResource = createDocumentResource(dependencies);
+  server.resource(
+    "document",
+    documentResource.template,
+    documentResource.metadata,
+    documentResource.read
+  );
 
-  // Connect the server to the transport layer to begin listening for and handling requests.
-  await server.connect(transport);
+  // Resource template for one chunk, addressed by its namespace and ID.
+  const chunkResource = createChunkResource(dependencies);
+  server.resource(
+    "chunk",
+    chunkResource.template,
+    chunkResource.metadata,
+    chunkResource.read
+  );
+}
 
-  console.error(
-    "RagLit MCP server is running and ready to accept requests." // Updated log message
+/**
+ * Registers RagLit's prompt templates with an MCP server.
+ *
+ * @param server - The server to register the prompts with.
+ * @param dependencies - The repository, embedding provider and configuration shared by the prompts.
+ */
+export function registerPrompts(
+  server: McpServer,
+  dependencies: ToolDependencies
+) {
+  // Prompt for answering a question from retrieved chunks, citing them as numbered sources.
+  const answerWithCitationsPrompt =
+    createAnswerWithCitationsPrompt(dependencies);
+  server.prompt(
+    "answer_with_citations",
+    answerWithCitationsPrompt.description,
+    answerWithCitationsPrompt.schema.shape,
+    answerWithCitationsPrompt.handler
   );
+}
 
-  // Set up a listener for the SIGINT signal (e.g., Ctrl+C) to gracefully shut down the server.
-  process.on("SIGINT", () => {
+/**
+ * Creates an MCP server with RagLit's tools, resources and prompts registered.
+ * The stdio transport uses one server; the HTTP transport creates one per client session, all
+ * sharing the same dependencies.
+ *
+ * @param dependencies - The repository, embedding provider and configuration shared by the tools.
+ * @returns The server, ready to be connected to a transport.
+ */
+export function createMcpServer(dependencies: ToolDependencies): McpServer {
+  // Instantiate the MCP server with metadata and capabilities.
+  const server = new McpServer(
+    {
+      name: "raglit", // Updated name for the server
+      version: "1.0.0", // Version of the server
+      description:
+        "RagLit: An MCP server for document chunking, embedding, and retrieval for RAG pipelines via a REST API.", // Updated description
+    },
+    {
+      capabilities: {
+        tools: {}, // Enables the tools capability, allowing the server to offer specific functionalities.
+        resources: {}, // Enables the resources capability: documents and chunks can be listed and read.
+        prompts: {}, // Enables the prompts capability: prompt templates built on search results.
+      },
+    }
+  );
+
+  // Register available tools, resources and prompts with the server.
+  registerTools(server, dependencies);
+  registerResources(server, dependencies);
+  registerPrompts(server, dependencies);
+  return server;
+}
+
+/**
+ * Initializes and starts the MCP (Model Context Protocol) server.
+ * This server provides capabilities for document chunking and searching, over stdio or, with
+ * `MCP_TRANSPORT=http`, over HTTP for many clients at once.
+ */
+export async function main() {
+  // Load and validate the configuration; invalid settings reject here and stop the server.
+  const config = loadConfig();
+
+  console.error("Initializing RagLit MCP server..."); // Updated log message
+
+  // The services shared by every tool (and by every session of the HTTP transport).
+  const repository = createChunkRepository(config);
+  const embeddingProvider = createEmbeddingProvider(
+    config.embedding,
+    config.retry
+  );
+  const dependencies: ToolDependencies = {
+    repository,
+    embeddingProvider,
+    config,
+    namespaces: new NamespaceService(repository, embeddingProvider, config),
+  };
+
+  let shutdown: () => Promise<void>;
+  if (config.transport.type === "http") {
+    // Serve Streamable HTTP (and legacy SSE) clients, each session with a server of its own.
+    const httpServer = new McpHttpServer(config.transport, () =>
+      createMcpServer(dependencies)
+    );
+    const address = await httpServer.listen();
+    console.error(
+      `RagLit MCP server is listening on http://${config.transport.host}:${address.port}${MCP_PATH} (legacy SSE at ${SSE_PATH}).`
+    );
+    shutdown = () => httpServer.close();
+  } else {
+    // Create a standard input/output transport layer for communication.
+    // This allows the server to communicate over stdio, typical for CLI tools.
+    const server = createMcpServer(dependencies);
+    const transport = new StdioServerTransport();
+
+    // Connect the server to the transport layer to begin listening for and handling requests.
+    await server.connect(transport);
+    console.error(
+      "RagLit MCP server is running and ready to accept requests." // Updated log message
+    );
+    shutdown = () => server.close();
+  }
+
+  // Shut down gracefully on Ctrl+C (SIGINT) or when a process manager stops the server (SIGTERM).
+  let stopping = false;
+  const stop = async () => {
+    if (stopping) {
+      return;
+    }
+    stopping = true;
     console.error("Shutting down RagLit MCP server..."); // Updated log message
-    transport.close(); // Close the transport connection.
+    try {
+      await shutdown();
+    } catch (error) {
+      console.error("Error shutting down RagLit MCP server:", error);
+    }
     process.exit(0); // Exit the process successfully.
-  });
+  };
+  process.on("SIGINT", stop);
+  process.on("SIGTERM", stop);
 }
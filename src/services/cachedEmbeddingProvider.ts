@@ -0,0 +1,56 @@
+import { EmbeddingProvider } from "./embedding.js";
+import { EmbeddingCache } from "./embeddingCache.js";
+
+/**
+ * Wraps an embedding provider with a persistent cache.
+ * Texts embedded before under the same model are answered from the cache; only the others are
+ * sent to the wrapped provider, in a single batch with duplicates removed.
+ */
+export class CachedEmbeddingProvider implements EmbeddingProvider {
+  readonly model: string;
+  readonly cache: EmbeddingCache;
+  private provider: EmbeddingProvider;
+
+  /**
+   * Creates an instance of CachedEmbeddingProvider.
+   * @param provider - The provider computing embeddings missing from the cache.
+   * @param cache - The cache of the provider's model.
+   */
+  constructor(provider: EmbeddingProvider, cache: EmbeddingCache) {
+    this.provider = provider;
+    this.cache = cache;
+    this.model = provider.model;
+  }
+
+  /**
+   * Returns the embedding of a text, from the cache when possible.
+   * @param text - The text string to get an embedding for.
+   * @returns A Promise that resolves to the embedding vector.
+   */
+  async embed(text: string): Promise<number[]> {
+    const [embedding] = await this.embedBatch([text]);
+    return embedding;
+  }
+
+  /**
+   * Returns the embeddings of several texts, embedding only those missing from the cache.
+   * @param texts - The text strings to get embeddings for.
+   * @returns A Promise that resolves to one embedding per input text, in input order.
+   */
+  async embedBatch(texts: string[]): Promise<number[][]> {
+    const cached = await this.cache.getMany(texts);
+    const missing = [
+      ...new Set(texts.filter((_, index) => cached[index] === undefined)),
+    ];
+    if (missing.length === 0) {
+      return cached as number[][];
+    }
+
+    const embeddings = await this.provider.embedBatch(missing);
+    await this.cache.setMany(missing, embeddings);
+    const embedded = new Map(
+      missing.map((text, index) => [text, embeddings[index]])
+    );
+    return texts.map((text, index) => cached[index] ?? embedded.get(text)!);
+  }
+}
@@ -0,0 +1,164 @@
+import {
+  ChunkRepository,
+  StoredChunk,
+} from "../repositories/ChunkRepository.js";
+
+/**
+ * A passage of a document assembled from a chunk and its neighbours.
+ */
+export interface ChunkContext {
+  documentId: string; // The document the passage comes from.
+  chunkIndex: number; // The chunk the passage was built around.
+  fromChunkIndex: number; // The first chunk included in the passage.
+  toChunkIndex: number; // The last chunk included in the passage.
+  content: string; // The merged text of the included chunks, with overlaps removed.
+  startOffset: number | null; // Character offset of the passage in the original document, if known.
+  endOffset: number | null; // End character offset (exclusive), if known.
+  startLine: number | null; // 1-based line the passage starts on, if known.
+  endLine: number | null; // 1-based line the passage ends on, if known.
+}
+
+/**
+ * Whether a chunk's content is an exact slice of the original document at its offsets, which is
+ * the case for the recursive and markdown strategies and for fixed-size chunks whose whitespace
+ * needed no normalizing.
+ */
+function isExactSlice(chunk: StoredChunk): boolean {
+  return (
+    chunk.startOffset !== null &&
+    chunk.endOffset !== null &&
+    chunk.content.length === chunk.endOffset - chunk.startOffset
+  );
+}
+
+/**
+ * Appends text to a passage, dropping the longest run of leading words of `next` that repeats
+ * the passage's trailing words (the overlap between consecutive chunks).
+ */
+function appendWithWordOverlap(merged: string, next: string): string {
+  const nextWords = [...next.matchAll(/\S+/g)];
+  const tailWords = merged
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(-nextWords.length);
+
+  for (let overlap = tailWords.length; overlap > 0; overlap--) {
+    let matches = true;
+    for (let i = 0; i < overlap && matches; i++) {
+      matches = tailWords[tailWords.length - overlap + i] === nextWords[i][0];
+    }
+    if (matches) {
+      const last = nextWords[overlap - 1];
+      return merged + next.slice(last.index! + last[0].length);
+    }
+  }
+  return `${merged} ${next}`;
+}
+
+/**
+ * Merges consecutive chunks of a document into a single passage.
+ * Where both chunks are exact slices of the document, their character offsets tell how much of
+ * the next chunk was already included; other chunks (such as whitespace-normalized fixed-size
+ * chunks) are de-duplicated by matching the overlapping words.
+ *
+ * @param chunks - Chunks of one document, ordered by `chunkIndex`.
+ * @returns The merged passage.
+ */
+export function mergeChunkContents(chunks: StoredChunk[]): string {
+  let merged = chunks[0].content;
+  let previous = chunks[0];
+  // End offset of the merged text in the document, while it is known to be exact.
+  let mergedEnd = isExactSlice(previous) ? previous.endOffset : null;
+
+  for (const chunk of chunks.slice(1)) {
+    if (mergedEnd !== null && isExactSlice(chunk)) {
+      const start = chunk.startOffset!;
+      if (start >= mergedEnd) {
+        // The whitespace between the chunks was trimmed away; restore line breaks where there were some.
+        const lineGap = (chunk.startLine ?? 0) - (previous.endLine ?? 0);
+        merged +=
+          (lineGap > 1 ? "\n\n" : lineGap === 1 ? "\n" : " ") + chunk.content;
+      } else if (chunk.endOffset! > mergedEnd) {
+        merged += chunk.content.slice(mergedEnd - start);
+      }
+      mergedEnd = Math.max(mergedEnd, chunk.endOffset!);
+    } else {
+      merged = appendWithWordOverlap(merged, chunk.content);
+      mergedEnd = null;
+    }
+    previous = chunk;
+  }
+  return merged;
+}
+
+/**
+ * Builds context passages around chunks by fetching their neighbours from the repository.
+ */
+export class ChunkContextService {
+  private chunkRepository: ChunkRepository;
+
+  /**
+   * Creates an instance of ChunkContextService.
+   * @param chunkRepository - The repository holding the chunks.
+   */
+  constructor(chunkRepository: ChunkRepository) {
+    this.chunkRepository = chunkRepository;
+  }
+
+  /**
+   * Assembles the passage made of a chunk and up to `window` chunks on either side of it.
+   *
+   * @param documentId - The ID of the document.
+   * @param chunkIndex - The index of the chunk at the centre of the passage.
+   * @param window - The number of neighbouring chunks to include on each side.
+   * @returns A Promise that resolves to the passage, or undefined if none of the chunks are stored.
+   */
+  async getContext(
+    documentId: string,
+    chunkIndex: number,
+    window: number
+  ): Promise<ChunkContext | undefined> {
+    const chunks = await this.chunkRepository.getChunkRange(
+      documentId,
+      Math.max(0, chunkIndex - window),
+      chunkIndex + window
+    );
+    if (chunks.length === 0) {
+      return undefined;
+    }
+
+    const first = chunks[0];
+    const last = chunks[chunks.length - 1];
+    return {
+      documentId,
+      chunkIndex,
+      fromChunkIndex: first.chunkIndex,
+      toChunkIndex: last.chunkIndex,
+      content: mergeChunkContents(chunks),
+      startOffset: first.startOffset,
+      endOffset: last.endOffset,
+      startLine: first.startLine,
+      endLine: last.endLine,
+    };
+  }
+
+  /**
+   * Attaches a `context` passage to each search result.
+   *
+   * @param results - Search results with a `documentId` and `chunkIndex`.
+   * @param window - The number of neighbouring chunks to include on each side of every result.
+   * @returns A Promise that resolves to the results, each with its `context`.
+   */
+  async expandResults(results: any[], window: number): Promise<any[]> {
+    return Promise.all(
+      results.map(async (result) => ({
+        ...result,
+        context: await this.getContext(
+          result.documentId,
+          result.chunkIndex,
+          window
+        ),
+      }))
+    );
+  }
+}
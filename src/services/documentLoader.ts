@@ -0,0 +1,308 @@
+import { createHash } from "node:crypto";
+import { readFile, stat } from "node:fs/promises";
+import path from "node:path";
+import {
+  ChunkResult,
+  ChunkStrategy,
+  createChunker,
+} from "../chunkers/chunker.js";
+import {
+  createTextExtractor,
+  isSupportedMimeType,
+  MIME_TYPES_BY_EXTENSION,
+  PageSpan,
+} from "../extractors/extractor.js";
+import { Tokenizer } from "../tokenizers/tokenizer.js";
+import { FoundFile } from "../utils/files.js";
+import { TimeoutError } from "../utils/errors.js";
+import { assertFetchableUrl } from "../utils/network.js";
+
+// Timeout for downloading a document from a URL in milliseconds
+const URL_FETCH_TIMEOUT = 30000;
+
+// The most redirects followed when downloading a document
+const MAX_REDIRECTS = 5;
+
+/**
+ * A document read from a file or URL and converted to text.
+ */
+export interface LoadedDocument {
+  documentId: string; // The ID the document is stored under.
+  source: string; // The absolute file path or URL the document was read from.
+  mimeType: string; // The detected format.
+  text: string; // The extracted text.
+  pages?: PageSpan[]; // Page boundaries within `text`, for paginated formats.
+  metadata: Record<string, any>; // Source metadata attached to every chunk of the document.
+}
+
+/**
+ * Options for chunking a loaded document.
+ */
+export interface DocumentChunkingOptions {
+  chunkSize: number; // The target size of each chunk in tokens.
+  chunkOverlap: number; // The number of tokens shared by consecutive chunks.
+  chunkStrategy?: ChunkStrategy; // The strategy to use; defaults by format (see `defaultChunkStrategy`).
+  tokenizer: Tokenizer; // The tokenizer measuring chunkSize and chunkOverlap.
+  metadata?: Record<string, any>; // Caller metadata merged into every chunk, after the source metadata.
+}
+
+/**
+ * Detects the format of a file from its extension.
+ *
+ * @param filePath - The path or URL path of the file.
+ * @returns The MIME type, or undefined if the extension is not supported.
+ */
+export function mimeTypeForPath(filePath: string): string | undefined {
+  return MIME_TYPES_BY_EXTENSION[path.extname(filePath).toLowerCase()];
+}
+
+/**
+ * Computes the fingerprint of a document's raw contents, stored as `content_hash` so that
+ * unchanged documents can be recognized without extracting their text again.
+ *
+ * @param data - The raw contents of the document.
+ * @returns The hex-encoded SHA-256 digest.
+ */
+export function hashContent(data: Buffer): string {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+/**
+ * Chooses the chunking strategy suited to a format: `markdown` for Markdown and HTML (whose
+ * headings the HTML extractor keeps), `recursive` for everything else.
+ *
+ * @param mimeType - The MIME type of the document.
+ * @returns The default chunking strategy for the format.
+ */
+export function defaultChunkStrategy(mimeType: string): ChunkStrategy {
+  return mimeType === "text/markdown" || mimeType === "text/html"
+    ? "markdown"
+    : "recursive";
+}
+
+/**
+ * Finds the pages a span of the extracted text falls on.
+ *
+ * @param pages - The page spans of the document.
+ * @param start - The start offset of the span.
+ * @param end - The end offset of the span (exclusive).
+ * @returns The 1-based numbers of the pages overlapping the span, in order.
+ */
+export function pagesForSpan(
+  pages: PageSpan[],
+  start: number,
+  end: number
+): number[] {
+  return pages
+    .filter((page) => page.start < end && page.end > start)
+    .map((page) => page.page);
+}
+
+/**
+ * Reads a local file and extracts its text.
+ *
+ * @param file - The file to load.
+ * @param documentId - Optional ID to store the document under. Defaults to the file's relative path.
+ * @returns A Promise that resolves to the loaded document.
+ * @throws Error if the file's format is not supported or it cannot be read or parsed.
+ */
+export async function loadFile(
+  file: FoundFile,
+  documentId = file.relativePath
+): Promise<LoadedDocument> {
+  const mimeType = mimeTypeForPath(file.path);
+  if (!mimeType) {
+    throw new Error(
+      `Unsupported file type "${path.extname(file.path)}" for ${file.path}. Supported extensions: ${Object.keys(MIME_TYPES_BY_EXTENSION).join(", ")}.`
+    );
+  }
+
+  const [data, stats] = await Promise.all([
+    readFile(file.path),
+    stat(file.path),
+  ]);
+  const extracted = await createTextExtractor(mimeType).extract(data);
+
+  return {
+    documentId,
+    source: file.path,
+    mimeType,
+    text: extracted.text,
+    pages: extracted.pages,
+    metadata: {
+      source: file.path,
+      file_name: path.basename(file.path),
+      mime_type: mimeType,
+      modified_at: stats.mtime.toISOString(),
+      content_hash: hashContent(data),
+      ...(extracted.title ? { title: extracted.title } : {}),
+    },
+  };
+}
+
+/**
+ * Reads a response body, giving up once it is known to exceed a size limit.
+ *
+ * @param response - The response to read.
+ * @param maxBytes - The largest body to accept, in bytes.
+ * @param url - The downloaded URL, for error messages.
+ * @returns A Promise that resolves to the body.
+ * @throws Error if the Content-Length header or the body itself exceeds `maxBytes`.
+ */
+async function readBody(
+  response: Response,
+  maxBytes: number,
+  url: string
+): Promise<Buffer> {
+  const tooLarge = () =>
+    new Error(
+      `Failed to download ${url}: the document is larger than the ${maxBytes} byte limit (INGEST_URL_MAX_BYTES).`
+    );
+  if (Number(response.headers.get("content-length")) > maxBytes) {
+    await response.body?.cancel();
+    throw tooLarge();
+  }
+
+  // The Content-Length header may be missing or wrong, so count the bytes as they arrive.
+  const parts: Uint8Array[] = [];
+  let size = 0;
+  const reader = response.body?.getReader();
+  while (reader) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel();
+      throw tooLarge();
+    }
+    parts.push(value);
+  }
+  return Buffer.concat(parts, size);
+}
+
+/**
+ * Downloads a document from an HTTP(S) URL and extracts its text.
+ * The URL's host must be on the allowlist and resolve to public addresses only; redirects are
+ * followed one at a time and each target is checked the same way.
+ * The format is taken from the Content-Type header, or from the URL's extension if the header
+ * names no supported type. Documents larger than `maxBytes` are refused, by their Content-Length
+ * header if it is sent and otherwise as soon as the downloaded body exceeds the limit.
+ *
+ * @param url - The URL of the document.
+ * @param allowedHosts - The hosts documents may be downloaded from; downloading is disabled when empty.
+ * @param maxBytes - The largest document to download, in bytes.
+ * @param documentId - Optional ID to store the document under. Defaults to the URL.
+ * @returns A Promise that resolves to the loaded document.
+ * @throws Error if the URL or a redirect target may not be fetched, the download fails, times out or exceeds `maxBytes`, or the format is not supported.
+ */
+export async function loadUrl(
+  url: string,
+  allowedHosts: string[],
+  maxBytes: number,
+  documentId = url
+): Promise<LoadedDocument> {
+  const signal = AbortSignal.timeout(URL_FETCH_TIMEOUT);
+  let target = new URL(url);
+  let response: Response;
+  for (let redirects = 0; ; redirects++) {
+    await assertFetchableUrl(target, allowedHosts);
+    try {
+      response = await fetch(target, { signal, redirect: "manual" });
+    } catch (error: any) {
+      if (error.name === "TimeoutError") {
+        throw new TimeoutError(
+          `Download of ${url} timed out after ${URL_FETCH_TIMEOUT}ms`
+        );
+      }
+      throw error;
+    }
+
+    const location = response.headers.get("location");
+    if (response.status < 300 || response.status >= 400 || !location) {
+      break;
+    }
+    if (redirects === MAX_REDIRECTS) {
+      throw new Error(
+        `Failed to download ${url}: more than ${MAX_REDIRECTS} redirects`
+      );
+    }
+    await response.body?.cancel();
+    target = new URL(location, target);
+  }
+  if (!response.ok) {
+    throw new Error(`Failed to download ${url}: HTTP ${response.status}`);
+  }
+
+  const contentType = (response.headers.get("content-type") ?? "")
+    .split(";")[0]
+    .trim()
+    .toLowerCase();
+  const mimeType = isSupportedMimeType(contentType)
+    ? contentType
+    : mimeTypeForPath(new URL(url).pathname);
+  if (!mimeType) {
+    throw new Error(
+      `Unsupported content type "${contentType || "unknown"}" for ${url}.`
+    );
+  }
+
+  const data = await readBody(response, maxBytes, url);
+  const extracted = await createTextExtractor(mimeType).extract(data);
+  const lastModified = response.headers.get("last-modified");
+
+  return {
+    documentId,
+    source: url,
+    mimeType,
+    text: extracted.text,
+    pages: extracted.pages,
+    metadata: {
+      source: url,
+      file_name: path.posix.basename(new URL(url).pathname) || url,
+      mime_type: mimeType,
+      ...(lastModified
+        ? { modified_at: new Date(lastModified).toISOString() }
+        : {}),
+      content_hash: hashContent(data),
+      ...(extracted.title ? { title: extracted.title } : {}),
+    },
+  };
+}
+
+/**
+ * Splits a loaded document into chunks carrying its source metadata and, for paginated
+ * formats, the `pages` each chunk spans.
+ *
+ * @param document - The loaded document.
+ * @param options - Chunk size, overlap, strategy, tokenizer and caller metadata.
+ * @returns The chunks and the strategy that produced them.
+ */
+export function chunkLoadedDocument(
+  document: LoadedDocument,
+  options: DocumentChunkingOptions
+): { chunks: ChunkResult[]; chunkStrategy: ChunkStrategy } {
+  const chunkStrategy =
+    options.chunkStrategy ?? defaultChunkStrategy(document.mimeType);
+  const chunker = createChunker(chunkStrategy, {
+    chunkSize: options.chunkSize,
+    chunkOverlap: options.chunkOverlap,
+    tokenizer: options.tokenizer,
+  });
+
+  const chunks = chunker.chunk(document.text, {
+    ...document.metadata,
+    ...options.metadata,
+  });
+  if (document.pages) {
+    for (const chunk of chunks) {
+      chunk.metadata.pages = pagesForSpan(
+        document.pages,
+        chunk.startOffset,
+        chunk.endOffset
+      );
+    }
+  }
+  return { chunks, chunkStrategy };
+}
@@ -1,86 +1,93 @@
-import { loadConfig } from "../config.js"; // Import centralized configuration loader
-
-// Default timeout for embedding API requests in milliseconds
-// This could also be moved to AppConfig if more dynamic configuration is needed.
-const DEFAULT_EMBEDDING_TIMEOUT = 10000;
+import { AppConfig } from "../config.js";
+import { OpenAIEmbeddingProvider } from "./openAiEmbeddingProvider.js";
+import { LocalEmbeddingProvider } from "./localEmbeddingProvider.js";
+import { CachedEmbeddingProvider } from "./cachedEmbeddingProvider.js";
+import { openEmbeddingCache } from "./embeddingCache.js";
+import { RetryPolicy } from "../utils/retry.js";
 
 /**
- * Retrieves an embedding for a given text string using an external embedding service.
- *
- * This implementation utilizes the OpenAI embeddings API by default, configured via `src/config.ts`.
- * It can be adapted to use other embedding services if required.
- *
- * @param text The text string to get an embedding for.
- * @returns A Promise that resolves to an array of numbers representing the embedding vector.
- * @throws Error if the API key is not configured, if the request fails, or if it times out.
+ * Defines the contract for an embedding provider.
+ * An embedding provider turns text into a fixed-length vector that can be stored and searched.
  */
-export async function getEmbedding(text: string): Promise<number[]> {
-  // Load configuration which includes API keys and model names
-  const config = loadConfig();
-
-  const { apiKey: openAiApiKey, model: embeddingModel } = config.embedding;
-
-  if (!openAiApiKey) {
-    throw new Error(
-      "OpenAI API key is not configured. Please set OPENAI_API_KEY in your environment variables."
-    );
-  }
-
-  try {
-    // Use AbortController for request timeout
-    const controller = new AbortController();
-    const timeoutId = setTimeout(
-      () => controller.abort(),
-      DEFAULT_EMBEDDING_TIMEOUT
-    );
+export interface EmbeddingProvider {
+  /** The name of the model producing the embeddings (e.g., "text-embedding-3-small"). */
+  readonly model: string;
 
-    // Make the request to the OpenAI embeddings API endpoint
-    const response = await fetch("https://api.openai.com/v1/embeddings", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${openAiApiKey}`,
-      },
-      body: JSON.stringify({
-        input: text, // The text to embed
-        model: embeddingModel, // The embedding model to use, from config
-      }),
-      signal: controller.signal, // Signal for aborting the request on timeout
-    });
+  /**
+   * Generates an embedding for a single text string.
+   * @param text - The text string to get an embedding for.
+   * @returns A Promise that resolves to an array of numbers representing the embedding vector.
+   */
+  embed(text: string): Promise<number[]>;
 
-    clearTimeout(timeoutId); // Clear the timeout as the request has completed (or failed)
+  /**
+   * Generates embeddings for several texts, ideally in a single request.
+   * @param texts - The text strings to get embeddings for.
+   * @returns A Promise that resolves to one embedding per input text, in input order.
+   */
+  embedBatch(texts: string[]): Promise<number[][]>;
+}
 
-    if (!response.ok) {
-      // Attempt to parse error details from the API response
-      let errorDetails = "Unknown error";
-      try {
-        const errorResponse = await response.json();
-        errorDetails =
-          errorResponse.error?.message || JSON.stringify(errorResponse);
-      } catch (parseError) {
-        // If parsing fails, use the raw text response
-        errorDetails = await response.text();
-      }
-      throw new Error(`OpenAI API error (${response.status}): ${errorDetails}`);
-    }
+/**
+ * Identifies the embeddings a configuration produces: the model, plus the output dimension when
+ * it is set, since the same model truncated to another size gives different vectors.
+ *
+ * @param config - The embedding section of the application configuration.
+ * @returns The model identity, e.g. "text-embedding-3-small" or "text-embedding-3-large@1024".
+ */
+export function embeddingModelId(config: AppConfig["embedding"]): string {
+  return config.dimensions
+    ? `${config.model}@${config.dimensions}`
+    : config.model;
+}
 
-    // Parse the successful response
-    const result = await response.json();
+/**
+ * Creates the embedding provider selected by the application configuration.
+ * When `EMBEDDING_CACHE_DIR` is set, the provider is wrapped with the model's persistent cache.
+ *
+ * @param config - The embedding section of the application configuration.
+ * @param retryOptions - Retry and circuit breaker settings for remote providers.
+ * @returns An `EmbeddingProvider` for the configured backend.
+ */
+export function createEmbeddingProvider(
+  config: AppConfig["embedding"],
+  retryOptions: AppConfig["retry"]
+): EmbeddingProvider {
+  const provider = createUncachedEmbeddingProvider(config, retryOptions);
+  if (!config.cacheDir) {
+    return provider;
+  }
+  return new CachedEmbeddingProvider(
+    provider,
+    openEmbeddingCache(
+      config.cacheDir,
+      embeddingModelId(config),
+      config.cacheMaxEntries
+    )
+  );
+}
 
-    // Ensure the expected data structure is present
-    if (result.data && result.data.length > 0 && result.data[0].embedding) {
-      return result.data[0].embedding;
-    } else {
-      throw new Error("Invalid response structure from OpenAI API.");
-    }
-  } catch (error: any) {
-    if (error.name === "AbortError") {
-      // Handle specifically the timeout error
-      throw new Error(
-        `Embedding request timed out after ${DEFAULT_EMBEDDING_TIMEOUT}ms`
-      );
-    }
-    // Re-throw other errors
-    throw error;
+/**
+ * Creates the configured backend's provider, without a cache.
+ */
+function createUncachedEmbeddingProvider(
+  config: AppConfig["embedding"],
+  retryOptions: AppConfig["retry"]
+): EmbeddingProvider {
+  switch (config.provider) {
+    case "openai":
+    case "openai-compatible":
+      return new OpenAIEmbeddingProvider({
+        baseUrl: config.baseUrl,
+        apiKey: config.apiKey,
+        model: config.model,
+        dimensions: config.dimensions,
+        retryPolicy: new RetryPolicy(retryOptions),
+      });
+    case "local":
+      return new LocalEmbeddingProvider({
+        model: config.model,
+        dimensions: config.dimensions ?? 1536,
+      });
   }
 }
@@ -0,0 +1,304 @@
+import { createHash } from "node:crypto";
+import { createReadStream } from "node:fs";
+import {
+  appendFile,
+  mkdir,
+  readdir,
+  rename,
+  rm,
+  writeFile,
+} from "node:fs/promises";
+import path from "node:path";
+import { createInterface } from "node:readline";
+
+// Cache files are compacted once they hold this many times more lines than live entries.
+const COMPACTION_RATIO = 2;
+
+/**
+ * Interface reporting the state of an embedding cache.
+ */
+export interface EmbeddingCacheStats {
+  model: string; // The model (and dimensions) the cached embeddings belong to.
+  file: string; // The file the entries are persisted in.
+  entries: number; // The number of cached embeddings.
+  maxEntries: number; // The most embeddings kept before the least recently used are evicted.
+  hits: number; // Lookups answered from the cache since the server started.
+  misses: number; // Lookups that had to call the embedding provider.
+  evictions: number; // Entries evicted to stay within maxEntries.
+  hitRate: number; // hits / (hits + misses), or 0 before the first lookup.
+}
+
+/**
+ * Hashes a text into the key it is cached under.
+ */
+function cacheKey(text: string): string {
+  return createHash("sha256").update(text).digest("hex");
+}
+
+/**
+ * Derives a readable, collision-free file name for a model's cache.
+ */
+function cacheFileName(model: string): string {
+  const readable = model.replace(/[^A-Za-z0-9._-]+/g, "_").slice(0, 64);
+  const digest = createHash("sha256").update(model).digest("hex").slice(0, 8);
+  return `${readable}-${digest}.jsonl`;
+}
+
+/**
+ * A persistent cache of embeddings for one model, keyed by the SHA-256 of the embedded text.
+ * Entries live in memory in least-recently-used order and are appended to a JSON Lines file in
+ * the cache directory, so they survive restarts. When the cache grows beyond `maxEntries`, the
+ * least recently used entries are evicted; the file is rewritten once evicted and superseded
+ * lines dominate it.
+ *
+ * Each model has its own file, named after the model, so the caches of several models (such as
+ * those of namespaces with their own models) share a directory. A model's file is only removed
+ * by `clear`, or by `pruneEmbeddingCaches` once no namespace uses the model.
+ */
+export class EmbeddingCache {
+  readonly model: string;
+  private directory: string;
+  private file: string;
+  private maxEntries: number;
+  private entries = new Map<string, number[]>();
+  private fileLines = 0;
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+  private loading?: Promise<void>;
+  private writes: Promise<void> = Promise.resolve();
+
+  /**
+   * Creates an instance of EmbeddingCache. Nothing is read from disk until the first lookup.
+   * @param directory - The directory holding the cache files.
+   * @param model - The model (and dimensions) of the cached embeddings.
+   * @param maxEntries - The most embeddings to keep.
+   */
+  constructor(directory: string, model: string, maxEntries: number) {
+    this.directory = path.resolve(directory);
+    this.model = model;
+    this.file = path.join(this.directory, cacheFileName(model));
+    this.maxEntries = maxEntries;
+  }
+
+  /**
+   * Looks up the cached embeddings of several texts.
+   * @param texts - The texts to look up.
+   * @returns A Promise that resolves to one embedding per text, or undefined where it is not cached.
+   */
+  async getMany(texts: string[]): Promise<(number[] | undefined)[]> {
+    await this.load();
+    return texts.map((text) => {
+      const key = cacheKey(text);
+      const embedding = this.entries.get(key);
+      if (embedding === undefined) {
+        this.misses++;
+        return undefined;
+      }
+      // Move the entry to the most recently used end.
+      this.entries.delete(key);
+      this.entries.set(key, embedding);
+      this.hits++;
+      return embedding;
+    });
+  }
+
+  /**
+   * Caches the embeddings of several texts and persists them.
+   * Failing to write the cache file is logged and does not fail the caller.
+   * @param texts - The embedded texts.
+   * @param embeddings - Their embeddings, in the same order.
+   */
+  async setMany(texts: string[], embeddings: number[][]): Promise<void> {
+    await this.load();
+    const lines: string[] = [];
+    texts.forEach((text, index) => {
+      const key = cacheKey(text);
+      this.entries.delete(key);
+      this.entries.set(key, embeddings[index]);
+      lines.push(JSON.stringify({ key, embedding: embeddings[index] }));
+    });
+    this.evict();
+
+    await this.enqueueWrite(async () => {
+      await mkdir(this.directory, { recursive: true });
+      await appendFile(this.file, lines.map((line) => `${line}\n`).join(""));
+      this.fileLines += lines.length;
+      if (this.fileLines > this.entries.size * COMPACTION_RATIO) {
+        await this.compact();
+      }
+    });
+  }
+
+  /**
+   * Removes every cached embedding, in memory and on disk.
+   * @returns A Promise that resolves to the number of removed entries.
+   */
+  async clear(): Promise<number> {
+    await this.load();
+    const removed = this.entries.size;
+    this.entries.clear();
+    await this.enqueueWrite(async () => {
+      await rm(this.file, { force: true });
+      this.fileLines = 0;
+    });
+    return removed;
+  }
+
+  /**
+   * Reports the cache's size and its hit and miss counts.
+   * @returns A Promise that resolves to the cache statistics.
+   */
+  async stats(): Promise<EmbeddingCacheStats> {
+    await this.load();
+    const lookups = this.hits + this.misses;
+    return {
+      model: this.model,
+      file: this.file,
+      entries: this.entries.size,
+      maxEntries: this.maxEntries,
+      hits: this.hits,
+      misses: this.misses,
+      evictions: this.evictions,
+      hitRate: lookups === 0 ? 0 : this.hits / lookups,
+    };
+  }
+
+  /**
+   * Reads the cache file once, line by line, evicting as it goes so that loading a file grown
+   * beyond `maxEntries` never holds more than `maxEntries` embeddings in memory.
+   */
+  private load(): Promise<void> {
+    this.loading ??= (async () => {
+      const lines = createInterface({
+        input: createReadStream(this.file, "utf8"),
+        crlfDelay: Infinity,
+      });
+      try {
+        for await (const line of lines) {
+          if (!line) {
+            continue;
+          }
+          this.fileLines++;
+          try {
+            const { key, embedding } = JSON.parse(line);
+            // Later lines supersede earlier ones and are more recently used.
+            this.entries.delete(key);
+            this.entries.set(key, embedding);
+          } catch {
+            // A line cut short by a crash mid-write; skip it.
+          }
+          this.evict();
+        }
+      } catch (error: any) {
+        if (error.code !== "ENOENT") {
+          console.error(`Error reading embedding cache ${this.file}:`, error);
+        }
+      } finally {
+        lines.close();
+      }
+    })();
+    return this.loading;
+  }
+
+  /**
+   * Drops the least recently used entries beyond `maxEntries`.
+   */
+  private evict(): void {
+    for (const key of this.entries.keys()) {
+      if (this.entries.size <= this.maxEntries) {
+        break;
+      }
+      this.entries.delete(key);
+      this.evictions++;
+    }
+  }
+
+  /**
+   * Rewrites the cache file with only the live entries, least recently used first.
+   */
+  private async compact(): Promise<void> {
+    const temporary = `${this.file}.${process.pid}.tmp`;
+    const lines = [...this.entries].map(
+      ([key, embedding]) => `${JSON.stringify({ key, embedding })}\n`
+    );
+    await writeFile(temporary, lines.join(""));
+    await rename(temporary, this.file);
+    this.fileLines = lines.length;
+  }
+
+  /**
+   * Runs file writes one after another, logging rather than propagating failures.
+   */
+  private enqueueWrite(write: () => Promise<void>): Promise<void> {
+    this.writes = this.writes.then(write).catch((error) => {
+      console.error(`Error writing embedding cache ${this.file}:`, error);
+    });
+    return this.writes;
+  }
+}
+
+// Every provider of a model shares one cache, so that its statistics cover the whole server.
+const caches = new Map<string, EmbeddingCache>();
+
+/**
+ * Returns the embedding cache for a model in a directory, creating it on first use.
+ *
+ * @param directory - The directory holding the cache files.
+ * @param model - The model (and dimensions) of the cached embeddings.
+ * @param maxEntries - The most embeddings to keep.
+ * @returns The shared `EmbeddingCache`.
+ */
+export function openEmbeddingCache(
+  directory: string,
+  model: string,
+  maxEntries: number
+): EmbeddingCache {
+  const id = `${path.resolve(directory)}\0${model}`;
+  let cache = caches.get(id);
+  if (!cache) {
+    cache = new EmbeddingCache(directory, model, maxEntries);
+    caches.set(id, cache);
+  }
+  return cache;
+}
+
+/**
+ * Deletes the cache files in a directory that belong to none of the given models, such as those
+ * left behind by a changed `EMBEDDING_MODEL` or a dropped namespace. Open caches of other models
+ * are cleared as well.
+ *
+ * @param directory - The directory holding the cache files.
+ * @param models - The models (and dimensions) whose caches to keep.
+ * @returns A Promise that resolves to the names of the deleted files.
+ */
+export async function pruneEmbeddingCaches(
+  directory: string,
+  models: string[]
+): Promise<string[]> {
+  const resolved = path.resolve(directory);
+  let names: string[] = [];
+  try {
+    names = await readdir(resolved);
+  } catch (error: any) {
+    if (error.code !== "ENOENT") {
+      throw error;
+    }
+  }
+
+  // Providers keep their cache, so an open cache is emptied rather than forgotten.
+  for (const [id, cache] of caches) {
+    if (id.startsWith(`${resolved}\0`) && !models.includes(cache.model)) {
+      await cache.clear();
+    }
+  }
+
+  const keep = new Set(models.map(cacheFileName));
+  const removed = names.filter(
+    (name) => name.endsWith(".jsonl") && !keep.has(name)
+  );
+  for (const name of removed) {
+    await rm(path.join(resolved, name), { force: true });
+  }
+  return removed.sort();
+}
@@ -0,0 +1,293 @@
+import { isDeepStrictEqual } from "node:util";
+import { ChunkResult } from "../chunkers/chunker.js";
+import { ChunkRepository } from "../repositories/ChunkRepository.js";
+import { EmbeddingProvider } from "./embedding.js";
+import { Tokenizer } from "../tokenizers/tokenizer.js";
+import { createBatches } from "../utils/batching.js";
+import { mapWithConcurrency } from "../utils/concurrency.js";
+
+/**
+ * Interface defining the options that control how chunks are batched during ingestion.
+ */
+export interface IngestionOptions {
+  batchSize: number; // The maximum number of chunks per embedding request.
+  concurrency: number; // The number of batches processed concurrently.
+  maxTokensPerRequest: number; // The maximum tokens per embedding request.
+  maxInputTokens: number; // The maximum tokens the embedding model accepts for a single chunk.
+  tokenizer: Tokenizer; // The tokenizer matching the embedding model.
+  dimensions?: number; // The configured embedding dimension; when unset, any dimension of the model is current.
+}
+
+/**
+ * Interface describing how a document's chunks were produced, stored alongside each chunk.
+ */
+export interface ChunkingDetails {
+  chunkSize: number;
+  chunkOverlap: number;
+  chunkStrategy: string;
+}
+
+/**
+ * Interface describing the outcome of an ingestion run.
+ */
+export interface IngestionReport {
+  documentId: string;
+  totalChunks: number; // Chunks produced for the document in this run.
+  storedChunks: number; // Chunks embedded and written in this run.
+  skippedChunks: number; // Chunks left untouched because an identical chunk was already stored (resume).
+  removedChunks: number; // Stale chunks from a previous, longer version of the document that were deleted.
+  chunkIds: string[]; // IDs of the document's chunks, in chunk order.
+  failedChunkIndexes?: number[]; // Chunks not stored because the run failed or was cancelled.
+  resumeFrom?: number; // The first chunk index that still needs to be stored after a failure or cancellation, if any.
+}
+
+/**
+ * Interface describing the progress of an ingestion run, reported after each stored batch.
+ */
+export interface IngestionProgress {
+  documentId: string;
+  storedChunks: number; // Chunks embedded and stored so far in this run.
+  totalChunks: number; // Chunks this run has to store (chunks skipped on resume are not counted).
+}
+
+/**
+ * Interface for observing and cancelling an ingestion run.
+ */
+export interface IngestionControl {
+  signal?: AbortSignal; // Cancels the run: no further batches are embedded or stored once it aborts.
+  onProgress?: (progress: IngestionProgress) => void | Promise<void>; // Called after each stored batch.
+}
+
+/**
+ * Error thrown when ingestion fails part-way. Carries a report of what was already stored so the
+ * caller can resume the run instead of starting over.
+ */
+export class IngestionError extends Error {
+  readonly report: IngestionReport;
+
+  constructor(message: string, report: IngestionReport) {
+    super(message);
+    this.name = "IngestionError";
+    this.report = report;
+  }
+}
+
+/**
+ * Error thrown when an ingestion run is cancelled through its abort signal. The batches stored
+ * before the cancellation are kept, so the run can be resumed like a failed one.
+ */
+export class IngestionCancelledError extends IngestionError {
+  constructor(message: string, report: IngestionReport) {
+    super(message, report);
+    this.name = "IngestionCancelledError";
+  }
+}
+
+/**
+ * Embeds and stores document chunks in batches.
+ * Chunks are grouped into batches bounded by item count and model token count, each batch is
+ * embedded with one provider request and stored with one bulk repository call, and up to
+ * `concurrency` batches are in flight at once.
+ *
+ * Ingestion is idempotent per document: chunks are upserted on `(documentId, chunkIndex)` and any
+ * chunks left over from a previous, longer version of the document are removed once all new
+ * chunks are stored.
+ *
+ * A run can be cancelled with an abort signal: batches already being embedded finish, but nothing
+ * more is stored, and the chunks stored so far are left in place for a resumed run.
+ */
+export class IngestionPipeline {
+  private chunkRepository: ChunkRepository;
+  private embeddingProvider: EmbeddingProvider;
+  private options: IngestionOptions;
+
+  /**
+   * Creates an instance of IngestionPipeline.
+   * @param chunkRepository - The repository the chunks are stored in.
+   * @param embeddingProvider - The provider used to embed chunk contents.
+   * @param options - Batch size, concurrency and token limits.
+   */
+  constructor(
+    chunkRepository: ChunkRepository,
+    embeddingProvider: EmbeddingProvider,
+    options: IngestionOptions
+  ) {
+    this.chunkRepository = chunkRepository;
+    this.embeddingProvider = embeddingProvider;
+    this.options = options;
+  }
+
+  /**
+   * Embeds and stores the given chunks of a document, replacing its previously stored chunk set.
+   *
+   * @param documentId - The ID of the document the chunks belong to.
+   * @param chunks - The chunks produced by a chunker.
+   * @param details - The chunking parameters recorded with each chunk.
+   * @param resume - When true, chunks already stored with identical content, source span, chunking parameters and metadata, embedded by the same model and dimension, are skipped.
+   * @param control - An optional abort signal cancelling the run, and a callback receiving its progress.
+   * @returns A Promise that resolves to a report of the stored, skipped and removed chunks.
+   * @throws Error if a chunk exceeds the embedding model's maximum input, before anything is stored.
+   * @throws IngestionCancelledError if the run is cancelled, with a report of the progress made.
+   * @throws IngestionError if embedding or storage fails, with a report of the progress made.
+   */
+  async ingest(
+    documentId: string,
+    chunks: ChunkResult[],
+    details: ChunkingDetails,
+    resume = false,
+    { signal, onProgress }: IngestionControl = {}
+  ): Promise<IngestionReport> {
+    // Count each chunk's model tokens, record them, and refuse chunks the model cannot embed.
+    const tokenCounts = new Map<number, number>();
+    for (const chunk of chunks) {
+      const tokenCount = this.options.tokenizer.count(chunk.content);
+      if (tokenCount > this.options.maxInputTokens) {
+        throw new Error(
+          `Chunk ${chunk.index} of document ${documentId} has ${tokenCount} ${this.options.tokenizer.name} tokens, exceeding the embedding model's maximum input of ${this.options.maxInputTokens} tokens. Reduce chunkSize or measure it in model tokens.`
+        );
+      }
+      tokenCounts.set(chunk.index, tokenCount);
+      chunk.metadata.token_count = tokenCount;
+    }
+
+    const chunkIds = new Map<number, string>();
+
+    // When resuming, find the chunks a previous (possibly failed) run already stored unchanged.
+    let pending = chunks;
+    if (resume) {
+      const storedByIndex = new Map(
+        (await this.chunkRepository.getDocumentChunks(documentId)).map(
+          (stored) => [stored.chunkIndex, stored]
+        )
+      );
+      pending = chunks.filter((chunk) => {
+        const stored = storedByIndex.get(chunk.index);
+        const unchanged =
+          stored !== undefined &&
+          stored.content === chunk.content &&
+          stored.startOffset === chunk.startOffset &&
+          stored.endOffset === chunk.endOffset &&
+          stored.chunkSize === details.chunkSize &&
+          stored.chunkOverlap === details.chunkOverlap &&
+          stored.chunkStrategy === details.chunkStrategy &&
+          stored.embeddingModel === this.embeddingProvider.model &&
+          (this.options.dimensions === undefined ||
+            stored.embeddingDimensions === this.options.dimensions) &&
+          // Compare the metadata as it is stored: JSON drops undefined values.
+          isDeepStrictEqual(
+            stored.metadata,
+            JSON.parse(JSON.stringify(chunk.metadata))
+          );
+        if (unchanged) {
+          chunkIds.set(chunk.index, stored.id);
+        }
+        return !unchanged;
+      });
+    }
+
+    const batches = createBatches(
+      pending,
+      {
+        maxBatchSize: this.options.batchSize,
+        maxTokensPerBatch: this.options.maxTokensPerRequest,
+      },
+      (chunk) => tokenCounts.get(chunk.index)!
+    );
+
+    const storedIndexes = new Set<number>();
+    const buildReport = (removedChunks: number): IngestionReport => ({
+      documentId,
+      totalChunks: chunks.length,
+      storedChunks: storedIndexes.size,
+      skippedChunks: chunks.length - pending.length,
+      removedChunks,
+      chunkIds: chunks
+        .map((chunk) => chunkIds.get(chunk.index))
+        .filter((id): id is string => id !== undefined),
+    });
+
+    try {
+      await mapWithConcurrency(
+        batches,
+        this.options.concurrency,
+        async (batch) => {
+          signal?.throwIfAborted();
+
+          // Generate embedding vectors for the whole batch with a single request.
+          const embeddings = await this.embeddingProvider.embedBatch(
+            batch.map((chunk) => chunk.content)
+          );
+
+          // Do not store a batch whose embedding finished after the run was cancelled.
+          signal?.throwIfAborted();
+
+          // Upsert the batch (content, embedding, metadata, etc.) with a single bulk request.
+          const ids = await this.chunkRepository.storeChunks(
+            batch.map((chunk, i) => ({
+              content: chunk.content,
+              embedding: embeddings[i],
+              documentId,
+              chunkIndex: chunk.index,
+              chunkSize: details.chunkSize,
+              chunkOverlap: details.chunkOverlap,
+              chunkStrategy: details.chunkStrategy,
+              startOffset: chunk.startOffset,
+              endOffset: chunk.endOffset,
+              startLine: chunk.startLine,
+              endLine: chunk.endLine,
+              metadata: chunk.metadata,
+              embeddingModel: this.embeddingProvider.model,
+            }))
+          );
+
+          batch.forEach((chunk, i) => {
+            storedIndexes.add(chunk.index);
+            const id = ids[i];
+            if (id !== undefined) {
+              chunkIds.set(chunk.index, id);
+            }
+          });
+
+          await onProgress?.({
+            documentId,
+            storedChunks: storedIndexes.size,
+            totalChunks: pending.length,
+          });
+        }
+      );
+    } catch (error: any) {
+      const failedChunkIndexes = pending
+        .map((chunk) => chunk.index)
+        .filter((index) => !storedIndexes.has(index));
+      // Pending chunks are in index order. Every chunk may have been stored when only the
+      // progress report after the last batch failed, leaving nothing to resume from.
+      const resumeFrom = failedChunkIndexes[0] as number | undefined;
+      if (signal?.aborted) {
+        throw new IngestionCancelledError(
+          `Ingestion of document ${documentId} was cancelled after storing ${storedIndexes.size} of ${pending.length} chunks`,
+          {
+            ...buildReport(0),
+            failedChunkIndexes,
+            resumeFrom,
+          }
+        );
+      }
+      throw new IngestionError(
+        `Ingestion of document ${documentId} failed after storing ${storedIndexes.size} of ${pending.length} chunks: ${error.message}`,
+        {
+          ...buildReport(0),
+          failedChunkIndexes,
+          resumeFrom,
+        }
+      );
+    }
+
+    // Only once the new chunk set is complete, drop chunks beyond its end left by an older version.
+    const removedChunks = await this.chunkRepository.deleteDocumentChunks(
+      documentId,
+      chunks.length
+    );
+
+    return buildReport(removedChunks);
+  }
+}
@@ -0,0 +1,84 @@
+import { EmbeddingProvider } from "./embedding.js";
+
+/**
+ * Interface defining the options for configuring the local embedding provider.
+ */
+export interface LocalEmbeddingProviderOptions {
+  model: string; // Name reported for the embeddings (e.g., "local-hash").
+  dimensions: number; // The length of the produced vectors.
+}
+
+/**
+ * Computes the 32-bit FNV-1a hash of a string.
+ * @param value - The string to hash.
+ * @returns An unsigned 32-bit hash.
+ */
+function fnv1a(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Produces deterministic embeddings entirely in-process using the hashing trick.
+ * Each lowercase word is hashed into one of `dimensions` buckets (with a hashed sign to
+ * reduce collision bias), weighted by sublinear term frequency, and the vector is L2-normalized
+ * so cosine similarity behaves like a bag-of-words overlap score.
+ *
+ * NOTE: These vectors capture lexical, not semantic, similarity. They are intended for tests,
+ * CI and air-gapped deployments where no embedding API is reachable.
+ */
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  readonly model: string;
+  private dimensions: number;
+
+  /**
+   * Creates an instance of LocalEmbeddingProvider.
+   * @param options - The model name and vector dimension to produce.
+   * @throws Error if dimensions is not a positive integer.
+   */
+  constructor(options: LocalEmbeddingProviderOptions) {
+    if (!Number.isInteger(options.dimensions) || options.dimensions <= 0) {
+      throw new Error("Embedding dimensions must be a positive integer.");
+    }
+    this.model = options.model;
+    this.dimensions = options.dimensions;
+  }
+
+  /**
+   * Generates a hashed term-frequency embedding for the given text.
+   * @param text - The text string to get an embedding for.
+   * @returns A Promise that resolves to an L2-normalized vector of length `dimensions`.
+   */
+  async embed(text: string): Promise<number[]> {
+    const vector = new Array<number>(this.dimensions).fill(0);
+
+    // Count term frequencies over lowercase word tokens (letters and digits in any script).
+    const termCounts = new Map<string, number>();
+    for (const term of text.toLowerCase().match(/[\p{L}\p{N}_]+/gu) ?? []) {
+      termCounts.set(term, (termCounts.get(term) ?? 0) + 1);
+    }
+
+    for (const [term, count] of termCounts) {
+      const hash = fnv1a(term);
+      const bucket = hash % this.dimensions;
+      const sign = (hash & 0x80000000) === 0 ? 1 : -1;
+      vector[bucket] += sign * (1 + Math.log(count)); // Sublinear TF weighting
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+    return norm === 0 ? vector : vector.map((v) => v / norm);
+  }
+
+  /**
+   * Generates embeddings for several texts.
+   * @param texts - The text strings to get embeddings for.
+   * @returns A Promise that resolves to one embedding per input text, in input order.
+   */
+  async embedBatch(texts: string[]): Promise<number[][]> {
+    return Promise.all(texts.map((text) => this.embed(text)));
+  }
+}
@@ -0,0 +1,227 @@
+import { z } from "zod";
+import { AppConfig } from "../config.js";
+import {
+  ChunkRepository,
+  NamespaceSettings,
+} from "../repositories/ChunkRepository.js";
+import {
+  DEFAULT_NAMESPACE,
+  NAMESPACE_NAME_PATTERN,
+} from "../repositories/namespaces.js";
+import { ScopedChunkRepository } from "../repositories/ScopedChunkRepository.js";
+import {
+  createEmbeddingProvider,
+  EmbeddingProvider,
+  embeddingModelId,
+} from "./embedding.js";
+
+/**
+ * Zod schema of a namespace name, as taken by every tool.
+ */
+export const namespaceNameSchema = z
+  .string()
+  .regex(
+    NAMESPACE_NAME_PATTERN,
+    "Namespace names are 1 to 63 lowercase letters, digits, '-' and '_', starting with a letter or digit"
+  );
+
+/**
+ * Zod schema of the `namespace` parameter of the tools working on chunks.
+ */
+export const namespaceSchema = namespaceNameSchema
+  .default(DEFAULT_NAMESPACE)
+  .describe(
+    `The namespace (collection) of chunks to work in, isolated from every other namespace. Defaults to '${DEFAULT_NAMESPACE}'.`
+  );
+
+/**
+ * A namespace opened for use: its settings, with the effective embedding settings filled in, a
+ * repository bound to it, and the embedding provider of its model.
+ */
+export interface OpenNamespace {
+  settings: NamespaceSettings; // The namespace's settings, with the embedding model it uses.
+  repository: ChunkRepository; // Reads and writes only the namespace's chunks.
+  embeddingProvider: EmbeddingProvider; // Embeds the namespace's chunks and queries.
+  embeddingConfig: AppConfig["embedding"]; // The embedding configuration with the namespace's overrides.
+}
+
+/**
+ * Creates, lists, drops and opens namespaces.
+ * The default namespace always exists and uses the server's embedding settings; other namespaces
+ * are registered in the repository with `create` and may override the embedding model and
+ * dimension. Embedding providers for overridden models are created on first use and shared.
+ */
+export class NamespaceService {
+  private repository: ChunkRepository;
+  private embeddingProvider: EmbeddingProvider;
+  private config: AppConfig;
+  private providers = new Map<string, EmbeddingProvider>(); // Providers by embedding model ID.
+
+  /**
+   * Creates an instance of NamespaceService.
+   * @param repository - The repository holding every namespace.
+   * @param embeddingProvider - The provider of the server's embedding model.
+   * @param config - The application configuration.
+   */
+  constructor(
+    repository: ChunkRepository,
+    embeddingProvider: EmbeddingProvider,
+    config: AppConfig
+  ) {
+    this.repository = repository;
+    this.embeddingProvider = embeddingProvider;
+    this.config = config;
+  }
+
+  /**
+   * Registers a namespace.
+   * @param settings - The name, description and embedding overrides of the namespace.
+   * @returns A Promise that resolves to the namespace's settings, with the embedding model it uses.
+   * @throws Error if the name is the default namespace's or is already registered.
+   */
+  async create(
+    settings: Omit<NamespaceSettings, "createdAt">
+  ): Promise<NamespaceSettings> {
+    if (settings.name === DEFAULT_NAMESPACE) {
+      throw new Error(
+        `The "${DEFAULT_NAMESPACE}" namespace always exists and cannot be created.`
+      );
+    }
+    const registered: NamespaceSettings = {
+      ...settings,
+      createdAt: new Date().toISOString(),
+    };
+    await this.repository.createNamespace(registered);
+    return this.describe(registered);
+  }
+
+  /**
+   * Lists the namespaces, the default namespace first.
+   * @returns A Promise that resolves to the namespaces' settings, with the embedding model each uses.
+   */
+  async list(): Promise<NamespaceSettings[]> {
+    return [
+      { name: DEFAULT_NAMESPACE },
+      ...(await this.repository.listNamespaces()),
+    ].map((settings) => this.describe(settings));
+  }
+
+  /**
+   * Lists the embedding models the namespaces use, as identified by `embeddingModelId`.
+   * @returns A Promise that resolves to the distinct model identities, the server's first.
+   */
+  async embeddingModelIds(): Promise<string[]> {
+    const namespaces = [
+      { name: DEFAULT_NAMESPACE },
+      ...(await this.repository.listNamespaces()),
+    ];
+    return [
+      ...new Set(
+        namespaces.map((settings) =>
+          embeddingModelId(this.embeddingConfig(settings))
+        )
+      ),
+    ];
+  }
+
+  /**
+   * Deletes a namespace and all of its chunks.
+   * @param name - The name of the namespace.
+   * @returns A Promise that resolves to the number of deleted chunks.
+   * @throws Error if the namespace is the default namespace or does not exist.
+   */
+  async drop(name: string): Promise<number> {
+    if (name === DEFAULT_NAMESPACE) {
+      throw new Error(
+        `The "${DEFAULT_NAMESPACE}" namespace cannot be dropped. Delete its documents instead.`
+      );
+    }
+    await this.find(name);
+    return this.repository.dropNamespace(name);
+  }
+
+  /**
+   * Opens a namespace for reading and writing its chunks.
+   * @param name - The name of the namespace.
+   * @returns A Promise that resolves to the namespace's settings, repository and embedding provider.
+   * @throws Error if the namespace does not exist.
+   */
+  async open(name: string): Promise<OpenNamespace> {
+    const settings = await this.find(name);
+    const embeddingConfig = this.embeddingConfig(settings);
+    return {
+      settings: this.describe(settings),
+      repository: new ScopedChunkRepository(this.repository, name),
+      embeddingProvider: this.providerFor(embeddingConfig),
+      embeddingConfig,
+    };
+  }
+
+  /**
+   * Looks up a namespace's registered settings.
+   */
+  private async find(name: string): Promise<NamespaceSettings> {
+    if (name === DEFAULT_NAMESPACE) {
+      return { name };
+    }
+    const settings = (await this.repository.listNamespaces()).find(
+      (namespace) => namespace.name === name
+    );
+    if (!settings) {
+      throw new Error(
+        `Namespace "${name}" does not exist. Create it with the create_namespace tool first.`
+      );
+    }
+    return settings;
+  }
+
+  /**
+   * Applies a namespace's embedding overrides to the server's embedding configuration. A model
+   * override does not inherit the server's dimension, which belongs to the server's model.
+   */
+  private embeddingConfig(settings: NamespaceSettings): AppConfig["embedding"] {
+    if (settings.embeddingModel) {
+      return {
+        ...this.config.embedding,
+        model: settings.embeddingModel,
+        dimensions: settings.embeddingDimensions,
+      };
+    }
+    if (settings.embeddingDimensions) {
+      return {
+        ...this.config.embedding,
+        dimensions: settings.embeddingDimensions,
+      };
+    }
+    return this.config.embedding;
+  }
+
+  /**
+   * Returns the provider of an embedding configuration, reusing the server's provider for the
+   * server's model.
+   */
+  private providerFor(config: AppConfig["embedding"]): EmbeddingProvider {
+    const modelId = embeddingModelId(config);
+    if (modelId === embeddingModelId(this.config.embedding)) {
+      return this.embeddingProvider;
+    }
+    let provider = this.providers.get(modelId);
+    if (!provider) {
+      provider = createEmbeddingProvider(config, this.config.retry);
+      this.providers.set(modelId, provider);
+    }
+    return provider;
+  }
+
+  /**
+   * Fills in the embedding model and dimension a namespace uses.
+   */
+  private describe(settings: NamespaceSettings): NamespaceSettings {
+    const { model, dimensions } = this.embeddingConfig(settings);
+    return {
+      ...settings,
+      embeddingModel: model,
+      ...(dimensions !== undefined ? { embeddingDimensions: dimensions } : {}),
+    };
+  }
+}
@@ -0,0 +1,155 @@
+import { EmbeddingProvider } from "./embedding.js";
+import { HttpError, TimeoutError } from "../utils/errors.js";
+import { parseRetryAfter, RetryPolicy } from "../utils/retry.js";
+
+// Default timeout for embedding API requests in milliseconds
+const DEFAULT_EMBEDDING_TIMEOUT = 10000;
+
+/**
+ * Interface defining the options for configuring an OpenAI-style embedding provider.
+ */
+export interface OpenAIEmbeddingProviderOptions {
+  baseUrl: string; // Base URL of the API, including the version prefix (e.g., "https://api.openai.com/v1").
+  apiKey?: string; // Optional bearer token. Required by OpenAI, usually unnecessary for self-hosted servers.
+  model: string; // The embedding model to request.
+  dimensions?: number; // Optional output dimension (only supported by some models).
+  timeoutMs?: number; // Request timeout in milliseconds.
+  retryPolicy?: RetryPolicy; // Optional policy used to retry transient failures.
+}
+
+/**
+ * Retrieves embeddings from the OpenAI embeddings API or any server exposing a compatible
+ * `POST {baseUrl}/embeddings` endpoint (e.g., Ollama, vLLM, LM Studio).
+ */
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly model: string;
+  private baseUrl: string;
+  private apiKey?: string;
+  private dimensions?: number;
+  private timeoutMs: number;
+  private retryPolicy?: RetryPolicy;
+
+  /**
+   * Creates an instance of OpenAIEmbeddingProvider.
+   * @param options - Connection and model options for the embeddings API.
+   */
+  constructor(options: OpenAIEmbeddingProviderOptions) {
+    this.baseUrl = options.baseUrl.replace(/\/+$/, ""); // Strip trailing slashes
+    this.apiKey = options.apiKey;
+    this.model = options.model;
+    this.dimensions = options.dimensions;
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_EMBEDDING_TIMEOUT;
+    this.retryPolicy = options.retryPolicy;
+  }
+
+  /**
+   * Retrieves an embedding for a given text string.
+   *
+   * @param text The text string to get an embedding for.
+   * @returns A Promise that resolves to an array of numbers representing the embedding vector.
+   * @throws Error if the request fails, returns an unexpected payload, or times out.
+   */
+  async embed(text: string): Promise<number[]> {
+    const [embedding] = await this.embedBatch([text]);
+    return embedding;
+  }
+
+  /**
+   * Retrieves embeddings for several texts in a single API request.
+   * Transient failures are retried according to the configured retry policy.
+   *
+   * @param texts The text strings to get embeddings for.
+   * @returns A Promise that resolves to one embedding per input text, in input order.
+   * @throws Error if the request fails, returns an unexpected payload, or times out.
+   */
+  async embedBatch(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) {
+      return [];
+    }
+    return this.retryPolicy
+      ? this.retryPolicy.execute(() => this.requestEmbeddings(texts))
+      : this.requestEmbeddings(texts);
+  }
+
+  /**
+   * Performs a single embeddings API request.
+   *
+   * @param texts The text strings to get embeddings for.
+   * @returns A Promise that resolves to one embedding per input text, in input order.
+   * @throws HttpError for non-successful responses, TimeoutError on timeout, or Error for malformed payloads.
+   */
+  private async requestEmbeddings(texts: string[]): Promise<number[][]> {
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+    };
+    if (this.apiKey) {
+      headers.Authorization = `Bearer ${this.apiKey}`;
+    }
+
+    try {
+      // Use AbortController for request timeout
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), this.timeoutMs);
+
+      // Make the request to the embeddings API endpoint
+      const response = await fetch(`${this.baseUrl}/embeddings`, {
+        method: "POST",
+        headers,
+        body: JSON.stringify({
+          input: texts, // The texts to embed; the API accepts an array of inputs
+          model: this.model, // The embedding model to use, from config
+          ...(this.dimensions ? { dimensions: this.dimensions } : {}),
+        }),
+        signal: controller.signal, // Signal for aborting the request on timeout
+      });
+
+      clearTimeout(timeoutId); // Clear the timeout as the request has completed (or failed)
+
+      if (!response.ok) {
+        // Attempt to parse error details from the API response
+        const errorText = await response.text();
+        let errorDetails = errorText || "Unknown error";
+        try {
+          const errorResponse = JSON.parse(errorText);
+          errorDetails =
+            errorResponse.error?.message || JSON.stringify(errorResponse);
+        } catch (parseError) {
+          // If parsing fails, keep the raw text response
+        }
+        throw new HttpError(
+          `Embedding API error (${response.status}): ${errorDetails}`,
+          response.status,
+          parseRetryAfter(response.headers.get("retry-after"))
+        );
+      }
+
+      // Parse the successful response
+      const result = await response.json();
+
+      // Ensure the expected data structure is present, one entry per input
+      if (!Array.isArray(result.data) || result.data.length !== texts.length) {
+        throw new Error("Invalid response structure from embedding API.");
+      }
+
+      // Entries carry their input index; order by it rather than trusting response order.
+      const embeddings = new Array<number[]>(texts.length);
+      result.data.forEach((entry: any, position: number) => {
+        const index = typeof entry.index === "number" ? entry.index : position;
+        if (!Array.isArray(entry.embedding) || embeddings[index]) {
+          throw new Error("Invalid response structure from embedding API.");
+        }
+        embeddings[index] = entry.embedding;
+      });
+      return embeddings;
+    } catch (error: any) {
+      if (error.name === "AbortError") {
+        // Handle specifically the timeout error
+        throw new TimeoutError(
+          `Embedding request timed out after ${this.timeoutMs}ms`
+        );
+      }
+      // Re-throw other errors
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,295 @@
+import {
+  ChunkRepository,
+  StoredChunk,
+} from "../repositories/ChunkRepository.js";
+import { EmbeddingProvider } from "./embedding.js";
+import { IngestionOptions } from "./ingestion.js";
+import { createBatches } from "../utils/batching.js";
+import { mapWithConcurrency } from "../utils/concurrency.js";
+
+/**
+ * Interface defining the options of a re-embedding run: the ingestion batching and token limits,
+ * and the dimension the embedding model is configured to produce.
+ */
+export type ReembeddingOptions = IngestionOptions;
+
+/**
+ * Interface describing the outcome of a re-embedding run.
+ */
+export interface ReembeddingReport {
+  embeddingModel: string; // The model the chunks are migrated to.
+  documents: number; // Documents examined.
+  totalChunks: number; // Chunks of the examined documents.
+  outdatedChunks: number; // Chunks embedded by another model or dimension, or with no recorded model.
+  reembeddedChunks: number; // Outdated chunks embedded and stored with the current model in this run.
+  outdatedDocumentIds: string[]; // Documents that had outdated chunks, in `documentId` order.
+  remainingChunks?: number; // Outdated chunks not migrated because the run failed or was cancelled.
+}
+
+/**
+ * Interface describing the progress of a re-embedding run, reported after each stored batch.
+ */
+export interface ReembeddingProgress {
+  reembeddedChunks: number; // Chunks embedded and stored so far in this run.
+  outdatedChunks: number; // Chunks this run has to re-embed.
+}
+
+/**
+ * Interface for observing and cancelling a re-embedding run.
+ */
+export interface ReembeddingControl {
+  signal?: AbortSignal; // Cancels the run: no further batches are embedded or stored once it aborts.
+  onProgress?: (progress: ReembeddingProgress) => void | Promise<void>; // Called after each stored batch.
+}
+
+/**
+ * Error thrown when re-embedding fails part-way. Carries a report of what was already migrated;
+ * running the migration again picks up the remaining chunks.
+ */
+export class ReembeddingError extends Error {
+  readonly report: ReembeddingReport;
+
+  constructor(message: string, report: ReembeddingReport) {
+    super(message);
+    this.name = "ReembeddingError";
+    this.report = report;
+  }
+}
+
+/**
+ * Error thrown when a re-embedding run is cancelled through its abort signal. The batches stored
+ * before the cancellation keep the current model, so a later run only migrates the rest.
+ */
+export class ReembeddingCancelledError extends ReembeddingError {
+  constructor(message: string, report: ReembeddingReport) {
+    super(message, report);
+    this.name = "ReembeddingCancelledError";
+  }
+}
+
+/**
+ * Migrates stored chunks to the current embedding model.
+ * Every chunk records the model and dimension of its embedding. Chunks whose record differs from
+ * the provider's model (or the configured dimension), or that predate the record, are embedded
+ * again and stored in place with their content, source span and metadata unchanged, in batches
+ * bounded like ingestion batches.
+ *
+ * Chunks are stored in place, so the migration cannot change the embedding dimension: Qdrant and
+ * Chroma collections and `VECTOR(n)` columns hold vectors of one dimension. A run whose model
+ * produces another dimension than the stored chunks fails before anything is stored (the model's
+ * dimension is the configured one, or else that of a probe embedding of the first outdated chunk);
+ * such a migration goes into a new namespace instead.
+ *
+ * A run only touches outdated chunks, so it can be repeated after a failure or cancellation and
+ * carries on where the previous run stopped.
+ */
+export class ReembeddingService {
+  private chunkRepository: ChunkRepository;
+  private embeddingProvider: EmbeddingProvider;
+  private options: ReembeddingOptions;
+
+  /**
+   * Creates an instance of ReembeddingService.
+   * @param chunkRepository - The repository holding the chunks to migrate.
+   * @param embeddingProvider - The provider of the model to migrate to.
+   * @param options - Batch size, concurrency, token limits and the configured dimension.
+   */
+  constructor(
+    chunkRepository: ChunkRepository,
+    embeddingProvider: EmbeddingProvider,
+    options: ReembeddingOptions
+  ) {
+    this.chunkRepository = chunkRepository;
+    this.embeddingProvider = embeddingProvider;
+    this.options = options;
+  }
+
+  /**
+   * Re-embeds the outdated chunks of one document, or of every document in the repository.
+   *
+   * @param documentId - Optional. The document to migrate; all documents when omitted.
+   * @param dryRun - When true, only count the outdated chunks without embedding or storing anything.
+   * @param control - An optional abort signal cancelling the run, and a callback receiving its progress.
+   * @returns A Promise that resolves to a report of the examined and re-embedded chunks.
+   * @throws Error if an outdated chunk exceeds the embedding model's maximum input, or the model's dimension differs from the stored chunks', before anything is stored.
+   * @throws ReembeddingCancelledError if the run is cancelled, with a report of the progress made.
+   * @throws ReembeddingError if embedding or storage fails, with a report of the progress made.
+   */
+  async reembed(
+    documentId?: string,
+    dryRun = false,
+    { signal, onProgress }: ReembeddingControl = {}
+  ): Promise<ReembeddingReport> {
+    const documentIds =
+      documentId !== undefined
+        ? [documentId]
+        : (await this.chunkRepository.listDocuments()).map(
+            (summary) => summary.documentId
+          );
+
+    let documents = 0;
+    let totalChunks = 0;
+    const storedDimensions = new Set<number>();
+    let reembeddedChunks = 0;
+    const outdated: StoredChunk[] = [];
+    const outdatedDocumentIds: string[] = [];
+    const buildReport = (): ReembeddingReport => ({
+      embeddingModel: this.embeddingProvider.model,
+      documents,
+      totalChunks,
+      outdatedChunks: outdated.length,
+      reembeddedChunks,
+      outdatedDocumentIds,
+    });
+
+    // Find the chunks not embedded by the current model.
+    for (const id of documentIds) {
+      if (signal?.aborted) {
+        throw new ReembeddingCancelledError(
+          "Re-embedding was cancelled before any chunks were migrated",
+          buildReport()
+        );
+      }
+      const chunks = await this.chunkRepository.getDocumentChunks(id);
+      if (chunks.length === 0) {
+        continue;
+      }
+      documents++;
+      totalChunks += chunks.length;
+      for (const chunk of chunks) {
+        if (chunk.embeddingDimensions !== null) {
+          storedDimensions.add(chunk.embeddingDimensions);
+        }
+      }
+      const stale = chunks.filter((chunk) => this.isOutdated(chunk));
+      if (stale.length > 0) {
+        outdated.push(...stale);
+        outdatedDocumentIds.push(id);
+      }
+    }
+
+    // Count each outdated chunk's model tokens, and refuse chunks the model cannot embed.
+    const tokenCounts = new Map<StoredChunk, number>();
+    for (const chunk of outdated) {
+      const tokenCount = this.options.tokenizer.count(chunk.content);
+      if (tokenCount > this.options.maxInputTokens) {
+        throw new Error(
+          `Chunk ${chunk.chunkIndex} of document ${chunk.documentId} has ${tokenCount} ${this.options.tokenizer.name} tokens, exceeding the embedding model's maximum input of ${this.options.maxInputTokens} tokens. Re-ingest the document with a smaller chunkSize.`
+        );
+      }
+      tokenCounts.set(chunk, tokenCount);
+    }
+
+    if (dryRun) {
+      return buildReport();
+    }
+
+    // Refuse a dimension change before storing anything. Without a configured dimension, the
+    // model's is learned from one probe embedding.
+    if (outdated.length > 0) {
+      const dimension =
+        this.options.dimensions ??
+        (await this.embeddingProvider.embed(outdated[0].content)).length;
+      this.assertStoredDimension(storedDimensions, dimension);
+    }
+
+    const batches = createBatches(
+      outdated,
+      {
+        maxBatchSize: this.options.batchSize,
+        maxTokensPerBatch: this.options.maxTokensPerRequest,
+      },
+      (chunk) => tokenCounts.get(chunk)!
+    );
+
+    try {
+      await mapWithConcurrency(
+        batches,
+        this.options.concurrency,
+        async (batch) => {
+          signal?.throwIfAborted();
+
+          const embeddings = await this.embeddingProvider.embedBatch(
+            batch.map((chunk) => chunk.content)
+          );
+
+          // Do not store a batch whose embedding finished after the run was cancelled.
+          signal?.throwIfAborted();
+          this.assertStoredDimension(storedDimensions, embeddings[0].length);
+
+          // Store the chunks in place, recording the token counts of the current tokenizer.
+          await this.chunkRepository.storeChunks(
+            batch.map((chunk, i) => ({
+              content: chunk.content,
+              embedding: embeddings[i],
+              documentId: chunk.documentId,
+              chunkIndex: chunk.chunkIndex,
+              chunkSize: chunk.chunkSize,
+              chunkOverlap: chunk.chunkOverlap,
+              chunkStrategy: chunk.chunkStrategy,
+              startOffset: chunk.startOffset ?? undefined,
+              endOffset: chunk.endOffset ?? undefined,
+              startLine: chunk.startLine ?? undefined,
+              endLine: chunk.endLine ?? undefined,
+              metadata: {
+                ...chunk.metadata,
+                token_count: tokenCounts.get(chunk),
+              },
+              embeddingModel: this.embeddingProvider.model,
+            }))
+          );
+
+          reembeddedChunks += batch.length;
+          await onProgress?.({
+            reembeddedChunks,
+            outdatedChunks: outdated.length,
+          });
+        }
+      );
+    } catch (error: any) {
+      const report = {
+        ...buildReport(),
+        remainingChunks: outdated.length - reembeddedChunks,
+      };
+      if (signal?.aborted) {
+        throw new ReembeddingCancelledError(
+          `Re-embedding was cancelled after migrating ${reembeddedChunks} of ${outdated.length} chunks`,
+          report
+        );
+      }
+      throw new ReembeddingError(
+        `Re-embedding failed after migrating ${reembeddedChunks} of ${outdated.length} chunks: ${error.message}`,
+        report
+      );
+    }
+
+    return buildReport();
+  }
+
+  /**
+   * Checks that the current model's embeddings can replace the stored ones in place.
+   * @throws Error if a stored chunk has an embedding of another dimension.
+   */
+  private assertStoredDimension(
+    storedDimensions: Set<number>,
+    dimension: number
+  ): void {
+    const other = [...storedDimensions].find((stored) => stored !== dimension);
+    if (other !== undefined) {
+      throw new Error(
+        `Cannot re-embed in place from ${other} to ${dimension} dimensions: vector stores hold one dimension per collection or VECTOR(n) column. Create a namespace with the new embedding model and dimension (create_namespace), ingest the documents into it, and drop the old namespace once it is no longer needed.`
+      );
+    }
+  }
+
+  /**
+   * Checks whether a chunk was embedded by a model or dimension other than the current one.
+   */
+  private isOutdated(chunk: StoredChunk): boolean {
+    return (
+      chunk.embeddingModel !== this.embeddingProvider.model ||
+      (this.options.dimensions !== undefined &&
+        chunk.embeddingDimensions !== this.options.dimensions)
+    );
+  }
+}
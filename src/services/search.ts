@@ -0,0 +1,290 @@
+import { ChunkRepository } from "../repositories/ChunkRepository.js";
+import { MetadataFilter } from "../filters/filter.js";
+import { EmbeddingProvider } from "./embedding.js";
+import { reciprocalRankFusion } from "../search/fusion.js";
+import { Reranker } from "../search/reranker.js";
+import {
+  capPerDocument,
+  cosineSimilarity,
+  maximalMarginalRelevance,
+  parseEmbedding,
+} from "../search/mmr.js";
+
+/**
+ * The available retrieval modes.
+ * - `vector`: Semantic similarity of embeddings (the `match_chunks` RPC).
+ * - `keyword`: Full-text keyword ranking (the `keyword_search_chunks` RPC).
+ * - `hybrid`: Both, fused with weighted reciprocal rank fusion.
+ */
+export const SEARCH_MODES = ["vector", "keyword", "hybrid"] as const;
+
+export type SearchMode = (typeof SEARCH_MODES)[number];
+
+/**
+ * Interface defining the options of a single search.
+ */
+export interface SearchOptions {
+  query: string; // The search query.
+  limit: number; // The maximum number of results to return.
+  metadataFilter?: MetadataFilter; // Optional filter on chunk columns and metadata.
+  threshold: number; // The minimum vector similarity (vector and hybrid modes).
+  mode: SearchMode; // The retrieval mode.
+  vectorWeight: number; // Weight of the vector ranking in hybrid fusion.
+  keywordWeight: number; // Weight of the keyword ranking in hybrid fusion.
+  rerank?: boolean; // Whether to reorder the candidates with the reranker.
+  rerankCandidates?: number; // How many candidates to fetch for reranking (at least `limit`).
+  diversity?: number; // MMR trade-off in [0, 1]: 0 ranks by relevance only, higher values favour novel content.
+  maxPerDocument?: number; // Optional cap on results sharing a `documentId`.
+}
+
+// In hybrid mode each retriever fetches this many times `limit` candidates before fusion,
+// so that chunks ranked moderately by both modes can still make the final cut.
+const HYBRID_CANDIDATE_MULTIPLIER = 3;
+
+// Diversification and per-document caps choose among this many times `limit` candidates,
+// so that skipping near-duplicates still leaves enough results to fill the page.
+const DIVERSITY_CANDIDATE_MULTIPLIER = 4;
+
+/**
+ * Scales scores linearly to [0, 1]; if all scores are equal, they all become 1.
+ */
+function normalizeScores(scores: number[]): number[] {
+  const min = Math.min(...scores);
+  const max = Math.max(...scores);
+  return scores.map((score) => (max > min ? (score - min) / (max - min) : 1));
+}
+
+/**
+ * Runs searches over stored chunks in vector, keyword or hybrid mode.
+ * Every result carries a `scores` object with the scores of the modes that retrieved it:
+ * `vector` (cosine similarity), `keyword` (full-text rank) and, in hybrid mode, `fused`.
+ *
+ * When reranking is requested, more candidates are retrieved than will be returned, and a
+ * reranker reorders them; results then also carry `scores.rerank` and their `originalRank`.
+ * With a `diversity` above 0, the final results are picked by maximal marginal relevance over the
+ * candidates' embeddings and carry `scores.mmr`.
+ */
+export class SearchService {
+  private chunkRepository: ChunkRepository;
+  private embeddingProvider: EmbeddingProvider;
+  private reranker?: Reranker;
+
+  /**
+   * Creates an instance of SearchService.
+   * @param chunkRepository - The repository to search.
+   * @param embeddingProvider - The provider used to embed queries.
+   * @param reranker - Optional reranker used by searches that request reranking.
+   */
+  constructor(
+    chunkRepository: ChunkRepository,
+    embeddingProvider: EmbeddingProvider,
+    reranker?: Reranker
+  ) {
+    this.chunkRepository = chunkRepository;
+    this.embeddingProvider = embeddingProvider;
+    this.reranker = reranker;
+  }
+
+  /**
+   * Searches for chunks matching a query.
+   *
+   * @param options - The query, limits, filter, retrieval mode, reranking and diversity options.
+   * @returns A Promise that resolves to at most `limit` chunks in relevance order.
+   * @throws Error if reranking is requested but no reranker is configured.
+   */
+  async search(options: SearchOptions): Promise<any[]> {
+    const { query, limit, rerank, diversity = 0, maxPerDocument } = options;
+    if (rerank && !this.reranker) {
+      throw new Error("Reranking was requested but no reranker is configured.");
+    }
+
+    // Over-fetch when later stages choose among more candidates than will be returned.
+    let candidateCount = limit;
+    if (rerank) {
+      candidateCount = Math.max(candidateCount, options.rerankCandidates ?? 0);
+    }
+    if (diversity > 0 || maxPerDocument !== undefined) {
+      candidateCount = Math.max(
+        candidateCount,
+        limit * DIVERSITY_CANDIDATE_MULTIPLIER
+      );
+    }
+
+    // Vector retrieval and MMR both need the query embedding; compute it once.
+    const queryEmbedding =
+      options.mode !== "keyword" || diversity > 0
+        ? await this.embeddingProvider.embed(query)
+        : undefined;
+
+    let candidates = await this.retrieve(
+      options,
+      candidateCount,
+      queryEmbedding
+    );
+    if (rerank) {
+      candidates = await this.rerankCandidates(query, candidates);
+    }
+
+    if (diversity > 0) {
+      // Reranked candidates are judged by their rerank score (scaled to [0, 1]); others by
+      // their cosine similarity to the query, on the same scale as the redundancy penalty.
+      // Keyword matches embedded by another model cannot be compared with the query embedding
+      // and keep their vector score, if any.
+      const relevance = rerank
+        ? normalizeScores(candidates.map((chunk) => chunk.scores.rerank))
+        : candidates.map((chunk) => {
+            const embedding = parseEmbedding(chunk.embedding);
+            return embedding &&
+              chunk.embeddingModel === this.embeddingProvider.model &&
+              embedding.length === queryEmbedding!.length
+              ? cosineSimilarity(queryEmbedding!, embedding)
+              : (chunk.scores.vector ?? 0);
+          });
+      return maximalMarginalRelevance(candidates, relevance, {
+        limit,
+        lambda: 1 - diversity,
+        maxPerDocument,
+      }).map(({ mmrScore, ...chunk }) => ({
+        ...chunk,
+        scores: { ...chunk.scores, mmr: mmrScore },
+      }));
+    }
+    if (maxPerDocument !== undefined) {
+      candidates = capPerDocument(candidates, maxPerDocument);
+    }
+    return candidates.slice(0, limit);
+  }
+
+  /**
+   * Reorders candidates by the reranker's score for the query.
+   *
+   * @param query - The search query.
+   * @param candidates - The first-stage candidates, in retrieval order.
+   * @returns The candidates sorted by descending `scores.rerank`, each with its 1-based `originalRank`.
+   */
+  private async rerankCandidates(
+    query: string,
+    candidates: any[]
+  ): Promise<any[]> {
+    const rerankScores = await this.reranker!.rerank(
+      query,
+      candidates.map((chunk) => chunk.content)
+    );
+    return candidates
+      .map((chunk, index) => ({
+        ...chunk,
+        scores: { ...chunk.scores, rerank: rerankScores[index] },
+        originalRank: index + 1,
+      }))
+      .sort((a, b) => b.scores.rerank - a.scores.rerank);
+  }
+
+  /**
+   * Retrieves chunks in the requested mode, in first-stage relevance order.
+   *
+   * @param options - The query, filter and retrieval mode.
+   * @param limit - The maximum number of chunks to retrieve.
+   * @param queryEmbedding - The query's embedding, required in vector and hybrid modes.
+   * @returns A Promise that resolves to at most `limit` chunks.
+   */
+  private async retrieve(
+    options: SearchOptions,
+    limit: number,
+    queryEmbedding?: number[]
+  ): Promise<any[]> {
+    const { query, metadataFilter = {}, threshold, mode } = options;
+
+    if (mode === "vector") {
+      return this.vectorSearch(
+        queryEmbedding!,
+        limit,
+        metadataFilter,
+        threshold
+      );
+    }
+    if (mode === "keyword") {
+      return this.keywordSearch(query, limit, metadataFilter);
+    }
+
+    // Hybrid: over-fetch from both retrievers in parallel, then fuse by rank.
+    const candidateCount = limit * HYBRID_CANDIDATE_MULTIPLIER;
+    const [vectorResults, keywordResults] = await Promise.all([
+      this.vectorSearch(
+        queryEmbedding!,
+        candidateCount,
+        metadataFilter,
+        threshold
+      ),
+      this.keywordSearch(query, candidateCount, metadataFilter),
+    ]);
+    const keywordScores = new Map(
+      keywordResults.map((chunk) => [chunk.id, chunk.scores.keyword])
+    );
+    const vectorScores = new Map(
+      vectorResults.map((chunk) => [chunk.id, chunk.scores.vector])
+    );
+
+    return reciprocalRankFusion([
+      { name: "vector", results: vectorResults, weight: options.vectorWeight },
+      {
+        name: "keyword",
+        results: keywordResults,
+        weight: options.keywordWeight,
+      },
+    ])
+      .slice(0, limit)
+      .map(({ fusedScore, ...chunk }) => ({
+        ...chunk,
+        scores: {
+          vector: vectorScores.get(chunk.id),
+          keyword: keywordScores.get(chunk.id),
+          fused: fusedScore,
+        },
+      }));
+  }
+
+  /**
+   * Retrieves the chunks most similar to the query embedding. Only chunks embedded by the
+   * provider's model at the query's dimension are compared; vectors of any other model live in a
+   * different space, and their similarity to the query would be meaningless.
+   */
+  private async vectorSearch(
+    embedding: number[],
+    limit: number,
+    metadataFilter: MetadataFilter,
+    threshold: number
+  ): Promise<any[]> {
+    // Perform the search for similar chunks using the repository.
+    const results = await this.chunkRepository.searchSimilarChunks(
+      embedding,
+      limit,
+      metadataFilter,
+      threshold,
+      undefined,
+      this.embeddingProvider.model
+    );
+    return results.map((chunk) => ({
+      ...chunk,
+      scores: { vector: chunk.similarity },
+    }));
+  }
+
+  /**
+   * Retrieves the chunks ranking highest for the query's keywords.
+   */
+  private async keywordSearch(
+    query: string,
+    limit: number,
+    metadataFilter: MetadataFilter
+  ): Promise<any[]> {
+    const results = await this.chunkRepository.searchKeywordChunks(
+      query,
+      limit,
+      metadataFilter
+    );
+    return results.map((chunk) => ({
+      ...chunk,
+      scores: { keyword: chunk.rank },
+    }));
+  }
+}
@@ -0,0 +1,284 @@
+import { createHash } from "node:crypto";
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import { ChunkStrategy } from "../chunkers/chunker.js";
+import {
+  ChunkRepository,
+  StoredChunk,
+} from "../repositories/ChunkRepository.js";
+import {
+  chunkLoadedDocument,
+  defaultChunkStrategy,
+  hashContent,
+  loadFile,
+  mimeTypeForPath,
+} from "./documentLoader.js";
+import { IngestionPipeline, IngestionReport } from "./ingestion.js";
+import { Tokenizer } from "../tokenizers/tokenizer.js";
+import {
+  findFiles,
+  FoundFile,
+  globToRegExp,
+  resolveWithinRoot,
+} from "../utils/files.js";
+
+// The most documents a synced directory is expected to hold; bounds the lookup of stored documents,
+// which repositories page through rather than truncate.
+const MAX_SYNCED_DOCUMENTS = 100000;
+
+/**
+ * Interface defining the options of a directory sync.
+ */
+export interface SyncOptions {
+  directory: string; // The directory to sync, relative to the ingest root or absolute.
+  ingestRoot: string; // The directory files may be read from; `directory` must be inside it.
+  include?: string; // Optional glob, relative to the directory, selecting the files to sync (and the documents that may be removed).
+  chunkSize: number; // The target size of each chunk in tokens.
+  chunkOverlap: number; // The number of tokens shared by consecutive chunks.
+  chunkStrategy?: ChunkStrategy; // The strategy to use; defaults by file format.
+  tokenizer: Tokenizer; // The tokenizer measuring chunkSize and chunkOverlap.
+  metadata?: Record<string, any>; // Caller metadata merged into every chunk.
+  dryRun: boolean; // When true, only report what would change.
+}
+
+/**
+ * Interface describing the outcome of a directory sync.
+ */
+export interface SyncReport {
+  directory: string; // The absolute path of the synced directory.
+  dryRun: boolean;
+  added: string[]; // Documents of new files.
+  modified: string[]; // Documents whose file contents or chunking parameters changed.
+  removed: string[]; // Documents whose files no longer exist.
+  unchanged: number; // The number of documents left as they were.
+  failed: { documentId: string; error: string }[]; // Files that could not be ingested or removed.
+  storedChunks: number; // Chunks embedded and written (0 in a dry run).
+  removedChunks: number; // Chunks deleted, for removed files and shrunken documents (0 in a dry run).
+}
+
+/**
+ * Derives the ID a synced file is stored under: its path relative to the synced directory,
+ * prefixed with a short hash of the directory, so that files with the same relative path in
+ * other synced directories, or ingested with 'ingest_file', are stored as separate documents.
+ *
+ * @param root - The absolute path of the synced directory.
+ * @param relativePath - The file's path relative to the directory.
+ * @returns The document ID, e.g. "3f2a9c0d81b4/guides/setup.md".
+ */
+export function syncDocumentId(root: string, relativePath: string): string {
+  const rootHash = createHash("sha256").update(root).digest("hex").slice(0, 12);
+  return `${rootHash}/${relativePath}`;
+}
+
+/**
+ * Keeps the stored chunks of a directory in step with its files.
+ * Every chunk of a synced file records the directory it was synced from (`sync_root`), the
+ * SHA-256 of the file (`content_hash`), the tokenizer that measured it (`chunk_tokenizer`) and the
+ * number of chunks of the document (`chunk_count`), and its document ID is scoped to the directory
+ * (see `syncDocumentId`). Caller metadata cannot override these keys or `source`.
+ *
+ * A sync hashes each file and compares it with the stored chunks of its document: a document is
+ * unchanged only if it holds exactly `chunk_count` chunks and every one of them carries the file's
+ * hash and the current chunking parameters, so a document left half-updated by a failed run is
+ * re-ingested. New, changed and re-chunked files are ingested, and documents of the directory
+ * whose files were deleted are removed.
+ */
+export class DirectorySyncService {
+  private chunkRepository: ChunkRepository;
+  private ingestionPipeline: IngestionPipeline;
+
+  /**
+   * Creates an instance of DirectorySyncService.
+   * @param chunkRepository - The repository holding the chunks.
+   * @param ingestionPipeline - The pipeline used to embed and store changed files.
+   */
+  constructor(
+    chunkRepository: ChunkRepository,
+    ingestionPipeline: IngestionPipeline
+  ) {
+    this.chunkRepository = chunkRepository;
+    this.ingestionPipeline = ingestionPipeline;
+  }
+
+  /**
+   * Syncs a directory, or reports what a sync would change.
+   * Files are processed one at a time; a file that fails is reported and does not stop the others.
+   *
+   * @param options - The directory, chunking parameters and dry-run flag.
+   * @returns A Promise that resolves to a report of the added, modified, removed and unchanged documents.
+   * @throws Error if the directory is outside the ingest root, cannot be read, or the stored documents cannot be listed.
+   */
+  async sync(options: SyncOptions): Promise<SyncReport> {
+    const root = await resolveWithinRoot(options.directory, options.ingestRoot);
+    const include = options.include ? globToRegExp(options.include) : null;
+    const files = await findFiles(
+      root,
+      options.ingestRoot,
+      (relativePath) =>
+        Boolean(mimeTypeForPath(relativePath)) &&
+        (!include || include.test(relativePath))
+    );
+
+    // The first chunk of every document synced from this directory carries its hash and chunking.
+    const stored = new Map(
+      (
+        await this.chunkRepository.filterChunksByMetadata(
+          { sync_root: root, chunkIndex: 0 },
+          MAX_SYNCED_DOCUMENTS
+        )
+      ).map((chunk) => [chunk.documentId as string, chunk])
+    );
+
+    const report: SyncReport = {
+      directory: root,
+      dryRun: options.dryRun,
+      added: [],
+      modified: [],
+      removed: [],
+      unchanged: 0,
+      failed: [],
+      storedChunks: 0,
+      removedChunks: 0,
+    };
+
+    for (const file of files) {
+      const documentId = syncDocumentId(root, file.relativePath);
+      try {
+        const data = await readFile(file.path);
+        const contentHash = hashContent(data);
+        const previous = stored.get(documentId);
+        const chunkStrategy =
+          options.chunkStrategy ??
+          defaultChunkStrategy(mimeTypeForPath(file.path)!);
+
+        if (
+          previous &&
+          (await this.isUnchanged(
+            previous,
+            contentHash,
+            chunkStrategy,
+            options
+          ))
+        ) {
+          report.unchanged++;
+          continue;
+        }
+
+        if (!options.dryRun) {
+          const ingestion = await this.ingestFile(
+            file,
+            documentId,
+            root,
+            chunkStrategy,
+            options
+          );
+          report.storedChunks += ingestion.storedChunks;
+          report.removedChunks += ingestion.removedChunks;
+        }
+        (previous ? report.modified : report.added).push(documentId);
+      } catch (error: any) {
+        console.error(`Error syncing ${file.path}:`, error);
+        report.failed.push({ documentId, error: error.message });
+      }
+    }
+
+    // Documents synced from this directory whose files are gone. With `include`, only the
+    // documents it selects are considered, so a narrower sync leaves the others in place.
+    const present = new Set(
+      files.map((file) => syncDocumentId(root, file.relativePath))
+    );
+    for (const [documentId, chunk] of stored) {
+      const relativePath = path
+        .relative(root, String(chunk.metadata?.source ?? ""))
+        .split(path.sep)
+        .join("/");
+      if (present.has(documentId) || (include && !include.test(relativePath))) {
+        continue;
+      }
+      try {
+        if (!options.dryRun) {
+          report.removedChunks +=
+            await this.chunkRepository.deleteDocumentChunks(documentId);
+        }
+        report.removed.push(documentId);
+      } catch (error: any) {
+        console.error(`Error removing document ${documentId}:`, error);
+        report.failed.push({ documentId, error: error.message });
+      }
+    }
+
+    return report;
+  }
+
+  /**
+   * Checks whether a document is stored completely, from the current file contents and with the
+   * current chunking. The first chunk is checked before reading the rest of the document.
+   *
+   * @param first - The document's stored first chunk.
+   * @param contentHash - The SHA-256 of the file.
+   * @param chunkStrategy - The strategy the file would be chunked with.
+   * @param options - The sync's chunking parameters.
+   * @returns A Promise that resolves to true if the document need not be ingested again.
+   */
+  private async isUnchanged(
+    first: StoredChunk,
+    contentHash: string,
+    chunkStrategy: ChunkStrategy,
+    options: SyncOptions
+  ): Promise<boolean> {
+    const isCurrent = (chunk: StoredChunk) =>
+      chunk.metadata?.content_hash === contentHash &&
+      chunk.metadata?.chunk_tokenizer === options.tokenizer.name &&
+      chunk.metadata?.chunk_count === first.metadata?.chunk_count &&
+      chunk.chunkSize === options.chunkSize &&
+      chunk.chunkOverlap === options.chunkOverlap &&
+      chunk.chunkStrategy === chunkStrategy;
+    if (!isCurrent(first)) {
+      return false;
+    }
+    const chunks = await this.chunkRepository.getDocumentChunks(
+      first.documentId
+    );
+    return (
+      chunks.length === first.metadata.chunk_count &&
+      chunks.every(
+        (chunk, index) => chunk.chunkIndex === index && isCurrent(chunk)
+      )
+    );
+  }
+
+  /**
+   * Loads, chunks, embeds and stores one file, tagging its chunks with the sync metadata.
+   */
+  private async ingestFile(
+    file: FoundFile,
+    documentId: string,
+    root: string,
+    chunkStrategy: ChunkStrategy,
+    options: SyncOptions
+  ): Promise<IngestionReport> {
+    const document = await loadFile(file, documentId);
+    const { chunks } = chunkLoadedDocument(document, {
+      chunkSize: options.chunkSize,
+      chunkOverlap: options.chunkOverlap,
+      chunkStrategy,
+      tokenizer: options.tokenizer,
+      metadata: options.metadata,
+    });
+    // The keys removal and change detection rely on win over caller metadata.
+    for (const chunk of chunks) {
+      Object.assign(chunk.metadata, {
+        source: document.metadata.source,
+        content_hash: document.metadata.content_hash,
+        sync_root: root,
+        chunk_tokenizer: options.tokenizer.name,
+        chunk_count: chunks.length,
+      });
+    }
+    return this.ingestionPipeline.ingest(document.documentId, chunks, {
+      chunkSize: options.chunkSize,
+      chunkOverlap: options.chunkOverlap,
+      chunkStrategy,
+    });
+  }
+}
@@ -0,0 +1,115 @@
+import { Tiktoken } from "js-tiktoken/lite";
+import cl100k_base from "js-tiktoken/ranks/cl100k_base";
+import o200k_base from "js-tiktoken/ranks/o200k_base";
+import { Tokenizer, TokenSegment } from "./tokenizer.js";
+
+// The bundled BPE encodings.
+const ENCODINGS = { cl100k_base, o200k_base };
+
+/**
+ * Counts tokens with a byte-pair encoding matching OpenAI's models, using the ranks bundled
+ * with `js-tiktoken` (no network access needed).
+ *
+ * Segments follow the encoding's own pre-tokenization pattern: BPE never merges tokens across
+ * those pieces, so cutting between them never splits a token.
+ */
+export class BpeTokenizer implements Tokenizer {
+  readonly name: string;
+  private encoding: Tiktoken;
+  private pattern: RegExp;
+
+  /**
+   * Creates an instance of BpeTokenizer.
+   * @param name - The name of the bundled encoding to use.
+   */
+  constructor(name: keyof typeof ENCODINGS) {
+    this.name = name;
+    this.encoding = new Tiktoken(ENCODINGS[name]);
+    this.pattern = new RegExp(ENCODINGS[name].pat_str, "gu");
+  }
+
+  /**
+   * Counts the tokens a string encodes to.
+   * @param text - The text to count.
+   * @returns The number of tokens.
+   */
+  count(text: string): number {
+    // Treat special-token markers such as "<|endoftext|>" as plain text.
+    return this.encoding.encode(text, [], []).length;
+  }
+
+  /**
+   * Splits a range of text into the encoding's pre-tokenization pieces with their token counts.
+   * Pieces longer than `maxTokens` (e.g. long runs of CJK characters) are cut at character
+   * boundaries into sub-pieces that each fit.
+   *
+   * @param text - The full text.
+   * @param start - Optional. The character offset to start at.
+   * @param end - Optional. The character offset to stop at.
+   * @param maxTokens - Optional. The maximum number of tokens per segment.
+   * @returns Contiguous segments covering the range.
+   */
+  segment(
+    text: string,
+    start = 0,
+    end = text.length,
+    maxTokens = Infinity
+  ): TokenSegment[] {
+    const range = text.slice(start, end);
+    const segments: TokenSegment[] = [];
+
+    for (const match of range.matchAll(this.pattern)) {
+      const pieceStart = start + match.index!;
+      const tokens = this.count(match[0]);
+      if (tokens <= maxTokens) {
+        segments.push({
+          start: pieceStart,
+          end: pieceStart + match[0].length,
+          tokens,
+        });
+      } else {
+        segments.push(...this.splitPiece(match[0], pieceStart, maxTokens));
+      }
+    }
+    return segments;
+  }
+
+  /**
+   * Cuts an oversized piece into sub-pieces of at most `maxTokens` tokens, never splitting a
+   * surrogate pair.
+   *
+   * @param piece - The piece text.
+   * @param offset - The character offset of the piece in the full text.
+   * @param maxTokens - The maximum number of tokens per sub-piece.
+   * @returns The sub-pieces in order.
+   */
+  private splitPiece(
+    piece: string,
+    offset: number,
+    maxTokens: number
+  ): TokenSegment[] {
+    const characters = Array.from(piece);
+    const segments: TokenSegment[] = [];
+    let from = 0;
+    let charOffset = offset;
+
+    while (from < characters.length) {
+      // Grow the sub-piece one character at a time until adding another would exceed the limit.
+      let to = from + 1;
+      let tokens = this.count(characters[from]);
+      while (to < characters.length) {
+        const next = this.count(characters.slice(from, to + 1).join(""));
+        if (next > maxTokens) {
+          break;
+        }
+        tokens = next;
+        to++;
+      }
+      const length = characters.slice(from, to).join("").length;
+      segments.push({ start: charOffset, end: charOffset + length, tokens });
+      charOffset += length;
+      from = to;
+    }
+    return segments;
+  }
+}
@@ -0,0 +1,72 @@
+import { WordTokenizer } from "./wordTokenizer.js";
+import { BpeTokenizer } from "./bpeTokenizer.js";
+
+/**
+ * A contiguous piece of text with the number of tokens it encodes to.
+ * Segments are the smallest units a chunker may cut between.
+ */
+export interface TokenSegment {
+  start: number; // Character offset of the segment in the text (inclusive).
+  end: number; // Character offset of the segment in the text (exclusive).
+  tokens: number; // The number of tokens in the segment.
+}
+
+/**
+ * Defines the contract for a tokenizer used to measure chunk sizes.
+ */
+export interface Tokenizer {
+  /** The name of the tokenizer (e.g., "word", "cl100k_base"). */
+  readonly name: string;
+
+  /**
+   * Counts the tokens in a string.
+   * @param text - The text to count.
+   * @returns The number of tokens.
+   */
+  count(text: string): number;
+
+  /**
+   * Splits a range of text into consecutive segments with their token counts.
+   * Whitespace between segments may be left out of every segment.
+   *
+   * @param text - The full text.
+   * @param start - Optional. The character offset to start at. Defaults to 0.
+   * @param end - Optional. The character offset to stop at. Defaults to the end of the text.
+   * @param maxTokens - Optional. Segments larger than this are split further where possible.
+   * @returns The segments in text order.
+   */
+  segment(
+    text: string,
+    start?: number,
+    end?: number,
+    maxTokens?: number
+  ): TokenSegment[];
+}
+
+/**
+ * The available tokenizers.
+ * - `word`: Whitespace-separated words (the original RagLit behavior).
+ * - `cl100k_base`: The BPE encoding used by OpenAI's `text-embedding-3-*` and `text-embedding-ada-002` models.
+ * - `o200k_base`: The BPE encoding used by OpenAI's `gpt-4o` family.
+ */
+export const TOKENIZER_NAMES = ["word", "cl100k_base", "o200k_base"] as const;
+
+export type TokenizerName = (typeof TOKENIZER_NAMES)[number];
+
+// BPE tokenizers are expensive to build, so each one is created once and shared.
+const tokenizers = new Map<TokenizerName, Tokenizer>();
+
+/**
+ * Returns the tokenizer with the given name, creating it on first use.
+ *
+ * @param name - The name of the tokenizer.
+ * @returns The shared `Tokenizer` instance.
+ */
+export function getTokenizer(name: TokenizerName): Tokenizer {
+  let tokenizer = tokenizers.get(name);
+  if (!tokenizer) {
+    tokenizer = name === "word" ? new WordTokenizer() : new BpeTokenizer(name);
+    tokenizers.set(name, tokenizer);
+  }
+  return tokenizer;
+}
@@ -0,0 +1,41 @@
+import { Tokenizer, TokenSegment } from "./tokenizer.js";
+
+/**
+ * Treats every whitespace-separated word as one token.
+ * This is cheap and model-independent, but misjudges CJK text, code and URLs against a
+ * model's real token limit; use a BPE tokenizer when sizes must match the embedding model.
+ */
+export class WordTokenizer implements Tokenizer {
+  readonly name = "word";
+
+  /**
+   * Counts the whitespace-separated words in a string.
+   * @param text - The text to count.
+   * @returns The number of words.
+   */
+  count(text: string): number {
+    return text.match(/\S+/g)?.length ?? 0;
+  }
+
+  /**
+   * Splits a range of text into its words, one token each.
+   * @param text - The full text.
+   * @param start - Optional. The character offset to start at.
+   * @param end - Optional. The character offset to stop at.
+   * @returns One segment per word, excluding the whitespace between words.
+   */
+  segment(text: string, start = 0, end = text.length): TokenSegment[] {
+    const segments: TokenSegment[] = [];
+    const word = /\S+/g;
+    word.lastIndex = start;
+    let match: RegExpExecArray | null;
+    while ((match = word.exec(text)) !== null && match.index < end) {
+      segments.push({
+        start: match.index,
+        end: Math.min(end, match.index + match[0].length),
+        tokens: 1,
+      });
+    }
+    return segments;
+  }
+}
@@ -1,19 +1,14 @@
-// src/tools/chunkDocument.ts
 import { z } from "zod";
-import { FixedChunker } from "../chunkers/fixedChunker.js";
-import { RestApiChunkRepository } from "../repositories/RestApiChunkRepository.js";
-import { getEmbedding } from "../services/embedding.js";
-import { loadConfig } from "../config.js";
-
-// Load application configuration (e.g., API keys, base URLs)
-const config = loadConfig();
-
-// Initialize the repository for storing and managing chunks.
-// This uses a REST API backend, consistent with other tools.
-const chunkRepository = new RestApiChunkRepository(
-  config.postgrest.baseUrl,
-  config.postgrest.apiKey
-);
+import { CHUNK_STRATEGIES, createChunker } from "../chunkers/chunker.js";
+import {
+  IngestionCancelledError,
+  IngestionError,
+  IngestionPipeline,
+} from "../services/ingestion.js";
+import { namespaceSchema } from "../services/namespaces.js";
+import { getTokenizer, TOKENIZER_NAMES } from "../tokenizers/tokenizer.js";
+import { ToolDependencies } from "./dependencies.js";
+import { createProgressReporter, ToolRequestContext } from "./progress.js";
 
 const chunkDocumentSchema = z.object({
   content: z.string().min(1, "Document content is required"),
@@ -24,108 +19,180 @@ const chunkDocumentSchema = z.object({
     .positive()
     .default(500)
     .describe(
-      "The target size of each chunk in words (tokenized by whitespace)."
+      "The target size of each chunk in tokens of the selected tokenizer (words by default)."
     ),
   chunkOverlap: z
     .number()
     .int()
     .nonnegative()
     .default(50)
-    .describe("The number of words to overlap between consecutive chunks."),
+    .describe("The number of tokens to overlap between consecutive chunks."),
+  chunkStrategy: z
+    .enum(CHUNK_STRATEGIES)
+    .default("fixed-size")
+    .describe(
+      "How to split the document: 'fixed-size' windows of tokens, 'recursive' splitting on paragraph, line, sentence and word boundaries while preserving whitespace, or 'markdown' splitting on headings with section path metadata."
+    ),
+  tokenizer: z
+    .enum(TOKENIZER_NAMES)
+    .optional()
+    .describe(
+      "How chunkSize and chunkOverlap are measured: 'word' (whitespace-separated words) or a model BPE encoding ('cl100k_base', 'o200k_base'). Defaults to the server's CHUNK_TOKENIZER setting."
+    ),
   metadata: z
     .record(z.any())
     .optional()
     .describe("Optional metadata to associate with the chunks."),
+  resume: z
+    .boolean()
+    .default(false)
+    .describe(
+      "Skip chunks already stored with identical content by a previous, partially failed or cancelled run of the same document."
+    ),
+  namespace: namespaceSchema,
 });
 
 /**
- * Defines the schema and handler for the 'chunk_document' tool.
- * This tool splits a given document into smaller, fixed-size chunks based on word count,
- * generates embeddings for each chunk, and stores them via the configured REST API.
+ * Creates the 'chunk_document' tool.
+ * This tool splits a given document into smaller chunks based on token count using the selected strategy,
+ * generates embeddings for the chunks in batches, and stores them via the configured REST API.
+ * Re-ingesting a document replaces its previous chunks instead of duplicating them.
+ * Clients that send a progress token receive a progress notification after each stored batch,
+ * and cancelling the request stops the ingestion, keeping the batches already stored so that the
+ * document can be re-ingested with `resume: true`.
+ * The chunks are stored in the requested namespace and embedded with its embedding model.
+ *
+ * @param dependencies - The services the tool uses.
+ * @returns The tool's schema and handler.
  */
-export const chunkDocumentTool = {
-  /**
-   * Zod schema for validating the input parameters of the tool.
-   */
-  schema: chunkDocumentSchema,
+export function createChunkDocumentTool({
+  config,
+  namespaces,
+}: ToolDependencies) {
+  return {
+    /**
+     * Zod schema for validating the input parameters of the tool.
+     */
+    schema: chunkDocumentSchema,
 
-  /**
-   * Handles the document chunking process.
-   * @param params - The validated input parameters.
-   * @returns A result object indicating success or failure, along with chunk information.
-   */
-  handler: async ({
-    content,
-    documentId,
-    chunkSize,
-    chunkOverlap,
-    metadata,
-  }: z.infer<typeof chunkDocumentSchema>) => {
-    try {
-      // Instantiate the chunker with the specified size and overlap.
-      const chunker = new FixedChunker({
+    /**
+     * Handles the document chunking process.
+     * @param params - The validated input parameters.
+     * @param context - The MCP request context, with the abort signal and progress token.
+     * @returns A result object indicating success or failure, along with chunk information.
+     */
+    handler: async (
+      {
+        content,
+        documentId,
         chunkSize,
         chunkOverlap,
-      });
-
-      // Perform the chunking operation on the document content.
-      const chunks = chunker.chunk(content, metadata || {}); // Ensure metadata is an object if undefined
-
-      const chunkIds: (string | undefined)[] = []; // Ensure type allows for undefined IDs
-      // Process and store each generated chunk.
-      for (const chunk of chunks) {
-        // Generate an embedding vector for the chunk's content.
-        const embedding = await getEmbedding(chunk.content);
+        chunkStrategy,
+        tokenizer,
+        metadata,
+        resume,
+        namespace,
+      }: z.infer<typeof chunkDocumentSchema>,
+      context?: ToolRequestContext
+    ) => {
+      const reportProgress = createProgressReporter(context);
+      try {
+        // Batch chunks into bulk embedding requests and bulk inserts, with the namespace's model.
+        const { repository, embeddingProvider, embeddingConfig } =
+          await namespaces.open(namespace);
+        const ingestionPipeline = new IngestionPipeline(
+          repository,
+          embeddingProvider,
+          {
+            ...config.ingestion,
+            maxInputTokens: embeddingConfig.maxInputTokens,
+            tokenizer: getTokenizer(embeddingConfig.tokenizer),
+            dimensions: embeddingConfig.dimensions,
+          }
+        );
 
-        // Store the chunk details (content, embedding, metadata, etc.) in the repository.
-        const chunkId = await chunkRepository.storeChunk({
-          content: chunk.content,
-          embedding,
-          documentId,
-          chunkIndex: chunk.index,
+        // Instantiate the chunker for the selected strategy with the specified size and overlap.
+        const chunker = createChunker(chunkStrategy, {
           chunkSize,
           chunkOverlap,
-          chunkStrategy: "fixed-size", // Strategy used for chunking
-          metadata: chunk.metadata,
+          tokenizer: getTokenizer(tokenizer ?? config.chunking.tokenizer),
         });
-        chunkIds.push(chunkId); // Add chunkId (which might be undefined if API fails to return one)
-      }
 
-      // Return a success response with details about the processed chunks.
-      return {
-        content: [
-          {
-            type: "text" as const, // Explicitly set type as literal "text"
-            text: JSON.stringify({
-              success: true,
-              documentId,
-              chunks: chunks.length,
-              chunkIds: chunkIds.filter((id) => id !== undefined), // Filter out undefined IDs for the response
-            }),
-          },
-        ],
-      };
-    } catch (error: any) {
-      // Catch any errors during the process
-      console.error(
-        `Error in chunk_document tool for document ${documentId}:`,
-        error
-      );
+        // Perform the chunking operation on the document content.
+        const chunks = chunker.chunk(content, metadata || {}); // Ensure metadata is an object if undefined
 
-      // Return an error response.
-      return {
-        content: [
+        // Embed and store the chunks in batches (content, embedding, metadata, etc.).
+        const report = await ingestionPipeline.ingest(
+          documentId,
+          chunks,
           {
-            type: "text" as const, // Explicitly set type as literal "text"
-            text: JSON.stringify({
-              success: false,
-              documentId,
-              error: error.message,
-            }),
+            chunkSize,
+            chunkOverlap,
+            chunkStrategy, // Strategy used for chunking
           },
-        ],
-        isError: true, // Indicate that an error occurred
-      };
-    }
-  },
-};
+          resume,
+          {
+            signal: context?.signal,
+            onProgress: ({ storedChunks, totalChunks }) =>
+              reportProgress(
+                storedChunks,
+                totalChunks,
+                `Stored ${storedChunks} of ${totalChunks} chunks of document ${documentId}`
+              ),
+          }
+        );
+
+        // Return a success response with details about the processed chunks.
+        return {
+          content: [
+            {
+              type: "text" as const, // Explicitly set type as literal "text"
+              text: JSON.stringify({
+                success: true,
+                documentId,
+                chunks: chunks.length,
+                chunkIds: report.chunkIds,
+                stored: report.storedChunks,
+                skipped: report.skippedChunks,
+                removed: report.removedChunks,
+              }),
+            },
+          ],
+        };
+      } catch (error: any) {
+        // Catch any errors during the process
+        console.error(
+          `Error in chunk_document tool for document ${documentId}:`,
+          error
+        );
+
+        // Return an error response.
+        return {
+          content: [
+            {
+              type: "text" as const, // Explicitly set type as literal "text"
+              text: JSON.stringify({
+                success: false,
+                documentId,
+                error: error.message,
+                ...(error instanceof IngestionCancelledError
+                  ? { cancelled: true }
+                  : {}),
+                // Partial progress, so the caller can re-run with `resume: true`.
+                ...(error instanceof IngestionError
+                  ? {
+                      stored: error.report.storedChunks,
+                      skipped: error.report.skippedChunks,
+                      failedChunkIndexes: error.report.failedChunkIndexes,
+                      resumeFrom: error.report.resumeFrom,
+                    }
+                  : {}),
+              }),
+            },
+          ],
+          isError: true, // Indicate that an error occurred
+        };
+      }
+    },
+  };
+}
@@ -0,0 +1,89 @@
+import { z } from "zod";
+import { namespaceNameSchema } from "../services/namespaces.js";
+import { ToolDependencies } from "./dependencies.js";
+
+// Define the Zod schema for the 'create_namespace' tool inputs
+const createNamespaceSchema = z.object({
+  name: namespaceNameSchema.describe(
+    "The name of the namespace: 1 to 63 lowercase letters, digits, '-' and '_', starting with a letter or digit."
+  ),
+  description: z
+    .string()
+    .optional()
+    .describe("Optional description of what the namespace holds."),
+  embeddingModel: z
+    .string()
+    .min(1)
+    .optional()
+    .describe(
+      "Optional embedding model for the namespace's chunks and queries, served by the server's embedding provider. Defaults to the server's EMBEDDING_MODEL."
+    ),
+  embeddingDimensions: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe(
+      "Optional output dimension of the namespace's embeddings. Defaults to the server's EMBEDDING_DIMENSIONS when the model is not overridden."
+    ),
+});
+
+/**
+ * Creates the 'create_namespace' tool.
+ * This tool registers a namespace: an isolated collection of documents with, optionally, an
+ * embedding model and dimension of its own. Every tool working on chunks takes the namespace
+ * as its `namespace` parameter.
+ *
+ * @param dependencies - The services the tool uses.
+ * @returns The tool's schema and handler.
+ */
+export function createCreateNamespaceTool({ namespaces }: ToolDependencies) {
+  return {
+    /**
+     * Zod schema for validating the input parameters of the tool.
+     */
+    schema: createNamespaceSchema,
+
+    /**
+     * Handles the namespace creation.
+     * @param params - The validated input parameters according to createNamespaceSchema.
+     * @returns A result object containing the namespace's settings or an error message.
+     */
+    handler: async (settings: z.infer<typeof createNamespaceSchema>) => {
+      try {
+        // Register the namespace with the repository.
+        const namespace = await namespaces.create(settings);
+
+        // Return a success response with the namespace's settings.
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify({
+                success: true,
+                namespace,
+              }),
+            },
+          ],
+        };
+      } catch (error: any) {
+        console.error(`Error creating namespace ${settings.name}:`, error);
+
+        // Return an error response.
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify({
+                success: false,
+                name: settings.name,
+                error: error.message,
+              }),
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  };
+}
@@ -0,0 +1,76 @@
+import { z } from "zod";
+import { namespaceSchema } from "../services/namespaces.js";
+import { ToolDependencies } from "./dependencies.js";
+
+// Define the Zod schema for the 'delete_document' tool inputs
+const deleteDocumentSchema = z.object({
+  documentId: z
+    .string()
+    .min(1, "Document ID is required")
+    .describe("The ID of the document whose chunks should be deleted."),
+  namespace: namespaceSchema,
+});
+
+/**
+ * Creates the 'delete_document' tool.
+ * This tool removes all stored chunks of a document of a namespace. Deleting a document that has
+ * no chunks succeeds and reports zero deleted chunks.
+ *
+ * @param dependencies - The services the tool uses.
+ * @returns The tool's schema and handler.
+ */
+export function createDeleteDocumentTool({ namespaces }: ToolDependencies) {
+  return {
+    /**
+     * Zod schema for validating the input parameters of the tool.
+     */
+    schema: deleteDocumentSchema,
+
+    /**
+     * Handles the document deletion process.
+     * @param params - The validated input parameters according to deleteDocumentSchema.
+     * @returns A result object with the number of deleted chunks or an error message.
+     */
+    handler: async ({
+      documentId,
+      namespace,
+    }: z.infer<typeof deleteDocumentSchema>) => {
+      try {
+        // Delete every chunk of the document using the repository.
+        const { repository } = await namespaces.open(namespace);
+        const deletedChunks = await repository.deleteDocumentChunks(documentId);
+
+        // Return a success response with the number of deleted chunks.
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify({
+                success: true,
+                documentId,
+                deletedChunks,
+              }),
+            },
+          ],
+        };
+      } catch (error: any) {
+        console.error(`Error deleting document ${documentId}:`, error);
+
+        // Return an error response.
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify({
+                success: false,
+                documentId,
+                error: error.message,
+              }),
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  };
+}
@@ -0,0 +1,15 @@
+import { AppConfig } from "../config.js";
+import { ChunkRepository } from "../repositories/ChunkRepository.js";
+import { EmbeddingProvider } from "../services/embedding.js";
+import { NamespaceService } from "../services/namespaces.js";
+
+/**
+ * The services a tool is constructed with. `main()` creates them once from the configuration
+ * and hands the same instances to every tool; tests pass fakes instead.
+ */
+export interface ToolDependencies {
+  repository: ChunkRepository; // Stores and retrieves the chunks.
+  embeddingProvider: EmbeddingProvider; // Embeds chunks and queries.
+  config: AppConfig; // The application configuration (defaults, tokenizers, reranking, cache).
+  namespaces: NamespaceService; // Opens the namespace a tool call names, with its repository view and embedding model.
+}
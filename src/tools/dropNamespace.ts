@@ -0,0 +1,68 @@
+import { z } from "zod";
+import { namespaceNameSchema } from "../services/namespaces.js";
+import { ToolDependencies } from "./dependencies.js";
+
+// Define the Zod schema for the 'drop_namespace' tool inputs
+const dropNamespaceSchema = z.object({
+  name: namespaceNameSchema.describe("The name of the namespace to drop."),
+});
+
+/**
+ * Creates the 'drop_namespace' tool.
+ * This tool deletes a namespace together with all of its chunks. The default namespace cannot be
+ * dropped.
+ *
+ * @param dependencies - The services the tool uses.
+ * @returns The tool's schema and handler.
+ */
+export function createDropNamespaceTool({ namespaces }: ToolDependencies) {
+  return {
+    /**
+     * Zod schema for validating the input parameters of the tool.
+     */
+    schema: dropNamespaceSchema,
+
+    /**
+     * Handles the namespace deletion.
+     * @param params - The validated input parameters according to dropNamespaceSchema.
+     * @returns A result object with the number of deleted chunks or an error message.
+     */
+    handler: async ({ name }: z.infer<typeof dropNamespaceSchema>) => {
+      try {
+        // Delete the namespace and its chunks using the repository.
+        const deletedChunks = await namespaces.drop(name);
+
+        // Return a success response with the number of deleted chunks.
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify({
+                success: true,
+                name,
+                deletedChunks,
+              }),
+            },
+          ],
+        };
+      } catch (error: any) {
+        console.error(`Error dropping namespace ${name}:`, error);
+
+        // Return an error response.
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify({
+                success: false,
+                name,
+                error: error.message,
+              }),
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  };
+}
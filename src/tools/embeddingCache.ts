@@ -0,0 +1,108 @@
+import { z } from "zod";
+import { embeddingModelId } from "../services/embedding.js";
+import {
+  openEmbeddingCache,
+  pruneEmbeddingCaches,
+} from "../services/embeddingCache.js";
+import { namespaceSchema } from "../services/namespaces.js";
+import { ToolDependencies } from "./dependencies.js";
+
+// Define the Zod schema for the 'embedding_cache' tool inputs
+const embeddingCacheSchema = z.object({
+  action: z
+    .enum(["stats", "clear", "prune"])
+    .default("stats")
+    .describe(
+      "'stats' reports the cache's size and hit rate; 'clear' removes every cached embedding; 'prune' deletes the caches of models no namespace uses anymore."
+    ),
+  namespace: namespaceSchema.describe(
+    "The namespace whose embedding model's cache to inspect or clear. Namespaces sharing a model share its cache."
+  ),
+});
+
+/**
+ * Creates the 'embedding_cache' tool.
+ * This tool reports the statistics of the persistent embedding cache, or clears it. Each embedding
+ * model has a cache of its own, selected by the namespace using the model. Pruning deletes the
+ * caches of the models that neither the server nor any namespace uses.
+ *
+ * @param dependencies - The services the tool uses.
+ * @returns The tool's schema and handler.
+ */
+export function createEmbeddingCacheTool({
+  config,
+  namespaces,
+}: ToolDependencies) {
+  return {
+    /**
+     * Zod schema for validating the input parameters of the tool.
+     */
+    schema: embeddingCacheSchema,
+
+    /**
+     * Handles the cache action.
+     * @param params - The validated input parameters.
+     * @returns A result object containing the cache statistics or an error message.
+     */
+    handler: async ({
+      action,
+      namespace,
+    }: z.infer<typeof embeddingCacheSchema>) => {
+      try {
+        if (!config.embedding.cacheDir) {
+          throw new Error(
+            "The embedding cache is disabled. Set EMBEDDING_CACHE_DIR to enable it."
+          );
+        }
+
+        // The cache of the namespace's embedding model, shared with its embedding provider.
+        const { embeddingConfig } = await namespaces.open(namespace);
+        const embeddingCache = openEmbeddingCache(
+          config.embedding.cacheDir,
+          embeddingModelId(embeddingConfig),
+          config.embedding.cacheMaxEntries
+        );
+
+        const cleared =
+          action === "clear" ? await embeddingCache.clear() : undefined;
+        const pruned =
+          action === "prune"
+            ? await pruneEmbeddingCaches(
+                config.embedding.cacheDir,
+                await namespaces.embeddingModelIds()
+              )
+            : undefined;
+        const stats = await embeddingCache.stats();
+
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify({
+                success: true,
+                ...(cleared !== undefined ? { cleared } : {}),
+                ...(pruned !== undefined ? { pruned } : {}),
+                stats,
+              }),
+            },
+          ],
+        };
+      } catch (error: any) {
+        console.error("Error in embedding_cache tool:", error);
+
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify({
+                success: false,
+                error: error.message,
+              }),
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  };
+}
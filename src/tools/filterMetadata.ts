@@ -1,87 +1,89 @@
 import { z } from "zod";
-import { RestApiChunkRepository } from "../repositories/RestApiChunkRepository.js";
-import { loadConfig } from "../config.js";
+import { metadataFilterSchema } from "../filters/filter.js";
+import { namespaceSchema } from "../services/namespaces.js";
+import { ToolDependencies } from "./dependencies.js";
 
-// Load application configuration
-const config = loadConfig();
-
-// Initialize the repository for chunk operations
-const chunkRepository = new RestApiChunkRepository(
-  config.postgrest.baseUrl,
-  config.postgrest.apiKey
-);
-
-// Define the Zod schema for the filterMetadataTool inputs
+// Define the Zod schema for the 'filter_metadata' tool inputs
 const filterMetadataSchema = z.object({
-  metadataFilter: z
-    .record(z.string(), z.any())
+  metadataFilter: metadataFilterSchema
     .refine((obj) => Object.keys(obj).length > 0, {
-      message: "At least one metadata filter key-value pair is required",
+      message: "At least one metadata filter condition is required",
     })
-    .describe("An object containing metadata key-value pairs to filter by."),
+    .describe(
+      "Filter on chunk metadata keys (dots address nested keys) and the documentId, chunkIndex and chunkStrategy columns. Values match exactly, or use operators: $eq, $ne, $gt, $gte, $lt, $lte, $in, $nin, $exists, $contains, combined with $and / $or lists."
+    ),
   limit: z
     .number()
     .int()
     .positive()
     .default(10)
     .describe("The maximum number of filtered chunks to return."),
+  namespace: namespaceSchema,
 });
 
 /**
- * Defines the schema and handler for the 'filter_metadata' tool.
- * This tool filters stored chunks based on exact matches of provided metadata key-value pairs,
- * via a REST API.
+ * Creates the 'filter_metadata' tool.
+ * This tool filters stored chunks by their metadata and columns, using exact matches or the
+ * comparison operators of the metadata filter language, via a REST API. Only the chunks of the
+ * requested namespace are filtered.
+ *
+ * @param dependencies - The services the tool uses.
+ * @returns The tool's schema and handler.
  */
-export const filterMetadataTool = {
-  /**
-   * Zod schema for validating the input parameters of the tool.
-   */
-  schema: filterMetadataSchema,
+export function createFilterMetadataTool({ namespaces }: ToolDependencies) {
+  return {
+    /**
+     * Zod schema for validating the input parameters of the tool.
+     */
+    schema: filterMetadataSchema,
 
-  /**
-   * Handles the metadata filtering process.
-   * @param params - The validated input parameters according to filterMetadataSchema.
-   * @returns A result object containing the filtered chunks or an error message.
-   */
-  handler: async ({
-    metadataFilter,
-    limit,
-  }: z.infer<typeof filterMetadataSchema>) => {
-    try {
-      // Filter chunks by metadata using the repository.
-      const results = await chunkRepository.filterChunksByMetadata(
-        metadataFilter,
-        limit
-      );
+    /**
+     * Handles the metadata filtering process.
+     * @param params - The validated input parameters according to filterMetadataSchema.
+     * @returns A result object containing the filtered chunks or an error message.
+     */
+    handler: async ({
+      metadataFilter,
+      limit,
+      namespace,
+    }: z.infer<typeof filterMetadataSchema>) => {
+      try {
+        // Filter the namespace's chunks by metadata using the repository.
+        const { repository } = await namespaces.open(namespace);
+        const results = await repository.filterChunksByMetadata(
+          metadataFilter,
+          limit
+        );
 
-      // Return a success response with the filtered results.
-      return {
-        content: [
-          {
-            type: "text" as const,
-            text: JSON.stringify({
-              success: true,
-              results,
-            }),
-          },
-        ],
-      };
-    } catch (error: any) {
-      console.error("Error filtering chunks by metadata:", error);
+        // Return a success response with the filtered results.
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify({
+                success: true,
+                results,
+              }),
+            },
+          ],
+        };
+      } catch (error: any) {
+        console.error("Error filtering chunks by metadata:", error);
 
-      // Return an error response.
-      return {
-        content: [
-          {
-            type: "text" as const,
-            text: JSON.stringify({
-              success: false,
-              error: error.message,
-            }),
-          },
-        ],
-        isError: true,
-      };
-    }
-  },
-};
+        // Return an error response.
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify({
+                success: false,
+                error: error.message,
+              }),
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  };
+}
@@ -0,0 +1,104 @@
+import { z } from "zod";
+import { ChunkContextService } from "../services/context.js";
+import { namespaceSchema } from "../services/namespaces.js";
+import { ToolDependencies } from "./dependencies.js";
+
+// Define the Zod schema for the 'get_chunk_context' tool inputs
+const getChunkContextSchema = z.object({
+  documentId: z
+    .string()
+    .min(1, "Document ID is required")
+    .describe("The ID of the document the chunk belongs to."),
+  chunkIndex: z
+    .number()
+    .int()
+    .nonnegative()
+    .describe("The index of the chunk to return the context of."),
+  window: z
+    .number()
+    .int()
+    .min(0)
+    .max(50)
+    .default(1)
+    .describe("Number of neighbouring chunks to include on each side."),
+  namespace: namespaceSchema,
+});
+
+/**
+ * Creates the 'get_chunk_context' tool.
+ * This tool returns the passage made of a chunk and its neighbouring chunks, merged into one text
+ * with the overlap between consecutive chunks removed.
+ *
+ * @param dependencies - The services the tool uses.
+ * @returns The tool's schema and handler.
+ */
+export function createGetChunkContextTool({ namespaces }: ToolDependencies) {
+  return {
+    /**
+     * Zod schema for validating the input parameters of the tool.
+     */
+    schema: getChunkContextSchema,
+
+    /**
+     * Handles assembling a chunk's context.
+     * @param params - The validated input parameters according to getChunkContextSchema.
+     * @returns A result object containing the context passage or an error message.
+     */
+    handler: async ({
+      documentId,
+      chunkIndex,
+      window,
+      namespace,
+    }: z.infer<typeof getChunkContextSchema>) => {
+      try {
+        // Assemble neighbouring chunks of the namespace into a context passage.
+        const { repository } = await namespaces.open(namespace);
+        const contextService = new ChunkContextService(repository);
+        const context = await contextService.getContext(
+          documentId,
+          chunkIndex,
+          window
+        );
+        if (!context) {
+          throw new Error(
+            `No chunks found around chunk ${chunkIndex} of document ${documentId}.`
+          );
+        }
+
+        // Return a success response with the passage.
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify({
+                success: true,
+                context,
+              }),
+            },
+          ],
+        };
+      } catch (error: any) {
+        console.error(
+          `Error fetching context for chunk ${chunkIndex} of document ${documentId}:`,
+          error
+        );
+
+        // Return an error response.
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify({
+                success: false,
+                documentId,
+                chunkIndex,
+                error: error.message,
+              }),
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  };
+}
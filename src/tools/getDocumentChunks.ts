@@ -0,0 +1,78 @@
+import { z } from "zod";
+import { namespaceSchema } from "../services/namespaces.js";
+import { ToolDependencies } from "./dependencies.js";
+
+// Define the Zod schema for the 'get_document_chunks' tool inputs
+const getDocumentChunksSchema = z.object({
+  documentId: z
+    .string()
+    .min(1, "Document ID is required")
+    .describe("The ID of the document whose chunks should be returned."),
+  namespace: namespaceSchema,
+});
+
+/**
+ * Creates the 'get_document_chunks' tool.
+ * This tool returns all stored chunks of a single document of a namespace in `chunkIndex` order.
+ *
+ * @param dependencies - The services the tool uses.
+ * @returns The tool's schema and handler.
+ */
+export function createGetDocumentChunksTool({ namespaces }: ToolDependencies) {
+  return {
+    /**
+     * Zod schema for validating the input parameters of the tool.
+     */
+    schema: getDocumentChunksSchema,
+
+    /**
+     * Handles fetching a document's chunks.
+     * @param params - The validated input parameters according to getDocumentChunksSchema.
+     * @returns A result object containing the chunks or an error message.
+     */
+    handler: async ({
+      documentId,
+      namespace,
+    }: z.infer<typeof getDocumentChunksSchema>) => {
+      try {
+        // Fetch the document's chunks, ordered by chunkIndex, using the repository.
+        const { repository } = await namespaces.open(namespace);
+        const chunks = await repository.getDocumentChunks(documentId);
+
+        // Return a success response with the chunks.
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify({
+                success: true,
+                documentId,
+                chunks,
+              }),
+            },
+          ],
+        };
+      } catch (error: any) {
+        console.error(
+          `Error fetching chunks for document ${documentId}:`,
+          error
+        );
+
+        // Return an error response.
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify({
+                success: false,
+                documentId,
+                error: error.message,
+              }),
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  };
+}
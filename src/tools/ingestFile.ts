@@ -0,0 +1,248 @@
+import { z } from "zod";
+import { CHUNK_STRATEGIES } from "../chunkers/chunker.js";
+import {
+  chunkLoadedDocument,
+  LoadedDocument,
+  loadFile,
+  loadUrl,
+  mimeTypeForPath,
+} from "../services/documentLoader.js";
+import { IngestionError, IngestionPipeline } from "../services/ingestion.js";
+import { namespaceSchema } from "../services/namespaces.js";
+import { getTokenizer, TOKENIZER_NAMES } from "../tokenizers/tokenizer.js";
+import { findFiles } from "../utils/files.js";
+import { ToolDependencies } from "./dependencies.js";
+
+const ingestFileSchema = z.object({
+  path: z
+    .string()
+    .min(1, "A path or URL is required")
+    .describe(
+      "A local file, a directory (searched recursively), a glob pattern such as 'docs/**/*.md', or an http(s) URL. Paths are resolved against the server's ingest root and must stay inside it; URLs must be on the server's host allowlist."
+    ),
+  documentId: z
+    .string()
+    .min(1)
+    .optional()
+    .describe(
+      "ID to store the document under when `path` names a single file or URL. Defaults to the file's path relative to the searched directory (its file name for a single file), or the URL."
+    ),
+  chunkSize: z
+    .number()
+    .int()
+    .positive()
+    .default(500)
+    .describe(
+      "The target size of each chunk in tokens of the selected tokenizer (words by default)."
+    ),
+  chunkOverlap: z
+    .number()
+    .int()
+    .nonnegative()
+    .default(50)
+    .describe("The number of tokens to overlap between consecutive chunks."),
+  chunkStrategy: z
+    .enum(CHUNK_STRATEGIES)
+    .optional()
+    .describe(
+      "How to split the documents. Defaults to 'markdown' for Markdown and HTML files and 'recursive' for plain text, PDF and DOCX."
+    ),
+  tokenizer: z
+    .enum(TOKENIZER_NAMES)
+    .optional()
+    .describe(
+      "How chunkSize and chunkOverlap are measured. Defaults to the server's CHUNK_TOKENIZER setting."
+    ),
+  metadata: z
+    .record(z.any())
+    .optional()
+    .describe(
+      "Optional metadata to associate with every chunk, in addition to the source metadata."
+    ),
+  resume: z
+    .boolean()
+    .default(false)
+    .describe(
+      "Skip chunks already stored with identical content by a previous, partially failed run."
+    ),
+  namespace: namespaceSchema,
+});
+
+/**
+ * Creates the 'ingest_file' tool.
+ * This tool reads documents from local files or URLs, extracts their text (plain text, Markdown,
+ * HTML, PDF and DOCX), and chunks, embeds and stores them like 'chunk_document'. Each chunk's
+ * metadata records its source, file name, MIME type and modification time, and for PDFs the
+ * pages it spans. The documents are stored in the requested namespace.
+ *
+ * Files are only read inside the configured ingest root, and URLs are only downloaded from
+ * allowlisted hosts that resolve to public addresses.
+ *
+ * @param dependencies - The services the tool uses.
+ * @returns The tool's schema and handler.
+ */
+export function createIngestFileTool({ config, namespaces }: ToolDependencies) {
+  return {
+    /**
+     * Zod schema for validating the input parameters of the tool.
+     */
+    schema: ingestFileSchema,
+
+    /**
+     * Handles ingesting the files or URL.
+     * Files are ingested one at a time; a file that fails does not stop the others.
+     * @param params - The validated input parameters.
+     * @returns A result object with a report per file.
+     */
+    handler: async ({
+      path,
+      documentId,
+      chunkSize,
+      chunkOverlap,
+      chunkStrategy,
+      tokenizer,
+      metadata,
+      resume,
+      namespace,
+    }: z.infer<typeof ingestFileSchema>) => {
+      try {
+        // Batch chunks into bulk embedding requests and bulk inserts, with the namespace's model.
+        const { repository, embeddingProvider, embeddingConfig } =
+          await namespaces.open(namespace);
+        const ingestionPipeline = new IngestionPipeline(
+          repository,
+          embeddingProvider,
+          {
+            ...config.ingestion,
+            maxInputTokens: embeddingConfig.maxInputTokens,
+            tokenizer: getTokenizer(embeddingConfig.tokenizer),
+            dimensions: embeddingConfig.dimensions,
+          }
+        );
+
+        const isUrl = /^https?:\/\//i.test(path);
+
+        // Resolve the path to the documents to load; directories and globs only pick up supported formats.
+        const loaders: {
+          source: string;
+          load: () => Promise<LoadedDocument>;
+        }[] = isUrl
+          ? [
+              {
+                source: path,
+                load: () =>
+                  loadUrl(
+                    path,
+                    config.sources.allowedHosts,
+                    config.sources.maxDownloadBytes,
+                    documentId
+                  ),
+              },
+            ]
+          : (
+              await findFiles(path, config.sources.root, (relativePath) =>
+                Boolean(mimeTypeForPath(relativePath))
+              )
+            ).map((file) => ({
+              source: file.path,
+              load: () => loadFile(file, documentId),
+            }));
+
+        if (loaders.length === 0) {
+          throw new Error(`No supported files found for "${path}".`);
+        }
+        if (documentId && loaders.length > 1) {
+          throw new Error(
+            `documentId can only be set when "${path}" names a single file, but ${loaders.length} files matched.`
+          );
+        }
+
+        const chunkTokenizer = getTokenizer(
+          tokenizer ?? config.chunking.tokenizer
+        );
+        const files: Record<string, any>[] = [];
+        for (const { source, load } of loaders) {
+          try {
+            // Extract the text, chunk it, then embed and store the chunks.
+            const document = await load();
+            const { chunks, chunkStrategy: strategy } = chunkLoadedDocument(
+              document,
+              {
+                chunkSize,
+                chunkOverlap,
+                chunkStrategy,
+                tokenizer: chunkTokenizer,
+                metadata,
+              }
+            );
+            const report = await ingestionPipeline.ingest(
+              document.documentId,
+              chunks,
+              { chunkSize, chunkOverlap, chunkStrategy: strategy },
+              resume
+            );
+            files.push({
+              success: true,
+              source,
+              documentId: document.documentId,
+              mimeType: document.mimeType,
+              chunkStrategy: strategy,
+              chunks: chunks.length,
+              stored: report.storedChunks,
+              skipped: report.skippedChunks,
+              removed: report.removedChunks,
+            });
+          } catch (error: any) {
+            console.error(`Error in ingest_file tool for ${source}:`, error);
+            files.push({
+              success: false,
+              source,
+              error: error.message,
+              // Partial progress, so the caller can re-run with `resume: true`.
+              ...(error instanceof IngestionError
+                ? {
+                    documentId: error.report.documentId,
+                    stored: error.report.storedChunks,
+                    failedChunkIndexes: error.report.failedChunkIndexes,
+                    resumeFrom: error.report.resumeFrom,
+                  }
+                : {}),
+            });
+          }
+        }
+
+        const failed = files.filter((file) => !file.success).length;
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify({
+                success: failed === 0,
+                ingested: files.length - failed,
+                failed,
+                files,
+              }),
+            },
+          ],
+          // Only an error if nothing could be ingested; partial results are reported per file.
+          ...(failed === files.length ? { isError: true } : {}),
+        };
+      } catch (error: any) {
+        console.error(`Error in ingest_file tool for ${path}:`, error);
+
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify({
+                success: false,
+                error: error.message,
+              }),
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  };
+}
@@ -0,0 +1,67 @@
+import { z } from "zod";
+import { namespaceSchema } from "../services/namespaces.js";
+import { ToolDependencies } from "./dependencies.js";
+
+// Define the Zod schema for the 'list_documents' tool inputs
+const listDocumentsSchema = z.object({
+  namespace: namespaceSchema,
+});
+
+/**
+ * Creates the 'list_documents' tool.
+ * This tool lists every document that has chunks stored in a namespace, with its chunk count and
+ * chunking strategies.
+ *
+ * @param dependencies - The services the tool uses.
+ * @returns The tool's schema and handler.
+ */
+export function createListDocumentsTool({ namespaces }: ToolDependencies) {
+  return {
+    /**
+     * Zod schema for validating the input parameters of the tool.
+     */
+    schema: listDocumentsSchema,
+
+    /**
+     * Handles the document listing process.
+     * @param params - The validated input parameters according to listDocumentsSchema.
+     * @returns A result object containing the document summaries or an error message.
+     */
+    handler: async ({ namespace }: z.infer<typeof listDocumentsSchema>) => {
+      try {
+        // List the namespace's indexed documents using the repository.
+        const { repository } = await namespaces.open(namespace);
+        const documents = await repository.listDocuments();
+
+        // Return a success response with the document summaries.
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify({
+                success: true,
+                documents,
+              }),
+            },
+          ],
+        };
+      } catch (error: any) {
+        console.error("Error listing documents:", error);
+
+        // Return an error response.
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify({
+                success: false,
+                error: error.message,
+              }),
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  };
+}
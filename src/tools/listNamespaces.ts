@@ -0,0 +1,62 @@
+import { z } from "zod";
+import { ToolDependencies } from "./dependencies.js";
+
+// Define the Zod schema for the 'list_namespaces' tool inputs (the tool takes no parameters)
+const listNamespacesSchema = z.object({});
+
+/**
+ * Creates the 'list_namespaces' tool.
+ * This tool lists the default namespace and every created namespace, with the embedding model
+ * and dimension each one uses.
+ *
+ * @param dependencies - The services the tool uses.
+ * @returns The tool's schema and handler.
+ */
+export function createListNamespacesTool({ namespaces }: ToolDependencies) {
+  return {
+    /**
+     * Zod schema for validating the input parameters of the tool.
+     */
+    schema: listNamespacesSchema,
+
+    /**
+     * Handles the namespace listing process.
+     * @returns A result object containing the namespaces' settings or an error message.
+     */
+    handler: async () => {
+      try {
+        // List the namespaces, the default namespace first.
+        const list = await namespaces.list();
+
+        // Return a success response with the namespaces' settings.
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify({
+                success: true,
+                namespaces: list,
+              }),
+            },
+          ],
+        };
+      } catch (error: any) {
+        console.error("Error listing namespaces:", error);
+
+        // Return an error response.
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify({
+                success: false,
+                error: error.message,
+              }),
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  };
+}
@@ -0,0 +1,41 @@
+import { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import {
+  ServerNotification,
+  ServerRequest,
+} from "@modelcontextprotocol/sdk/types.js";
+
+/**
+ * The request context the MCP server passes to a tool handler alongside its arguments: the
+ * request's abort signal (aborted when the client cancels it), its metadata including the
+ * client's progress token, and a way to send notifications related to the request.
+ */
+export type ToolRequestContext = RequestHandlerExtra<
+  ServerRequest,
+  ServerNotification
+>;
+
+/**
+ * Creates a function that reports the progress of a request to the client as MCP progress
+ * notifications. It does nothing unless the client asked for progress by sending a progress token
+ * with the request, and failures to send are logged rather than failing the request.
+ *
+ * @param context - The request context, if the handler was called by the MCP server.
+ * @returns A function taking the progress so far, the total and a human-readable message.
+ */
+export function createProgressReporter(context?: ToolRequestContext) {
+  const progressToken = context?._meta?.progressToken;
+
+  return async (progress: number, total: number, message: string) => {
+    if (!context || progressToken === undefined) {
+      return;
+    }
+    try {
+      await context.sendNotification({
+        method: "notifications/progress",
+        params: { progressToken, progress, total, message },
+      });
+    } catch (error) {
+      console.error("Error sending progress notification:", error);
+    }
+  };
+}
@@ -0,0 +1,123 @@
+import { z } from "zod";
+import { namespaceSchema } from "../services/namespaces.js";
+import {
+  ReembeddingCancelledError,
+  ReembeddingError,
+  ReembeddingService,
+} from "../services/reembedding.js";
+import { getTokenizer } from "../tokenizers/tokenizer.js";
+import { ToolDependencies } from "./dependencies.js";
+import { createProgressReporter, ToolRequestContext } from "./progress.js";
+
+// Define the Zod schema for the 'reembed' tool inputs
+const reembedSchema = z.object({
+  documentId: z
+    .string()
+    .min(1)
+    .optional()
+    .describe(
+      "The document to migrate. Defaults to every document of the namespace."
+    ),
+  dryRun: z
+    .boolean()
+    .default(false)
+    .describe(
+      "Only count the chunks embedded by another model, without embedding or storing anything."
+    ),
+  namespace: namespaceSchema,
+});
+
+/**
+ * Creates the 'reembed' tool.
+ * This tool migrates stored chunks to the namespace's current embedding model: chunks embedded by
+ * another model or dimension, or stored before models were recorded, are embedded again in
+ * batches and stored in place, which fails up front if the model's dimension differs from the
+ * stored chunks'. Clients that send a progress token receive a progress notification
+ * after each stored batch. A failed or cancelled run keeps the batches already migrated, and
+ * calling the tool again migrates the rest.
+ *
+ * @param dependencies - The services the tool uses.
+ * @returns The tool's schema and handler.
+ */
+export function createReembedTool({ config, namespaces }: ToolDependencies) {
+  return {
+    /**
+     * Zod schema for validating the input parameters of the tool.
+     */
+    schema: reembedSchema,
+
+    /**
+     * Handles the re-embedding process.
+     * @param params - The validated input parameters.
+     * @param context - The MCP request context, with the abort signal and progress token.
+     * @returns A result object with the examined and re-embedded chunk counts, or an error message.
+     */
+    handler: async (
+      { documentId, dryRun, namespace }: z.infer<typeof reembedSchema>,
+      context?: ToolRequestContext
+    ) => {
+      const reportProgress = createProgressReporter(context);
+      try {
+        // Embed with the namespace's current model, batched like ingestion.
+        const { repository, embeddingProvider, embeddingConfig } =
+          await namespaces.open(namespace);
+        const reembeddingService = new ReembeddingService(
+          repository,
+          embeddingProvider,
+          {
+            ...config.ingestion,
+            maxInputTokens: embeddingConfig.maxInputTokens,
+            tokenizer: getTokenizer(embeddingConfig.tokenizer),
+            dimensions: embeddingConfig.dimensions,
+          }
+        );
+
+        const report = await reembeddingService.reembed(documentId, dryRun, {
+          signal: context?.signal,
+          onProgress: ({ reembeddedChunks, outdatedChunks }) =>
+            reportProgress(
+              reembeddedChunks,
+              outdatedChunks,
+              `Re-embedded ${reembeddedChunks} of ${outdatedChunks} chunks with ${embeddingProvider.model}`
+            ),
+        });
+
+        // Return a success response with the counts of the run.
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify({
+                success: true,
+                namespace,
+                dryRun,
+                ...report,
+              }),
+            },
+          ],
+        };
+      } catch (error: any) {
+        console.error("Error in reembed tool:", error);
+
+        // Return an error response, with the partial progress of the run.
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify({
+                success: false,
+                namespace,
+                error: error.message,
+                ...(error instanceof ReembeddingCancelledError
+                  ? { cancelled: true }
+                  : {}),
+                ...(error instanceof ReembeddingError ? error.report : {}),
+              }),
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  };
+}
@@ -1,18 +1,12 @@
 import { z } from "zod";
-import { RestApiChunkRepository } from "../repositories/RestApiChunkRepository.js";
-import { getEmbedding } from "../services/embedding.js";
-import { loadConfig } from "../config.js";
+import { SEARCH_MODES, SearchService } from "../services/search.js";
+import { ChunkContextService } from "../services/context.js";
+import { namespaceSchema } from "../services/namespaces.js";
+import { metadataFilterSchema } from "../filters/filter.js";
+import { createReranker } from "../search/reranker.js";
+import { ToolDependencies } from "./dependencies.js";
 
-// Load application configuration
-const config = loadConfig();
-
-// Initialize the repository for chunk operations
-const chunkRepository = new RestApiChunkRepository(
-  config.postgrest.baseUrl,
-  config.postgrest.apiKey
-);
-
-// Define the Zod schema for the searchChunksTool inputs
+// Define the Zod schema for the 'search_chunks' tool inputs
 const searchChunksSchema = z.object({
   query: z
     .string()
@@ -24,81 +18,181 @@ const searchChunksSchema = z.object({
     .positive()
     .default(5)
     .describe("The maximum number of search results to return."),
-  metadataFilter: z
-    .record(z.any())
+  metadataFilter: metadataFilterSchema
     .optional()
-    .describe("Optional metadata filter to apply to the search."),
+    .describe(
+      "Optional filter on chunk metadata keys (dots address nested keys) and the documentId, chunkIndex and chunkStrategy columns. Values match exactly, or use operators: $eq, $ne, $gt, $gte, $lt, $lte, $in, $nin, $exists, $contains, combined with $and / $or lists."
+    ),
   threshold: z
     .number()
     .min(0)
     .max(1)
     .default(0.7)
     .describe("The similarity threshold for matching chunks (0 to 1)."),
+  mode: z
+    .enum(SEARCH_MODES)
+    .default("vector")
+    .describe(
+      "Retrieval mode: 'vector' (semantic similarity), 'keyword' (full-text ranking, best for exact identifiers, error codes and names) or 'hybrid' (both, fused by reciprocal rank)."
+    ),
+  vectorWeight: z
+    .number()
+    .nonnegative()
+    .default(1)
+    .describe("Weight of the vector ranking in hybrid mode."),
+  keywordWeight: z
+    .number()
+    .nonnegative()
+    .default(1)
+    .describe("Weight of the keyword ranking in hybrid mode."),
+  rerank: z
+    .boolean()
+    .default(false)
+    .describe(
+      "Reorder an over-fetched set of candidates with the server's reranker before returning the top results."
+    ),
+  rerankCandidates: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe(
+      "How many candidates to fetch for reranking. Defaults to the server's RERANK_CANDIDATES setting."
+    ),
+  diversity: z
+    .number()
+    .min(0)
+    .max(1)
+    .default(0)
+    .describe(
+      "Maximal marginal relevance trade-off: 0 ranks by relevance only, higher values skip near-duplicate chunks in favour of distinct content (0.3 to 0.5 works well)."
+    ),
+  maxPerDocument: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe("Optional maximum number of results from the same document."),
+  contextWindow: z
+    .number()
+    .int()
+    .min(0)
+    .max(10)
+    .default(0)
+    .describe(
+      "Number of neighbouring chunks on each side of every result to merge into a `context` passage (0 for none)."
+    ),
+  namespace: namespaceSchema,
 });
 
 /**
- * Defines the schema and handler for the 'search_chunks' tool.
+ * Creates the 'search_chunks' tool.
  * This tool searches for document chunks that are semantically similar to a given query,
- * using vector embeddings and a similarity threshold, via a REST API.
+ * using vector embeddings and a similarity threshold, via a REST API. It can also rank by
+ * full-text keyword matches, or fuse both rankings in hybrid mode, and optionally rerank and
+ * diversify the candidates before returning them. Only the requested namespace is searched, with
+ * queries embedded by its embedding model.
+ *
+ * @param dependencies - The services the tool uses.
+ * @returns The tool's schema and handler.
  */
-export const searchChunksTool = {
-  /**
-   * Zod schema for validating the input parameters of the tool.
-   */
-  schema: searchChunksSchema,
+export function createSearchChunksTool({
+  config,
+  namespaces,
+}: ToolDependencies) {
+  // The reranker selected by the configuration, shared by the searches of every namespace.
+  const reranker = createReranker(config.rerank, config.retry);
+
+  return {
+    /**
+     * Zod schema for validating the input parameters of the tool.
+     */
+    schema: searchChunksSchema,
+
+    /**
+     * Handles the chunk searching process.
+     * @param params - The validated input parameters according to searchChunksSchema.
+     * @returns A result object containing the search results or an error message.
+     */
+    handler: async ({
+      query,
+      limit,
+      metadataFilter,
+      threshold,
+      mode,
+      vectorWeight,
+      keywordWeight,
+      rerank,
+      rerankCandidates,
+      diversity,
+      maxPerDocument,
+      contextWindow,
+      namespace,
+    }: z.infer<typeof searchChunksSchema>) => {
+      try {
+        // Run vector, keyword and hybrid searches over the namespace, with optional reranking
+        // and diversification.
+        const { repository, embeddingProvider } =
+          await namespaces.open(namespace);
+        const searchService = new SearchService(
+          repository,
+          embeddingProvider,
+          reranker
+        );
 
-  /**
-   * Handles the chunk searching process.
-   * @param params - The validated input parameters according to searchChunksSchema.
-   * @returns A result object containing the search results or an error message.
-   */
-  handler: async ({
-    query,
-    limit,
-    metadataFilter,
-    threshold,
-  }: z.infer<typeof searchChunksSchema>) => {
-    try {
-      // Generate an embedding for the search query.
-      const embedding = await getEmbedding(query);
+        // Perform the search in the requested mode.
+        let results = await searchService.search({
+          query,
+          limit,
+          metadataFilter: metadataFilter || {}, // Ensure metadataFilter is an object if undefined
+          threshold,
+          mode,
+          vectorWeight,
+          keywordWeight,
+          rerank,
+          rerankCandidates: rerankCandidates ?? config.rerank.candidates,
+          diversity,
+          maxPerDocument,
+        });
 
-      // Perform the search for similar chunks using the repository.
-      const results = await chunkRepository.searchSimilarChunks(
-        embedding,
-        limit,
-        metadataFilter || {}, // Ensure metadataFilter is an object if undefined
-        threshold
-      );
+        // Attach the surrounding text of each result, if requested.
+        if (contextWindow > 0) {
+          results = await new ChunkContextService(repository).expandResults(
+            results,
+            contextWindow
+          );
+        }
 
-      // Return a success response with the search results.
-      return {
-        content: [
-          {
-            type: "text" as const, // Explicitly set type as literal "text"
-            text: JSON.stringify({
-              success: true,
-              results,
-            }),
-          },
-        ],
-      };
-    } catch (error: any) {
-      // Catch any errors during the process
-      console.error("Error searching chunks:", error);
+        // Return a success response with the search results.
+        return {
+          content: [
+            {
+              type: "text" as const, // Explicitly set type as literal "text"
+              text: JSON.stringify({
+                success: true,
+                results,
+              }),
+            },
+          ],
+        };
+      } catch (error: any) {
+        // Catch any errors during the process
+        console.error("Error searching chunks:", error);
 
-      // Return an error response.
-      return {
-        content: [
-          {
-            type: "text" as const, // Explicitly set type as literal "text"
-            text: JSON.stringify({
-              success: false,
-              error: error.message,
-            }),
-          },
-        ],
-        isError: true, // Indicate that an error occurred
-      };
-    }
-  },
-};
+        // Return an error response.
+        return {
+          content: [
+            {
+              type: "text" as const, // Explicitly set type as literal "text"
+              text: JSON.stringify({
+                success: false,
+                error: error.message,
+              }),
+            },
+          ],
+          isError: true, // Indicate that an error occurred
+        };
+      }
+    },
+  };
+}
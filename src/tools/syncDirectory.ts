@@ -0,0 +1,155 @@
+import { z } from "zod";
+import { CHUNK_STRATEGIES } from "../chunkers/chunker.js";
+import { IngestionPipeline } from "../services/ingestion.js";
+import { namespaceSchema } from "../services/namespaces.js";
+import { DirectorySyncService } from "../services/sync.js";
+import { getTokenizer, TOKENIZER_NAMES } from "../tokenizers/tokenizer.js";
+import { ToolDependencies } from "./dependencies.js";
+
+const syncDirectorySchema = z.object({
+  directory: z
+    .string()
+    .min(1, "A directory is required")
+    .describe(
+      "The directory to sync, searched recursively. Resolved against the server's ingest root, and must stay inside it."
+    ),
+  include: z
+    .string()
+    .min(1)
+    .optional()
+    .describe(
+      "Optional glob, relative to the directory, restricting the synced files (e.g. '**/*.md')."
+    ),
+  chunkSize: z
+    .number()
+    .int()
+    .positive()
+    .default(500)
+    .describe(
+      "The target size of each chunk in tokens of the selected tokenizer (words by default)."
+    ),
+  chunkOverlap: z
+    .number()
+    .int()
+    .nonnegative()
+    .default(50)
+    .describe("The number of tokens to overlap between consecutive chunks."),
+  chunkStrategy: z
+    .enum(CHUNK_STRATEGIES)
+    .optional()
+    .describe(
+      "How to split the documents. Defaults to 'markdown' for Markdown and HTML files and 'recursive' for plain text, PDF and DOCX."
+    ),
+  tokenizer: z
+    .enum(TOKENIZER_NAMES)
+    .optional()
+    .describe(
+      "How chunkSize and chunkOverlap are measured. Defaults to the server's CHUNK_TOKENIZER setting."
+    ),
+  metadata: z
+    .record(z.any())
+    .optional()
+    .describe(
+      "Optional metadata to associate with every chunk of re-ingested files, in addition to the source metadata."
+    ),
+  dryRun: z
+    .boolean()
+    .default(false)
+    .describe(
+      "Only report which files would be added, re-ingested or removed, without changing anything."
+    ),
+  namespace: namespaceSchema,
+});
+
+/**
+ * Creates the 'sync_directory' tool.
+ * This tool keeps the index of a directory up to date: files are identified by the directory and
+ * their path relative to it, and fingerprinted by a hash of their contents, so that only new and
+ * changed files are re-ingested, and documents whose files were deleted are removed.
+ * Only the documents of the requested namespace are compared and changed.
+ *
+ * @param dependencies - The services the tool uses.
+ * @returns The tool's schema and handler.
+ */
+export function createSyncDirectoryTool({
+  config,
+  namespaces,
+}: ToolDependencies) {
+  return {
+    /**
+     * Zod schema for validating the input parameters of the tool.
+     */
+    schema: syncDirectorySchema,
+
+    /**
+     * Handles syncing the directory.
+     * @param params - The validated input parameters.
+     * @returns A result object with the sync report.
+     */
+    handler: async ({
+      directory,
+      include,
+      chunkSize,
+      chunkOverlap,
+      chunkStrategy,
+      tokenizer,
+      metadata,
+      dryRun,
+      namespace,
+    }: z.infer<typeof syncDirectorySchema>) => {
+      try {
+        // Compare the directory with the namespace's documents and re-ingest what changed.
+        const { repository, embeddingProvider, embeddingConfig } =
+          await namespaces.open(namespace);
+        const syncService = new DirectorySyncService(
+          repository,
+          new IngestionPipeline(repository, embeddingProvider, {
+            ...config.ingestion,
+            maxInputTokens: embeddingConfig.maxInputTokens,
+            tokenizer: getTokenizer(embeddingConfig.tokenizer),
+            dimensions: embeddingConfig.dimensions,
+          })
+        );
+
+        const report = await syncService.sync({
+          directory,
+          ingestRoot: config.sources.root,
+          include,
+          chunkSize,
+          chunkOverlap,
+          chunkStrategy,
+          tokenizer: getTokenizer(tokenizer ?? config.chunking.tokenizer),
+          metadata,
+          dryRun,
+        });
+
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify({
+                success: report.failed.length === 0,
+                ...report,
+              }),
+            },
+          ],
+        };
+      } catch (error: any) {
+        console.error(`Error in sync_directory tool for ${directory}:`, error);
+
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify({
+                success: false,
+                error: error.message,
+              }),
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  };
+}
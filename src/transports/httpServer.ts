@@ -0,0 +1,367 @@
+import { createHash, randomUUID, timingSafeEqual } from "node:crypto";
+import http, { IncomingMessage, ServerResponse } from "node:http";
+import { AddressInfo } from "node:net";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { AppConfig } from "../config.js";
+import { HttpError } from "../utils/errors.js";
+
+// Streamable HTTP endpoint: POST messages, GET the server's event stream, DELETE the session.
+export const MCP_PATH = "/mcp";
+
+// Legacy HTTP+SSE endpoints (protocol version 2024-11-05): GET opens the stream, POST sends messages.
+export const SSE_PATH = "/sse";
+export const MESSAGES_PATH = "/messages";
+
+// Unauthenticated liveness probe for load balancers and container orchestrators.
+export const HEALTH_PATH = "/health";
+
+// The largest JSON-RPC request body accepted, as in the SDK's own transports.
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+// How long `close()` waits for in-flight requests before dropping their connections.
+const SHUTDOWN_GRACE_MS = 5000;
+
+/**
+ * An MCP session: a server instance of its own, connected to the client's transport.
+ */
+interface Session {
+  server: McpServer;
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  lastActivity: number; // When the client last sent a request, in epoch milliseconds.
+}
+
+/**
+ * Reads and parses a JSON request body.
+ *
+ * @throws HttpError (413) if the body is too large, or (400) if it is not valid JSON.
+ */
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new HttpError("Request body too large", 413);
+    }
+    chunks.push(chunk);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString("utf8"));
+  } catch {
+    throw new HttpError("Parse error: request body is not valid JSON", 400);
+  }
+}
+
+/**
+ * Hashes a token so that tokens of different lengths can be compared in constant time.
+ */
+function tokenDigest(token: string): Buffer {
+  return createHash("sha256").update(token).digest();
+}
+
+/**
+ * Serves RagLit to many MCP clients over HTTP. Each client session gets its own `McpServer`
+ * (created by `createServer`, typically sharing one repository and embedding provider), connected
+ * to a Streamable HTTP transport at `/mcp`, or to a legacy SSE transport at `/sse` and `/messages`
+ * for clients that predate Streamable HTTP.
+ *
+ * Every endpoint except `/health` requires the bearer token when one is configured. Browser
+ * requests are only accepted from the configured CORS origins. Sessions idle for longer than the
+ * configured timeout are closed, and `close()` ends every session before shutting the server down.
+ */
+export class McpHttpServer {
+  private options: AppConfig["transport"];
+  private createServer: () => McpServer;
+  private httpServer: http.Server;
+  private sessions = new Map<string, Session>(); // Open sessions by session ID.
+  private sweeper?: NodeJS.Timeout; // Periodically closes idle sessions.
+  private closing = false;
+
+  /**
+   * Creates an instance of McpHttpServer.
+   * @param options - The transport configuration (host, port, auth token, CORS origins, idle timeout).
+   * @param createServer - Creates the MCP server of a new session, with its tools registered.
+   */
+  constructor(options: AppConfig["transport"], createServer: () => McpServer) {
+    this.options = options;
+    this.createServer = createServer;
+    this.httpServer = http.createServer((req, res) => {
+      this.handle(req, res).catch((error) => this.fail(res, error));
+    });
+  }
+
+  /**
+   * The number of open sessions.
+   */
+  get sessionCount(): number {
+    return this.sessions.size;
+  }
+
+  /**
+   * Starts listening on the configured host and port.
+   * @returns A Promise that resolves to the bound address (useful when the port is 0).
+   */
+  async listen(): Promise<AddressInfo> {
+    await new Promise<void>((resolve, reject) => {
+      this.httpServer.once("error", reject);
+      this.httpServer.listen(this.options.port, this.options.host, () => {
+        this.httpServer.off("error", reject);
+        resolve();
+      });
+    });
+    this.sweeper = setInterval(
+      () => this.closeIdleSessions(),
+      Math.min(this.options.sessionIdleTimeoutMs, 60000)
+    );
+    this.sweeper.unref();
+    return this.httpServer.address() as AddressInfo;
+  }
+
+  /**
+   * Stops accepting connections, closes every session (ending their event streams), and
+   * resolves once in-flight requests have finished or the grace period has passed.
+   */
+  async close(): Promise<void> {
+    this.closing = true;
+    clearInterval(this.sweeper);
+    const stopped = new Promise<void>((resolve) =>
+      this.httpServer.close(() => resolve())
+    );
+    await Promise.all(
+      [...this.sessions.keys()].map((sessionId) => this.closeSession(sessionId))
+    );
+    this.httpServer.closeIdleConnections();
+    const deadline = setTimeout(
+      () => this.httpServer.closeAllConnections(),
+      SHUTDOWN_GRACE_MS
+    );
+    deadline.unref();
+    await stopped;
+    clearTimeout(deadline);
+  }
+
+  /**
+   * Routes a request after the CORS and authentication checks.
+   */
+  private async handle(req: IncomingMessage, res: ServerResponse) {
+    const url = new URL(req.url ?? "/", "http://localhost");
+
+    if (!this.applyCors(req, res)) {
+      throw new HttpError("Forbidden: origin not allowed", 403);
+    }
+    if (req.method === "OPTIONS") {
+      res.writeHead(204).end();
+      return;
+    }
+    if (url.pathname === HEALTH_PATH && req.method === "GET") {
+      res
+        .writeHead(200, { "Content-Type": "application/json" })
+        .end(JSON.stringify({ status: "ok", sessions: this.sessions.size }));
+      return;
+    }
+    if (this.closing) {
+      throw new HttpError("Service Unavailable: server is shutting down", 503);
+    }
+    if (!this.isAuthorized(req)) {
+      res.setHeader("WWW-Authenticate", 'Bearer realm="raglit"');
+      throw new HttpError("Unauthorized: missing or invalid bearer token", 401);
+    }
+
+    if (url.pathname === MCP_PATH) {
+      await this.handleStreamableHttp(req, res);
+    } else if (url.pathname === SSE_PATH && req.method === "GET") {
+      await this.openSseStream(res);
+    } else if (url.pathname === MESSAGES_PATH && req.method === "POST") {
+      await this.handleSseMessage(req, res, url.searchParams.get("sessionId"));
+    } else {
+      throw new HttpError("Not Found", 404);
+    }
+  }
+
+  /**
+   * Handles a Streamable HTTP request: an initialization request starts a new session, and
+   * every other request must name an open session in the `Mcp-Session-Id` header.
+   */
+  private async handleStreamableHttp(
+    req: IncomingMessage,
+    res: ServerResponse
+  ) {
+    const body = req.method === "POST" ? await readJsonBody(req) : undefined;
+    const sessionId = req.headers["mcp-session-id"];
+
+    if (typeof sessionId === "string") {
+      const session = this.sessions.get(sessionId);
+      if (!(session?.transport instanceof StreamableHTTPServerTransport)) {
+        throw new HttpError("Session not found", 404);
+      }
+      session.lastActivity = Date.now();
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    const initializing = Array.isArray(body)
+      ? body.some((message) => isInitializeRequest(message))
+      : isInitializeRequest(body);
+    if (req.method !== "POST" || !initializing) {
+      throw new HttpError("Bad Request: No valid session ID provided", 400);
+    }
+
+    const server = this.createServer();
+    const transport: StreamableHTTPServerTransport =
+      new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        onsessioninitialized: (id) => {
+          this.sessions.set(id, {
+            server,
+            transport,
+            lastActivity: Date.now(),
+          });
+        },
+      });
+    await server.connect(transport);
+    // The transport closes when the client deletes the session; `connect` owns its onclose.
+    server.server.onclose = () => {
+      if (transport.sessionId) {
+        this.sessions.delete(transport.sessionId);
+      }
+    };
+    await transport.handleRequest(req, res, body);
+  }
+
+  /**
+   * Opens a legacy SSE session. The stream stays open until the client disconnects.
+   */
+  private async openSseStream(res: ServerResponse) {
+    const server = this.createServer();
+    const transport = new SSEServerTransport(MESSAGES_PATH, res);
+    const sessionId = transport.sessionId;
+    this.sessions.set(sessionId, {
+      server,
+      transport,
+      lastActivity: Date.now(),
+    });
+    res.on("close", () => void this.closeSession(sessionId));
+    await server.connect(transport);
+  }
+
+  /**
+   * Delivers a message posted to a legacy SSE session.
+   */
+  private async handleSseMessage(
+    req: IncomingMessage,
+    res: ServerResponse,
+    sessionId: string | null
+  ) {
+    const session = sessionId ? this.sessions.get(sessionId) : undefined;
+    if (!(session?.transport instanceof SSEServerTransport)) {
+      throw new HttpError("Session not found", 404);
+    }
+    session.lastActivity = Date.now();
+    await session.transport.handlePostMessage(
+      req,
+      res,
+      await readJsonBody(req)
+    );
+  }
+
+  /**
+   * Closes a session and its server, if it is still open.
+   */
+  private async closeSession(sessionId: string) {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return;
+    }
+    this.sessions.delete(sessionId);
+    try {
+      await session.server.close();
+    } catch (error) {
+      console.error(`Error closing MCP session ${sessionId}:`, error);
+    }
+  }
+
+  /**
+   * Closes the sessions that have been idle for longer than the configured timeout.
+   */
+  private closeIdleSessions() {
+    const cutoff = Date.now() - this.options.sessionIdleTimeoutMs;
+    for (const [sessionId, session] of this.sessions) {
+      if (session.lastActivity < cutoff) {
+        console.error(`Closing idle MCP session ${sessionId}.`);
+        void this.closeSession(sessionId);
+      }
+    }
+  }
+
+  /**
+   * Checks the bearer token, if one is configured.
+   */
+  private isAuthorized(req: IncomingMessage): boolean {
+    if (!this.options.authToken) {
+      return true;
+    }
+    const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization ?? "");
+    return (
+      match !== null &&
+      timingSafeEqual(
+        tokenDigest(match[1].trim()),
+        tokenDigest(this.options.authToken)
+      )
+    );
+  }
+
+  /**
+   * Adds the CORS headers for a browser request from an allowed origin.
+   * @returns False if the request comes from an origin that is not allowed.
+   */
+  private applyCors(req: IncomingMessage, res: ServerResponse): boolean {
+    const origin = req.headers.origin;
+    if (!origin) {
+      return true; // Not a browser request.
+    }
+    const { corsOrigins } = this.options;
+    if (!corsOrigins.includes("*") && !corsOrigins.includes(origin)) {
+      return false;
+    }
+    res.setHeader("Access-Control-Allow-Origin", origin);
+    res.setHeader("Vary", "Origin");
+    res.setHeader("Access-Control-Allow-Methods", "GET, POST, DELETE, OPTIONS");
+    res.setHeader(
+      "Access-Control-Allow-Headers",
+      "Authorization, Content-Type, Accept, Mcp-Session-Id, Last-Event-ID"
+    );
+    res.setHeader("Access-Control-Expose-Headers", "Mcp-Session-Id");
+    res.setHeader("Access-Control-Max-Age", "86400");
+    return true;
+  }
+
+  /**
+   * Answers a failed request with a JSON-RPC error, unless the response has already started.
+   */
+  private fail(res: ServerResponse, error: any) {
+    const status = error instanceof HttpError ? error.status : 500;
+    if (status === 500) {
+      console.error("Error handling MCP HTTP request:", error);
+    }
+    if (res.headersSent) {
+      res.end();
+      return;
+    }
+    res.writeHead(status, { "Content-Type": "application/json" }).end(
+      JSON.stringify({
+        jsonrpc: "2.0",
+        error: {
+          code:
+            status === 400 && /^Parse error/.test(error.message)
+              ? -32700
+              : -32000,
+          message: status === 500 ? "Internal server error" : error.message,
+        },
+        id: null,
+      })
+    );
+  }
+}
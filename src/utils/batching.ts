@@ -0,0 +1,48 @@
+/**
+ * Interface defining the limits used when grouping items into request batches.
+ */
+export interface BatchLimits {
+  maxBatchSize: number; // The maximum number of items per batch.
+  maxTokensPerBatch: number; // The maximum summed token count per batch.
+}
+
+/**
+ * Groups items into consecutive batches that respect both an item limit and a token budget.
+ * An item that on its own exceeds the token budget is placed in a batch by itself so that
+ * the caller (and ultimately the API) can decide how to handle it.
+ *
+ * @param items - The items to group, in order.
+ * @param limits - The item and token limits per batch.
+ * @param countTokens - Returns the token count of a single item.
+ * @returns An array of batches preserving the original item order.
+ */
+export function createBatches<T>(
+  items: T[],
+  limits: BatchLimits,
+  countTokens: (item: T) => number
+): T[][] {
+  const batches: T[][] = [];
+  let currentBatch: T[] = [];
+  let currentTokens = 0;
+
+  for (const item of items) {
+    const tokens = countTokens(item);
+    const exceedsSize = currentBatch.length >= limits.maxBatchSize;
+    const exceedsTokens = currentTokens + tokens > limits.maxTokensPerBatch;
+
+    // Close the current batch when adding this item would break a limit.
+    if (currentBatch.length > 0 && (exceedsSize || exceedsTokens)) {
+      batches.push(currentBatch);
+      currentBatch = [];
+      currentTokens = 0;
+    }
+
+    currentBatch.push(item);
+    currentTokens += tokens;
+  }
+
+  if (currentBatch.length > 0) {
+    batches.push(currentBatch);
+  }
+  return batches;
+}
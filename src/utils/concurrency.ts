@@ -0,0 +1,44 @@
+/**
+ * Maps over items with an async function, running at most `concurrency` calls at a time.
+ * Results are returned in the same order as the input items. The first rejection is
+ * propagated once in-flight calls have settled, and no new calls are started after it.
+ *
+ * @param items - The items to process.
+ * @param concurrency - The maximum number of concurrent calls (at least 1).
+ * @param fn - The async function applied to each item, receiving the item and its index.
+ * @returns A Promise that resolves to the mapped results in input order.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let nextIndex = 0;
+  let failed = false;
+
+  // Each worker pulls the next unprocessed index until the list is exhausted or a call fails.
+  const worker = async () => {
+    while (!failed && nextIndex < items.length) {
+      const index = nextIndex++;
+      try {
+        results[index] = await fn(items[index], index);
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(concurrency, items.length));
+  const outcomes = await Promise.allSettled(
+    Array.from({ length: workerCount }, () => worker())
+  );
+  const rejection = outcomes.find(
+    (outcome): outcome is PromiseRejectedResult => outcome.status === "rejected"
+  );
+  if (rejection) {
+    throw rejection.reason;
+  }
+  return results;
+}
@@ -0,0 +1,41 @@
+/**
+ * Error thrown when an HTTP API responds with a non-successful status code.
+ * Carries the status and any server-provided retry hint so callers can decide whether to retry.
+ */
+export class HttpError extends Error {
+  readonly status: number;
+  readonly retryAfterMs?: number;
+
+  /**
+   * Creates an instance of HttpError.
+   * @param message - A human-readable description of the failure.
+   * @param status - The HTTP status code of the response.
+   * @param retryAfterMs - Optional delay requested by the server via the Retry-After header.
+   */
+  constructor(message: string, status: number, retryAfterMs?: number) {
+    super(message);
+    this.name = "HttpError";
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/**
+ * Error thrown when an outgoing request does not complete within its timeout.
+ */
+export class TimeoutError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TimeoutError";
+  }
+}
+
+/**
+ * Error thrown without calling the remote service because its circuit breaker is open.
+ */
+export class CircuitOpenError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CircuitOpenError";
+  }
+}
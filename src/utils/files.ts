@@ -0,0 +1,173 @@
+import { readdir, realpath, stat } from "node:fs/promises";
+import path from "node:path";
+
+/**
+ * A file found by `findFiles`.
+ */
+export interface FoundFile {
+  path: string; // Absolute path of the file.
+  relativePath: string; // Path relative to the searched directory (or the file name), with "/" separators.
+}
+
+// Characters that make a path a glob pattern.
+const GLOB_CHARACTERS = /[*?[\]{}]/;
+
+// Directories never descended into when walking.
+const IGNORED_DIRECTORIES = new Set(["node_modules"]);
+
+/**
+ * Converts a glob pattern to a regular expression matching "/"-separated relative paths.
+ * Supports `*` (within one path segment), `**` (across segments), `?`, `[...]` classes and
+ * `{a,b}` alternatives.
+ *
+ * @param pattern - The glob pattern.
+ * @returns A regular expression matching the whole path.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = "";
+  let braceDepth = 0;
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === "*") {
+      if (pattern[i + 1] === "*") {
+        // "**/" matches zero or more whole directories; a trailing "**" matches anything.
+        const slash = pattern[i + 2] === "/";
+        source += slash ? "(?:.*/)?" : ".*";
+        i += slash ? 2 : 1;
+      } else {
+        source += "[^/]*";
+      }
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "[") {
+      const close = pattern.indexOf("]", i + 1);
+      if (close === -1) {
+        source += "\\[";
+      } else {
+        source += `[${pattern.slice(i + 1, close).replace(/^!/, "^")}]`;
+        i = close;
+      }
+    } else if (char === "{") {
+      braceDepth++;
+      source += "(?:";
+    } else if (char === "}" && braceDepth > 0) {
+      braceDepth--;
+      source += ")";
+    } else if (char === "," && braceDepth > 0) {
+      source += "|";
+    } else {
+      source += char.replace(/[.+^$()|\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Lists the files under a directory recursively, skipping hidden entries and `node_modules`.
+ *
+ * @param directory - The absolute path of the directory.
+ * @returns A Promise that resolves to the absolute paths of the files.
+ */
+async function walk(directory: string): Promise<string[]> {
+  const files: string[] = [];
+  for (const entry of await readdir(directory, { withFileTypes: true })) {
+    if (entry.name.startsWith(".") || IGNORED_DIRECTORIES.has(entry.name)) {
+      continue;
+    }
+    const entryPath = path.join(directory, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...(await walk(entryPath)));
+    } else if (entry.isFile()) {
+      files.push(entryPath);
+    }
+  }
+  return files;
+}
+
+/**
+ * Resolves a path against a root directory and checks that it stays inside the root once
+ * symbolic links are followed, and does not name a hidden file or directory within it.
+ *
+ * @param target - The path, relative to the root or absolute.
+ * @param root - The root directory.
+ * @returns A Promise that resolves to the real absolute path.
+ * @throws Error if the path does not exist, is outside the root, or is hidden.
+ */
+export async function resolveWithinRoot(
+  target: string,
+  root: string
+): Promise<string> {
+  const realRoot = await realpath(root);
+  const resolved = await realpath(path.resolve(realRoot, target));
+  const relative = path.relative(realRoot, resolved);
+  if (
+    relative === ".." ||
+    relative.startsWith(`..${path.sep}`) ||
+    path.isAbsolute(relative)
+  ) {
+    throw new Error(`"${target}" is outside the ingest root ${realRoot}.`);
+  }
+  if (relative.split(path.sep).some((segment) => segment.startsWith("."))) {
+    throw new Error(`"${target}" is a hidden file or directory.`);
+  }
+  return resolved;
+}
+
+/**
+ * Finds the files named by a path, which may be a single file, a directory (searched
+ * recursively) or a glob pattern such as `docs/**\/*.md`. Only files inside the root directory
+ * are found: paths leading outside it, directly or through a symbolic link, are refused, and
+ * symbolic links met while walking are skipped.
+ *
+ * @param target - The file, directory or glob pattern, relative to the root or absolute.
+ * @param root - The directory files may be read from.
+ * @param accept - Optional predicate on the relative path selecting files when walking a directory; a single named file is always returned.
+ * @returns A Promise that resolves to the files found, sorted by relative path.
+ * @throws Error if a file or directory path does not exist, or is outside the root.
+ */
+export async function findFiles(
+  target: string,
+  root: string,
+  accept: (relativePath: string) => boolean = () => true
+): Promise<FoundFile[]> {
+  let base: string;
+  let matches: (relativePath: string) => boolean;
+
+  if (GLOB_CHARACTERS.test(target)) {
+    // Walk from the longest leading run of path segments without glob characters.
+    const segments = target.split(/[\\/]/);
+    const firstGlob = segments.findIndex((segment) =>
+      GLOB_CHARACTERS.test(segment)
+    );
+    try {
+      base = await resolveWithinRoot(
+        segments.slice(0, firstGlob).join("/") || ".",
+        root
+      );
+    } catch (error: any) {
+      if (error.code === "ENOENT") {
+        return []; // A glob whose base directory does not exist matches nothing.
+      }
+      throw error;
+    }
+    const pattern = globToRegExp(segments.slice(firstGlob).join("/"));
+    matches = (relativePath) =>
+      pattern.test(relativePath) && accept(relativePath);
+  } else {
+    const resolved = await resolveWithinRoot(target, root);
+    const stats = await stat(resolved);
+    if (!stats.isDirectory()) {
+      return [{ path: resolved, relativePath: path.basename(resolved) }];
+    }
+    base = resolved;
+    matches = accept;
+  }
+
+  return (await walk(base))
+    .map((filePath) => ({
+      path: filePath,
+      relativePath: path.relative(base, filePath).split(path.sep).join("/"),
+    }))
+    .filter((file) => matches(file.relativePath))
+    .sort((a, b) => a.relativePath.localeCompare(b.relativePath));
+}
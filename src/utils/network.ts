@@ -0,0 +1,108 @@
+import { lookup } from "node:dns/promises";
+import { BlockList, isIP } from "node:net";
+
+// Addresses that are not on the public internet: loopback, private, link-local (including the
+// cloud metadata endpoint 169.254.169.254), shared, reserved and multicast ranges.
+const NON_PUBLIC_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+] as const) {
+  NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  ["64:ff9b::", 96],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, "ipv6");
+}
+
+/**
+ * Checks whether an IP address is on the public internet. IPv4 addresses mapped into IPv6
+ * (e.g. `::ffff:127.0.0.1`) are checked as the IPv4 address they carry.
+ *
+ * @param address - The IPv4 or IPv6 address.
+ * @returns True unless the address is loopback, private, link-local, reserved or multicast.
+ */
+export function isPublicAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) {
+    return false;
+  }
+  return !NON_PUBLIC_ADDRESSES.check(address, family === 4 ? "ipv4" : "ipv6");
+}
+
+/**
+ * Checks whether a host name is named by an allowlist. An entry matches the host itself; an
+ * entry `*.example.com` matches the subdomains of example.com; `*` matches every host.
+ *
+ * @param host - The host name, in lower case.
+ * @param allowedHosts - The allowlist.
+ * @returns True if the host may be contacted.
+ */
+export function isAllowedHost(host: string, allowedHosts: string[]): boolean {
+  return allowedHosts.some((entry) => {
+    const allowed = entry.toLowerCase();
+    return (
+      allowed === "*" ||
+      allowed === host ||
+      (allowed.startsWith("*.") && host.endsWith(allowed.slice(1)))
+    );
+  });
+}
+
+/**
+ * Checks that a URL may be fetched on behalf of a client: it must be HTTP(S), its host must be
+ * on the allowlist, and every address the host resolves to must be public, so that the server
+ * cannot be used to reach itself, its network or a cloud metadata endpoint.
+ *
+ * The host is resolved again when the request is sent, so a DNS server answering differently
+ * the second time is not caught; the allowlist is what limits that to trusted hosts.
+ *
+ * @param url - The URL to check.
+ * @param allowedHosts - The hosts URLs may be fetched from; fetching is disabled when empty.
+ * @throws Error if the URL may not be fetched, or its host cannot be resolved.
+ */
+export async function assertFetchableUrl(
+  url: URL,
+  allowedHosts: string[]
+): Promise<void> {
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new Error(
+      `Refusing to fetch ${url}: only http(s) URLs are supported.`
+    );
+  }
+  if (allowedHosts.length === 0) {
+    throw new Error(
+      `Refusing to fetch ${url}: downloading documents is disabled. Set INGEST_URL_ALLOWED_HOSTS to the hosts documents may be downloaded from.`
+    );
+  }
+  const host = url.hostname.replace(/^\[(.*)\]$/, "$1").toLowerCase();
+  if (!isAllowedHost(host, allowedHosts)) {
+    throw new Error(
+      `Refusing to fetch ${url}: host "${host}" is not in INGEST_URL_ALLOWED_HOSTS.`
+    );
+  }
+  const addresses = isIP(host)
+    ? [host]
+    : (await lookup(host, { all: true })).map(({ address }) => address);
+  const blocked = addresses.find((address) => !isPublicAddress(address));
+  if (blocked !== undefined) {
+    throw new Error(
+      `Refusing to fetch ${url}: host "${host}" resolves to the non-public address ${blocked}.`
+    );
+  }
+}
@@ -0,0 +1,205 @@
+import { CircuitOpenError, HttpError, TimeoutError } from "./errors.js";
+
+/**
+ * Interface defining the options for the shared retry policy.
+ */
+export interface RetryOptions {
+  maxRetries: number; // The number of retries after the first attempt (0 disables retrying).
+  baseDelayMs: number; // The base delay for exponential backoff.
+  maxDelayMs: number; // The upper bound for a single backoff delay, including Retry-After hints.
+  circuitBreakerThreshold: number; // Consecutive failed attempts that open the circuit.
+  circuitBreakerResetMs: number; // How long the circuit stays open before a trial request is allowed.
+}
+
+// HTTP statuses that indicate a transient condition worth retrying.
+const RETRYABLE_STATUSES = new Set([408, 425, 429, 500, 502, 503, 504]);
+
+/**
+ * Determines whether an error represents a transient failure that may succeed on retry.
+ * Rate limits, server overload, timeouts and network failures are retryable; other HTTP
+ * errors (e.g., 400, 401, 404) and open circuits are fatal.
+ *
+ * @param error - The error thrown by an attempt.
+ * @returns True if the operation should be retried.
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof HttpError) {
+    return RETRYABLE_STATUSES.has(error.status);
+  }
+  if (error instanceof CircuitOpenError) {
+    return false;
+  }
+  if (error instanceof TimeoutError) {
+    return true;
+  }
+  // fetch() rejects with a TypeError for network-level failures (DNS, connection reset, ...).
+  return error instanceof TypeError;
+}
+
+/**
+ * Parses an HTTP Retry-After header, which may be either a number of seconds or an HTTP date.
+ *
+ * @param header - The raw header value, if present.
+ * @returns The requested delay in milliseconds, or undefined if absent or unparseable.
+ */
+export function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) {
+    return undefined;
+  }
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(header);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+  return undefined;
+}
+
+/**
+ * Computes the delay before the next retry using exponential backoff with full jitter.
+ * A server-provided Retry-After hint is used as a lower bound; the result never exceeds `maxDelayMs`.
+ *
+ * @param attempt - The 0-based index of the retry about to be made.
+ * @param options - The retry options.
+ * @param retryAfterMs - Optional delay requested by the server.
+ * @returns The delay in milliseconds.
+ */
+export function computeBackoffDelay(
+  attempt: number,
+  options: Pick<RetryOptions, "baseDelayMs" | "maxDelayMs">,
+  retryAfterMs?: number
+): number {
+  const exponential = Math.min(
+    options.maxDelayMs,
+    options.baseDelayMs * 2 ** attempt
+  );
+  const jittered = Math.random() * exponential;
+  return Math.min(options.maxDelayMs, Math.max(jittered, retryAfterMs ?? 0));
+}
+
+/**
+ * A circuit breaker that stops calling a failing service for a cool-down period.
+ * After `threshold` consecutive failures the circuit opens and calls fail fast with a
+ * `CircuitOpenError`. Once `resetMs` has elapsed a single trial call is let through
+ * (half-open); success closes the circuit, failure re-opens it.
+ */
+export class CircuitBreaker {
+  private threshold: number;
+  private resetMs: number;
+  private consecutiveFailures = 0;
+  private openedAt?: number;
+  private trialInFlight = false;
+
+  /**
+   * Creates an instance of CircuitBreaker.
+   * @param threshold - Consecutive failures that open the circuit.
+   * @param resetMs - Milliseconds the circuit stays open before allowing a trial call.
+   */
+  constructor(threshold: number, resetMs: number) {
+    this.threshold = threshold;
+    this.resetMs = resetMs;
+  }
+
+  /**
+   * Runs an operation through the breaker.
+   * Only transient failures (see `isRetryableError`) count towards opening the circuit.
+   *
+   * @param operation - The operation to run.
+   * @returns The operation's result.
+   * @throws CircuitOpenError if the circuit is open, or the operation's own error.
+   */
+  async execute<T>(operation: () => Promise<T>): Promise<T> {
+    let isTrial = false;
+    if (this.openedAt !== undefined) {
+      const elapsed = Date.now() - this.openedAt;
+      if (elapsed < this.resetMs || this.trialInFlight) {
+        throw new CircuitOpenError(
+          `Circuit open after ${this.consecutiveFailures} consecutive failures; retry in ${Math.max(
+            0,
+            this.resetMs - elapsed
+          )}ms.`
+        );
+      }
+      isTrial = true;
+      this.trialInFlight = true;
+    }
+
+    try {
+      const result = await operation();
+      this.consecutiveFailures = 0;
+      this.openedAt = undefined;
+      return result;
+    } catch (error) {
+      if (isRetryableError(error)) {
+        this.consecutiveFailures++;
+        if (isTrial || this.consecutiveFailures >= this.threshold) {
+          this.openedAt = Date.now();
+        }
+      } else if (isTrial) {
+        // The service answered, so it is reachable again even though the request itself failed.
+        this.consecutiveFailures = 0;
+        this.openedAt = undefined;
+      }
+      throw error;
+    } finally {
+      if (isTrial) {
+        this.trialInFlight = false;
+      }
+    }
+  }
+}
+
+/**
+ * Retries transient failures of remote calls with exponential backoff, guarded by a circuit breaker.
+ * Each client (embedding API, chunk repository) owns its own policy so that one failing service
+ * does not open the circuit for the other.
+ */
+export class RetryPolicy {
+  private options: RetryOptions;
+  private circuitBreaker: CircuitBreaker;
+
+  /**
+   * Creates an instance of RetryPolicy.
+   * @param options - Retry limits, backoff delays and circuit breaker settings.
+   */
+  constructor(options: RetryOptions) {
+    this.options = options;
+    this.circuitBreaker = new CircuitBreaker(
+      options.circuitBreakerThreshold,
+      options.circuitBreakerResetMs
+    );
+  }
+
+  /**
+   * Runs an operation, retrying transient failures until it succeeds or retries are exhausted.
+   *
+   * @param operation - The operation to run. It is invoked once per attempt.
+   * @returns The operation's result.
+   * @throws The last error if the operation failed fatally or ran out of retries.
+   */
+  async execute<T>(operation: () => Promise<T>): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.circuitBreaker.execute(operation);
+      } catch (error) {
+        if (attempt >= this.options.maxRetries || !isRetryableError(error)) {
+          throw error;
+        }
+        const delay = computeBackoffDelay(
+          attempt,
+          this.options,
+          error instanceof HttpError ? error.retryAfterMs : undefined
+        );
+        console.error(
+          `Transient failure (attempt ${attempt + 1}/${
+            this.options.maxRetries + 1
+          }), retrying in ${Math.round(delay)}ms:`,
+          (error as Error).message
+        );
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+    }
+  }
+}
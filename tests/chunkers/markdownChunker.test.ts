@@ -0,0 +1,139 @@
+import { describe, expect, it } from "vitest";
+import { MarkdownChunker } from "../../src/chunkers/markdownChunker.js";
+
+const GUIDE = [
+  "Intro text here.",
+  "",
+  "# Setup",
+  "",
+  "Install it.",
+  "",
+  "## Backend",
+  "",
+  "Run the server.",
+  "",
+  "### Indexes",
+  "",
+  "Create indexes.",
+  "",
+  "## Frontend",
+  "",
+  "Build the app.",
+  "",
+  "# Usage",
+  "",
+  "Call it.",
+].join("\n");
+
+const CODE_BLOCK = [
+  "```ts",
+  "const a = 1;",
+  "",
+  "# not a heading",
+  "const b = a + 2 + 3 + 4 + 5;",
+  "```",
+].join("\n");
+
+const TABLE = ["| a | b |", "| - | - |", "| 1 | 2 |", "| 3 | 4 |"].join("\n");
+
+describe("MarkdownChunker", () => {
+  it("records the section path and heading level of nested headings", () => {
+    const chunks = new MarkdownChunker({
+      chunkSize: 50,
+      chunkOverlap: 0,
+    }).chunk(GUIDE, { source: "guide.md" });
+    expect(
+      chunks.map(({ content, metadata }) => ({
+        content,
+        section_path: metadata.section_path,
+        heading_level: metadata.heading_level,
+      }))
+    ).toEqual([
+      { content: "Intro text here.", section_path: [], heading_level: 0 },
+      {
+        content: "# Setup\n\nInstall it.",
+        section_path: ["Setup"],
+        heading_level: 1,
+      },
+      {
+        content: "## Backend\n\nRun the server.",
+        section_path: ["Setup", "Backend"],
+        heading_level: 2,
+      },
+      {
+        content: "### Indexes\n\nCreate indexes.",
+        section_path: ["Setup", "Backend", "Indexes"],
+        heading_level: 3,
+      },
+      {
+        content: "## Frontend\n\nBuild the app.",
+        section_path: ["Setup", "Frontend"],
+        heading_level: 2,
+      },
+      {
+        content: "# Usage\n\nCall it.",
+        section_path: ["Usage"],
+        heading_level: 1,
+      },
+    ]);
+    expect(chunks.map((chunk) => [chunk.startLine, chunk.endLine])).toEqual([
+      [1, 1],
+      [3, 5],
+      [7, 9],
+      [11, 13],
+      [15, 17],
+      [19, 21],
+    ]);
+    expect(chunks[3].metadata).toMatchObject({
+      source: "guide.md",
+      chunk_index: 3,
+    });
+  });
+
+  it("never splits a fenced code block or a table, even past the chunk size", () => {
+    const text = [
+      "# Code",
+      "",
+      "one two three four five six",
+      "",
+      CODE_BLOCK,
+      "",
+      TABLE,
+      "",
+      "after words here now",
+    ].join("\n");
+    const chunks = new MarkdownChunker({ chunkSize: 5, chunkOverlap: 1 }).chunk(
+      text
+    );
+    const contents = chunks.map((chunk) => chunk.content);
+    expect(contents).toContain(CODE_BLOCK);
+    expect(contents).toContain(TABLE);
+    expect(contents).toHaveLength(5);
+    // The line starting with `#` inside the fence does not open a section.
+    expect(
+      chunks.every((chunk) => chunk.metadata.section_path[0] === "Code")
+    ).toBe(true);
+    for (const chunk of chunks) {
+      expect(text.slice(chunk.startOffset, chunk.endOffset)).toBe(
+        chunk.content
+      );
+    }
+  });
+
+  it("keeps an unclosed code fence whole up to the end of the document", () => {
+    const text = "Before.\n\n```\nline one\n\nline two\nline three";
+    const chunks = new MarkdownChunker({ chunkSize: 2, chunkOverlap: 0 }).chunk(
+      text
+    );
+    expect(chunks.map((chunk) => chunk.content)).toEqual([
+      "Before.",
+      "```\nline one\n\nline two\nline three",
+    ]);
+  });
+
+  it("rejects an overlap that is not less than the chunk size", () => {
+    expect(
+      () => new MarkdownChunker({ chunkSize: 5, chunkOverlap: 5 })
+    ).toThrow(/Chunk overlap must be less than chunk size/);
+  });
+});
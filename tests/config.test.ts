@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { createTestConfig } from "./helpers.js";
+
+describe("transport configuration", () => {
+  it("defaults to stdio", () => {
+    expect(createTestConfig().transport).toEqual({
+      type: "stdio",
+      host: "127.0.0.1",
+      port: 8080,
+      authToken: undefined,
+      corsOrigins: [],
+      sessionIdleTimeoutMs: 1800000,
+    });
+  });
+
+  it("reads the HTTP settings", () => {
+    const { transport } = createTestConfig({
+      MCP_TRANSPORT: "http",
+      MCP_HTTP_HOST: "0.0.0.0",
+      MCP_HTTP_PORT: "9000",
+      MCP_AUTH_TOKEN: "token",
+      MCP_CORS_ORIGINS: "https://a.example.com, https://b.example.com",
+    });
+
+    expect(transport).toMatchObject({
+      type: "http",
+      host: "0.0.0.0",
+      port: 9000,
+      authToken: "token",
+      corsOrigins: ["https://a.example.com", "https://b.example.com"],
+    });
+  });
+
+  it("requires a token beyond the loopback interface", () => {
+    expect(() =>
+      createTestConfig({ MCP_TRANSPORT: "http", MCP_HTTP_HOST: "0.0.0.0" })
+    ).toThrow("MCP_AUTH_TOKEN is required");
+  });
+
+  it("rejects unknown transports and invalid ports", () => {
+    expect(() => createTestConfig({ MCP_TRANSPORT: "websocket" })).toThrow(
+      "MCP_TRANSPORT must be one of stdio, http"
+    );
+    expect(() => createTestConfig({ MCP_HTTP_PORT: "70000" })).toThrow(
+      "MCP_HTTP_PORT must be at most 65535"
+    );
+  });
+});
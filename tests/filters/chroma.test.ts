@@ -0,0 +1,121 @@
+import { describe, expect, it } from "vitest";
+import {
+  flattenChromaMetadata,
+  toChromaWhere,
+} from "../../src/filters/chroma.js";
+
+describe("toChromaWhere", () => {
+  it("returns undefined for an empty filter", () => {
+    expect(toChromaWhere({})).toBeUndefined();
+    expect(toChromaWhere()).toBeUndefined();
+  });
+
+  it("unwraps a single condition and prefixes metadata keys with `meta.`", () => {
+    expect(toChromaWhere({ "author.name": "Ada" })).toEqual({
+      "meta.author.name": { $eq: "Ada" },
+    });
+    expect(toChromaWhere({ documentId: "doc" })).toEqual({
+      documentId: { $eq: "doc" },
+    });
+  });
+
+  it("combines several conditions with $and", () => {
+    expect(
+      toChromaWhere({ lang: { $ne: "en" }, chunkIndex: { $gte: 2, $lt: 5 } })
+    ).toEqual({
+      $and: [
+        { "meta.lang": { $ne: "en" } },
+        { chunkIndex: { $gte: 2 } },
+        { chunkIndex: { $lt: 5 } },
+      ],
+    });
+  });
+
+  it("translates every numeric range operator", () => {
+    expect(
+      toChromaWhere({ year: { $gt: 1, $gte: 2, $lt: 9, $lte: 8 } })
+    ).toEqual({
+      $and: [
+        { "meta.year": { $gt: 1 } },
+        { "meta.year": { $gte: 2 } },
+        { "meta.year": { $lt: 9 } },
+        { "meta.year": { $lte: 8 } },
+      ],
+    });
+  });
+
+  it("translates $in and $nin", () => {
+    expect(
+      toChromaWhere({ lang: { $in: ["en", "de"] }, year: { $nin: [2020] } })
+    ).toEqual({
+      $and: [
+        { "meta.lang": { $in: ["en", "de"] } },
+        { "meta.year": { $nin: [2020] } },
+      ],
+    });
+  });
+
+  it("translates $or groups, unwrapping groups of one", () => {
+    expect(
+      toChromaWhere({
+        $or: [{ lang: "en" }, { lang: "de", draft: false }],
+      })
+    ).toEqual({
+      $or: [
+        { "meta.lang": { $eq: "en" } },
+        {
+          $and: [
+            { "meta.lang": { $eq: "de" } },
+            { "meta.draft": { $eq: false } },
+          ],
+        },
+      ],
+    });
+  });
+
+  it("rejects null values", () => {
+    expect(() => toChromaWhere({ reviewer: null })).toThrow(/null values/);
+    expect(() => toChromaWhere({ reviewer: { $ne: null } })).toThrow(
+      /null values/
+    );
+    expect(() => toChromaWhere({ reviewer: { $in: ["a", null] } })).toThrow(
+      /null values/
+    );
+    expect(() => toChromaWhere({ reviewer: { $nin: [null] } })).toThrow(
+      /null values/
+    );
+  });
+
+  it("rejects non-numeric ranges, $exists and $contains", () => {
+    expect(() => toChromaWhere({ published: { $gte: "2024-01-01" } })).toThrow(
+      /non-numeric ranges/
+    );
+    expect(() => toChromaWhere({ title: { $exists: true } })).toThrow(
+      /\$exists/
+    );
+    expect(() => toChromaWhere({ tags: { $contains: "api" } })).toThrow(
+      /\$contains/
+    );
+  });
+});
+
+describe("flattenChromaMetadata", () => {
+  it("flattens nested objects into dotted keys and drops arrays and nulls", () => {
+    expect(
+      flattenChromaMetadata({
+        lang: "en",
+        year: 2024,
+        draft: false,
+        author: { name: "Ada", address: { city: "London" } },
+        tags: ["api"],
+        reviewer: null,
+      })
+    ).toEqual({
+      "meta.lang": "en",
+      "meta.year": 2024,
+      "meta.draft": false,
+      "meta.author.name": "Ada",
+      "meta.author.address.city": "London",
+    });
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest";
+import { MetadataFilter } from "../../src/filters/filter.js";
+import { toPostgrestQuery } from "../../src/filters/postgrest.js";
+
+// Decodes the `and=(...)` parameter so that expectations stay readable.
+function logicTree(filter: MetadataFilter): string {
+  const query = toPostgrestQuery(filter);
+  expect(query.startsWith("and=")).toBe(true);
+  return decodeURIComponent(query.slice("and=".length));
+}
+
+describe("toPostgrestQuery", () => {
+  it("returns an empty string for an empty filter", () => {
+    expect(toPostgrestQuery({})).toBe("");
+    expect(toPostgrestQuery()).toBe("");
+    expect(toPostgrestQuery({ $or: [{}, { lang: "en" }] })).toBe("");
+  });
+
+  it("URL-encodes the logic tree", () => {
+    expect(toPostgrestQuery({ documentId: "a b" })).toBe(
+      `and=${encodeURIComponent('(documentId.eq."a b")')}`
+    );
+  });
+
+  it("addresses columns directly and nested metadata keys through JSON paths", () => {
+    expect(
+      logicTree({ documentId: "doc", "a.b": "x", "a.b.c": 1, lang: "en" })
+    ).toBe(
+      '(documentId.eq."doc",metadata->a->>b.eq."x",metadata->a->b->c.eq.1,metadata->>lang.eq."en")'
+    );
+  });
+
+  it("rejects metadata keys PostgREST JSON paths cannot address", () => {
+    expect(() => toPostgrestQuery({ "a b": 1 })).toThrow(
+      /Metadata key "a b" cannot be filtered on/
+    );
+  });
+
+  it("translates $ne, keeping chunks without the metadata key", () => {
+    expect(
+      logicTree({
+        lang: { $ne: "en" },
+        year: { $ne: 2020 },
+        documentId: { $ne: "doc" },
+        reviewer: { $ne: null },
+      })
+    ).toBe(
+      '(or(metadata->>lang.neq."en",metadata->>lang.is.null),' +
+        "or(metadata->year.neq.2020,metadata->>year.is.null)," +
+        'documentId.neq."doc",' +
+        "metadata->>reviewer.not.is.null)"
+    );
+  });
+
+  it("translates $exists into null checks", () => {
+    expect(
+      logicTree({ title: { $exists: true }, draft: { $exists: false } })
+    ).toBe("(metadata->>title.not.is.null,metadata->>draft.is.null)");
+  });
+
+  it("translates $in, comparing numbers as JSON, other values as text and null with is", () => {
+    expect(logicTree({ lang: { $in: ["en", "de"] } })).toBe(
+      '(metadata->>lang.in.("en","de"))'
+    );
+    expect(logicTree({ score: { $in: [1, "one", null, 2.5] } })).toBe(
+      '(or(metadata->score.in.(1,2.5),metadata->>score.in.("one"),metadata->>score.is.null))'
+    );
+  });
+
+  it("translates $nin, keeping chunks without the metadata key unless null is excluded", () => {
+    expect(logicTree({ lang: { $nin: ["en", 3] } })).toBe(
+      '(or(metadata->>lang.is.null,and(metadata->lang.not.in.(3),metadata->>lang.not.in.("en"))))'
+    );
+    expect(logicTree({ lang: { $nin: ["en", null] } })).toBe(
+      '(and(metadata->>lang.not.in.("en"),metadata->>lang.not.is.null))'
+    );
+  });
+
+  it("translates $and and $or into nested logic trees", () => {
+    expect(
+      logicTree({
+        lang: "en",
+        $or: [{ tags: { $contains: "api" } }, { draft: { $exists: false } }],
+        $and: [{ year: { $gte: 2020 } }, { year: { $lt: 2025 } }],
+      })
+    ).toBe(
+      '(metadata->>lang.eq."en",' +
+        'or(metadata->tags.cs."[\\"api\\"]",metadata->>draft.is.null),' +
+        "and(metadata->year.gte.2020,metadata->year.lt.2025))"
+    );
+  });
+
+  it("quotes values containing reserved characters", () => {
+    expect(logicTree({ title: 'a,b (c) "d" \\' })).toBe(
+      '(metadata->>title.eq."a,b (c) \\"d\\" \\\\")'
+    );
+    expect(logicTree({ lang: { $in: ["a,b", "(c)"] } })).toBe(
+      '(metadata->>lang.in.("a,b","(c)"))'
+    );
+  });
+
+  it("rejects $contains on a column", () => {
+    expect(() => toPostgrestQuery({ documentId: { $contains: "a" } })).toThrow(
+      /array metadata fields/
+    );
+  });
+});
@@ -0,0 +1,146 @@
+import { describe, expect, it } from "vitest";
+import { toQdrantFilter } from "../../src/filters/qdrant.js";
+
+describe("toQdrantFilter", () => {
+  it("returns undefined for an empty filter", () => {
+    expect(toQdrantFilter({})).toBeUndefined();
+    expect(toQdrantFilter()).toBeUndefined();
+  });
+
+  it("addresses columns at the top level and metadata under `metadata`", () => {
+    expect(
+      toQdrantFilter({ documentId: "doc", "author.name": "Ada", lang: "en" })
+    ).toEqual({
+      must: [
+        { key: "documentId", match: { value: "doc" } },
+        { key: "metadata.author.name", match: { value: "Ada" } },
+        { key: "metadata.lang", match: { value: "en" } },
+      ],
+    });
+  });
+
+  it("translates $eq, matching null as an empty key and floats as a closed range", () => {
+    expect(
+      toQdrantFilter({
+        draft: { $eq: false },
+        year: { $eq: 2024 },
+        score: { $eq: 0.5 },
+        reviewer: { $eq: null },
+      })
+    ).toEqual({
+      must: [
+        { key: "metadata.draft", match: { value: false } },
+        { key: "metadata.year", match: { value: 2024 } },
+        { key: "metadata.score", range: { gte: 0.5, lte: 0.5 } },
+        { is_empty: { key: "metadata.reviewer" } },
+      ],
+    });
+  });
+
+  it("translates $ne into must_not", () => {
+    expect(
+      toQdrantFilter({ lang: { $ne: "en" }, reviewer: { $ne: null } })
+    ).toEqual({
+      must: [
+        { must_not: [{ key: "metadata.lang", match: { value: "en" } }] },
+        { must_not: [{ is_empty: { key: "metadata.reviewer" } }] },
+      ],
+    });
+  });
+
+  it("translates range operators, including datetime strings", () => {
+    expect(
+      toQdrantFilter({
+        year: { $gt: 2000, $lte: 2024 },
+        chunkIndex: { $gte: 3, $lt: 10 },
+        published: { $gte: "2024-01-01T00:00:00Z" },
+      })
+    ).toEqual({
+      must: [
+        { key: "metadata.year", range: { gt: 2000 } },
+        { key: "metadata.year", range: { lte: 2024 } },
+        { key: "chunkIndex", range: { gte: 3 } },
+        { key: "chunkIndex", range: { lt: 10 } },
+        { key: "metadata.published", range: { gte: "2024-01-01T00:00:00Z" } },
+      ],
+    });
+  });
+
+  it("translates $in into match.any, adding conditions for null and floats", () => {
+    expect(toQdrantFilter({ lang: { $in: ["en", "de"] } })).toEqual({
+      must: [{ key: "metadata.lang", match: { any: ["en", "de"] } }],
+    });
+    expect(toQdrantFilter({ score: { $in: [1, null, 0.5] } })).toEqual({
+      must: [
+        {
+          should: [
+            { key: "metadata.score", match: { any: [1] } },
+            { is_empty: { key: "metadata.score" } },
+            { key: "metadata.score", range: { gte: 0.5, lte: 0.5 } },
+          ],
+        },
+      ],
+    });
+  });
+
+  it("translates $nin into must_not", () => {
+    expect(toQdrantFilter({ lang: { $nin: ["en", null] } })).toEqual({
+      must: [
+        {
+          must_not: [
+            {
+              should: [
+                { key: "metadata.lang", match: { any: ["en"] } },
+                { is_empty: { key: "metadata.lang" } },
+              ],
+            },
+          ],
+        },
+      ],
+    });
+  });
+
+  it("translates $exists into is_empty checks", () => {
+    expect(
+      toQdrantFilter({ title: { $exists: true }, draft: { $exists: false } })
+    ).toEqual({
+      must: [
+        { must_not: [{ is_empty: { key: "metadata.title" } }] },
+        { is_empty: { key: "metadata.draft" } },
+      ],
+    });
+  });
+
+  it("translates $contains into a match on the array field", () => {
+    expect(toQdrantFilter({ tags: { $contains: "api" } })).toEqual({
+      must: [{ key: "metadata.tags", match: { value: "api" } }],
+    });
+  });
+
+  it("rejects $contains on a column", () => {
+    expect(() => toQdrantFilter({ documentId: { $contains: "a" } })).toThrow(
+      /array metadata fields/
+    );
+  });
+
+  it("translates $and and $or into nested must and should clauses", () => {
+    expect(
+      toQdrantFilter({
+        lang: "en",
+        $or: [{ tags: { $contains: "api" } }, { draft: { $exists: false } }],
+        $and: [{ year: { $gte: 2020 } }],
+      })
+    ).toEqual({
+      must: [
+        { key: "metadata.lang", match: { value: "en" } },
+        {
+          should: [
+            { must: [{ key: "metadata.tags", match: { value: "api" } }] },
+            { must: [{ is_empty: { key: "metadata.draft" } }] },
+          ],
+        },
+        { must: [{ must: [{ key: "metadata.year", range: { gte: 2020 } }] }] },
+      ],
+    });
+  });
+});
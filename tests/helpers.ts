@@ -0,0 +1,166 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { AppConfig, loadConfig } from "../src/config.js";
+import { InMemoryChunkRepository } from "../src/repositories/InMemoryChunkRepository.js";
+import { EmbeddingProvider } from "../src/services/embedding.js";
+import { LocalEmbeddingProvider } from "../src/services/localEmbeddingProvider.js";
+import { NamespaceService } from "../src/services/namespaces.js";
+import { ToolDependencies } from "../src/tools/dependencies.js";
+import { createMcpServer } from "../src/server.js";
+
+/**
+ * Loads the application configuration for the in-memory store and the offline embedder,
+ * with optional environment overrides. The process environment is restored afterwards.
+ */
+export function createTestConfig(env: Record<string, string> = {}): AppConfig {
+  const overrides: Record<string, string> = {
+    STORAGE_BACKEND: "memory",
+    EMBEDDING_PROVIDER: "local",
+    EMBEDDING_DIMENSIONS: "256",
+    ...env,
+  };
+  const saved = Object.fromEntries(
+    Object.keys(overrides).map((name) => [name, process.env[name]])
+  );
+  Object.assign(process.env, overrides);
+  try {
+    return loadConfig();
+  } finally {
+    for (const [name, value] of Object.entries(saved)) {
+      if (value === undefined) {
+        delete process.env[name];
+      } else {
+        process.env[name] = value;
+      }
+    }
+  }
+}
+
+/**
+ * An embedding provider that embeds offline, records every text it is asked to embed, and
+ * fails for texts containing `failOn`.
+ */
+export class FakeEmbeddingProvider implements EmbeddingProvider {
+  readonly model = "fake";
+  readonly embedded: string[] = [];
+  failOn?: string;
+  private local = new LocalEmbeddingProvider({
+    model: "fake",
+    dimensions: 256,
+  });
+
+  async embed(text: string): Promise<number[]> {
+    const [embedding] = await this.embedBatch([text]);
+    return embedding;
+  }
+
+  async embedBatch(texts: string[]): Promise<number[][]> {
+    const failing = texts.find(
+      (text) => this.failOn !== undefined && text.includes(this.failOn)
+    );
+    if (failing !== undefined) {
+      throw new Error(`Embedding failed for "${failing}"`);
+    }
+    this.embedded.push(...texts);
+    return this.local.embedBatch(texts);
+  }
+}
+
+/**
+ * Creates fresh tool dependencies: an empty in-memory repository, a fake embedding provider,
+ * the test configuration, and the namespaces of the repository.
+ */
+export function createTestDependencies(
+  env: Record<string, string> = {}
+): ToolDependencies & {
+  repository: InMemoryChunkRepository;
+  embeddingProvider: FakeEmbeddingProvider;
+} {
+  const repository = new InMemoryChunkRepository();
+  const embeddingProvider = new FakeEmbeddingProvider();
+  const config = createTestConfig(env);
+  return {
+    repository,
+    embeddingProvider,
+    config,
+    namespaces: new NamespaceService(repository, embeddingProvider, config),
+  };
+}
+
+/**
+ * The result of calling a tool: its parsed JSON payload and whether it reported an error.
+ */
+export interface ToolCall {
+  body: any;
+  isError: boolean;
+}
+
+/**
+ * Calls a tool's handler the way the MCP server does: the arguments are validated and given
+ * their defaults by the tool's schema first.
+ */
+export async function callTool<Args>(
+  tool: {
+    schema: { parse(args: unknown): Args };
+    handler: (args: Args) => Promise<{
+      content: { type: "text"; text: string }[];
+      isError?: boolean;
+    }>;
+  },
+  args: Record<string, unknown> = {}
+): Promise<ToolCall> {
+  const result = await tool.handler(tool.schema.parse(args));
+  return {
+    body: JSON.parse(result.content[0].text),
+    isError: result.isError === true,
+  };
+}
+
+/**
+ * Stores a document directly in the repository, one chunk per passage, embedded by the
+ * dependencies' provider and recording its model. Each chunk records its character offsets in the passages joined by
+ * blank lines.
+ */
+export async function storeDocument(
+  { repository, embeddingProvider }: ToolDependencies,
+  documentId: string,
+  passages: string[],
+  metadata: Record<string, any> = {}
+): Promise<void> {
+  const embeddings = await embeddingProvider.embedBatch(passages);
+  let offset = 0;
+  await repository.storeChunks(
+    passages.map((content, chunkIndex) => {
+      const startOffset = offset;
+      offset += content.length + 2;
+      return {
+        content,
+        embedding: embeddings[chunkIndex],
+        documentId,
+        chunkIndex,
+        chunkSize: 100,
+        chunkOverlap: 0,
+        chunkStrategy: "recursive",
+        startOffset,
+        endOffset: startOffset + content.length,
+        metadata,
+        embeddingModel: embeddingProvider.model,
+      };
+    })
+  );
+}
+
+/**
+ * Connects an MCP client to a server created with the dependencies, over an in-memory transport.
+ * Close the client to close both ends.
+ */
+export async function connectClient(
+  dependencies: ToolDependencies
+): Promise<Client> {
+  const [clientTransport, serverTransport] =
+    InMemoryTransport.createLinkedPair();
+  await createMcpServer(dependencies).connect(serverTransport);
+  const client = new Client({ name: "raglit-test", version: "1.0.0" });
+  await client.connect(clientTransport);
+  return client;
+}
@@ -0,0 +1,103 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  connectClient,
+  createTestDependencies,
+  storeDocument,
+} from "../helpers.js";
+
+describe("answer_with_citations", () => {
+  let dependencies: ReturnType<typeof createTestDependencies>;
+  let client: Client;
+
+  beforeEach(async () => {
+    dependencies = createTestDependencies();
+    client = await connectClient(dependencies);
+  });
+
+  afterEach(async () => {
+    await client.close();
+  });
+
+  it("is listed with its arguments", async () => {
+    const { prompts } = await client.listPrompts();
+
+    expect(prompts).toHaveLength(1);
+    expect(prompts[0].name).toBe("answer_with_citations");
+    expect(prompts[0].arguments?.map((argument) => argument.name)).toEqual([
+      "question",
+      "limit",
+      "mode",
+      "namespace",
+    ]);
+  });
+
+  it("numbers the retrieved chunks as sources with their locations", async () => {
+    await storeDocument(
+      dependencies,
+      "manual",
+      ["The reactor is cooled by heavy water.", "Unrelated appendix."],
+      { source: "/docs/manual.pdf", pages: [3, 4] }
+    );
+    const [chunk] = await dependencies.repository.getDocumentChunks("manual");
+
+    const { messages } = await client.getPrompt({
+      name: "answer_with_citations",
+      arguments: { question: "How is the reactor cooled?", limit: "1" },
+    });
+
+    expect(messages).toHaveLength(1);
+    expect(messages[0].role).toBe("user");
+    const text = (messages[0].content as { text: string }).text;
+    expect(text).toContain("Question: How is the reactor cooled?");
+    expect(text).toContain(
+      `[1] manual, chunk 0, /docs/manual.pdf, pages 3-4 (raglit://default/chunks/${chunk.id})\nThe reactor is cooled by heavy water.`
+    );
+    expect(text).not.toContain("[2]");
+  });
+
+  it("retrieves the sources from the requested namespace", async () => {
+    await dependencies.namespaces.create({ name: "papers" });
+    const { repository } = await dependencies.namespaces.open("papers");
+    await storeDocument({ ...dependencies, repository }, "paper", [
+      "The reactor is cooled by molten salt.",
+    ]);
+    await storeDocument(dependencies, "manual", [
+      "The reactor is cooled by heavy water.",
+    ]);
+    const [chunk] = await repository.getDocumentChunks("paper");
+
+    const { messages } = await client.getPrompt({
+      name: "answer_with_citations",
+      arguments: { question: "reactor cooled", namespace: "papers" },
+    });
+
+    const text = (messages[0].content as { text: string }).text;
+    expect(text).toContain(`(raglit://papers/chunks/${chunk.id})`);
+    expect(text).toContain("molten salt");
+    expect(text).not.toContain("heavy water");
+  });
+
+  it("says so when nothing matches", async () => {
+    const { messages } = await client.getPrompt({
+      name: "answer_with_citations",
+      arguments: { question: "Anything?", mode: "keyword" },
+    });
+
+    expect((messages[0].content as { text: string }).text).toMatch(
+      /^No indexed documents matched the question/
+    );
+  });
+
+  it("fails when the search fails", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    dependencies.embeddingProvider.failOn = "reactor";
+
+    await expect(
+      client.getPrompt({
+        name: "answer_with_citations",
+        arguments: { question: "reactor", mode: "vector" },
+      })
+    ).rejects.toThrow(/Search for sources failed/);
+  });
+});
@@ -0,0 +1,234 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { ChromaChunkRepository } from "../../src/repositories/ChromaChunkRepository.js";
+import { chunkPointId } from "../../src/repositories/chunkIds.js";
+import { StoreChunkParams } from "../../src/repositories/ChunkRepository.js";
+
+const DATABASE_PATH =
+  "/api/v2/tenants/default_tenant/databases/default_database";
+
+interface Request {
+  method: string;
+  path: string;
+  body: any;
+}
+
+function chunk(chunkIndex: number) {
+  return {
+    content: `Chunk ${chunkIndex}`,
+    embedding: [0.6, 0.8, 0],
+    documentId: "guide",
+    chunkIndex,
+    chunkSize: 500,
+    chunkOverlap: 50,
+    chunkStrategy: "recursive",
+    startOffset: chunkIndex * 100,
+    endOffset: chunkIndex * 100 + 100,
+    metadata: { lang: "en", author: { name: "Ada" }, tags: ["api"] },
+    embeddingModel: "fake",
+  } satisfies StoreChunkParams;
+}
+
+describe("ChromaChunkRepository", () => {
+  let repository: ChromaChunkRepository;
+  let requests: Request[];
+  let responses: Record<string, any>;
+
+  beforeEach(() => {
+    repository = new ChromaChunkRepository({
+      url: "http://chroma.test/",
+      apiKey: "secret",
+      tenant: "default_tenant",
+      database: "default_database",
+      collection: "raglit",
+    });
+    requests = [];
+    // Responses by "METHOD path" below the database; collections are created with their name as ID.
+    responses = {};
+
+    vi.stubGlobal("fetch", async (input: string, init: RequestInit) => {
+      const url = new URL(input);
+      const method = init.method ?? "GET";
+      const body = init.body ? JSON.parse(String(init.body)) : undefined;
+      const path = url.pathname.slice(DATABASE_PATH.length) + url.search;
+      requests.push({ method, path, body });
+      expect((init.headers as Record<string, string>).Authorization).toBe(
+        "Bearer secret"
+      );
+
+      const response =
+        method === "POST" && path === "/collections"
+          ? { id: `${body.name}-id`, name: body.name }
+          : responses[`${method} ${path}`];
+      return new Response(
+        response === undefined ? "" : JSON.stringify(response)
+      );
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("gets or creates the collection with cosine distance before its first request", async () => {
+    await repository.storeChunks([chunk(0)]);
+    await repository.storeChunks([chunk(1)]);
+
+    expect(requests.map(({ method, path }) => `${method} ${path}`)).toEqual([
+      "POST /collections",
+      "POST /collections/raglit-id/upsert",
+      "POST /collections/raglit-id/upsert",
+    ]);
+    expect(requests[0].body).toEqual({
+      name: "raglit",
+      get_or_create: true,
+      metadata: { "hnsw:space": "cosine" },
+    });
+  });
+
+  it("upserts records under IDs derived from the document and chunk index, with flattened metadata", async () => {
+    const ids = await repository.storeChunks([chunk(0), chunk(1)]);
+
+    expect(ids).toEqual([chunkPointId("guide", 0), chunkPointId("guide", 1)]);
+    const upsert = requests.at(-1)!.body;
+    expect(upsert.ids).toEqual(ids);
+    expect(upsert.embeddings).toEqual([
+      [0.6, 0.8, 0],
+      [0.6, 0.8, 0],
+    ]);
+    expect(upsert.documents).toEqual(["Chunk 0", "Chunk 1"]);
+    expect(upsert.metadatas[1]).toEqual({
+      "meta.lang": "en",
+      "meta.author.name": "Ada",
+      metadata: JSON.stringify(chunk(1).metadata),
+      documentId: "guide",
+      chunkIndex: 1,
+      chunkSize: 500,
+      chunkOverlap: 50,
+      chunkStrategy: "recursive",
+      startOffset: 100,
+      endOffset: 200,
+      embeddingModel: "fake",
+      embeddingDimensions: 3,
+    });
+  });
+
+  it("stores each namespace in a collection of its own", async () => {
+    await repository.storeChunk({ ...chunk(0), namespace: "papers" });
+
+    expect(requests[0].body.name).toBe("raglit_ns_papers");
+    expect(requests[1].path).toBe("/collections/raglit_ns_papers-id/upsert");
+    expect(requests[1].body.metadatas[0]).not.toHaveProperty("namespace");
+  });
+
+  it("queries with the model filter, converting distances to similarities above the threshold", async () => {
+    responses["POST /collections/raglit-id/query"] = {
+      ids: [[chunkPointId("guide", 0), chunkPointId("guide", 1)]],
+      documents: [["Chunk 0", "Chunk 1"]],
+      metadatas: [
+        [
+          { documentId: "guide", chunkIndex: 0, metadata: '{"lang":"en"}' },
+          { documentId: "guide", chunkIndex: 1, metadata: '{"lang":"en"}' },
+        ],
+      ],
+      embeddings: [
+        [
+          [0.6, 0.8, 0],
+          [1, 0, 0],
+        ],
+      ],
+      distances: [[0.1, 0.6]],
+    };
+
+    const results = await repository.searchSimilarChunks(
+      [0.6, 0.8, 0],
+      2,
+      { lang: "en" },
+      0.5,
+      "default",
+      "fake"
+    );
+
+    expect(requests[1].body).toEqual({
+      query_embeddings: [[0.6, 0.8, 0]],
+      n_results: 2,
+      where: {
+        $and: [
+          { "meta.lang": { $eq: "en" } },
+          {
+            $and: [
+              { embeddingModel: { $eq: "fake" } },
+              { embeddingDimensions: { $eq: 3 } },
+            ],
+          },
+        ],
+      },
+      include: ["documents", "metadatas", "embeddings", "distances"],
+    });
+    expect(results).toHaveLength(1);
+    expect(results[0]).toMatchObject({
+      id: chunkPointId("guide", 0),
+      namespace: "default",
+      content: "Chunk 0",
+      metadata: { lang: "en" },
+      startOffset: null,
+      embedding: [0.6, 0.8, 0],
+    });
+    expect(results[0].similarity).toBeCloseTo(0.9);
+  });
+
+  it("reads namespace settings from collection metadata, skipping unregistered collections", async () => {
+    responses["GET /collections?limit=1000&offset=0"] = [
+      { id: "1", name: "raglit", metadata: { "hnsw:space": "cosine" } },
+      {
+        id: "2",
+        name: "raglit_ns_papers",
+        metadata: {
+          "hnsw:space": "cosine",
+          "raglit:namespace": "papers",
+          "raglit:description": "Research papers",
+          "raglit:embeddingModel": "large",
+          "raglit:embeddingDimensions": 1024,
+          "raglit:createdAt": "2026-01-01T00:00:00.000Z",
+        },
+      },
+      {
+        id: "3",
+        name: "raglit_ns_notes",
+        metadata: { "raglit:namespace": "notes" },
+      },
+    ];
+
+    expect(await repository.listNamespaces()).toEqual([
+      { name: "notes" },
+      {
+        name: "papers",
+        description: "Research papers",
+        embeddingModel: "large",
+        embeddingDimensions: 1024,
+        createdAt: "2026-01-01T00:00:00.000Z",
+      },
+    ]);
+  });
+
+  it("registers a namespace by creating its collection with the settings as metadata", async () => {
+    responses["GET /collections?limit=1000&offset=0"] = [];
+
+    await repository.createNamespace({
+      name: "papers",
+      embeddingDimensions: 1024,
+    });
+
+    expect(requests.at(-1)).toEqual({
+      method: "POST",
+      path: "/collections",
+      body: {
+        name: "raglit_ns_papers",
+        metadata: {
+          "hnsw:space": "cosine",
+          "raglit:namespace": "papers",
+          "raglit:embeddingDimensions": 1024,
+        },
+      },
+    });
+  });
+});
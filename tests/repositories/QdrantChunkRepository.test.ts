@@ -0,0 +1,211 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { QdrantChunkRepository } from "../../src/repositories/QdrantChunkRepository.js";
+import { chunkPointId } from "../../src/repositories/chunkIds.js";
+import { StoreChunkParams } from "../../src/repositories/ChunkRepository.js";
+
+interface Request {
+  method: string;
+  path: string;
+  body: any;
+}
+
+function chunk(chunkIndex: number, embedding = [0.6, 0.8, 0]) {
+  return {
+    content: `Chunk ${chunkIndex}`,
+    embedding,
+    documentId: "guide",
+    chunkIndex,
+    chunkSize: 500,
+    chunkOverlap: 50,
+    chunkStrategy: "recursive",
+    metadata: { lang: "en" },
+    embeddingModel: "fake",
+  } satisfies StoreChunkParams;
+}
+
+describe("QdrantChunkRepository", () => {
+  let repository: QdrantChunkRepository;
+  let requests: Request[];
+  let collections: Set<string>;
+  let searchResult: any[];
+
+  beforeEach(() => {
+    repository = new QdrantChunkRepository({
+      url: "http://qdrant.test/",
+      apiKey: "secret",
+      collection: "raglit",
+    });
+    requests = [];
+    collections = new Set();
+    searchResult = [];
+
+    // A Qdrant that tracks which collections exist and answers searches with `searchResult`.
+    vi.stubGlobal("fetch", async (input: string, init: RequestInit) => {
+      const url = new URL(input);
+      const method = init.method ?? "GET";
+      const body = init.body ? JSON.parse(String(init.body)) : undefined;
+      requests.push({ method, path: url.pathname + url.search, body });
+      expect((init.headers as Record<string, string>)["api-key"]).toBe(
+        "secret"
+      );
+
+      const [, , collection, ...rest] = url.pathname.split("/");
+      const endpoint = rest.join("/");
+      if (!collections.has(collection) && !(method === "PUT" && !endpoint)) {
+        return new Response("Not found", { status: 404 });
+      }
+      if (method === "PUT" && !endpoint) {
+        collections.add(collection);
+      }
+      const result = endpoint === "points/search" ? searchResult : true;
+      return new Response(JSON.stringify({ result, status: "ok" }));
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("creates the collection with the embedding dimension and payload indexes on first write", async () => {
+    await repository.storeChunks([chunk(0), chunk(1)]);
+
+    expect(requests.slice(0, 6)).toEqual([
+      { method: "GET", path: "/collections/raglit", body: undefined },
+      {
+        method: "PUT",
+        path: "/collections/raglit",
+        body: { vectors: { size: 3, distance: "Cosine" } },
+      },
+      ...[
+        ["documentId", "keyword"],
+        ["chunkIndex", "integer"],
+        ["embeddingModel", "keyword"],
+        ["content", { type: "text", tokenizer: "word", lowercase: true }],
+      ].map(([field_name, field_schema]) => ({
+        method: "PUT",
+        path: "/collections/raglit/index?wait=true",
+        body: { field_name, field_schema },
+      })),
+    ]);
+  });
+
+  it("upserts points under IDs derived from the document and chunk index", async () => {
+    const ids = await repository.storeChunks([chunk(0), chunk(1)]);
+
+    expect(ids).toEqual([chunkPointId("guide", 0), chunkPointId("guide", 1)]);
+    const upsert = requests.at(-1)!;
+    expect(upsert.method).toBe("PUT");
+    expect(upsert.path).toBe("/collections/raglit/points?wait=true");
+    expect(upsert.body.points).toEqual(
+      [chunk(0), chunk(1)].map(({ embedding, ...payload }) => ({
+        id: chunkPointId("guide", payload.chunkIndex),
+        vector: embedding,
+        payload: { ...payload, embeddingDimensions: 3 },
+      }))
+    );
+  });
+
+  it("only creates a collection once", async () => {
+    await repository.storeChunk(chunk(0));
+    await repository.storeChunk(chunk(1));
+
+    expect(
+      requests.filter(
+        (request) =>
+          request.method === "PUT" && request.path === "/collections/raglit"
+      )
+    ).toHaveLength(1);
+    expect(requests.at(-1)!.path).toBe("/collections/raglit/points?wait=true");
+  });
+
+  it("does not re-create a collection that already exists", async () => {
+    collections.add("raglit");
+
+    await repository.storeChunk(chunk(0));
+
+    expect(requests.map(({ method, path }) => `${method} ${path}`)).toEqual([
+      "GET /collections/raglit",
+      "PUT /collections/raglit/points?wait=true",
+    ]);
+  });
+
+  it("stores each namespace in a collection of its own, without the namespace in the payload", async () => {
+    await repository.storeChunk({
+      ...chunk(0, [1, 0]),
+      namespace: "papers",
+    });
+
+    const upsert = requests.at(-1)!;
+    expect(upsert.path).toBe("/collections/raglit_ns_papers/points?wait=true");
+    expect(upsert.body.points[0].payload).not.toHaveProperty("namespace");
+    expect(requests[1].body).toEqual({
+      vectors: { size: 2, distance: "Cosine" },
+    });
+  });
+
+  it("searches with the model filter and threshold, and maps scores to similarities", async () => {
+    collections.add("raglit");
+    const { embedding, ...payload } = chunk(0);
+    searchResult = [
+      {
+        id: chunkPointId("guide", 0),
+        score: 0.93,
+        vector: embedding,
+        payload: { ...payload, embeddingDimensions: 3 },
+      },
+    ];
+
+    const results = await repository.searchSimilarChunks(
+      [0.6, 0.8, 0],
+      3,
+      { lang: "en" },
+      0.5,
+      "default",
+      "fake"
+    );
+
+    expect(requests[0]).toEqual({
+      method: "POST",
+      path: "/collections/raglit/points/search",
+      body: {
+        vector: [0.6, 0.8, 0],
+        limit: 3,
+        filter: {
+          must: [
+            {
+              must: [
+                { must: [{ key: "metadata.lang", match: { value: "en" } }] },
+                {
+                  must: [
+                    { key: "embeddingModel", match: { value: "fake" } },
+                    { key: "embeddingDimensions", match: { value: 3 } },
+                  ],
+                },
+              ],
+            },
+          ],
+        },
+        score_threshold: 0.5,
+        with_payload: true,
+        with_vector: true,
+      },
+    });
+    expect(results).toHaveLength(1);
+    expect(results[0]).toMatchObject({
+      id: chunkPointId("guide", 0),
+      namespace: "default",
+      documentId: "guide",
+      similarity: 0.93,
+      startOffset: null,
+      embeddingDimensions: 3,
+    });
+  });
+
+  it("reads a missing collection as empty", async () => {
+    expect(await repository.getDocumentChunks("guide")).toEqual([]);
+    expect(
+      await repository.searchSimilarChunks([1, 0, 0], 5, {}, 0.5, "other")
+    ).toEqual([]);
+    expect(await repository.listNamespaces()).toEqual([]);
+  });
+});
@@ -0,0 +1,79 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { RestApiChunkRepository } from "../../src/repositories/RestApiChunkRepository.js";
+
+describe("RestApiChunkRepository", () => {
+  let repository: RestApiChunkRepository;
+  let requests: URL[];
+
+  beforeEach(() => {
+    repository = new RestApiChunkRepository("http://postgrest.test");
+    requests = [];
+
+    // A chunks table of 2500 rows behind a PostgREST that serves at most 1000 rows per request.
+    const rows = Array.from({ length: 2500 }, (_, chunkIndex) => ({
+      documentId: "big",
+      chunkIndex,
+    }));
+    vi.stubGlobal("fetch", async (input: string) => {
+      const url = new URL(input);
+      requests.push(url);
+      const offset = Number(url.searchParams.get("offset") ?? 0);
+      const limit = Math.min(
+        Number(url.searchParams.get("limit") ?? 1000),
+        1000
+      );
+      const from = Number(
+        url.searchParams.getAll("chunkIndex")[0]?.slice("gte.".length) ?? 0
+      );
+      const matching = rows.filter((row) => row.chunkIndex >= from);
+      return new Response(
+        JSON.stringify(matching.slice(offset, offset + limit))
+      );
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("pages through a document larger than the server's row limit", async () => {
+    const chunks = await repository.getDocumentChunks("big");
+
+    expect(chunks).toHaveLength(2500);
+    expect(chunks.map((chunk) => chunk.chunkIndex)).toEqual(
+      Array.from({ length: 2500 }, (_, index) => index)
+    );
+    expect(requests.map((url) => url.searchParams.get("offset"))).toEqual([
+      "0",
+      "1000",
+      "2000",
+    ]);
+  });
+
+  it("pages through a chunk range", async () => {
+    const chunks = await repository.getChunkRange("big", 1200, 2499);
+
+    expect(chunks).toHaveLength(1300);
+    expect(chunks[0].chunkIndex).toBe(1200);
+    expect(requests).toHaveLength(2);
+  });
+
+  it("pages through a metadata filter up to its limit", async () => {
+    const chunks = await repository.filterChunksByMetadata(
+      { documentId: "big" },
+      2200
+    );
+
+    expect(chunks).toHaveLength(2200);
+    expect(
+      requests.map((url) => [
+        url.searchParams.get("offset"),
+        url.searchParams.get("limit"),
+      ])
+    ).toEqual([
+      ["0", "1000"],
+      ["1000", "1000"],
+      ["2000", "200"],
+    ]);
+  });
+});
@@ -0,0 +1,201 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { SqliteChunkRepository } from "../../src/repositories/SqliteChunkRepository.js";
+import { StoreChunkParams } from "../../src/repositories/ChunkRepository.js";
+
+function chunk(
+  chunkIndex: number,
+  overrides: Partial<StoreChunkParams> = {}
+): StoreChunkParams {
+  return {
+    content: `Chunk ${chunkIndex}`,
+    embedding: [0.6, 0.8, 0],
+    documentId: "guide",
+    chunkIndex,
+    chunkSize: 500,
+    chunkOverlap: 50,
+    chunkStrategy: "recursive",
+    startLine: chunkIndex + 1,
+    endLine: chunkIndex + 1,
+    metadata: { lang: "en" },
+    embeddingModel: "fake",
+    ...overrides,
+  };
+}
+
+describe("SqliteChunkRepository", () => {
+  let directory: string;
+  let file: string;
+  let repository: SqliteChunkRepository;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(path.join(os.tmpdir(), "raglit-sqlite-"));
+    file = path.join(directory, "nested", "chunks.db");
+    repository = new SqliteChunkRepository(file);
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it("upserts on namespace, document and chunk index, keeping the chunk ID", async () => {
+    const [first] = await repository.storeChunks([chunk(0)]);
+    const [replaced, other] = await repository.storeChunks([
+      chunk(0, { content: "Replaced", metadata: { lang: "de" } }),
+      chunk(0, { namespace: "other" }),
+    ]);
+
+    expect(replaced).toBe(first);
+    expect(other).not.toBe(first);
+    expect(await repository.getDocumentChunks("guide")).toEqual([
+      expect.objectContaining({
+        id: first,
+        content: "Replaced",
+        metadata: { lang: "de" },
+      }),
+    ]);
+    expect(await repository.getDocumentChunks("guide", "other")).toEqual([
+      expect.objectContaining({ id: other, content: "Chunk 0" }),
+    ]);
+  });
+
+  it("reloads what it saved from the database file", async () => {
+    const ids = await repository.storeChunks([
+      chunk(1, { embedding: [0.25, -0.5, 1] }),
+      chunk(0),
+    ]);
+    await repository.createNamespace({
+      name: "other",
+      description: "Other documents",
+      embeddingModel: "fake",
+      embeddingDimensions: 3,
+    });
+
+    const reloaded = new SqliteChunkRepository(file);
+    expect(await reloaded.getDocumentChunks("guide")).toEqual([
+      {
+        id: ids[1],
+        namespace: "default",
+        documentId: "guide",
+        content: "Chunk 0",
+        chunkIndex: 0,
+        chunkSize: 500,
+        chunkOverlap: 50,
+        chunkStrategy: "recursive",
+        startOffset: null,
+        endOffset: null,
+        startLine: 1,
+        endLine: 1,
+        metadata: { lang: "en" },
+        embeddingModel: "fake",
+        embeddingDimensions: 3,
+      },
+      expect.objectContaining({ id: ids[0], chunkIndex: 1 }),
+    ]);
+    const [match] = await reloaded.searchSimilarChunks(
+      [0.25, -0.5, 1],
+      1,
+      {},
+      0.99
+    );
+    expect(match).toMatchObject({ id: ids[0], similarity: expect.closeTo(1) });
+    expect(await reloaded.listNamespaces()).toContainEqual(
+      expect.objectContaining({ name: "other", embeddingDimensions: 3 })
+    );
+  });
+
+  it("deletes a document's chunks from a chunk index onwards", async () => {
+    await repository.storeChunks([0, 1, 2, 3].map((index) => chunk(index)));
+    await repository.storeChunks([chunk(2, { namespace: "other" })]);
+
+    expect(await repository.deleteDocumentChunks("guide", 2)).toBe(2);
+    expect(
+      (await repository.getDocumentChunks("guide")).map((c) => c.chunkIndex)
+    ).toEqual([0, 1]);
+    expect(await repository.getDocumentChunks("guide", "other")).toHaveLength(
+      1
+    );
+
+    expect(await repository.deleteDocumentChunks("guide", 5)).toBe(0);
+    expect(await repository.deleteDocumentChunks("guide")).toBe(2);
+    expect(
+      await new SqliteChunkRepository(file).getDocumentChunks("guide")
+    ).toEqual([]);
+  });
+
+  describe("searches", () => {
+    beforeEach(async () => {
+      await repository.storeChunks([
+        chunk(0, { content: "Install the server", metadata: { lang: "en" } }),
+        chunk(1, {
+          content: "Den Server installieren",
+          embedding: [0, 0, 1],
+          metadata: { lang: "de" },
+        }),
+        chunk(0, {
+          namespace: "other",
+          content: "Install the client",
+          metadata: { lang: "en" },
+        }),
+      ]);
+    });
+
+    it("filters by metadata within a namespace", async () => {
+      expect(
+        (await repository.filterChunksByMetadata({ lang: "en" })).map(
+          (c) => c.content
+        )
+      ).toEqual(["Install the server"]);
+      expect(
+        (
+          await repository.filterChunksByMetadata({ lang: "en" }, 10, "other")
+        ).map((c) => c.content)
+      ).toEqual(["Install the client"]);
+      expect(
+        await repository.filterChunksByMetadata({ lang: "de" }, 10, "other")
+      ).toEqual([]);
+    });
+
+    it("searches keywords within a namespace", async () => {
+      expect(
+        (await repository.searchKeywordChunks("install")).map((c) => c.content)
+      ).toEqual(["Install the server"]);
+      expect(
+        (await repository.searchKeywordChunks("install", 5, {}, "other")).map(
+          (c) => c.content
+        )
+      ).toEqual(["Install the client"]);
+    });
+
+    it("searches by similarity within a namespace, model and filter", async () => {
+      const query = [0.6, 0.8, 0];
+      expect(
+        (await repository.searchSimilarChunks(query, 5, {}, 0.5)).map(
+          (c) => c.content
+        )
+      ).toEqual(["Install the server"]);
+      expect(
+        (await repository.searchSimilarChunks(query, 5, {}, 0, "other")).map(
+          (c) => c.content
+        )
+      ).toEqual(["Install the client"]);
+      expect(
+        (await repository.searchSimilarChunks(query, 5, { lang: "de" }, 0)).map(
+          (c) => c.content
+        )
+      ).toEqual(["Den Server installieren"]);
+      expect(
+        await repository.searchSimilarChunks(
+          query,
+          5,
+          {},
+          0,
+          "default",
+          "other-model"
+        )
+      ).toEqual([]);
+    });
+  });
+});
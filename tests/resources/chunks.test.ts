@@ -0,0 +1,68 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+  connectClient,
+  createTestDependencies,
+  storeDocument,
+} from "../helpers.js";
+
+describe("chunk resources", () => {
+  let dependencies: ReturnType<typeof createTestDependencies>;
+  let client: Client;
+
+  beforeEach(async () => {
+    dependencies = createTestDependencies();
+    client = await connectClient(dependencies);
+  });
+
+  afterEach(async () => {
+    await client.close();
+  });
+
+  it("reads a chunk by its ID", async () => {
+    await storeDocument(dependencies, "faq", ["first", "second"], {
+      source: "/docs/faq.md",
+    });
+    const [, second] = await dependencies.repository.getDocumentChunks("faq");
+
+    const { contents } = await client.readResource({
+      uri: `raglit://default/chunks/${second.id}`,
+    });
+
+    expect(JSON.parse(contents[0].text as string)).toMatchObject({
+      id: second.id,
+      documentId: "faq",
+      chunkIndex: 1,
+      content: "second",
+      metadata: { source: "/docs/faq.md" },
+      document: "raglit://default/documents/faq",
+    });
+  });
+
+  it("rejects unknown chunk IDs", async () => {
+    await expect(
+      client.readResource({ uri: "raglit://default/chunks/missing" })
+    ).rejects.toThrow(/no chunk of namespace "default" has the ID "missing"/);
+  });
+
+  it("reads a chunk of another namespace", async () => {
+    await dependencies.namespaces.create({ name: "papers" });
+    const { repository } = await dependencies.namespaces.open("papers");
+    await storeDocument({ ...dependencies, repository }, "faq", ["scoped"]);
+    const [chunk] = await repository.getDocumentChunks("faq");
+
+    const { contents } = await client.readResource({
+      uri: `raglit://papers/chunks/${chunk.id}`,
+    });
+
+    expect(JSON.parse(contents[0].text as string)).toMatchObject({
+      id: chunk.id,
+      namespace: "papers",
+      content: "scoped",
+      document: "raglit://papers/documents/faq",
+    });
+    await expect(
+      client.readResource({ uri: `raglit://default/chunks/${chunk.id}` })
+    ).rejects.toThrow(/no chunk of namespace "default"/);
+  });
+});
@@ -0,0 +1,148 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+  connectClient,
+  createTestDependencies,
+  storeDocument,
+} from "../helpers.js";
+
+describe("document resources", () => {
+  let dependencies: ReturnType<typeof createTestDependencies>;
+  let client: Client;
+
+  beforeEach(async () => {
+    dependencies = createTestDependencies();
+    client = await connectClient(dependencies);
+  });
+
+  afterEach(async () => {
+    await client.close();
+  });
+
+  it("lists every document as a resource", async () => {
+    await storeDocument(dependencies, "guides/setup.md", ["one", "two"]);
+    await storeDocument(dependencies, "faq", ["three"]);
+
+    const { resources } = await client.listResources();
+
+    expect(resources.map((resource) => resource.uri).sort()).toEqual([
+      "raglit://default/documents",
+      "raglit://default/documents/faq",
+      "raglit://default/documents/guides%2Fsetup.md",
+    ]);
+    expect(
+      resources.find((resource) => resource.name === "guides/setup.md")
+    ).toMatchObject({
+      uri: "raglit://default/documents/guides%2Fsetup.md",
+      mimeType: "application/json",
+    });
+  });
+
+  it("reads the list of documents", async () => {
+    await storeDocument(dependencies, "faq", ["one", "two"]);
+
+    const { contents } = await client.readResource({
+      uri: "raglit://default/documents",
+    });
+
+    expect(JSON.parse(contents[0].text as string)).toEqual({
+      namespace: "default",
+      documents: [
+        {
+          documentId: "faq",
+          chunkCount: 2,
+          chunkStrategies: ["recursive"],
+          uri: "raglit://default/documents/faq",
+        },
+      ],
+    });
+  });
+
+  it("reads a document reassembled from its chunks", async () => {
+    await storeDocument(dependencies, "guides/setup.md", ["one", "two"]);
+
+    const { contents } = await client.readResource({
+      uri: "raglit://default/documents/guides%2Fsetup.md",
+    });
+    const document = JSON.parse(contents[0].text as string);
+
+    expect(document.documentId).toBe("guides/setup.md");
+    expect(document.chunkCount).toBe(2);
+    expect(document.content).toContain("one");
+    expect(document.content).toContain("two");
+    expect(document.chunks).toHaveLength(2);
+    expect(document.chunks[0].uri).toBe(
+      `raglit://default/chunks/${document.chunks[0].id}`
+    );
+  });
+
+  it("rejects documents without chunks", async () => {
+    await expect(
+      client.readResource({ uri: "raglit://default/documents/missing" })
+    ).rejects.toThrow(/document "missing" has no chunks stored/);
+  });
+
+  it("completes document IDs", async () => {
+    await storeDocument(dependencies, "guides/setup.md", ["one"]);
+    await storeDocument(dependencies, "guides/usage.md", ["two"]);
+    await storeDocument(dependencies, "faq", ["three"]);
+
+    const { completion } = await client.complete({
+      ref: {
+        type: "ref/resource",
+        uri: "raglit://{namespace}/documents/{documentId}",
+      },
+      argument: { name: "documentId", value: "guides/" },
+    });
+
+    expect(completion.values.sort()).toEqual([
+      "guides/setup.md",
+      "guides/usage.md",
+    ]);
+  });
+
+  it("lists and reads the documents of other namespaces", async () => {
+    await dependencies.namespaces.create({ name: "papers" });
+    const { repository } = await dependencies.namespaces.open("papers");
+    await storeDocument({ ...dependencies, repository }, "faq", ["scoped"]);
+    await storeDocument(dependencies, "faq", ["default"]);
+
+    const { resources } = await client.listResources();
+    expect(resources.map((resource) => resource.uri).sort()).toEqual([
+      "raglit://default/documents",
+      "raglit://default/documents/faq",
+      "raglit://papers/documents",
+      "raglit://papers/documents/faq",
+    ]);
+
+    const { contents } = await client.readResource({
+      uri: "raglit://papers/documents/faq",
+    });
+    const document = JSON.parse(contents[0].text as string);
+    expect(document).toMatchObject({
+      namespace: "papers",
+      documentId: "faq",
+      content: "scoped",
+    });
+    expect(document.chunks[0].uri).toBe(
+      `raglit://papers/chunks/${document.chunks[0].id}`
+    );
+  });
+
+  it("rejects unknown namespaces", async () => {
+    await expect(
+      client.readResource({ uri: "raglit://missing/documents" })
+    ).rejects.toThrow(/Namespace "missing" does not exist/);
+  });
+
+  it("completes namespace names", async () => {
+    await dependencies.namespaces.create({ name: "papers" });
+
+    const { completion } = await client.complete({
+      ref: { type: "ref/resource", uri: "raglit://{namespace}/documents" },
+      argument: { name: "namespace", value: "pa" },
+    });
+
+    expect(completion.values).toEqual(["papers"]);
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, expect, it } from "vitest";
+import {
+  capPerDocument,
+  cosineSimilarity,
+  maximalMarginalRelevance,
+  parseEmbedding,
+} from "../../src/search/mmr.js";
+
+// Two near-duplicate passages of one document, a distinct one of the same document and one of another.
+const CANDIDATES = [
+  { id: "a0", documentId: "a", embedding: [1, 0, 0], embeddingModel: "fake" },
+  {
+    id: "a1",
+    documentId: "a",
+    embedding: [0.99, 0.1, 0],
+    embeddingModel: "fake",
+  },
+  { id: "a2", documentId: "a", embedding: [0, 1, 0], embeddingModel: "fake" },
+  { id: "b0", documentId: "b", embedding: "[0,0,1]", embeddingModel: "fake" },
+];
+const RELEVANCE = [0.9, 0.85, 0.5, 0.4];
+
+function ids(chunks: any[]): string[] {
+  return chunks.map((chunk) => chunk.id);
+}
+
+describe("maximalMarginalRelevance", () => {
+  it("picks by relevance alone when lambda is 1", () => {
+    const selected = maximalMarginalRelevance(CANDIDATES, RELEVANCE, {
+      limit: 4,
+      lambda: 1,
+    });
+    expect(ids(selected)).toEqual(["a0", "a1", "a2", "b0"]);
+    expect(selected.map((chunk) => chunk.mmrScore)).toEqual(RELEVANCE);
+  });
+
+  it("picks by novelty alone when lambda is 0", () => {
+    const selected = maximalMarginalRelevance(CANDIDATES, RELEVANCE, {
+      limit: 4,
+      lambda: 0,
+    });
+    // The first pick ties at 0 and keeps candidate order; the near-duplicate of it comes last.
+    expect(ids(selected)).toEqual(["a0", "a2", "b0", "a1"]);
+    expect(selected[0].mmrScore).toBe(0);
+    expect(selected[3].mmrScore).toBeCloseTo(
+      -cosineSimilarity([1, 0, 0], [0.99, 0.1, 0])
+    );
+  });
+
+  it("pushes near-duplicates down when balancing relevance and novelty", () => {
+    const selected = maximalMarginalRelevance(CANDIDATES, RELEVANCE, {
+      limit: 2,
+      lambda: 0.5,
+    });
+    expect(ids(selected)).toEqual(["a0", "a2"]);
+  });
+
+  it("applies the per-document cap while selecting", () => {
+    const selected = maximalMarginalRelevance(CANDIDATES, RELEVANCE, {
+      limit: 4,
+      lambda: 1,
+      maxPerDocument: 1,
+    });
+    expect(ids(selected)).toEqual(["a0", "b0"]);
+  });
+
+  it("does not compare embeddings of different models or dimensions", () => {
+    const candidates = [
+      CANDIDATES[0],
+      { ...CANDIDATES[1], embeddingModel: "old" },
+      { ...CANDIDATES[2], embedding: [1, 0] },
+    ];
+    const selected = maximalMarginalRelevance(candidates, [0.9, 0.85, 0.5], {
+      limit: 3,
+      lambda: 0,
+    });
+    expect(selected.map((chunk) => chunk.mmrScore)).toEqual([0, 0, 0]);
+  });
+});
+
+describe("capPerDocument", () => {
+  const chunks = [
+    { id: "a0", documentId: "a" },
+    { id: "b0", documentId: "b" },
+    { id: "a1", documentId: "a" },
+    { id: "a2", documentId: "a" },
+    { id: "b1", documentId: "b" },
+  ];
+
+  it("keeps at most the cap per document, in the original order", () => {
+    expect(ids(capPerDocument(chunks, 1))).toEqual(["a0", "b0"]);
+    expect(ids(capPerDocument(chunks, 2))).toEqual(["a0", "b0", "a1", "b1"]);
+  });
+
+  it("keeps every chunk when the cap is not reached", () => {
+    expect(capPerDocument(chunks, 3)).toEqual(chunks);
+    expect(capPerDocument([], 1)).toEqual([]);
+  });
+});
+
+describe("parseEmbedding", () => {
+  it("reads arrays and pgvector strings, and rejects anything else", () => {
+    expect(parseEmbedding([0.1, 0.2])).toEqual([0.1, 0.2]);
+    expect(parseEmbedding("[0.1,0.2]")).toEqual([0.1, 0.2]);
+    expect(parseEmbedding("[0.1,")).toBeUndefined();
+    expect(parseEmbedding(["0.1"])).toBeUndefined();
+    expect(parseEmbedding(undefined)).toBeUndefined();
+  });
+});
@@ -0,0 +1,148 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { HttpReranker } from "../../src/search/httpReranker.js";
+import { LexicalReranker } from "../../src/search/lexicalReranker.js";
+import { HttpError } from "../../src/utils/errors.js";
+import { RetryPolicy } from "../../src/utils/retry.js";
+
+const DOCUMENTS = [
+  "Postgres stores rows in tables.",
+  "Cats sleep most of the day.",
+  "A sleeping cat purrs.",
+];
+
+describe("LexicalReranker", () => {
+  const reranker = new LexicalReranker();
+
+  it("scores passages by their overlap with the query, in input order", async () => {
+    const scores = await reranker.rerank("cats sleep", DOCUMENTS);
+    expect(scores).toHaveLength(3);
+    expect(scores[0]).toBe(0);
+    expect(scores[1]).toBeGreaterThan(scores[2]);
+    for (const score of scores) {
+      expect(score).toBeGreaterThanOrEqual(0);
+      expect(score).toBeLessThanOrEqual(1);
+    }
+  });
+
+  it("scores every passage 0 for a query without words", async () => {
+    expect(await reranker.rerank("?!", DOCUMENTS)).toEqual([0, 0, 0]);
+    expect(await reranker.rerank("cats", [])).toEqual([]);
+  });
+});
+
+describe("HttpReranker", () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    fetchMock = vi.fn();
+    vi.stubGlobal("fetch", fetchMock);
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  function respond(status: number, body: unknown) {
+    fetchMock.mockResolvedValueOnce(
+      new Response(JSON.stringify(body), {
+        status,
+        headers: { "Content-Type": "application/json" },
+      })
+    );
+  }
+
+  it("posts the query and documents and maps scores back to input order", async () => {
+    respond(200, {
+      results: [
+        { index: 2, relevance_score: 0.9 },
+        { index: 0, relevance_score: 0.1 },
+        { index: 1, relevance_score: 0.5 },
+      ],
+    });
+    const reranker = new HttpReranker({
+      baseUrl: "http://rerank.test/",
+      apiKey: "secret",
+      model: "bge-reranker",
+    });
+
+    expect(await reranker.rerank("cats", DOCUMENTS)).toEqual([0.1, 0.5, 0.9]);
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe("http://rerank.test/rerank");
+    expect(init.headers.Authorization).toBe("Bearer secret");
+    expect(JSON.parse(init.body)).toEqual({
+      model: "bge-reranker",
+      query: "cats",
+      documents: DOCUMENTS,
+    });
+  });
+
+  it("does not call the API without documents", async () => {
+    const reranker = new HttpReranker({
+      baseUrl: "http://rerank.test",
+      model: "bge-reranker",
+    });
+    expect(await reranker.rerank("cats", [])).toEqual([]);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("throws an HttpError with the API's message when the request fails", async () => {
+    respond(401, { error: { message: "Invalid API key" } });
+    const reranker = new HttpReranker({
+      baseUrl: "http://rerank.test",
+      model: "bge-reranker",
+    });
+
+    const error = await reranker.rerank("cats", DOCUMENTS).catch((e) => e);
+    expect(error).toBeInstanceOf(HttpError);
+    expect(error).toMatchObject({
+      status: 401,
+      message: "Rerank API error (401): Invalid API key",
+    });
+  });
+
+  it("rejects results that do not score every document once", async () => {
+    respond(200, {
+      results: [
+        { index: 0, relevance_score: 0.1 },
+        { index: 0, relevance_score: 0.2 },
+        { index: 1, relevance_score: 0.5 },
+      ],
+    });
+    const reranker = new HttpReranker({
+      baseUrl: "http://rerank.test",
+      model: "bge-reranker",
+    });
+    await expect(reranker.rerank("cats", DOCUMENTS)).rejects.toThrow(
+      "Invalid response structure from rerank API."
+    );
+  });
+
+  it("falls back to another reranker once retries are exhausted", async () => {
+    respond(503, { detail: "Overloaded" });
+    respond(503, { detail: "Overloaded" });
+    const fallback = new LexicalReranker();
+    const reranker = new HttpReranker({
+      baseUrl: "http://rerank.test",
+      model: "bge-reranker",
+      retryPolicy: new RetryPolicy({
+        maxRetries: 1,
+        baseDelayMs: 1,
+        maxDelayMs: 1,
+        circuitBreakerThreshold: 5,
+        circuitBreakerResetMs: 1000,
+      }),
+      fallback,
+    });
+
+    expect(await reranker.rerank("cats sleep", DOCUMENTS)).toEqual(
+      await fallback.rerank("cats sleep", DOCUMENTS)
+    );
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(console.error).toHaveBeenCalledWith(
+      "Rerank request failed, falling back to lexical reranking:",
+      "Rerank API error (503): Overloaded"
+    );
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import { createChunker } from "../../src/chunkers/chunker.js";
+import { InMemoryChunkRepository } from "../../src/repositories/InMemoryChunkRepository.js";
+import {
+  IngestionError,
+  IngestionPipeline,
+} from "../../src/services/ingestion.js";
+import { WordTokenizer } from "../../src/tokenizers/wordTokenizer.js";
+import { FakeEmbeddingProvider } from "../helpers.js";
+
+const DETAILS = { chunkSize: 10, chunkOverlap: 0, chunkStrategy: "fixed-size" };
+
+function createPipeline(repository: InMemoryChunkRepository) {
+  return new IngestionPipeline(repository, new FakeEmbeddingProvider(), {
+    batchSize: 1,
+    concurrency: 1,
+    maxTokensPerRequest: 1000,
+    maxInputTokens: 1000,
+    tokenizer: new WordTokenizer(),
+  });
+}
+
+const CHUNKS = createChunker("fixed-size", DETAILS).chunk(
+  Array.from({ length: 30 }, (_, index) => `word${index}`).join(" ")
+);
+
+describe("IngestionPipeline", () => {
+  it("resumes from the first chunk a failed run did not store", async () => {
+    const repository = new InMemoryChunkRepository();
+    const error = await createPipeline(repository)
+      .ingest("doc", CHUNKS, DETAILS, false, {
+        onProgress: ({ storedChunks }) => {
+          if (storedChunks === 2) {
+            throw new Error("Progress consumer gone");
+          }
+        },
+      })
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(IngestionError);
+    expect(error.report).toMatchObject({
+      storedChunks: 2,
+      failedChunkIndexes: [2],
+      resumeFrom: 2,
+    });
+  });
+
+  it("has nothing to resume from when every chunk was stored before the run failed", async () => {
+    const repository = new InMemoryChunkRepository();
+    const error = await createPipeline(repository)
+      .ingest("doc", CHUNKS, DETAILS, false, {
+        onProgress: ({ storedChunks, totalChunks }) => {
+          if (storedChunks === totalChunks) {
+            throw new Error("Progress consumer gone");
+          }
+        },
+      })
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(IngestionError);
+    expect(error.report).toMatchObject({
+      storedChunks: 3,
+      failedChunkIndexes: [],
+    });
+    expect(error.report.resumeFrom).toBeUndefined();
+    expect(JSON.parse(JSON.stringify(error.report))).not.toHaveProperty(
+      "resumeFrom"
+    );
+    expect(await repository.getDocumentChunks("doc")).toHaveLength(3);
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import { CHUNK_STRATEGIES, createChunker } from "../../src/chunkers/chunker.js";
+import { BpeTokenizer } from "../../src/tokenizers/bpeTokenizer.js";
+import { getTokenizer } from "../../src/tokenizers/tokenizer.js";
+
+const TEXT = Array.from(
+  { length: 30 },
+  (_, i) =>
+    `Internationalization ${i} requires unbelievably comprehensive documentation.\n\n  Tabs\there.`
+).join(" ");
+
+describe("BpeTokenizer", () => {
+  const tokenizer = new BpeTokenizer("cl100k_base");
+
+  it("counts cl100k_base tokens", () => {
+    expect(tokenizer.name).toBe("cl100k_base");
+    expect(tokenizer.count("hello world")).toBe(2);
+    expect(tokenizer.count("tiktoken is great!")).toBe(6);
+    expect(tokenizer.count("")).toBe(0);
+  });
+
+  it("counts special-token markers as plain text", () => {
+    expect(tokenizer.count("<|endoftext|>")).toBe(7);
+  });
+
+  it("segments text into contiguous pieces whose counts add up to the whole", () => {
+    const text = "Hello, world! 12345 tokens\n\nand more.";
+    const segments = tokenizer.segment(text);
+    expect(segments[0].start).toBe(0);
+    expect(segments[segments.length - 1].end).toBe(text.length);
+    for (let i = 1; i < segments.length; i++) {
+      expect(segments[i].start).toBe(segments[i - 1].end);
+    }
+    expect(segments.reduce((sum, segment) => sum + segment.tokens, 0)).toBe(
+      tokenizer.count(text)
+    );
+  });
+
+  it("cuts pieces longer than the token limit at character boundaries", () => {
+    const text = "日本語のテキストはとても長いです";
+    const segments = tokenizer.segment(text, 0, text.length, 3);
+    expect(segments.length).toBeGreaterThan(1);
+    expect(
+      segments.map(({ start, end }) => text.slice(start, end)).join("")
+    ).toBe(text);
+    for (const segment of segments) {
+      expect(segment.tokens).toBeLessThanOrEqual(3);
+      expect(tokenizer.count(text.slice(segment.start, segment.end))).toBe(
+        segment.tokens
+      );
+    }
+  });
+
+  it("only segments the requested range", () => {
+    const segments = tokenizer.segment("skip this part", 5, 9);
+    expect(segments).toEqual([{ start: 5, end: 9, tokens: 1 }]);
+  });
+});
+
+describe.each(CHUNK_STRATEGIES)(
+  "%s chunks measured in cl100k_base tokens",
+  (strategy) => {
+    const tokenizer = getTokenizer("cl100k_base");
+
+    it("stay within the token budget", () => {
+      const chunks = createChunker(strategy, {
+        chunkSize: 20,
+        chunkOverlap: 4,
+        tokenizer,
+      }).chunk(TEXT);
+      expect(chunks.length).toBeGreaterThan(1);
+      for (const chunk of chunks) {
+        expect(tokenizer.count(chunk.content)).toBeLessThanOrEqual(20);
+      }
+    });
+
+    it("hold fewer words than the same budget in words", () => {
+      const options = { chunkSize: 20, chunkOverlap: 4 };
+      const bpe = createChunker(strategy, { ...options, tokenizer }).chunk(
+        TEXT
+      );
+      const words = createChunker(strategy, options).chunk(TEXT);
+      expect(bpe.length).toBeGreaterThan(words.length);
+      expect(
+        Math.max(...bpe.map((chunk) => chunk.metadata.word_count))
+      ).toBeLessThan(20);
+    });
+  }
+);
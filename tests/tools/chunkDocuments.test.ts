@@ -0,0 +1,225 @@
+import { CallToolResultSchema } from "@modelcontextprotocol/sdk/types.js";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createChunkDocumentTool } from "../../src/tools/chunkDocuments.js";
+import { ToolRequestContext } from "../../src/tools/progress.js";
+import { callTool, connectClient, createTestDependencies } from "../helpers.js";
+
+const DOCUMENT = Array.from({ length: 30 }, (_, index) => `word${index}`).join(
+  " "
+);
+
+describe("chunk_document", () => {
+  let dependencies: ReturnType<typeof createTestDependencies>;
+  let tool: ReturnType<typeof createChunkDocumentTool>;
+
+  beforeEach(() => {
+    dependencies = createTestDependencies();
+    tool = createChunkDocumentTool(dependencies);
+  });
+
+  it("chunks, embeds and stores a document", async () => {
+    const { body, isError } = await callTool(tool, {
+      content: DOCUMENT,
+      documentId: "doc",
+      chunkSize: 10,
+      chunkOverlap: 0,
+      metadata: { source: "test" },
+    });
+
+    expect(isError).toBe(false);
+    expect(body).toMatchObject({
+      success: true,
+      documentId: "doc",
+      chunks: 3,
+      stored: 3,
+      skipped: 0,
+      removed: 0,
+    });
+    expect(body.chunkIds).toHaveLength(3);
+
+    const stored = await dependencies.repository.getDocumentChunks("doc");
+    expect(stored.map((chunk) => chunk.id)).toEqual(body.chunkIds);
+    expect(stored[0]).toMatchObject({
+      chunkIndex: 0,
+      chunkSize: 10,
+      chunkStrategy: "fixed-size",
+      metadata: { source: "test" },
+    });
+    expect(dependencies.embeddingProvider.embedded).toHaveLength(3);
+  });
+
+  it("replaces the chunks of a re-ingested document", async () => {
+    await callTool(tool, {
+      content: DOCUMENT,
+      documentId: "doc",
+      chunkSize: 10,
+      chunkOverlap: 0,
+    });
+    const { body } = await callTool(tool, {
+      content: "a much shorter document",
+      documentId: "doc",
+      chunkSize: 10,
+      chunkOverlap: 0,
+    });
+
+    expect(body).toMatchObject({ success: true, stored: 1, removed: 2 });
+    const stored = await dependencies.repository.getDocumentChunks("doc");
+    expect(stored.map((chunk) => chunk.content)).toEqual([
+      "a much shorter document",
+    ]);
+  });
+
+  it("reports partial progress when embedding fails, and resumes", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    dependencies.embeddingProvider.failOn = "word20";
+    const args = {
+      content: DOCUMENT,
+      documentId: "doc",
+      chunkSize: 10,
+      chunkOverlap: 0,
+    };
+    dependencies.config.ingestion.batchSize = 1;
+    dependencies.config.ingestion.concurrency = 1;
+    tool = createChunkDocumentTool(dependencies);
+
+    const failed = await callTool(tool, args);
+    expect(failed.isError).toBe(true);
+    expect(failed.body).toMatchObject({
+      success: false,
+      documentId: "doc",
+      stored: 2,
+      failedChunkIndexes: [2],
+      resumeFrom: 2,
+    });
+    expect(failed.body.error).toContain("word20");
+
+    dependencies.embeddingProvider.failOn = undefined;
+    const resumed = await callTool(tool, { ...args, resume: true });
+    expect(resumed.body).toMatchObject({
+      success: true,
+      stored: 1,
+      skipped: 2,
+    });
+  });
+
+  it("re-stores unchanged chunks on resume when their metadata changed", async () => {
+    const args = {
+      content: DOCUMENT,
+      documentId: "doc",
+      chunkSize: 10,
+      chunkOverlap: 0,
+      metadata: { version: 1 },
+      resume: true,
+    };
+    await callTool(tool, args);
+
+    const same = await callTool(tool, args);
+    expect(same.body).toMatchObject({ stored: 0, skipped: 3 });
+
+    const changed = await callTool(tool, { ...args, metadata: { version: 2 } });
+    expect(changed.body).toMatchObject({ stored: 3, skipped: 0 });
+    const [chunk] = await dependencies.repository.getDocumentChunks("doc");
+    expect(chunk.metadata.version).toBe(2);
+  });
+
+  it("sends a progress notification after each stored batch", async () => {
+    dependencies.config.ingestion.batchSize = 1;
+    dependencies.config.ingestion.concurrency = 1;
+    const client = await connectClient(dependencies);
+    const onprogress = vi.fn();
+
+    try {
+      await client.callTool(
+        {
+          name: "chunk_document",
+          arguments: {
+            content: DOCUMENT,
+            documentId: "doc",
+            chunkSize: 10,
+            chunkOverlap: 0,
+          },
+        },
+        CallToolResultSchema,
+        { onprogress }
+      );
+    } finally {
+      await client.close();
+    }
+
+    expect(onprogress.mock.calls.map(([progress]) => progress)).toEqual([
+      {
+        progress: 1,
+        total: 3,
+        message: "Stored 1 of 3 chunks of document doc",
+      },
+      {
+        progress: 2,
+        total: 3,
+        message: "Stored 2 of 3 chunks of document doc",
+      },
+      {
+        progress: 3,
+        total: 3,
+        message: "Stored 3 of 3 chunks of document doc",
+      },
+    ]);
+  });
+
+  it("stops when the request is cancelled, leaving a resumable state", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    dependencies.config.ingestion.batchSize = 1;
+    dependencies.config.ingestion.concurrency = 1;
+    tool = createChunkDocumentTool(dependencies);
+    const args = tool.schema.parse({
+      content: DOCUMENT,
+      documentId: "doc",
+      chunkSize: 10,
+      chunkOverlap: 0,
+    });
+
+    // Cancel while the second batch is being embedded.
+    const controller = new AbortController();
+    const embedBatch = dependencies.embeddingProvider.embedBatch.bind(
+      dependencies.embeddingProvider
+    );
+    vi.spyOn(dependencies.embeddingProvider, "embedBatch").mockImplementation(
+      async (texts) => {
+        if (dependencies.embeddingProvider.embedded.length === 1) {
+          controller.abort();
+        }
+        return embedBatch(texts);
+      }
+    );
+
+    const result = await tool.handler(args, {
+      signal: controller.signal,
+      sendNotification: vi.fn(),
+    } as unknown as ToolRequestContext);
+
+    expect(result.isError).toBe(true);
+    expect(JSON.parse(result.content[0].text)).toMatchObject({
+      success: false,
+      cancelled: true,
+      stored: 1,
+      failedChunkIndexes: [1, 2],
+      resumeFrom: 1,
+    });
+    expect(await dependencies.repository.getDocumentChunks("doc")).toHaveLength(
+      1
+    );
+
+    vi.mocked(dependencies.embeddingProvider.embedBatch).mockRestore();
+    const resumed = await callTool(tool, { ...args, resume: true });
+    expect(resumed.body).toMatchObject({
+      success: true,
+      stored: 2,
+      skipped: 1,
+    });
+  });
+
+  it("rejects an empty document", () => {
+    expect(() => tool.schema.parse({ content: "", documentId: "doc" })).toThrow(
+      "Document content is required"
+    );
+  });
+});
@@ -0,0 +1,50 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createDeleteDocumentTool } from "../../src/tools/deleteDocument.js";
+import { callTool, createTestDependencies, storeDocument } from "../helpers.js";
+
+describe("delete_document", () => {
+  let dependencies: ReturnType<typeof createTestDependencies>;
+  let tool: ReturnType<typeof createDeleteDocumentTool>;
+
+  beforeEach(() => {
+    dependencies = createTestDependencies();
+    tool = createDeleteDocumentTool(dependencies);
+  });
+
+  it("deletes every chunk of the document", async () => {
+    await storeDocument(dependencies, "doc", ["one", "two"]);
+    await storeDocument(dependencies, "other", ["three"]);
+
+    const { body, isError } = await callTool(tool, { documentId: "doc" });
+
+    expect(isError).toBe(false);
+    expect(body).toEqual({
+      success: true,
+      documentId: "doc",
+      deletedChunks: 2,
+    });
+    expect(await dependencies.repository.getDocumentChunks("doc")).toEqual([]);
+    expect(
+      await dependencies.repository.getDocumentChunks("other")
+    ).toHaveLength(1);
+  });
+
+  it("succeeds with zero deleted chunks for an unknown document", async () => {
+    const { body, isError } = await callTool(tool, { documentId: "missing" });
+
+    expect(isError).toBe(false);
+    expect(body.deletedChunks).toBe(0);
+  });
+
+  it("reports repository errors", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.spyOn(dependencies.repository, "deleteDocumentChunks").mockRejectedValue(
+      new Error("store unavailable")
+    );
+
+    const { body, isError } = await callTool(tool, { documentId: "doc" });
+
+    expect(isError).toBe(true);
+    expect(body.error).toBe("store unavailable");
+  });
+});
@@ -0,0 +1,120 @@
+import { appendFile, mkdtemp, readdir, rm } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { embeddingModelId } from "../../src/services/embedding.js";
+import {
+  EmbeddingCache,
+  openEmbeddingCache,
+} from "../../src/services/embeddingCache.js";
+import { createEmbeddingCacheTool } from "../../src/tools/embeddingCache.js";
+import { callTool, createTestDependencies } from "../helpers.js";
+
+describe("embedding_cache", () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(path.join(os.tmpdir(), "raglit-cache-"));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it("reports the cache statistics and clears the cache", async () => {
+    const dependencies = createTestDependencies({
+      EMBEDDING_CACHE_DIR: directory,
+    });
+    const tool = createEmbeddingCacheTool(dependencies);
+    const cache = openEmbeddingCache(
+      directory,
+      embeddingModelId(dependencies.config.embedding),
+      dependencies.config.embedding.cacheMaxEntries
+    );
+    await cache.setMany(["one", "two"], [[1], [2]]);
+
+    const stats = await callTool(tool);
+    expect(stats.isError).toBe(false);
+    expect(stats.body.stats).toMatchObject({
+      model: "local-hash@256",
+      entries: 2,
+    });
+
+    const cleared = await callTool(tool, { action: "clear" });
+    expect(cleared.body).toMatchObject({
+      success: true,
+      cleared: 2,
+      stats: { entries: 0 },
+    });
+  });
+
+  it("keeps the caches of other models in the same directory", async () => {
+    const small = openEmbeddingCache(directory, "small-a", 10);
+    await small.setMany(["one"], [[1]]);
+    const large = openEmbeddingCache(directory, "large-a", 10);
+    await large.setMany(["two"], [[2]]);
+
+    expect(await readdir(directory)).toHaveLength(2);
+    expect(await small.getMany(["one"])).toEqual([[1]]);
+  });
+
+  it("defaults to at most 10000 entries", () => {
+    expect(createTestDependencies().config.embedding.cacheMaxEntries).toBe(
+      10000
+    );
+  });
+
+  it("keeps only the most recent entries of a file larger than the cache", async () => {
+    const writer = new EmbeddingCache(directory, "model", 10);
+    await writer.setMany(
+      ["one", "two", "three", "four", "five"],
+      [[1], [2], [3], [4], [5]]
+    );
+    const [file] = await readdir(directory);
+    await appendFile(path.join(directory, file), '{"key":"cut sh');
+
+    const reader = new EmbeddingCache(directory, "model", 2);
+    expect(await reader.getMany(["one", "four", "five"])).toEqual([
+      undefined,
+      [4],
+      [5],
+    ]);
+    expect(await reader.stats()).toMatchObject({ entries: 2, evictions: 3 });
+  });
+
+  it("prunes the caches of models no namespace uses", async () => {
+    const dependencies = createTestDependencies({
+      EMBEDDING_CACHE_DIR: directory,
+    });
+    await dependencies.namespaces.create({
+      name: "papers",
+      embeddingDimensions: 64,
+    });
+    const tool = createEmbeddingCacheTool(dependencies);
+    for (const model of ["local-hash@256", "local-hash@64", "retired@8"]) {
+      await openEmbeddingCache(directory, model, 10).setMany(["one"], [[1]]);
+    }
+
+    const { body } = await callTool(tool, { action: "prune" });
+
+    expect(body.success).toBe(true);
+    expect(body.pruned).toEqual([expect.stringMatching(/^retired_8-/)]);
+    expect((await readdir(directory)).sort()).toEqual([
+      expect.stringMatching(/^local-hash_256-/),
+      expect.stringMatching(/^local-hash_64-/),
+    ]);
+    expect(
+      await openEmbeddingCache(directory, "retired@8", 10).getMany(["one"])
+    ).toEqual([undefined]);
+  });
+
+  it("reports an error when caching is disabled", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const tool = createEmbeddingCacheTool(createTestDependencies());
+
+    const { body, isError } = await callTool(tool);
+
+    expect(isError).toBe(true);
+    expect(body.error).toContain("EMBEDDING_CACHE_DIR");
+  });
+});
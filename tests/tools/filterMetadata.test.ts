@@ -0,0 +1,72 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createFilterMetadataTool } from "../../src/tools/filterMetadata.js";
+import { callTool, createTestDependencies, storeDocument } from "../helpers.js";
+
+describe("filter_metadata", () => {
+  let dependencies: ReturnType<typeof createTestDependencies>;
+  let tool: ReturnType<typeof createFilterMetadataTool>;
+
+  beforeEach(async () => {
+    dependencies = createTestDependencies();
+    tool = createFilterMetadataTool(dependencies);
+    await storeDocument(dependencies, "a", ["one", "two"], {
+      tags: ["draft"],
+      year: 2023,
+    });
+    await storeDocument(dependencies, "b", ["three"], {
+      tags: ["final"],
+      year: 2024,
+    });
+  });
+
+  it("returns the chunks matching the filter, without embeddings", async () => {
+    const { body, isError } = await callTool(tool, {
+      metadataFilter: { tags: { $contains: "draft" } },
+    });
+
+    expect(isError).toBe(false);
+    expect(body.success).toBe(true);
+    expect(body.results.map((chunk: any) => chunk.content)).toEqual([
+      "one",
+      "two",
+    ]);
+    expect(body.results[0]).not.toHaveProperty("embedding");
+  });
+
+  it("combines conditions and applies the limit", async () => {
+    const { body } = await callTool(tool, {
+      metadataFilter: {
+        $or: [{ year: 2024 }, { documentId: "a" }],
+      },
+      limit: 2,
+    });
+
+    expect(
+      body.results.map((chunk: any) => [chunk.documentId, chunk.chunkIndex])
+    ).toEqual([
+      ["a", 0],
+      ["a", 1],
+    ]);
+  });
+
+  it("requires at least one condition", () => {
+    expect(() => tool.schema.parse({ metadataFilter: {} })).toThrow(
+      "At least one metadata filter condition is required"
+    );
+  });
+
+  it("reports repository errors", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.spyOn(
+      dependencies.repository,
+      "filterChunksByMetadata"
+    ).mockRejectedValue(new Error("store unavailable"));
+
+    const { body, isError } = await callTool(tool, {
+      metadataFilter: { year: 2023 },
+    });
+
+    expect(isError).toBe(true);
+    expect(body).toEqual({ success: false, error: "store unavailable" });
+  });
+});
@@ -0,0 +1,58 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createGetChunkContextTool } from "../../src/tools/getChunkContext.js";
+import { callTool, createTestDependencies, storeDocument } from "../helpers.js";
+
+describe("get_chunk_context", () => {
+  let dependencies: ReturnType<typeof createTestDependencies>;
+  let tool: ReturnType<typeof createGetChunkContextTool>;
+
+  beforeEach(async () => {
+    dependencies = createTestDependencies();
+    tool = createGetChunkContextTool(dependencies);
+    await storeDocument(dependencies, "doc", ["one", "two", "three", "four"]);
+  });
+
+  it("merges a chunk with its neighbours", async () => {
+    const { body, isError } = await callTool(tool, {
+      documentId: "doc",
+      chunkIndex: 1,
+    });
+
+    expect(isError).toBe(false);
+    expect(body.context).toMatchObject({
+      documentId: "doc",
+      chunkIndex: 1,
+      fromChunkIndex: 0,
+      toChunkIndex: 2,
+      startOffset: 0,
+      endOffset: 15,
+    });
+    expect(body.context.content).toBe("one two three");
+  });
+
+  it("clamps the window to the ends of the document", async () => {
+    const { body } = await callTool(tool, {
+      documentId: "doc",
+      chunkIndex: 3,
+      window: 5,
+    });
+
+    expect(body.context).toMatchObject({ fromChunkIndex: 0, toChunkIndex: 3 });
+  });
+
+  it("reports an error when the chunk does not exist", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    const { body, isError } = await callTool(tool, {
+      documentId: "missing",
+      chunkIndex: 0,
+    });
+
+    expect(isError).toBe(true);
+    expect(body).toMatchObject({
+      success: false,
+      documentId: "missing",
+      chunkIndex: 0,
+    });
+  });
+});
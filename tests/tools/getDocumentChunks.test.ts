@@ -0,0 +1,50 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createGetDocumentChunksTool } from "../../src/tools/getDocumentChunks.js";
+import { callTool, createTestDependencies, storeDocument } from "../helpers.js";
+
+describe("get_document_chunks", () => {
+  let dependencies: ReturnType<typeof createTestDependencies>;
+  let tool: ReturnType<typeof createGetDocumentChunksTool>;
+
+  beforeEach(() => {
+    dependencies = createTestDependencies();
+    tool = createGetDocumentChunksTool(dependencies);
+  });
+
+  it("returns the document's chunks in chunkIndex order", async () => {
+    await storeDocument(dependencies, "doc", ["first", "second", "third"]);
+    await storeDocument(dependencies, "other", ["unrelated"]);
+
+    const { body, isError } = await callTool(tool, { documentId: "doc" });
+
+    expect(isError).toBe(false);
+    expect(body.documentId).toBe("doc");
+    expect(body.chunks.map((chunk: any) => chunk.content)).toEqual([
+      "first",
+      "second",
+      "third",
+    ]);
+  });
+
+  it("returns no chunks for an unknown document", async () => {
+    const { body } = await callTool(tool, { documentId: "missing" });
+
+    expect(body).toEqual({ success: true, documentId: "missing", chunks: [] });
+  });
+
+  it("reports repository errors", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.spyOn(dependencies.repository, "getDocumentChunks").mockRejectedValue(
+      new Error("store unavailable")
+    );
+
+    const { body, isError } = await callTool(tool, { documentId: "doc" });
+
+    expect(isError).toBe(true);
+    expect(body).toEqual({
+      success: false,
+      documentId: "doc",
+      error: "store unavailable",
+    });
+  });
+});
@@ -0,0 +1,278 @@
+import { mkdir, mkdtemp, rm, symlink, writeFile } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createIngestFileTool } from "../../src/tools/ingestFile.js";
+import { callTool, createTestDependencies } from "../helpers.js";
+
+describe("ingest_file", () => {
+  let dependencies: ReturnType<typeof createTestDependencies>;
+  let tool: ReturnType<typeof createIngestFileTool>;
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(path.join(os.tmpdir(), "raglit-ingest-"));
+    dependencies = createTestDependencies({ INGEST_ROOT: directory });
+    tool = createIngestFileTool(dependencies);
+    await mkdir(path.join(directory, "guides"));
+    await writeFile(
+      path.join(directory, "guides", "setup.md"),
+      "# Setup\n\nInstall the server.\n\n## Configure\n\nSet the environment."
+    );
+    await writeFile(path.join(directory, "notes.txt"), "Plain text notes.");
+    await writeFile(path.join(directory, "image.png"), "not text");
+  });
+
+  afterEach(async () => {
+    vi.unstubAllGlobals();
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it("ingests every supported file of a directory", async () => {
+    const { body, isError } = await callTool(tool, { path: directory });
+
+    expect(isError).toBe(false);
+    expect(body).toMatchObject({ success: true, ingested: 2, failed: 0 });
+    const files = Object.fromEntries(
+      body.files.map((file: any) => [file.documentId, file])
+    );
+    expect(files["guides/setup.md"]).toMatchObject({
+      mimeType: "text/markdown",
+      chunkStrategy: "markdown",
+    });
+    expect(files["notes.txt"]).toMatchObject({
+      mimeType: "text/plain",
+      chunkStrategy: "recursive",
+      chunks: 1,
+    });
+
+    const [chunk] =
+      await dependencies.repository.getDocumentChunks("notes.txt");
+    expect(chunk.content).toBe("Plain text notes.");
+    expect(chunk.metadata).toMatchObject({
+      file_name: "notes.txt",
+      mime_type: "text/plain",
+    });
+  });
+
+  it("stores a single file under the given documentId", async () => {
+    const { body } = await callTool(tool, {
+      path: path.join(directory, "notes.txt"),
+      documentId: "my-notes",
+      metadata: { team: "docs" },
+    });
+
+    expect(body.files[0]).toMatchObject({
+      success: true,
+      documentId: "my-notes",
+    });
+    const [chunk] = await dependencies.repository.getDocumentChunks("my-notes");
+    expect(chunk.metadata.team).toBe("docs");
+  });
+
+  it("restricts a glob to the files it matches", async () => {
+    const { body } = await callTool(tool, {
+      path: path.join(directory, "**/*.md"),
+    });
+
+    expect(body.files.map((file: any) => file.documentId)).toEqual([
+      "guides/setup.md",
+    ]);
+  });
+
+  it("rejects a documentId when several files match", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    const { body, isError } = await callTool(tool, {
+      path: directory,
+      documentId: "doc",
+    });
+
+    expect(isError).toBe(true);
+    expect(body.error).toContain("documentId can only be set");
+  });
+
+  it("reports files that fail without stopping the others", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    dependencies.embeddingProvider.failOn = "Plain text";
+
+    const { body, isError } = await callTool(tool, { path: directory });
+
+    expect(isError).toBe(false);
+    expect(body).toMatchObject({ success: false, ingested: 1, failed: 1 });
+    expect(body.files.find((file: any) => !file.success).source).toContain(
+      "notes.txt"
+    );
+  });
+
+  describe("access limits", () => {
+    let outside: string;
+
+    beforeEach(async () => {
+      vi.spyOn(console, "error").mockImplementation(() => {});
+      outside = await mkdtemp(path.join(os.tmpdir(), "raglit-outside-"));
+      await writeFile(path.join(outside, "secret.txt"), "Not for the index.");
+    });
+
+    afterEach(async () => {
+      await rm(outside, { recursive: true, force: true });
+    });
+
+    it("refuses files outside the ingest root", async () => {
+      for (const target of [
+        path.join(outside, "secret.txt"),
+        path.join("..", path.basename(outside), "secret.txt"),
+        path.join(outside, "*.txt"),
+      ]) {
+        const { body, isError } = await callTool(tool, { path: target });
+        expect(isError).toBe(true);
+        expect(body.error).toContain("is outside the ingest root");
+      }
+    });
+
+    it("refuses symbolic links leading out of the ingest root", async () => {
+      await symlink(outside, path.join(directory, "linked"));
+
+      const { body, isError } = await callTool(tool, {
+        path: path.join(directory, "linked", "secret.txt"),
+      });
+
+      expect(isError).toBe(true);
+      expect(body.error).toContain("is outside the ingest root");
+      expect(await dependencies.repository.listDocuments()).toEqual([]);
+    });
+
+    it("refuses hidden files inside the ingest root", async () => {
+      await writeFile(path.join(directory, ".env.md"), "SECRET=1");
+
+      const { body, isError } = await callTool(tool, { path: ".env.md" });
+
+      expect(isError).toBe(true);
+      expect(body.error).toContain("is a hidden file or directory");
+    });
+
+    it("refuses URLs unless downloading is enabled", async () => {
+      const { body, isError } = await callTool(tool, {
+        path: "https://example.com/guide.md",
+      });
+
+      expect(isError).toBe(true);
+      expect(body.files[0].error).toContain(
+        "downloading documents is disabled"
+      );
+    });
+
+    it("refuses hosts missing from the allowlist", async () => {
+      dependencies.config.sources.allowedHosts = ["docs.example.com"];
+
+      const { body } = await callTool(tool, {
+        path: "https://example.com/guide.md",
+      });
+
+      expect(body.files[0].error).toContain(
+        'host "example.com" is not in INGEST_URL_ALLOWED_HOSTS'
+      );
+    });
+
+    it("refuses allowlisted hosts with loopback or private addresses", async () => {
+      dependencies.config.sources.allowedHosts = ["*"];
+      const fetch = vi.fn();
+      vi.stubGlobal("fetch", fetch);
+
+      for (const url of [
+        "http://localhost:8080/admin.txt",
+        "http://127.0.0.1/admin.txt",
+        "http://[::1]/admin.txt",
+        "http://10.0.0.5/internal.txt",
+        "http://169.254.169.254/latest/meta-data/",
+        "http://[::ffff:192.168.1.1]/router.txt",
+      ]) {
+        const { body } = await callTool(tool, { path: url });
+        expect(body.files[0].error).toContain("non-public address");
+      }
+      expect(fetch).not.toHaveBeenCalled();
+    });
+
+    it.each([
+      ["declared by Content-Length", { "content-length": "11" }],
+      ["streamed without Content-Length", {}],
+    ])(
+      "refuses downloads larger than the limit %s",
+      async (_, headers: Record<string, string>) => {
+        dependencies.config.sources.allowedHosts = ["*"];
+        dependencies.config.sources.maxDownloadBytes = 10;
+        const pulled: number[] = [];
+        const body = new ReadableStream<Uint8Array>({
+          pull(controller) {
+            pulled.push(pulled.length);
+            if (pulled.length > 100) {
+              controller.close();
+            } else {
+              controller.enqueue(new TextEncoder().encode("abcd"));
+            }
+          },
+        });
+        vi.stubGlobal(
+          "fetch",
+          vi.fn(
+            async () =>
+              new Response(body, {
+                headers: { "content-type": "text/plain", ...headers },
+              })
+          )
+        );
+
+        const { body: result } = await callTool(tool, {
+          path: "http://93.184.215.14/big.txt",
+        });
+
+        expect(result.files[0].error).toContain(
+          "larger than the 10 byte limit (INGEST_URL_MAX_BYTES)"
+        );
+        expect(pulled.length).toBeLessThan(5);
+      }
+    );
+
+    it("downloads documents within the limit", async () => {
+      dependencies.config.sources.allowedHosts = ["*"];
+      dependencies.config.sources.maxDownloadBytes = 10;
+      vi.stubGlobal(
+        "fetch",
+        vi.fn(
+          async () =>
+            new Response("Small text", {
+              headers: { "content-type": "text/plain" },
+            })
+        )
+      );
+
+      const { body, isError } = await callTool(tool, {
+        path: "http://93.184.215.14/small.txt",
+      });
+
+      expect(isError).toBe(false);
+      expect(body.files[0]).toMatchObject({ success: true, stored: 1 });
+    });
+
+    it("refuses redirects to private addresses", async () => {
+      dependencies.config.sources.allowedHosts = ["*"];
+      const fetch = vi.fn(
+        async () =>
+          new Response(null, {
+            status: 302,
+            headers: { location: "http://169.254.169.254/latest/meta-data/" },
+          })
+      );
+      vi.stubGlobal("fetch", fetch);
+
+      const { body } = await callTool(tool, {
+        path: "http://93.184.215.14/guide.md",
+      });
+
+      expect(body.files[0].error).toContain(
+        "resolves to the non-public address 169.254.169.254"
+      );
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,43 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createListDocumentsTool } from "../../src/tools/listDocuments.js";
+import { callTool, createTestDependencies, storeDocument } from "../helpers.js";
+
+describe("list_documents", () => {
+  let dependencies: ReturnType<typeof createTestDependencies>;
+  let tool: ReturnType<typeof createListDocumentsTool>;
+
+  beforeEach(() => {
+    dependencies = createTestDependencies();
+    tool = createListDocumentsTool(dependencies);
+  });
+
+  it("returns an empty list when nothing is indexed", async () => {
+    const { body } = await callTool(tool);
+
+    expect(body).toEqual({ success: true, documents: [] });
+  });
+
+  it("summarizes every indexed document", async () => {
+    await storeDocument(dependencies, "b", ["one"]);
+    await storeDocument(dependencies, "a", ["one", "two"]);
+
+    const { body } = await callTool(tool);
+
+    expect(body.documents).toEqual([
+      { documentId: "a", chunkCount: 2, chunkStrategies: ["recursive"] },
+      { documentId: "b", chunkCount: 1, chunkStrategies: ["recursive"] },
+    ]);
+  });
+
+  it("reports repository errors", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.spyOn(dependencies.repository, "listDocuments").mockRejectedValue(
+      new Error("store unavailable")
+    );
+
+    const { body, isError } = await callTool(tool);
+
+    expect(isError).toBe(true);
+    expect(body).toEqual({ success: false, error: "store unavailable" });
+  });
+});
@@ -0,0 +1,146 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createChunkDocumentTool } from "../../src/tools/chunkDocuments.js";
+import { createCreateNamespaceTool } from "../../src/tools/createNamespace.js";
+import { createDropNamespaceTool } from "../../src/tools/dropNamespace.js";
+import { createListDocumentsTool } from "../../src/tools/listDocuments.js";
+import { createListNamespacesTool } from "../../src/tools/listNamespaces.js";
+import { createSearchChunksTool } from "../../src/tools/searchChunks.js";
+import { callTool, createTestDependencies } from "../helpers.js";
+
+describe("namespaces", () => {
+  let dependencies: ReturnType<typeof createTestDependencies>;
+  let createNamespace: ReturnType<typeof createCreateNamespaceTool>;
+  let listNamespaces: ReturnType<typeof createListNamespacesTool>;
+  let dropNamespace: ReturnType<typeof createDropNamespaceTool>;
+  let chunkDocument: ReturnType<typeof createChunkDocumentTool>;
+
+  beforeEach(() => {
+    dependencies = createTestDependencies();
+    createNamespace = createCreateNamespaceTool(dependencies);
+    listNamespaces = createListNamespacesTool(dependencies);
+    dropNamespace = createDropNamespaceTool(dependencies);
+    chunkDocument = createChunkDocumentTool(dependencies);
+  });
+
+  it("creates and lists namespaces after the default one", async () => {
+    const created = await callTool(createNamespace, {
+      name: "support",
+      description: "Support tickets",
+    });
+    expect(created.isError).toBe(false);
+    expect(created.body.namespace).toMatchObject({
+      name: "support",
+      description: "Support tickets",
+      embeddingModel: "local-hash",
+      embeddingDimensions: 256,
+    });
+
+    const { body } = await callTool(listNamespaces);
+    expect(body.namespaces.map((namespace: any) => namespace.name)).toEqual([
+      "default",
+      "support",
+    ]);
+  });
+
+  it("refuses duplicate, default and malformed namespace names", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    await callTool(createNamespace, { name: "support" });
+
+    const duplicate = await callTool(createNamespace, { name: "support" });
+    expect(duplicate.isError).toBe(true);
+    expect(duplicate.body.error).toContain("already exists");
+
+    const reserved = await callTool(createNamespace, { name: "default" });
+    expect(reserved.isError).toBe(true);
+
+    expect(() =>
+      createNamespace.schema.parse({ name: "Not A Name" })
+    ).toThrow();
+  });
+
+  it("keeps the documents of each namespace apart", async () => {
+    await callTool(createNamespace, { name: "tenant-a" });
+    await callTool(chunkDocument, {
+      documentId: "guide",
+      content: "Cats purr when they are content.",
+      namespace: "tenant-a",
+    });
+    await callTool(chunkDocument, {
+      documentId: "guide",
+      content: "Dogs bark at the mail carrier.",
+    });
+
+    const listDocuments = createListDocumentsTool(dependencies);
+    const inTenant = await callTool(listDocuments, { namespace: "tenant-a" });
+    const inDefault = await callTool(listDocuments);
+    expect(inTenant.body.documents).toEqual([
+      { documentId: "guide", chunkCount: 1, chunkStrategies: ["fixed-size"] },
+    ]);
+    expect(inDefault.body.documents).toHaveLength(1);
+
+    const searchChunks = createSearchChunksTool(dependencies);
+    const { body } = await callTool(searchChunks, {
+      query: "cats purr",
+      mode: "keyword",
+      namespace: "default",
+    });
+    expect(body.results).toEqual([]);
+
+    const tenantSearch = await callTool(searchChunks, {
+      query: "cats purr",
+      mode: "keyword",
+      namespace: "tenant-a",
+    });
+    expect(tenantSearch.body.results).toHaveLength(1);
+    expect(tenantSearch.body.results[0]).toMatchObject({
+      namespace: "tenant-a",
+      content: "Cats purr when they are content.",
+    });
+  });
+
+  it("embeds a namespace's chunks with its own embedding settings", async () => {
+    await callTool(createNamespace, { name: "small", embeddingDimensions: 64 });
+
+    const { embeddingProvider, settings } =
+      await dependencies.namespaces.open("small");
+
+    expect(settings.embeddingDimensions).toBe(64);
+    expect(embeddingProvider).not.toBe(dependencies.embeddingProvider);
+    expect(await embeddingProvider.embed("hello")).toHaveLength(64);
+  });
+
+  it("rejects tool calls naming a namespace that does not exist", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    const { body, isError } = await callTool(chunkDocument, {
+      documentId: "guide",
+      content: "Some text.",
+      namespace: "missing",
+    });
+
+    expect(isError).toBe(true);
+    expect(body.error).toContain('Namespace "missing" does not exist');
+    expect(await dependencies.repository.listDocuments("missing")).toEqual([]);
+  });
+
+  it("drops a namespace with its chunks, but never the default one", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    await callTool(createNamespace, { name: "scratch" });
+    await callTool(chunkDocument, {
+      documentId: "notes",
+      content: "Temporary notes.",
+      namespace: "scratch",
+    });
+
+    const dropped = await callTool(dropNamespace, { name: "scratch" });
+    expect(dropped.body).toEqual({
+      success: true,
+      name: "scratch",
+      deletedChunks: 1,
+    });
+    expect(await dependencies.repository.listNamespaces()).toEqual([]);
+
+    const refused = await callTool(dropNamespace, { name: "default" });
+    expect(refused.isError).toBe(true);
+  });
+});
@@ -0,0 +1,182 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createReembedTool } from "../../src/tools/reembed.js";
+import { createSearchChunksTool } from "../../src/tools/searchChunks.js";
+import { callTool, createTestDependencies, storeDocument } from "../helpers.js";
+
+describe("reembed", () => {
+  let dependencies: ReturnType<typeof createTestDependencies>;
+  let tool: ReturnType<typeof createReembedTool>;
+
+  /**
+   * Stores a document as an older model would have: the same dimension unless given, but
+   * recorded under another model name (or none, as before models were recorded).
+   */
+  async function storeOutdatedDocument(
+    documentId: string,
+    passages: string[],
+    embeddingModel?: string,
+    dimensions = 256
+  ) {
+    await storeDocument(dependencies, documentId, passages);
+    const chunks = await dependencies.repository.getDocumentChunks(documentId);
+    await dependencies.repository.storeChunks(
+      chunks.map((chunk) => ({
+        ...chunk,
+        startOffset: chunk.startOffset ?? undefined,
+        endOffset: chunk.endOffset ?? undefined,
+        startLine: chunk.startLine ?? undefined,
+        endLine: chunk.endLine ?? undefined,
+        embedding: new Array(dimensions).fill(0.5),
+        embeddingModel,
+      }))
+    );
+  }
+
+  beforeEach(() => {
+    dependencies = createTestDependencies({ EMBEDDING_BATCH_SIZE: "1" });
+    tool = createReembedTool(dependencies);
+  });
+
+  it("keeps chunks of other models out of vector search", async () => {
+    await storeOutdatedDocument(
+      "cats",
+      ["Cats sleep most of the day."],
+      "old-model"
+    );
+    const searchChunks = createSearchChunksTool(dependencies);
+
+    const before = await callTool(searchChunks, {
+      query: "cats sleep",
+      threshold: 0,
+    });
+    expect(before.body.results).toEqual([]);
+
+    await callTool(tool);
+
+    const after = await callTool(searchChunks, {
+      query: "cats sleep",
+      threshold: 0,
+    });
+    expect(after.body.results[0]).toMatchObject({
+      documentId: "cats",
+      embeddingModel: "fake",
+      embeddingDimensions: 256,
+    });
+  });
+
+  it("reports the outdated chunks on a dry run without embedding them", async () => {
+    await storeOutdatedDocument("legacy", ["First.", "Second."]);
+    await storeDocument(dependencies, "current", ["Already current."]);
+    dependencies.embeddingProvider.embedded.length = 0;
+
+    const { body } = await callTool(tool, { dryRun: true });
+
+    expect(body).toMatchObject({
+      success: true,
+      namespace: "default",
+      dryRun: true,
+      embeddingModel: "fake",
+      documents: 2,
+      totalChunks: 3,
+      outdatedChunks: 2,
+      reembeddedChunks: 0,
+      outdatedDocumentIds: ["legacy"],
+    });
+    expect(dependencies.embeddingProvider.embedded).toEqual([]);
+  });
+
+  it("migrates the chunks in place, keeping their content and metadata", async () => {
+    await storeOutdatedDocument("guide", ["Install.", "Configure."], "old");
+    const [before] = await dependencies.repository.getDocumentChunks("guide");
+
+    const { body } = await callTool(tool, { documentId: "guide" });
+
+    expect(body).toMatchObject({ outdatedChunks: 2, reembeddedChunks: 2 });
+    const chunks = await dependencies.repository.getDocumentChunks("guide");
+    expect(chunks[0]).toMatchObject({
+      id: before.id,
+      content: "Install.",
+      startOffset: before.startOffset,
+      embeddingModel: "fake",
+    });
+    expect(chunks[0].metadata.token_count).toBeGreaterThan(0);
+
+    const again = await callTool(tool, { documentId: "guide" });
+    expect(again.body).toMatchObject({
+      outdatedChunks: 0,
+      reembeddedChunks: 0,
+    });
+  });
+
+  it("carries on where a failed run stopped", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    await storeOutdatedDocument("notes", ["Alpha.", "Beta.", "Gamma."]);
+    dependencies.embeddingProvider.failOn = "Gamma";
+
+    const failed = await callTool(tool);
+    expect(failed.isError).toBe(true);
+    expect(failed.body).toMatchObject({
+      success: false,
+      outdatedChunks: 3,
+      remainingChunks: 1,
+    });
+    expect(failed.body.error).toContain("Embedding failed");
+
+    dependencies.embeddingProvider.failOn = undefined;
+    dependencies.embeddingProvider.embedded.length = 0;
+    const resumed = await callTool(tool);
+    expect(resumed.body).toMatchObject({
+      outdatedChunks: 1,
+      reembeddedChunks: 1,
+    });
+    expect(dependencies.embeddingProvider.embedded).toEqual(["Gamma."]);
+  });
+
+  it.each([
+    ["configured", { EMBEDDING_DIMENSIONS: "256" }, []],
+    [
+      "produced by the model",
+      {
+        EMBEDDING_PROVIDER: "openai-compatible",
+        EMBEDDING_BASE_URL: "http://embeddings.test/v1",
+        EMBEDDING_MODEL: "fake",
+        EMBEDDING_DIMENSIONS: "",
+      },
+      ["Install."],
+    ],
+  ])(
+    "refuses to change the embedding dimension in place when it is %s",
+    async (_, env, embedded) => {
+      vi.spyOn(console, "error").mockImplementation(() => {});
+      dependencies = createTestDependencies({
+        EMBEDDING_BATCH_SIZE: "1",
+        ...env,
+      });
+      tool = createReembedTool(dependencies);
+      await storeOutdatedDocument(
+        "guide",
+        ["Install.", "Configure."],
+        "old",
+        64
+      );
+
+      const alreadyEmbedded = dependencies.embeddingProvider.embedded.length;
+      const { body, isError } = await callTool(tool);
+
+      expect(isError).toBe(true);
+      expect(body.error).toContain(
+        "Cannot re-embed in place from 64 to 256 dimensions"
+      );
+      expect(body.reembeddedChunks ?? 0).toBe(0);
+      // Nothing but the probe of an unconfigured dimension is embedded.
+      expect(
+        dependencies.embeddingProvider.embedded.slice(alreadyEmbedded)
+      ).toEqual(embedded);
+      const chunks = await dependencies.repository.getDocumentChunks("guide");
+      expect(chunks.map((chunk) => chunk.embeddingModel)).toEqual([
+        "old",
+        "old",
+      ]);
+    }
+  );
+});
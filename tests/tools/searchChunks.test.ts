@@ -0,0 +1,177 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createSearchChunksTool } from "../../src/tools/searchChunks.js";
+import {
+  callTool,
+  createTestConfig,
+  createTestDependencies,
+  storeDocument,
+} from "../helpers.js";
+
+describe("search_chunks", () => {
+  let dependencies: ReturnType<typeof createTestDependencies>;
+  let tool: ReturnType<typeof createSearchChunksTool>;
+
+  beforeEach(async () => {
+    dependencies = createTestDependencies();
+    tool = createSearchChunksTool(dependencies);
+    await storeDocument(
+      dependencies,
+      "cats",
+      [
+        "Cats sleep most of the day.",
+        "A cat purrs when it is content.",
+        "Kittens are young cats.",
+      ],
+      { topic: "animals", year: 2023 }
+    );
+    await storeDocument(
+      dependencies,
+      "databases",
+      ["Postgres stores rows in tables.", "Error code E1234 means timeout."],
+      { topic: "software", year: 2024 }
+    );
+  });
+
+  it("returns the chunks most similar to the query", async () => {
+    const { body, isError } = await callTool(tool, {
+      query: "cats sleep",
+      threshold: 0.1,
+    });
+
+    expect(isError).toBe(false);
+    expect(body.success).toBe(true);
+    expect(body.results[0]).toMatchObject({
+      documentId: "cats",
+      chunkIndex: 0,
+    });
+    expect(body.results[0].similarity).toBeGreaterThan(0.1);
+  });
+
+  it("finds exact identifiers in keyword mode", async () => {
+    const { body } = await callTool(tool, { query: "E1234", mode: "keyword" });
+
+    expect(body.results).toHaveLength(1);
+    expect(body.results[0]).toMatchObject({
+      documentId: "databases",
+      chunkIndex: 1,
+    });
+  });
+
+  it("narrows the results with a metadata filter", async () => {
+    const { body } = await callTool(tool, {
+      query: "cats tables",
+      mode: "hybrid",
+      threshold: 0,
+      metadataFilter: { year: { $gte: 2024 } },
+    });
+
+    expect(body.results.length).toBeGreaterThan(0);
+    expect(
+      body.results.every((result: any) => result.documentId === "databases")
+    ).toBe(true);
+  });
+
+  it("reranks the candidates and returns the top limit", async () => {
+    const { body } = await callTool(tool, {
+      query: "young kittens",
+      limit: 2,
+      threshold: 0,
+      rerank: true,
+      rerankCandidates: 5,
+    });
+
+    expect(body.results).toHaveLength(2);
+    expect(body.results[0]).toMatchObject({
+      documentId: "cats",
+      chunkIndex: 2,
+    });
+    expect(body.results[0].scores.rerank).toBeGreaterThan(
+      body.results[1].scores.rerank
+    );
+    expect(body.results[0].originalRank).toBeGreaterThanOrEqual(1);
+  });
+
+  it("falls back to lexical reranking when the rerank API fails", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const fetchMock = vi.fn(
+      async () => new Response("Service unavailable", { status: 503 })
+    );
+    vi.stubGlobal("fetch", fetchMock);
+    try {
+      const config = createTestConfig({
+        RERANK_PROVIDER: "http",
+        RERANK_BASE_URL: "http://rerank.test",
+        RERANK_MODEL: "bge-reranker",
+        HTTP_MAX_RETRIES: "0",
+      });
+      const { body, isError } = await callTool(
+        createSearchChunksTool({ ...dependencies, config }),
+        { query: "young kittens", limit: 1, threshold: 0, rerank: true }
+      );
+
+      expect(isError).toBe(false);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(body.results[0]).toMatchObject({
+        documentId: "cats",
+        chunkIndex: 2,
+      });
+      expect(body.results[0].scores.rerank).toBeGreaterThan(0);
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+
+  it("attaches the neighbouring chunks as context", async () => {
+    const { body } = await callTool(tool, {
+      query: "cat purrs content",
+      limit: 1,
+      threshold: 0.1,
+      contextWindow: 1,
+    });
+
+    expect(body.results[0].chunkIndex).toBe(1);
+    expect(body.results[0].context).toMatchObject({
+      fromChunkIndex: 0,
+      toChunkIndex: 2,
+    });
+    expect(body.results[0].context.content).toContain("Kittens");
+  });
+
+  it("does not compare the query with other models' embeddings when diversifying", async () => {
+    // A keyword match embedded by another model, whose vector happens to equal the query's.
+    await dependencies.repository.storeChunk({
+      content: "purrs purrs purrs",
+      embedding: await dependencies.embeddingProvider.embed("purrs"),
+      documentId: "legacy",
+      chunkIndex: 0,
+      chunkSize: 100,
+      chunkOverlap: 0,
+      chunkStrategy: "recursive",
+      embeddingModel: "old",
+    });
+
+    const { body } = await callTool(tool, {
+      query: "purrs",
+      mode: "keyword",
+      diversity: 0.3,
+    });
+
+    expect(body.results.map((chunk: any) => chunk.documentId)).toEqual([
+      "cats",
+      "legacy",
+    ]);
+  });
+
+  it("reports an error when the query cannot be embedded", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    dependencies.embeddingProvider.failOn = "cats";
+
+    const { body, isError } = await callTool(tool, { query: "cats" });
+
+    expect(isError).toBe(true);
+    expect(body).toEqual({
+      success: false,
+      error: 'Embedding failed for "cats"',
+    });
+  });
+});
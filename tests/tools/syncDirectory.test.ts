@@ -0,0 +1,176 @@
+import { mkdtemp, realpath, rm, writeFile } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { syncDocumentId } from "../../src/services/sync.js";
+import { createSyncDirectoryTool } from "../../src/tools/syncDirectory.js";
+import { callTool, createTestDependencies } from "../helpers.js";
+
+describe("sync_directory", () => {
+  let dependencies: ReturnType<typeof createTestDependencies>;
+  let tool: ReturnType<typeof createSyncDirectoryTool>;
+  let directory: string;
+  let a: string;
+  let b: string;
+
+  beforeEach(async () => {
+    dependencies = createTestDependencies({ INGEST_ROOT: os.tmpdir() });
+    tool = createSyncDirectoryTool(dependencies);
+    directory = await mkdtemp(path.join(os.tmpdir(), "raglit-sync-"));
+    await writeFile(path.join(directory, "a.txt"), "First file.");
+    await writeFile(path.join(directory, "b.txt"), "Second file.");
+    // Synced directories are identified by their real path.
+    a = syncDocumentId(await realpath(directory), "a.txt");
+    b = syncDocumentId(await realpath(directory), "b.txt");
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it("ingests new files, then only what changed", async () => {
+    const first = await callTool(tool, { directory });
+    expect(first.isError).toBe(false);
+    expect(first.body).toMatchObject({
+      success: true,
+      added: [a, b],
+      modified: [],
+      removed: [],
+      unchanged: 0,
+    });
+
+    await writeFile(path.join(directory, "a.txt"), "First file, edited.");
+    await rm(path.join(directory, "b.txt"));
+    dependencies.embeddingProvider.embedded.length = 0;
+
+    const second = await callTool(tool, { directory });
+    expect(second.body).toMatchObject({
+      added: [],
+      modified: [a],
+      removed: [b],
+      unchanged: 0,
+    });
+    expect(dependencies.embeddingProvider.embedded).toEqual([
+      "First file, edited.",
+    ]);
+    expect(
+      (await dependencies.repository.listDocuments()).map(
+        (document) => document.documentId
+      )
+    ).toEqual([a]);
+
+    const third = await callTool(tool, { directory });
+    expect(third.body).toMatchObject({ unchanged: 1, storedChunks: 0 });
+  });
+
+  it("changes nothing in a dry run", async () => {
+    const { body } = await callTool(tool, { directory, dryRun: true });
+
+    expect(body).toMatchObject({ dryRun: true, added: [a, b] });
+    expect(await dependencies.repository.listDocuments()).toEqual([]);
+    expect(dependencies.embeddingProvider.embedded).toEqual([]);
+  });
+
+  it("keeps files of the same name in other directories apart", async () => {
+    const other = await mkdtemp(path.join(os.tmpdir(), "raglit-sync-"));
+    try {
+      await writeFile(path.join(other, "a.txt"), "Another first file.");
+
+      await callTool(tool, { directory });
+      const synced = await callTool(tool, { directory: other });
+      expect(synced.body.added).toEqual([
+        syncDocumentId(await realpath(other), "a.txt"),
+      ]);
+
+      const again = await callTool(tool, { directory });
+      expect(again.body).toMatchObject({ modified: [], unchanged: 2 });
+      const [chunk] = await dependencies.repository.getDocumentChunks(a);
+      expect(chunk.content).toBe("First file.");
+    } finally {
+      await rm(other, { recursive: true, force: true });
+    }
+  });
+
+  it("only removes documents the include glob selects", async () => {
+    await callTool(tool, { directory });
+
+    const narrower = await callTool(tool, { directory, include: "a.*" });
+    expect(narrower.body).toMatchObject({ removed: [], unchanged: 1 });
+
+    await rm(path.join(directory, "a.txt"));
+    const deleted = await callTool(tool, { directory, include: "a.*" });
+    expect(deleted.body.removed).toEqual([a]);
+    expect(
+      (await dependencies.repository.listDocuments()).map(
+        (document) => document.documentId
+      )
+    ).toEqual([b]);
+  });
+
+  it("re-ingests a document a failed run left half-updated", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    dependencies = createTestDependencies({
+      INGEST_ROOT: os.tmpdir(),
+      EMBEDDING_BATCH_SIZE: "1",
+      EMBEDDING_CONCURRENCY: "1",
+    });
+    tool = createSyncDirectoryTool(dependencies);
+    const options = {
+      directory,
+      include: "a.*",
+      chunkSize: 2,
+      chunkOverlap: 0,
+    };
+    await writeFile(path.join(directory, "a.txt"), "old0 old1 old2 old3");
+    await callTool(tool, options);
+
+    await writeFile(path.join(directory, "a.txt"), "new0 new1 new2 new3");
+    dependencies.embeddingProvider.failOn = "new2";
+    const failed = await callTool(tool, options);
+    expect(failed.body.failed.map((file: any) => file.documentId)).toEqual([a]);
+    expect(
+      (await dependencies.repository.getDocumentChunks(a)).map(
+        (chunk) => chunk.content
+      )
+    ).toEqual(["new0 new1", "old2 old3"]);
+
+    dependencies.embeddingProvider.failOn = undefined;
+    const retried = await callTool(tool, options);
+    expect(retried.body).toMatchObject({ modified: [a], unchanged: 0 });
+    expect(
+      (await dependencies.repository.getDocumentChunks(a)).map(
+        (chunk) => chunk.content
+      )
+    ).toEqual(["new0 new1", "new2 new3"]);
+
+    const again = await callTool(tool, options);
+    expect(again.body).toMatchObject({ modified: [], unchanged: 1 });
+  });
+
+  it("re-ingests documents when the tokenizer changes", async () => {
+    await callTool(tool, { directory, tokenizer: "word" });
+
+    const { body } = await callTool(tool, {
+      directory,
+      tokenizer: "cl100k_base",
+    });
+
+    expect(body).toMatchObject({ modified: [a, b], unchanged: 0 });
+  });
+
+  it("keeps the sync keys of the metadata out of the caller's reach", async () => {
+    await callTool(tool, {
+      directory,
+      metadata: { source: "elsewhere", content_hash: "forged", team: "docs" },
+    });
+
+    const [chunk] = await dependencies.repository.getDocumentChunks(a);
+    expect(chunk.metadata).toMatchObject({
+      source: path.join(await realpath(directory), "a.txt"),
+      team: "docs",
+    });
+    expect(chunk.metadata.content_hash).not.toBe("forged");
+    const again = await callTool(tool, { directory });
+    expect(again.body).toMatchObject({ unchanged: 2, removed: [] });
+  });
+});
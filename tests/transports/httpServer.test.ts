@@ -0,0 +1,201 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { SSEClientTransport } from "@modelcontextprotocol/sdk/client/sse.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { AppConfig } from "../../src/config.js";
+import { createMcpServer } from "../../src/server.js";
+import { McpHttpServer } from "../../src/transports/httpServer.js";
+import { createTestDependencies, storeDocument } from "../helpers.js";
+
+const TOKEN = "secret-token";
+const INITIALIZE = {
+  jsonrpc: "2.0",
+  id: 1,
+  method: "initialize",
+  params: {
+    protocolVersion: "2025-03-26",
+    capabilities: {},
+    clientInfo: { name: "test", version: "1.0.0" },
+  },
+};
+
+describe("McpHttpServer", () => {
+  let dependencies: ReturnType<typeof createTestDependencies>;
+  let server: McpHttpServer;
+  let baseUrl: string;
+
+  async function start(options: Partial<AppConfig["transport"]> = {}) {
+    server = new McpHttpServer(
+      {
+        ...dependencies.config.transport,
+        type: "http",
+        host: "127.0.0.1",
+        port: 0,
+        authToken: TOKEN,
+        corsOrigins: ["https://app.example.com"],
+        ...options,
+      },
+      () => createMcpServer(dependencies)
+    );
+    const address = await server.listen();
+    baseUrl = `http://127.0.0.1:${address.port}`;
+  }
+
+  function post(path: string, body: unknown, headers: HeadersInit = {}) {
+    return fetch(`${baseUrl}${path}`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "application/json, text/event-stream",
+        ...headers,
+      },
+      body: JSON.stringify(body),
+    });
+  }
+
+  beforeEach(async () => {
+    dependencies = createTestDependencies();
+    await storeDocument(dependencies, "doc", ["hello world"]);
+    await start();
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it("serves tools over Streamable HTTP", async () => {
+    const client = new Client({ name: "test", version: "1.0.0" });
+    const transport = new StreamableHTTPClientTransport(
+      new URL(`${baseUrl}/mcp`),
+      { requestInit: { headers: { Authorization: `Bearer ${TOKEN}` } } }
+    );
+    await client.connect(transport);
+    expect(server.sessionCount).toBe(1);
+
+    const { tools } = await client.listTools();
+    expect(tools.map((tool) => tool.name)).toContain("search_chunks");
+
+    const result: any = await client.callTool({
+      name: "list_documents",
+      arguments: {},
+    });
+    expect(JSON.parse(result.content[0].text).documents).toEqual([
+      { documentId: "doc", chunkCount: 1, chunkStrategies: ["recursive"] },
+    ]);
+
+    await transport.terminateSession();
+    expect(server.sessionCount).toBe(0);
+    await client.close();
+  });
+
+  it("serves tools over legacy SSE", async () => {
+    const authorizedFetch = (url: string | URL, init?: RequestInit) =>
+      fetch(url, {
+        ...init,
+        headers: { ...init?.headers, Authorization: `Bearer ${TOKEN}` },
+      });
+    const client = new Client({ name: "test", version: "1.0.0" });
+    await client.connect(
+      new SSEClientTransport(new URL(`${baseUrl}/sse`), {
+        eventSourceInit: { fetch: authorizedFetch },
+        requestInit: { headers: { Authorization: `Bearer ${TOKEN}` } },
+      })
+    );
+
+    const result: any = await client.callTool({
+      name: "get_document_chunks",
+      arguments: { documentId: "doc" },
+    });
+    expect(JSON.parse(result.content[0].text).chunks).toHaveLength(1);
+    expect(server.sessionCount).toBe(1);
+    await client.close();
+  });
+
+  it("requires the bearer token", async () => {
+    const missing = await post("/mcp", INITIALIZE);
+    expect(missing.status).toBe(401);
+    expect(missing.headers.get("www-authenticate")).toContain("Bearer");
+
+    const wrong = await post("/mcp", INITIALIZE, {
+      Authorization: "Bearer wrong",
+    });
+    expect(wrong.status).toBe(401);
+    expect((await wrong.json()).error.message).toContain("Unauthorized");
+  });
+
+  it("answers health checks without a token", async () => {
+    const response = await fetch(`${baseUrl}/health`);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ status: "ok", sessions: 0 });
+  });
+
+  it("rejects requests without a session that do not initialize one", async () => {
+    const response = await post(
+      "/mcp",
+      { jsonrpc: "2.0", id: 1, method: "tools/list" },
+      { Authorization: `Bearer ${TOKEN}` }
+    );
+    expect(response.status).toBe(400);
+
+    const unknown = await post(
+      "/mcp",
+      { jsonrpc: "2.0", id: 1, method: "tools/list" },
+      { Authorization: `Bearer ${TOKEN}`, "Mcp-Session-Id": "unknown" }
+    );
+    expect(unknown.status).toBe(404);
+  });
+
+  it("allows only the configured CORS origins", async () => {
+    const preflight = await fetch(`${baseUrl}/mcp`, {
+      method: "OPTIONS",
+      headers: { Origin: "https://app.example.com" },
+    });
+    expect(preflight.status).toBe(204);
+    expect(preflight.headers.get("access-control-allow-origin")).toBe(
+      "https://app.example.com"
+    );
+    expect(preflight.headers.get("access-control-allow-headers")).toContain(
+      "Mcp-Session-Id"
+    );
+
+    const other = await post("/mcp", INITIALIZE, {
+      Authorization: `Bearer ${TOKEN}`,
+      Origin: "https://evil.example.com",
+    });
+    expect(other.status).toBe(403);
+  });
+
+  it("closes idle sessions", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    await server.close();
+    await start({ sessionIdleTimeoutMs: 50 });
+
+    const response = await post("/mcp", INITIALIZE, {
+      Authorization: `Bearer ${TOKEN}`,
+    });
+    expect(response.status).toBe(200);
+    await response.body?.cancel();
+    expect(server.sessionCount).toBe(1);
+
+    await vi.waitFor(() => expect(server.sessionCount).toBe(0), {
+      timeout: 2000,
+    });
+  });
+
+  it("ends every session when closed", async () => {
+    const client = new Client({ name: "test", version: "1.0.0" });
+    await client.connect(
+      new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`), {
+        requestInit: { headers: { Authorization: `Bearer ${TOKEN}` } },
+      })
+    );
+    expect(server.sessionCount).toBe(1);
+
+    await server.close();
+
+    expect(server.sessionCount).toBe(0);
+    await expect(fetch(`${baseUrl}/health`)).rejects.toThrow();
+    await client.close();
+  });
+});
@@ -0,0 +1,203 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  CircuitOpenError,
+  HttpError,
+  TimeoutError,
+} from "../../src/utils/errors.js";
+import {
+  CircuitBreaker,
+  computeBackoffDelay,
+  parseRetryAfter,
+  RetryPolicy,
+} from "../../src/utils/retry.js";
+
+const OPTIONS = {
+  maxRetries: 3,
+  baseDelayMs: 100,
+  maxDelayMs: 1000,
+  circuitBreakerThreshold: 10,
+  circuitBreakerResetMs: 5000,
+};
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(new Date("2024-06-01T12:00:00Z"));
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe("parseRetryAfter", () => {
+  it("reads a number of seconds", () => {
+    expect(parseRetryAfter("2")).toBe(2000);
+    expect(parseRetryAfter("0.5")).toBe(500);
+  });
+
+  it("reads an HTTP date relative to now, never going below zero", () => {
+    expect(parseRetryAfter("Sat, 01 Jun 2024 12:00:05 GMT")).toBe(5000);
+    expect(parseRetryAfter("Sat, 01 Jun 2024 11:59:00 GMT")).toBe(0);
+  });
+
+  it("ignores missing and unparseable headers", () => {
+    expect(parseRetryAfter(null)).toBeUndefined();
+    expect(parseRetryAfter("")).toBeUndefined();
+    expect(parseRetryAfter("soon")).toBeUndefined();
+  });
+});
+
+describe("computeBackoffDelay", () => {
+  it("doubles the jittered delay with each attempt", () => {
+    vi.spyOn(Math, "random").mockReturnValue(0.5);
+    expect(computeBackoffDelay(0, OPTIONS)).toBe(50);
+    expect(computeBackoffDelay(2, OPTIONS)).toBe(200);
+  });
+
+  it("caps the delay, including Retry-After hints", () => {
+    vi.spyOn(Math, "random").mockReturnValue(0.999);
+    expect(computeBackoffDelay(10, OPTIONS)).toBeLessThanOrEqual(1000);
+    expect(computeBackoffDelay(0, OPTIONS, 60_000)).toBe(1000);
+  });
+
+  it("waits at least as long as the server asks", () => {
+    vi.spyOn(Math, "random").mockReturnValue(0);
+    expect(computeBackoffDelay(0, OPTIONS, 400)).toBe(400);
+  });
+});
+
+describe("RetryPolicy", () => {
+  it.each([429, 500, 503])(
+    "retries HTTP %i until the call succeeds",
+    async (status) => {
+      const operation = vi
+        .fn()
+        .mockRejectedValueOnce(new HttpError("busy", status))
+        .mockRejectedValueOnce(new HttpError("busy", status))
+        .mockResolvedValue("ok");
+      const result = new RetryPolicy(OPTIONS).execute(operation);
+      await vi.runAllTimersAsync();
+      await expect(result).resolves.toBe("ok");
+      expect(operation).toHaveBeenCalledTimes(3);
+    }
+  );
+
+  it("retries timeouts and network failures", async () => {
+    const operation = vi
+      .fn()
+      .mockRejectedValueOnce(new TimeoutError("slow"))
+      .mockRejectedValueOnce(new TypeError("fetch failed"))
+      .mockResolvedValue("ok");
+    const result = new RetryPolicy(OPTIONS).execute(operation);
+    await vi.runAllTimersAsync();
+    await expect(result).resolves.toBe("ok");
+    expect(operation).toHaveBeenCalledTimes(3);
+  });
+
+  it.each([400, 401, 404, 422])("does not retry HTTP %i", async (status) => {
+    const operation = vi.fn().mockRejectedValue(new HttpError("bad", status));
+    await expect(new RetryPolicy(OPTIONS).execute(operation)).rejects.toThrow(
+      "bad"
+    );
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it("gives up with the last error once the retries are exhausted", async () => {
+    const operation = vi.fn().mockRejectedValue(new HttpError("busy", 503));
+    const result = new RetryPolicy(OPTIONS).execute(operation);
+    const assertion = expect(result).rejects.toThrow("busy");
+    await vi.runAllTimersAsync();
+    await assertion;
+    expect(operation).toHaveBeenCalledTimes(OPTIONS.maxRetries + 1);
+  });
+
+  it("waits for the Retry-After delay before retrying", async () => {
+    vi.spyOn(Math, "random").mockReturnValue(0);
+    const operation = vi
+      .fn()
+      .mockRejectedValueOnce(new HttpError("slow down", 429, 800))
+      .mockResolvedValue("ok");
+    const result = new RetryPolicy(OPTIONS).execute(operation);
+    await vi.advanceTimersByTimeAsync(799);
+    expect(operation).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(operation).toHaveBeenCalledTimes(2);
+    await expect(result).resolves.toBe("ok");
+  });
+
+  it("never waits longer than maxDelayMs between attempts", async () => {
+    vi.spyOn(Math, "random").mockReturnValue(0.999);
+    const operation = vi
+      .fn()
+      .mockRejectedValueOnce(new HttpError("slow down", 429, 60_000))
+      .mockResolvedValue("ok");
+    const result = new RetryPolicy(OPTIONS).execute(operation);
+    await vi.advanceTimersByTimeAsync(OPTIONS.maxDelayMs);
+    expect(operation).toHaveBeenCalledTimes(2);
+    await expect(result).resolves.toBe("ok");
+  });
+});
+
+describe("CircuitBreaker", () => {
+  const fail = () => Promise.reject(new TimeoutError("slow"));
+
+  it("opens after the threshold, lets one trial through once reset, and closes on success", async () => {
+    const breaker = new CircuitBreaker(2, 1000);
+    await expect(breaker.execute(fail)).rejects.toThrow(TimeoutError);
+    await expect(breaker.execute(fail)).rejects.toThrow(TimeoutError);
+
+    // Open: calls fail fast without reaching the service.
+    const operation = vi.fn().mockResolvedValue("ok");
+    await expect(breaker.execute(operation)).rejects.toThrow(CircuitOpenError);
+    vi.advanceTimersByTime(999);
+    await expect(breaker.execute(operation)).rejects.toThrow(CircuitOpenError);
+    expect(operation).not.toHaveBeenCalled();
+
+    // Half-open: a single trial call is let through; others still fail fast.
+    vi.advanceTimersByTime(1);
+    let finishTrial!: (value: string) => void;
+    const trial = breaker.execute(
+      () => new Promise<string>((resolve) => (finishTrial = resolve))
+    );
+    await expect(breaker.execute(operation)).rejects.toThrow(CircuitOpenError);
+    finishTrial("trial");
+    await expect(trial).resolves.toBe("trial");
+
+    // Closed: calls go through again.
+    await expect(breaker.execute(operation)).resolves.toBe("ok");
+    await expect(breaker.execute(fail)).rejects.toThrow(TimeoutError);
+    await expect(breaker.execute(operation)).resolves.toBe("ok");
+    expect(operation).toHaveBeenCalledTimes(2);
+  });
+
+  it("re-opens when the trial call fails", async () => {
+    const breaker = new CircuitBreaker(1, 1000);
+    await expect(breaker.execute(fail)).rejects.toThrow(TimeoutError);
+    vi.advanceTimersByTime(1000);
+    await expect(breaker.execute(fail)).rejects.toThrow(TimeoutError);
+    await expect(breaker.execute(() => Promise.resolve("ok"))).rejects.toThrow(
+      CircuitOpenError
+    );
+  });
+
+  it("does not count fatal errors towards opening the circuit", async () => {
+    const breaker = new CircuitBreaker(1, 1000);
+    await expect(
+      breaker.execute(() => Promise.reject(new HttpError("bad", 400)))
+    ).rejects.toThrow("bad");
+    await expect(breaker.execute(() => Promise.resolve("ok"))).resolves.toBe(
+      "ok"
+    );
+  });
+
+  it("stops the retries of a policy once open", async () => {
+    const operation = vi.fn().mockRejectedValue(new HttpError("busy", 503));
+    const policy = new RetryPolicy({ ...OPTIONS, circuitBreakerThreshold: 2 });
+    const result = policy.execute(operation);
+    const assertion = expect(result).rejects.toThrow(CircuitOpenError);
+    await vi.runAllTimersAsync();
+    await assertion;
+    expect(operation).toHaveBeenCalledTimes(2);
+  });
+});
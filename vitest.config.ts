@@ -0,0 +1,9 @@
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  test: {
+    include: ["tests/**/*.test.ts"],
+    // Undo `vi.spyOn` stubs (such as silenced console.error) after each test.
+    restoreMocks: true,
+  },
+});